@@ -1,6 +1,6 @@
 /**
  * Review to Instruction - API Client
- * GitHub/GitLab REST API 클라이언트
+ * GitHub/GitLab/Bitbucket/Gitea/Azure DevOps REST API 클라이언트
  */
 
 import type { Platform, Repository, PRReviewData, ApiReviewComment, ApiReviewThread } from '../types';
@@ -8,7 +8,10 @@ import type { Platform, Repository, PRReviewData, ApiReviewComment, ApiReviewThr
 export interface ApiClientOptions {
   token: string;
   platform: Platform;
+  githubUrl?: string;  // GitHub Enterprise Server URL (선택)
   gitlabUrl?: string;  // Self-hosted GitLab URL (선택)
+  bitbucketUsername?: string;  // Bitbucket 사용자명 (App Password Basic 인증용)
+  giteaUrl?: string;  // Gitea/Forgejo 인스턴스 URL
 }
 
 export interface GitHubUser {
@@ -23,6 +26,52 @@ export interface GitLabUser {
   email: string;
 }
 
+export interface BitbucketUser {
+  username: string;
+  display_name: string;
+  account_id: string;
+}
+
+export interface AzureDevOpsProfile {
+  displayName: string;
+  emailAddress: string;
+  id: string;
+}
+
+export interface PullRequestInfo {
+  headBranch: string;
+  baseBranch: string;
+  title: string;
+  number: number;
+}
+
+export interface MergedPullRequest {
+  number: number;
+  title: string;
+  url: string;
+  baseBranch: string;
+  mergedAt: string;
+}
+
+/**
+ * 다중 파일 커밋 항목 (delete: 파일 삭제, content 무시)
+ */
+export interface CommitFile {
+  path: string;
+  content: string;
+  delete?: boolean;
+}
+
+/**
+ * PR/MR 생성 옵션 (저장소 설정의 라벨/리뷰어)
+ * - Bitbucket은 라벨이 없고 리뷰어에 계정 UUID가 필요하여 미지원
+ * - Azure DevOps는 라벨만 지원 (리뷰어는 identity ID 필요)
+ */
+export interface PullRequestOptions {
+  labels?: string[];
+  reviewers?: string[];  // 사용자명
+}
+
 export interface FileContent {
   path: string;
   content: string;  // Base64 encoded
@@ -35,18 +84,55 @@ export interface DirectoryItem {
   type: 'file' | 'dir';
 }
 
+/**
+ * GitHub REST API base URL
+ * github.com은 api.github.com, GitHub Enterprise Server는 {host}/api/v3
+ */
+export function getGitHubApiBaseUrl(githubUrl?: string): string {
+  if (!githubUrl) {
+    return 'https://api.github.com';
+  }
+
+  const cleanUrl = githubUrl.replace(/\/+$/, '');
+  const hostname = new URL(cleanUrl).hostname;
+  if (hostname === 'github.com' || hostname === 'api.github.com') {
+    return 'https://api.github.com';
+  }
+
+  // 이미 /api/v3까지 입력한 경우 그대로 사용
+  return cleanUrl.endsWith('/api/v3') ? cleanUrl : `${cleanUrl}/api/v3`;
+}
+
+// Azure DevOps REST API 버전 (모든 요청에 api-version 쿼리 필요)
+const AZURE_API_VERSION = '7.1';
+
+// 새 ref 생성 시 oldObjectId로 사용하는 빈 커밋 ID
+const AZURE_EMPTY_OBJECT_ID = '0000000000000000000000000000000000000000';
+
+// Base64 인코딩 시 String.fromCharCode에 한 번에 넘기는 바이트 수
+const BASE64_CHUNK_SIZE = 0x8000;
+
 export class ApiClient {
   private token: string;
   private platform: Platform;
   private baseUrl: string;
+  private bitbucketUsername?: string;
 
   constructor(options: ApiClientOptions) {
     this.token = options.token;
     this.platform = options.platform;
+    this.bitbucketUsername = options.bitbucketUsername;
 
-    // GitLab의 경우 사용자 지정 URL 또는 기본값 사용
+    // GitHub Enterprise/GitLab의 경우 사용자 지정 URL 또는 기본값 사용
     if (this.platform === 'github') {
-      this.baseUrl = 'https://api.github.com';
+      this.baseUrl = getGitHubApiBaseUrl(options.githubUrl);
+    } else if (this.platform === 'bitbucket') {
+      this.baseUrl = 'https://api.bitbucket.org/2.0';
+    } else if (this.platform === 'azure') {
+      this.baseUrl = 'https://dev.azure.com';
+    } else if (this.platform === 'gitea') {
+      const giteaBaseUrl = (options.giteaUrl || 'https://codeberg.org').replace(/\/$/, '');
+      this.baseUrl = `${giteaBaseUrl}/api/v1`;
     } else {
       const gitlabBaseUrl = options.gitlabUrl || 'https://gitlab.com';
       // URL 끝의 슬래시 제거
@@ -60,9 +146,16 @@ export class ApiClient {
    */
   async testConnection(): Promise<{ success: boolean; user?: string; error?: string }> {
     try {
-      if (this.platform === 'github') {
+      if (this.platform === 'github' || this.platform === 'gitea') {
+        // Gitea /user 응답도 login 필드를 사용
         const user = await this.getGitHubUser();
         return { success: true, user: user.login };
+      } else if (this.platform === 'bitbucket') {
+        const user = await this.getBitbucketUser();
+        return { success: true, user: user.username || user.display_name };
+      } else if (this.platform === 'azure') {
+        const profile = await this.getAzureProfile();
+        return { success: true, user: profile.displayName || profile.emailAddress };
       } else {
         const user = await this.getGitLabUser();
         return { success: true, user: user.username };
@@ -91,6 +184,25 @@ export class ApiClient {
     return response as GitLabUser;
   }
 
+  /**
+   * Bitbucket 사용자 정보 가져오기
+   */
+  private async getBitbucketUser(): Promise<BitbucketUser> {
+    const response = await this.fetch(`${this.baseUrl}/user`);
+    return response as BitbucketUser;
+  }
+
+  /**
+   * Azure DevOps 사용자 프로필 가져오기
+   * 조직 정보 없이 PAT만으로 확인할 수 있는 profile API 사용
+   */
+  private async getAzureProfile(): Promise<AzureDevOpsProfile> {
+    const response = await this.fetch(
+      `https://app.vssps.visualstudio.com/_apis/profile/profiles/me?api-version=${AZURE_API_VERSION}`
+    );
+    return response as AzureDevOpsProfile;
+  }
+
   /**
    * 디렉토리 내용 가져오기
    */
@@ -98,8 +210,13 @@ export class ApiClient {
     repository: Repository,
     path: string
   ): Promise<DirectoryItem[]> {
-    if (this.platform === 'github') {
+    // Gitea contents API는 GitHub와 같은 형식 (repos/{owner}/{repo}/contents)
+    if (this.platform === 'github' || this.platform === 'gitea') {
       return this.getGitHubDirectoryContents(repository, path);
+    } else if (this.platform === 'bitbucket') {
+      return this.getBitbucketDirectoryContents(repository, path);
+    } else if (this.platform === 'azure') {
+      return this.getAzureDirectoryContents(repository, path);
     } else {
       return this.getGitLabDirectoryContents(repository, path);
     }
@@ -160,6 +277,69 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Bitbucket 디렉토리 내용
+   * - GET /repositories/{workspace}/{repo}/src/{branch}/{path}/
+   */
+  private async getBitbucketDirectoryContents(
+    repository: Repository,
+    path: string
+  ): Promise<DirectoryItem[]> {
+    try {
+      const url = `${this.getBitbucketRepoUrl(repository)}/src/${encodeURIComponent(repository.branch)}/${path}/?pagelen=100`;
+      const items = await this.fetchAllPages<any>(url);
+
+      return items.map((item: any) => ({
+        name: String(item.path).split('/').pop() || item.path,
+        path: item.path,
+        type: item.type === 'commit_directory' ? 'dir' : 'file'
+      }));
+    } catch (error) {
+      // 404 (디렉토리가 없음)는 정상 - 빈 배열 반환
+      if (error instanceof Error && error.message.includes('404')) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Azure DevOps 디렉토리 내용
+   * - GET .../items?scopePath=/{path}&recursionLevel=OneLevel
+   */
+  private async getAzureDirectoryContents(
+    repository: Repository,
+    path: string
+  ): Promise<DirectoryItem[]> {
+    try {
+      const scopePath = `/${path}`;
+      const params = new URLSearchParams({
+        scopePath,
+        recursionLevel: 'OneLevel',
+        'versionDescriptor.version': repository.branch,
+        'versionDescriptor.versionType': 'branch',
+        'api-version': AZURE_API_VERSION
+      });
+      const response = await this.fetch(`${this.getAzureRepoUrl(repository)}/items?${params}`);
+      const items: any[] = response?.value || [];
+
+      return items
+        // 첫 항목은 조회한 디렉토리 자신
+        .filter((item: any) => item.path !== scopePath)
+        .map((item: any) => ({
+          name: String(item.path).split('/').pop() || item.path,
+          path: String(item.path).replace(/^\//, ''),
+          type: item.isFolder ? 'dir' : 'file'
+        }));
+    } catch (error) {
+      // 404 (디렉토리가 없음)는 정상 - 빈 배열 반환
+      if (error instanceof Error && error.message.includes('404')) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
   /**
    * 파일 내용 가져오기
    */
@@ -168,8 +348,12 @@ export class ApiClient {
     path: string
   ): Promise<FileContent | null> {
     try {
-      if (this.platform === 'github') {
+      if (this.platform === 'github' || this.platform === 'gitea') {
         return this.getGitHubFileContent(repository, path);
+      } else if (this.platform === 'bitbucket') {
+        return this.getBitbucketFileContent(repository, path);
+      } else if (this.platform === 'azure') {
+        return this.getAzureFileContent(repository, path, repository.branch);
       } else {
         return this.getGitLabFileContent(repository, path);
       }
@@ -213,6 +397,48 @@ export class ApiClient {
     };
   }
 
+  /**
+   * Bitbucket 파일 내용
+   * src 엔드포인트는 raw 텍스트를 반환하므로 다른 플랫폼과 맞추기 위해 Base64로 인코딩
+   */
+  private async getBitbucketFileContent(
+    repository: Repository,
+    path: string
+  ): Promise<FileContent> {
+    const url = `${this.getBitbucketRepoUrl(repository)}/src/${encodeURIComponent(repository.branch)}/${path}`;
+    const raw = await this.fetchText(url);
+
+    return {
+      path,
+      content: this.encodeBase64(raw)
+    };
+  }
+
+  /**
+   * Azure DevOps 파일 내용
+   * items API의 content는 raw 텍스트이므로 다른 플랫폼과 맞추기 위해 Base64로 인코딩
+   */
+  private async getAzureFileContent(
+    repository: Repository,
+    path: string,
+    branch: string
+  ): Promise<FileContent> {
+    const params = new URLSearchParams({
+      path: `/${path}`,
+      includeContent: 'true',
+      'versionDescriptor.version': branch,
+      'versionDescriptor.versionType': 'branch',
+      'api-version': AZURE_API_VERSION
+    });
+    const response = await this.fetch(`${this.getAzureRepoUrl(repository)}/items?${params}`);
+
+    return {
+      path,
+      content: this.encodeBase64(response.content || ''),
+      sha: response.objectId
+    };
+  }
+
   /**
    * 파일 생성 또는 업데이트
    */
@@ -228,6 +454,12 @@ export class ApiClient {
     try {
       if (this.platform === 'github') {
         await this.createOrUpdateGitHubFile(repository, path, content, message, branch, sha);
+      } else if (this.platform === 'bitbucket') {
+        await this.commitBitbucketFiles(repository, [{ path, content }], message, branch);
+      } else if (this.platform === 'gitea') {
+        await this.commitGiteaFiles(repository, [{ path, content }], message, branch, baseBranch);
+      } else if (this.platform === 'azure') {
+        await this.pushAzureFiles(repository, [{ path, content }], message, branch);
       } else {
         await this.createOrUpdateGitLabFile(repository, path, content, message, branch, baseBranch);
       }
@@ -241,11 +473,11 @@ export class ApiClient {
   }
 
   /**
-   * 여러 파일을 하나의 커밋으로 생성 또는 업데이트
+   * 여러 파일을 하나의 커밋으로 생성, 업데이트 또는 삭제
    */
   async createOrUpdateMultipleFiles(
     repository: Repository,
-    files: Array<{ path: string; content: string }>,
+    files: CommitFile[],
     message: string,
     branch: string,
     baseBranch?: string
@@ -253,6 +485,12 @@ export class ApiClient {
     try {
       if (this.platform === 'github') {
         await this.createOrUpdateGitHubMultipleFiles(repository, files, message, branch);
+      } else if (this.platform === 'bitbucket') {
+        await this.commitBitbucketFiles(repository, files, message, branch);
+      } else if (this.platform === 'gitea') {
+        await this.commitGiteaFiles(repository, files, message, branch, baseBranch);
+      } else if (this.platform === 'azure') {
+        await this.pushAzureFiles(repository, files, message, branch);
       } else {
         await this.createOrUpdateGitLabMultipleFiles(repository, files, message, branch, baseBranch);
       }
@@ -279,8 +517,7 @@ export class ApiClient {
 
     const body: any = {
       message,
-      // UTF-8 to Base64 (unescape는 deprecated, TextEncoder 사용)
-      content: btoa(String.fromCharCode(...new TextEncoder().encode(content))),
+      content: this.encodeBase64(content),
       branch
     };
 
@@ -359,7 +596,7 @@ export class ApiClient {
    */
   private async createOrUpdateGitHubMultipleFiles(
     repository: Repository,
-    files: Array<{ path: string; content: string }>,
+    files: CommitFile[],
     message: string,
     branch: string
   ): Promise<void> {
@@ -375,11 +612,12 @@ export class ApiClient {
 
     // 3. 새 트리 생성 (여러 파일 포함)
     const treeUrl = `${this.baseUrl}/repos/${repository.owner}/${repository.name}/git/trees`;
+    // sha: null은 base_tree에서 파일 삭제
     const tree = files.map(file => ({
       path: file.path,
       mode: '100644',  // 일반 파일
       type: 'blob',
-      content: file.content
+      ...(file.delete ? { sha: null } : { content: file.content })
     }));
 
     const treeResponse = await this.fetch(treeUrl, {
@@ -416,7 +654,7 @@ export class ApiClient {
    */
   private async createOrUpdateGitLabMultipleFiles(
     repository: Repository,
-    files: Array<{ path: string; content: string }>,
+    files: CommitFile[],
     message: string,
     branch: string,
     baseBranch?: string
@@ -426,6 +664,10 @@ export class ApiClient {
     // 각 파일이 존재하는지 확인하여 action 결정
     const actions = await Promise.all(
       files.map(async (file) => {
+        if (file.delete) {
+          return { action: 'delete', file_path: file.path };
+        }
+
         const filePath = encodeURIComponent(file.path);
         let exists = false;
 
@@ -470,6 +712,146 @@ export class ApiClient {
     });
   }
 
+  /**
+   * Bitbucket 파일 커밋 (하나의 커밋으로)
+   * - POST /repositories/{workspace}/{repo}/src (form-data, 필드명 = 파일 경로)
+   * Bitbucket은 create/update 구분이 없으므로 존재 여부 확인이 필요 없음
+   */
+  private async commitBitbucketFiles(
+    repository: Repository,
+    files: CommitFile[],
+    message: string,
+    branch: string
+  ): Promise<void> {
+    const form = new FormData();
+    form.append('message', message);
+    form.append('branch', branch);
+
+    // 삭제할 파일은 files 필드에 경로로 지정
+    for (const file of files) {
+      if (file.delete) {
+        form.append('files', file.path);
+      } else {
+        form.append(file.path, file.content);
+      }
+    }
+
+    await this.fetch(`${this.getBitbucketRepoUrl(repository)}/src`, {
+      method: 'POST',
+      body: form
+    });
+  }
+
+  /**
+   * Gitea 파일 커밋 (하나의 커밋으로)
+   * - POST /repos/{owner}/{repo}/contents (ChangeFiles API, Gitea 1.20+ / Forgejo)
+   * update operation은 기존 파일의 sha가 필요하므로 먼저 조회
+   */
+  private async commitGiteaFiles(
+    repository: Repository,
+    files: CommitFile[],
+    message: string,
+    branch: string,
+    baseBranch?: string
+  ): Promise<void> {
+    // 새로 생성된 브랜치는 base 브랜치와 내용이 같으므로 base 브랜치에서 확인
+    const ref = baseBranch && baseBranch !== branch ? baseBranch : branch;
+
+    const changes = await Promise.all(
+      files.map(async (file) => {
+        let sha: string | undefined;
+
+        try {
+          const existing = await this.fetch(
+            `${this.baseUrl}/repos/${repository.owner}/${repository.name}/contents/${file.path}?ref=${encodeURIComponent(ref)}`
+          );
+          sha = existing?.sha;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          if (!errorMessage.includes('404')) {
+            throw error;
+          }
+          // 404는 파일이 없음을 의미 (정상)
+        }
+
+        if (file.delete) {
+          // 없는 파일은 삭제할 필요 없음
+          return sha ? { operation: 'delete', path: file.path, sha } : null;
+        }
+
+        return {
+          operation: sha ? 'update' : 'create',
+          path: file.path,
+          content: this.encodeBase64(file.content),
+          ...(sha ? { sha } : {})
+        };
+      })
+    );
+
+    await this.fetch(`${this.baseUrl}/repos/${repository.owner}/${repository.name}/contents`, {
+      method: 'POST',
+      body: JSON.stringify({
+        branch,
+        message,
+        files: changes.filter(change => change !== null)
+      })
+    });
+  }
+
+  /**
+   * Azure DevOps 파일 커밋 (하나의 push로)
+   * - POST .../pushes (refUpdates + commits[].changes)
+   * 브랜치 ref가 oldObjectId와 다르면 push 전체가 거부되므로 원자적으로 커밋됨
+   */
+  private async pushAzureFiles(
+    repository: Repository,
+    files: CommitFile[],
+    message: string,
+    branch: string
+  ): Promise<void> {
+    // 1. 브랜치의 최신 커밋 ID
+    const oldObjectId = await this.getAzureBranchObjectId(repository, branch);
+
+    // 2. 각 파일이 존재하는지 확인하여 changeType 결정
+    const changes = await Promise.all(
+      files.map(async (file) => {
+        let exists = false;
+
+        try {
+          await this.getAzureFileContent(repository, file.path, branch);
+          exists = true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          if (!errorMessage.includes('404')) {
+            // 404가 아닌 다른 에러는 재발생
+            throw error;
+          }
+          // 404는 파일이 없음을 의미 (정상)
+        }
+
+        if (file.delete) {
+          // 없는 파일은 삭제할 필요 없음
+          return exists ? { changeType: 'delete', item: { path: `/${file.path}` } } : null;
+        }
+
+        return {
+          changeType: exists ? 'edit' : 'add',
+          item: { path: `/${file.path}` },
+          newContent: { content: file.content, contentType: 'rawtext' }
+        };
+      })
+    );
+
+    // 3. Pushes API로 한 번에 커밋
+    await this.fetch(`${this.getAzureRepoUrl(repository)}/pushes?api-version=${AZURE_API_VERSION}`, {
+      method: 'POST',
+      body: JSON.stringify({
+        refUpdates: [{ name: `refs/heads/${branch}`, oldObjectId }],
+        commits: [{ comment: message, changes: changes.filter(change => change !== null) }]
+      })
+    });
+  }
+
   /**
    * 브랜치 생성
    */
@@ -481,6 +863,12 @@ export class ApiClient {
     try {
       if (this.platform === 'github') {
         await this.createGitHubBranch(repository, branchName, fromBranch);
+      } else if (this.platform === 'bitbucket') {
+        await this.createBitbucketBranch(repository, branchName, fromBranch);
+      } else if (this.platform === 'gitea') {
+        await this.createGiteaBranch(repository, branchName, fromBranch);
+      } else if (this.platform === 'azure') {
+        await this.createAzureBranch(repository, branchName, fromBranch);
       } else {
         await this.createGitLabBranch(repository, branchName, fromBranch);
       }
@@ -544,6 +932,101 @@ export class ApiClient {
     });
   }
 
+  /**
+   * Bitbucket 브랜치 생성
+   */
+  private async createBitbucketBranch(
+    repository: Repository,
+    branchName: string,
+    fromBranch: string
+  ): Promise<void> {
+    const branchesUrl = `${this.getBitbucketRepoUrl(repository)}/refs/branches`;
+
+    // 1. 기준 브랜치의 커밋 해시 가져오기
+    let fromResponse;
+    try {
+      fromResponse = await this.fetch(`${branchesUrl}/${encodeURIComponent(fromBranch)}`);
+    } catch (refError) {
+      throw new Error(`Base branch '${fromBranch}' not found. Please check if this branch exists in the repository.`);
+    }
+
+    // 2. 새 브랜치 생성
+    await this.fetch(branchesUrl, {
+      method: 'POST',
+      body: JSON.stringify({
+        name: branchName,
+        target: { hash: fromResponse.target.hash }
+      })
+    });
+  }
+
+  /**
+   * Gitea 브랜치 생성
+   */
+  private async createGiteaBranch(
+    repository: Repository,
+    branchName: string,
+    fromBranch: string
+  ): Promise<void> {
+    const url = `${this.baseUrl}/repos/${repository.owner}/${repository.name}/branches`;
+
+    await this.fetch(url, {
+      method: 'POST',
+      body: JSON.stringify({
+        new_branch_name: branchName,
+        old_branch_name: fromBranch
+      })
+    });
+  }
+
+  /**
+   * Azure DevOps 브랜치 생성
+   * - POST .../refs (oldObjectId가 빈 커밋 ID이면 새 ref 생성)
+   */
+  private async createAzureBranch(
+    repository: Repository,
+    branchName: string,
+    fromBranch: string
+  ): Promise<void> {
+    // 1. 기준 브랜치의 커밋 ID 가져오기
+    const newObjectId = await this.getAzureBranchObjectId(repository, fromBranch);
+
+    // 2. 새 브랜치 생성
+    const response = await this.fetch(`${this.getAzureRepoUrl(repository)}/refs?api-version=${AZURE_API_VERSION}`, {
+      method: 'POST',
+      body: JSON.stringify([{
+        name: `refs/heads/${branchName}`,
+        oldObjectId: AZURE_EMPTY_OBJECT_ID,
+        newObjectId
+      }])
+    });
+
+    // refs API는 실패해도 200으로 응답하고 결과별 success 필드로 알려줌
+    const result = response?.value?.[0];
+    if (result && !result.success) {
+      throw new Error(`Failed to create branch '${branchName}': ${result.updateStatus}`);
+    }
+  }
+
+  /**
+   * Azure DevOps 브랜치의 최신 커밋 ID 조회
+   */
+  private async getAzureBranchObjectId(repository: Repository, branch: string): Promise<string> {
+    const params = new URLSearchParams({
+      filter: `heads/${branch}`,
+      'api-version': AZURE_API_VERSION
+    });
+    const response = await this.fetch(`${this.getAzureRepoUrl(repository)}/refs?${params}`);
+
+    // filter는 prefix 매칭이므로 정확히 일치하는 ref만 사용
+    const ref = (response?.value || []).find((r: any) => r.name === `refs/heads/${branch}`);
+    if (!ref) {
+      throw new Error(`Base branch '${branch}' not found. Please check if this branch exists in the repository.`);
+    }
+
+    return ref.objectId;
+  }
+
   /**
    * PR/MR 생성
    */
@@ -552,14 +1035,25 @@ export class ApiClient {
     title: string,
     body: string,
     headBranch: string,
-    baseBranch: string
+    baseBranch: string,
+    options: PullRequestOptions = {}
   ): Promise<{ success: boolean; url?: string; error?: string }> {
     try {
-      if (this.platform === 'github') {
-        const url = await this.createGitHubPR(repository, title, body, headBranch, baseBranch);
+      // Gitea pulls API는 GitHub와 같은 요청/응답 형식 (title/body/head/base → html_url)
+      if (this.platform === 'github' || this.platform === 'gitea') {
+        const url = await this.createGitHubPR(repository, title, body, headBranch, baseBranch, options);
+        return { success: true, url };
+      } else if (this.platform === 'bitbucket') {
+        if (options.labels?.length || options.reviewers?.length) {
+          console.warn('[ApiClient] Bitbucket does not support PR labels/reviewers by username, skipping');
+        }
+        const url = await this.createBitbucketPR(repository, title, body, headBranch, baseBranch);
+        return { success: true, url };
+      } else if (this.platform === 'azure') {
+        const url = await this.createAzurePR(repository, title, body, headBranch, baseBranch, options);
         return { success: true, url };
       } else {
-        const url = await this.createGitLabMR(repository, title, body, headBranch, baseBranch);
+        const url = await this.createGitLabMR(repository, title, body, headBranch, baseBranch, options);
         return { success: true, url };
       }
     } catch (error) {
@@ -578,10 +1072,11 @@ export class ApiClient {
     title: string,
     body: string,
     head: string,
-    base: string
+    base: string,
+    options: PullRequestOptions = {}
   ): Promise<string> {
-    const url = `${this.baseUrl}/repos/${repository.owner}/${repository.name}/pulls`;
-    const response = await this.fetch(url, {
+    const repoUrl = `${this.baseUrl}/repos/${repository.owner}/${repository.name}`;
+    const response = await this.fetch(`${repoUrl}/pulls`, {
       method: 'POST',
       body: JSON.stringify({
         title,
@@ -591,9 +1086,44 @@ export class ApiClient {
       })
     });
 
+    // 라벨/리뷰어는 PR 생성 후 별도 요청 (실패해도 PR은 유지)
+    if (options.labels?.length) {
+      try {
+        // Gitea는 라벨 이름 대신 ID 필요
+        const labels = this.platform === 'gitea'
+          ? await this.getGiteaLabelIds(repoUrl, options.labels)
+          : options.labels;
+        await this.fetch(`${repoUrl}/issues/${response.number}/labels`, {
+          method: 'POST',
+          body: JSON.stringify({ labels })
+        });
+      } catch (error) {
+        console.warn('[ApiClient] Failed to add PR labels', error);
+      }
+    }
+
+    if (options.reviewers?.length) {
+      try {
+        await this.fetch(`${repoUrl}/pulls/${response.number}/requested_reviewers`, {
+          method: 'POST',
+          body: JSON.stringify({ reviewers: options.reviewers })
+        });
+      } catch (error) {
+        console.warn('[ApiClient] Failed to request PR reviewers', error);
+      }
+    }
+
     return response.html_url;
   }
 
+  /**
+   * Gitea 라벨 이름 → ID (저장소에 없는 라벨은 제외)
+   */
+  private async getGiteaLabelIds(repoUrl: string, names: string[]): Promise<number[]> {
+    const labels = await this.fetchAllPages<{ id: number; name: string }>(`${repoUrl}/labels`);
+    return labels.filter(label => names.includes(label.name)).map(label => label.id);
+  }
+
   /**
    * GitLab MR 생성
    */
@@ -602,17 +1132,23 @@ export class ApiClient {
     title: string,
     description: string,
     sourceBranch: string,
-    targetBranch: string
+    targetBranch: string,
+    options: PullRequestOptions = {}
   ): Promise<string> {
     const projectPath = encodeURIComponent(`${repository.owner}/${repository.name}`);
     const url = `${this.baseUrl}/projects/${projectPath}/merge_requests`;
+    const reviewerIds = options.reviewers?.length
+      ? await this.getGitLabUserIds(options.reviewers)
+      : [];
     const response = await this.fetch(url, {
       method: 'POST',
       body: JSON.stringify({
         title,
         description,
         source_branch: sourceBranch,
-        target_branch: targetBranch
+        target_branch: targetBranch,
+        ...(options.labels?.length ? { labels: options.labels.join(',') } : {}),
+        ...(reviewerIds.length ? { reviewer_ids: reviewerIds } : {})
       })
     });
 
@@ -620,15 +1156,103 @@ export class ApiClient {
   }
 
   /**
-   * 브랜치로 기존 PR/MR 찾기
+   * GitLab 사용자명 → 사용자 ID (찾지 못한 사용자는 제외)
    */
-  async findPullRequestByBranch(
+  private async getGitLabUserIds(usernames: string[]): Promise<number[]> {
+    const ids: number[] = [];
+
+    for (const username of usernames) {
+      try {
+        const users = await this.fetch(`${this.baseUrl}/users?username=${encodeURIComponent(username)}`);
+        if (Array.isArray(users) && users[0]?.id) {
+          ids.push(users[0].id);
+        }
+      } catch (error) {
+        console.warn(`[ApiClient] Failed to resolve GitLab user: ${username}`, error);
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * Bitbucket PR 생성
+   */
+  private async createBitbucketPR(
+    repository: Repository,
+    title: string,
+    description: string,
+    sourceBranch: string,
+    destinationBranch: string
+  ): Promise<string> {
+    const url = `${this.getBitbucketRepoUrl(repository)}/pullrequests`;
+    const response = await this.fetch(url, {
+      method: 'POST',
+      body: JSON.stringify({
+        title,
+        description,
+        source: { branch: { name: sourceBranch } },
+        destination: { branch: { name: destinationBranch } }
+      })
+    });
+
+    return response.links?.html?.href;
+  }
+
+  /**
+   * Azure DevOps PR 생성
+   * PR description은 최대 4000자까지 허용되므로 초과분은 잘라냄
+   */
+  private async createAzurePR(
+    repository: Repository,
+    title: string,
+    description: string,
+    sourceBranch: string,
+    targetBranch: string,
+    options: PullRequestOptions = {}
+  ): Promise<string> {
+    const url = `${this.getAzureRepoUrl(repository)}/pullrequests?api-version=${AZURE_API_VERSION}`;
+    const response = await this.fetch(url, {
+      method: 'POST',
+      body: JSON.stringify({
+        title,
+        description: description.slice(0, 4000),
+        sourceRefName: `refs/heads/${sourceBranch}`,
+        targetRefName: `refs/heads/${targetBranch}`
+      })
+    });
+
+    // 라벨은 PR 생성 후 하나씩 추가 (실패해도 PR은 유지)
+    for (const name of options.labels ?? []) {
+      try {
+        await this.fetch(
+          `${this.getAzureRepoUrl(repository)}/pullrequests/${response.pullRequestId}/labels?api-version=${AZURE_API_VERSION}`,
+          { method: 'POST', body: JSON.stringify({ name }) }
+        );
+      } catch (error) {
+        console.warn(`[ApiClient] Failed to add PR label: ${name}`, error);
+      }
+    }
+
+    return this.getAzurePRWebUrl(response);
+  }
+
+  /**
+   * 브랜치로 기존 PR/MR 찾기
+   */
+  async findPullRequestByBranch(
     repository: Repository,
     branchName: string
   ): Promise<{ url: string; number: number } | null> {
     try {
       if (this.platform === 'github') {
         return await this.findGitHubPR(repository, branchName);
+      } else if (this.platform === 'bitbucket') {
+        return await this.findBitbucketPR(repository, branchName);
+      } else if (this.platform === 'gitea') {
+        return await this.findGiteaPR(repository, branchName);
+      } else if (this.platform === 'azure') {
+        return await this.findAzurePR(repository, branchName);
       } else {
         return await this.findGitLabMR(repository, branchName);
       }
@@ -681,12 +1305,198 @@ export class ApiClient {
     return null;
   }
 
+  /**
+   * Bitbucket에서 브랜치로 PR 찾기
+   */
+  private async findBitbucketPR(
+    repository: Repository,
+    branchName: string
+  ): Promise<{ url: string; number: number } | null> {
+    const query = encodeURIComponent(`source.branch.name="${branchName}" AND state="OPEN"`);
+    const url = `${this.getBitbucketRepoUrl(repository)}/pullrequests?q=${query}`;
+    const response = await this.fetch(url);
+
+    const values: any[] = response?.values || [];
+    if (values.length > 0) {
+      const pr = values[0];
+      return {
+        url: pr.links?.html?.href,
+        number: pr.id
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Gitea에서 브랜치로 PR 찾기
+   * Gitea는 head 필터를 지원하지 않으므로 열린 PR 목록에서 직접 비교
+   */
+  private async findGiteaPR(
+    repository: Repository,
+    branchName: string
+  ): Promise<{ url: string; number: number } | null> {
+    const pulls = await this.fetchAllPages<any>(
+      `${this.baseUrl}/repos/${repository.owner}/${repository.name}/pulls?state=open&limit=50`
+    );
+
+    const pr = pulls.find((p: any) => p.head?.ref === branchName);
+    if (pr) {
+      return {
+        url: pr.html_url,
+        number: pr.number
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Azure DevOps에서 브랜치로 PR 찾기
+   */
+  private async findAzurePR(
+    repository: Repository,
+    branchName: string
+  ): Promise<{ url: string; number: number } | null> {
+    const params = new URLSearchParams({
+      'searchCriteria.sourceRefName': `refs/heads/${branchName}`,
+      'searchCriteria.status': 'active',
+      'api-version': AZURE_API_VERSION
+    });
+    const response = await this.fetch(`${this.getAzureRepoUrl(repository)}/pullrequests?${params}`);
+
+    const values: any[] = response?.value || [];
+    if (values.length > 0) {
+      const pr = values[0];
+      return {
+        url: this.getAzurePRWebUrl(pr),
+        number: pr.pullRequestId
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * PR/MR의 head/base 브랜치 정보 조회
+   */
+  async getPullRequestInfo(repository: Repository): Promise<PullRequestInfo> {
+    const { owner, name, prNumber } = repository;
+
+    if (this.platform === 'github' || this.platform === 'gitea') {
+      const pr = await this.fetch(`${this.baseUrl}/repos/${owner}/${name}/pulls/${prNumber}`);
+      return { headBranch: pr.head.ref, baseBranch: pr.base.ref, title: pr.title, number: pr.number };
+    } else if (this.platform === 'bitbucket') {
+      const pr = await this.fetch(`${this.getBitbucketRepoUrl(repository)}/pullrequests/${prNumber}`);
+      return {
+        headBranch: pr.source.branch.name,
+        baseBranch: pr.destination.branch.name,
+        title: pr.title,
+        number: pr.id
+      };
+    } else if (this.platform === 'azure') {
+      const pr = await this.fetch(
+        `${this.getAzureRepoUrl(repository)}/pullrequests/${prNumber}?api-version=${AZURE_API_VERSION}`
+      );
+      return {
+        headBranch: String(pr.sourceRefName).replace(/^refs\/heads\//, ''),
+        baseBranch: String(pr.targetRefName).replace(/^refs\/heads\//, ''),
+        title: pr.title,
+        number: pr.pullRequestId
+      };
+    } else {
+      const projectPath = encodeURIComponent(`${owner}/${name}`);
+      const mr = await this.fetch(`${this.baseUrl}/projects/${projectPath}/merge_requests/${prNumber}`);
+      return { headBranch: mr.source_branch, baseBranch: mr.target_branch, title: mr.title, number: mr.iid };
+    }
+  }
+
+  /**
+   * 최근 머지된 PR/MR 목록 (최신순, 최대 limit개)
+   * - GitHub/Gitea는 closed 목록에서 머지된 것만, Azure DevOps는 completed 상태
+   */
+  async listMergedPullRequests(repository: Repository, limit: number): Promise<MergedPullRequest[]> {
+    const { owner, name } = repository;
+
+    if (this.platform === 'github') {
+      const pulls = await this.fetchAllPages<any>(
+        `${this.baseUrl}/repos/${owner}/${name}/pulls?state=closed&sort=updated&direction=desc&per_page=100`,
+        { maxItems: limit, filter: (pr) => !!pr.merged_at }
+      );
+      return pulls.map((pr: any) => ({
+        number: pr.number,
+        title: pr.title,
+        url: pr.html_url,
+        baseBranch: pr.base.ref,
+        mergedAt: pr.merged_at
+      }));
+    } else if (this.platform === 'gitea') {
+      const pulls = await this.fetchAllPages<any>(
+        `${this.baseUrl}/repos/${owner}/${name}/pulls?state=closed&sort=recentupdate&limit=50`,
+        { maxItems: limit, filter: (pr) => !!pr.merged }
+      );
+      return pulls.map((pr: any) => ({
+        number: pr.number,
+        title: pr.title,
+        url: pr.html_url,
+        baseBranch: pr.base.ref,
+        mergedAt: pr.merged_at
+      }));
+    } else if (this.platform === 'bitbucket') {
+      const pulls = await this.fetchAllPages<any>(
+        `${this.getBitbucketRepoUrl(repository)}/pullrequests?state=MERGED&sort=-updated_on&pagelen=50`,
+        { maxItems: limit }
+      );
+      return pulls.map((pr: any) => ({
+        number: pr.id,
+        title: pr.title,
+        url: pr.links?.html?.href,
+        baseBranch: pr.destination.branch.name,
+        mergedAt: pr.updated_on
+      }));
+    } else if (this.platform === 'azure') {
+      // Azure DevOps는 Link 헤더 대신 $top으로 개수 지정
+      const params = new URLSearchParams({
+        'searchCriteria.status': 'completed',
+        '$top': String(limit),
+        'api-version': AZURE_API_VERSION
+      });
+      const response = await this.fetch(`${this.getAzureRepoUrl(repository)}/pullrequests?${params}`);
+      return (response?.value || []).map((pr: any) => ({
+        number: pr.pullRequestId,
+        title: pr.title,
+        url: this.getAzurePRWebUrl(pr),
+        baseBranch: String(pr.targetRefName).replace(/^refs\/heads\//, ''),
+        mergedAt: pr.closedDate
+      }));
+    } else {
+      const projectPath = encodeURIComponent(`${owner}/${name}`);
+      const mrs = await this.fetchAllPages<any>(
+        `${this.baseUrl}/projects/${projectPath}/merge_requests?state=merged&order_by=updated_at&sort=desc&per_page=100`,
+        { maxItems: limit }
+      );
+      return mrs.map((mr: any) => ({
+        number: mr.iid,
+        title: mr.title,
+        url: mr.web_url,
+        baseBranch: mr.target_branch,
+        mergedAt: mr.merged_at
+      }));
+    }
+  }
+
   /**
    * PR/MR 리뷰 데이터 조회 (스레드 + 일반 코멘트)
    */
   async getReviewData(repository: Repository): Promise<PRReviewData> {
     if (this.platform === 'github') {
       return this.getGitHubReviewData(repository);
+    } else if (this.platform === 'bitbucket') {
+      return this.getBitbucketReviewData(repository);
+    } else if (this.platform === 'gitea') {
+      return this.getGiteaReviewData(repository);
+    } else if (this.platform === 'azure') {
+      return this.getAzureReviewData(repository);
     } else {
       return this.getGitLabReviewData(repository);
     }
@@ -823,22 +1633,240 @@ export class ApiClient {
     return { threads, generalComments, totalCommentCount };
   }
 
+  /**
+   * Bitbucket PR 리뷰 데이터 조회
+   * - GET /repositories/{workspace}/{repo}/pullrequests/{id}/comments
+   * 인라인 코멘트(inline 필드 존재)는 parent 체인의 루트 기준으로 스레드를 구성
+   */
+  private async getBitbucketReviewData(repository: Repository): Promise<PRReviewData> {
+    const rawComments = await this.fetchAllPages<any>(
+      `${this.getBitbucketRepoUrl(repository)}/pullrequests/${repository.prNumber}/comments?pagelen=100`
+    );
+
+    // 삭제된 코멘트 제외
+    const comments = rawComments.filter((c: any) => !c.deleted);
+    const byId = new Map<number, any>(comments.map((c: any) => [c.id, c]));
+
+    // 답글의 답글도 최상위 코멘트로 묶기 위해 parent 체인을 끝까지 추적
+    const findRootId = (c: any): number => {
+      let current = c;
+      const visited = new Set<number>();
+      while (current.parent?.id && byId.has(current.parent.id) && !visited.has(current.id)) {
+        visited.add(current.id);
+        current = byId.get(current.parent.id);
+      }
+      return current.id;
+    };
+
+    const threadMap = new Map<number, ApiReviewComment[]>();
+    for (const c of comments) {
+      const rootId = findRootId(c);
+      const root = byId.get(rootId);
+      const comment: ApiReviewComment = {
+        id: c.id,
+        body: c.content?.raw || '',
+        author: c.user?.nickname || c.user?.display_name || 'Unknown',
+        path: root.inline?.path,
+        line: root.inline?.to ?? root.inline?.from ?? undefined,
+        createdAt: c.created_on || new Date().toISOString(),
+        inReplyToId: c.parent?.id
+      };
+
+      const existing = threadMap.get(rootId) || [];
+      existing.push(comment);
+      threadMap.set(rootId, existing);
+    }
+
+    const threads: ApiReviewThread[] = [];
+    const generalComments: ApiReviewComment[] = [];
+
+    for (const [rootId, threadComments] of threadMap) {
+      threadComments.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+      const first = threadComments[0];
+
+      if (first.path) {
+        threads.push({
+          id: String(rootId),
+          comments: threadComments,
+          path: first.path,
+          line: first.line
+        });
+      } else {
+        generalComments.push(...threadComments);
+      }
+    }
+
+    return { threads, generalComments, totalCommentCount: comments.length };
+  }
+
+  /**
+   * Gitea PR 리뷰 데이터 조회
+   * - GET /repos/{owner}/{repo}/pulls/{index}/reviews (리뷰 목록)
+   * - GET /repos/{owner}/{repo}/pulls/{index}/reviews/{id}/comments (리뷰별 코드 코멘트)
+   * - GET /repos/{owner}/{repo}/issues/{index}/comments (일반 코멘트)
+   * Gitea 코드 코멘트는 답글 연결 필드가 없어 같은 파일/라인의 코멘트를 하나의 대화로 묶음
+   */
+  private async getGiteaReviewData(repository: Repository): Promise<PRReviewData> {
+    const { owner, name, prNumber } = repository;
+    const repoUrl = `${this.baseUrl}/repos/${owner}/${name}`;
+
+    // 1. 리뷰 목록 → 리뷰별 코드 코멘트 조회
+    const reviews = await this.fetchAllPages<any>(`${repoUrl}/pulls/${prNumber}/reviews?limit=50`);
+    const reviewComments: any[] = [];
+    for (const review of reviews) {
+      if (!review.comments_count) continue;
+      const comments = await this.fetch(`${repoUrl}/pulls/${prNumber}/reviews/${review.id}/comments`);
+      if (Array.isArray(comments)) {
+        reviewComments.push(...comments);
+      }
+    }
+
+    // 2. 일반 PR 코멘트 조회
+    const issueComments = await this.fetchAllPages<any>(`${repoUrl}/issues/${prNumber}/comments?limit=50`);
+
+    // 3. 파일 경로 + 라인 기준으로 대화 그룹화
+    const threadMap = new Map<string, ApiReviewComment[]>();
+    for (const c of reviewComments) {
+      const line = c.position || c.original_position || undefined;
+      const comment: ApiReviewComment = {
+        id: c.id,
+        body: c.body || '',
+        author: c.user?.login || 'Unknown',
+        path: c.path,
+        line,
+        diffHunk: c.diff_hunk,
+        createdAt: c.created_at || new Date().toISOString()
+      };
+
+      const key = `${c.path}:${line ?? ''}`;
+      const existing = threadMap.get(key) || [];
+      existing.push(comment);
+      threadMap.set(key, existing);
+    }
+
+    const threads: ApiReviewThread[] = [];
+    for (const threadComments of threadMap.values()) {
+      threadComments.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+      const first = threadComments[0];
+      threads.push({
+        id: String(first.id),
+        comments: threadComments,
+        path: first.path,
+        line: first.line,
+        diffHunk: first.diffHunk
+      });
+    }
+
+    // 4. 일반 코멘트 변환
+    const generalComments: ApiReviewComment[] = issueComments.map((c: any) => ({
+      id: c.id,
+      body: c.body || '',
+      author: c.user?.login || 'Unknown',
+      createdAt: c.created_at || new Date().toISOString()
+    }));
+
+    const totalCommentCount = reviewComments.length + issueComments.length;
+
+    return { threads, generalComments, totalCommentCount };
+  }
+
+  /**
+   * Azure DevOps PR 리뷰 데이터 조회
+   * - GET .../pullRequests/{id}/threads
+   * threadContext(파일 경로)가 있는 스레드는 인라인 리뷰, 없으면 일반 코멘트로 분류
+   */
+  private async getAzureReviewData(repository: Repository): Promise<PRReviewData> {
+    const response = await this.fetch(
+      `${this.getAzureRepoUrl(repository)}/pullRequests/${repository.prNumber}/threads?api-version=${AZURE_API_VERSION}`
+    );
+    const rawThreads: any[] = response?.value || [];
+
+    const threads: ApiReviewThread[] = [];
+    const generalComments: ApiReviewComment[] = [];
+    let totalCommentCount = 0;
+
+    for (const thread of rawThreads) {
+      if (thread.isDeleted) continue;
+
+      // 시스템 코멘트(투표, 업데이트 알림 등)와 삭제된 코멘트 제외
+      const userComments = (thread.comments || []).filter(
+        (c: any) => !c.isDeleted && c.commentType !== 'system'
+      );
+      if (userComments.length === 0) continue;
+
+      totalCommentCount += userComments.length;
+
+      const context = thread.threadContext;
+      const path = context?.filePath ? String(context.filePath).replace(/^\//, '') : undefined;
+      const line = context?.rightFileStart?.line ?? context?.leftFileStart?.line;
+
+      const apiComments: ApiReviewComment[] = userComments.map((c: any) => ({
+        id: c.id,
+        body: c.content || '',
+        author: c.author?.displayName || c.author?.uniqueName || 'Unknown',
+        path,
+        line,
+        createdAt: c.publishedDate || new Date().toISOString(),
+        inReplyToId: c.parentCommentId || undefined
+      }));
+
+      if (path) {
+        threads.push({
+          id: String(thread.id),
+          comments: apiComments,
+          path,
+          line
+        });
+      } else {
+        generalComments.push(...apiComments);
+      }
+    }
+
+    return { threads, generalComments, totalCommentCount };
+  }
+
+  /**
+   * Azure DevOps 레포지토리 API URL
+   * owner는 '{organization}/{project}' 형식이며 프로젝트명에 공백이 있을 수 있어 세그먼트별 인코딩
+   */
+  private getAzureRepoUrl(repository: Repository): string {
+    const [organization, project] = repository.owner.split('/');
+    return `${this.baseUrl}/${encodeURIComponent(organization)}/${encodeURIComponent(project)}/_apis/git/repositories/${encodeURIComponent(repository.name)}`;
+  }
+
+  /**
+   * Azure DevOps PR 웹 URL (API 응답의 url은 REST 주소이므로 repository.webUrl로 구성)
+   */
+  private getAzurePRWebUrl(pr: any): string {
+    return `${pr.repository?.webUrl}/pullrequest/${pr.pullRequestId}`;
+  }
+
+  /**
+   * Bitbucket 레포지토리 API URL (workspace/repo_slug)
+   */
+  private getBitbucketRepoUrl(repository: Repository): string {
+    return `${this.baseUrl}/repositories/${repository.owner}/${repository.name}`;
+  }
+
   /**
    * 페이지네이션을 처리하여 모든 결과 조회
+   * @param options.maxItems 이 개수를 채우면 다음 페이지를 조회하지 않음
+   * @param options.filter 조건에 맞는 항목만 수집 (maxItems도 필터 후 기준)
    */
-  private async fetchAllPages<T>(url: string): Promise<T[]> {
+  private async fetchAllPages<T>(
+    url: string,
+    options: { maxItems?: number; filter?: (item: T) => boolean } = {}
+  ): Promise<T[]> {
+    const { maxItems = Infinity, filter } = options;
     const allItems: T[] = [];
     let nextUrl: string | null = url;
 
-    while (nextUrl) {
+    while (nextUrl && allItems.length < maxItems) {
       const response = await globalThis.fetch(nextUrl, {
         headers: {
           'Accept': 'application/json',
           'Content-Type': 'application/json',
-          ...(this.platform === 'github'
-            ? { 'Authorization': `Bearer ${this.token}` }
-            : { 'PRIVATE-TOKEN': this.token }
-          )
+          ...this.getAuthHeaders()
         }
       });
 
@@ -848,14 +1876,22 @@ export class ApiClient {
       }
 
       const data = await response.json();
-      const items = Array.isArray(data) ? data : [];
-      allItems.push(...items);
+
+      // Bitbucket: { values, next } 형식의 페이지 응답
+      if (!Array.isArray(data) && Array.isArray(data?.values)) {
+        allItems.push(...(filter ? data.values.filter(filter) : data.values));
+        nextUrl = data.next || null;
+        continue;
+      }
+
+      const items: T[] = Array.isArray(data) ? data : [];
+      allItems.push(...(filter ? items.filter(filter) : items));
 
       // Link 헤더에서 다음 페이지 URL 추출
       nextUrl = this.getNextPageUrl(response.headers.get('link'));
     }
 
-    return allItems;
+    return allItems.slice(0, maxItems);
   }
 
   /**
@@ -868,17 +1904,72 @@ export class ApiClient {
     return match ? match[1] : null;
   }
 
+  /**
+   * 플랫폼별 인증 헤더
+   * Bitbucket: 사용자명이 있으면 App Password Basic 인증, 없으면 Access Token(Bearer)
+   * Azure DevOps: 빈 사용자명 + PAT Basic 인증
+   */
+  private getAuthHeaders(): Record<string, string> {
+    if (this.platform === 'github') {
+      return { 'Authorization': `Bearer ${this.token}` };
+    }
+
+    if (this.platform === 'gitea') {
+      return { 'Authorization': `token ${this.token}` };
+    }
+
+    if (this.platform === 'azure') {
+      return { 'Authorization': `Basic ${this.encodeBase64(`:${this.token}`)}` };
+    }
+
+    if (this.platform === 'bitbucket') {
+      return this.bitbucketUsername
+        ? { 'Authorization': `Basic ${this.encodeBase64(`${this.bitbucketUsername}:${this.token}`)}` }
+        : { 'Authorization': `Bearer ${this.token}` };
+    }
+
+    return { 'PRIVATE-TOKEN': this.token };
+  }
+
+  /**
+   * UTF-8 문자열을 Base64로 인코딩 (unescape는 deprecated, TextEncoder 사용)
+   * 큰 파일에서 인자 수 제한(call stack 초과)을 피하도록 32KB 단위로 변환
+   */
+  private encodeBase64(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+      binary += String.fromCharCode.apply(null, bytes.subarray(i, i + BASE64_CHUNK_SIZE) as unknown as number[]);
+    }
+    return btoa(binary);
+  }
+
+  /**
+   * raw 텍스트 응답용 fetch (Bitbucket src 엔드포인트)
+   */
+  private async fetchText(url: string): Promise<string> {
+    const response = await globalThis.fetch(url, {
+      headers: this.getAuthHeaders()
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    return response.text();
+  }
+
   /**
    * HTTP fetch 래퍼
    */
   private async fetch(url: string, options: RequestInit = {}): Promise<any> {
+    // FormData 전송 시 Content-Type은 브라우저가 boundary와 함께 설정
+    const isFormData = typeof FormData !== 'undefined' && options.body instanceof FormData;
     const headers: HeadersInit = {
       'Accept': 'application/json',
-      'Content-Type': 'application/json',
-      ...(this.platform === 'github'
-        ? { 'Authorization': `Bearer ${this.token}` }
-        : { 'PRIVATE-TOKEN': this.token }
-      )
+      ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
+      ...this.getAuthHeaders()
     };
 
     const response = await fetch(url, {
@@ -894,6 +1985,8 @@ export class ApiClient {
       throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
     }
 
-    return response.json();
+    // Bitbucket src 커밋처럼 본문 없이 201을 반환하는 경우
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
   }
 }
@@ -3,27 +3,92 @@
  * Feature 2: 캐시 통합
  */
 
-import type { ILLMClient, LLMProvider, LLMResponse } from './types';
+import type {
+  ILLMClient,
+  LLMProvider,
+  LLMResponse,
+  LLMAnalysisResult,
+  LLMStreamHandler,
+  TokenUsage,
+  SimilarityCheckResult,
+  StructuredOutputOptions,
+  StructuredOutputResult
+} from './types';
+import { LLMError } from './types';
+import type { PromptTemplates, RepositoryCategory, RedactionEntry } from '../../types';
 import { llmCache } from './cache';
+import type { Redactor } from './redaction';
+import { buildAnalysisPrompt, buildSimilarityCheckPrompt, getAllowedCategories, SYSTEM_PROMPT } from './prompts';
+import { renderAnalysisPrompt } from './prompt-templates';
+import {
+  buildAnalysisResultSchema,
+  SIMILARITY_CHECK_SCHEMA,
+  validateSchema,
+  buildRepairPrompt,
+  type StructuredOutputSchema
+} from './schemas';
 import { RateLimiter } from '../../utils/rate-limiter';
 
 export abstract class BaseLLMClient implements ILLMClient {
   abstract provider: LLMProvider;
   protected apiKey: string;
+  protected readonly model: string;
   protected timeout: number = 30000; // 30초 타임아웃
+  protected maxRepairAttempts: number = 1; // 스키마 검증 실패 시 재요청 횟수
   protected rateLimiter: RateLimiter;
+  protected promptTemplates?: PromptTemplates;
+  protected outputLanguage?: string;
+  protected categories?: RepositoryCategory[];
+  protected redactor?: Redactor;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, model: string) {
     this.apiKey = apiKey;
+    this.model = model;
     this.rateLimiter = new RateLimiter(10, 60000); // 분당 10회 제한
   }
 
+  /**
+   * 사용자 정의 프롬프트 템플릿 설정 (분석 프롬프트, 캐시 키 버전에 사용)
+   */
+  setPromptTemplates(templates?: PromptTemplates): void {
+    this.promptTemplates = templates;
+  }
+
+  /**
+   * 생성 규칙 언어 설정 (미설정 시 English)
+   */
+  setOutputLanguage(language?: string): void {
+    this.outputLanguage = language;
+  }
+
+  /**
+   * 사용자/저장소 정의 카테고리 설정 (suggestedCategory 허용 값에 추가)
+   */
+  setCategories(categories?: RepositoryCategory[]): void {
+    this.categories = categories;
+  }
+
+  /**
+   * 비밀 정보 가리기 설정 (미설정 시 원문 그대로 전송)
+   */
+  setRedactor(redactor?: Redactor): void {
+    this.redactor = redactor;
+  }
+
+  /**
+   * 이 클라이언트가 LLM 전송 전 가린 항목
+   */
+  getRedactions(): RedactionEntry[] {
+    return this.redactor?.getEntries() ?? [];
+  }
+
   abstract analyzeComment(
     content: string,
     codeExamples: string[],
     replies?: Array<{ author: string; content: string; createdAt: string; }>,
     existingKeywords?: string[],
-    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
+    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; },
+    onPartial?: LLMStreamHandler
   ): Promise<LLMResponse>;
 
   /**
@@ -39,25 +104,112 @@ export abstract class BaseLLMClient implements ILLMClient {
     max_tokens?: number;
     temperature?: number;
     system?: string;
+    onPartial?: LLMStreamHandler;
   }): Promise<string>;
 
+  /**
+   * 스키마를 따르는 구조화 출력 생성 (프롬프트의 비밀 정보는 가린 뒤 전송하고 응답에서 복원)
+   */
+  async generateStructured<T>(
+    prompt: string,
+    schema: StructuredOutputSchema,
+    options: StructuredOutputOptions = {}
+  ): Promise<StructuredOutputResult<T>> {
+    const result = await this.requestStructured<T>(this.redact(prompt), schema, {
+      ...options,
+      onPartial: this.restoreStream(options.onPartial)
+    });
+    return { ...result, data: this.restore(result.data) };
+  }
+
+  /**
+   * 구조화 출력 요청 (가리기/복원 없음)
+   * - 검증에 실패하면 오류 목록을 담아 1회 재요청 (repair)
+   * - 재요청을 포함한 모든 응답의 토큰 사용량을 모델별 누적 사용량에 기록
+   */
+  protected async requestStructured<T>(
+    prompt: string,
+    schema: StructuredOutputSchema,
+    options: StructuredOutputOptions = {}
+  ): Promise<StructuredOutputResult<T>> {
+    let currentPrompt = prompt;
+    let tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+      const response = await this.retry(() =>
+        this.withTimeout(this.callStructuredAPI(currentPrompt, schema, options))
+      );
+
+      await this.recordUsage(response.tokenUsage);
+      tokenUsage = {
+        inputTokens: tokenUsage.inputTokens + response.tokenUsage.inputTokens,
+        outputTokens: tokenUsage.outputTokens + response.tokenUsage.outputTokens,
+        totalTokens: tokenUsage.totalTokens + response.tokenUsage.totalTokens
+      };
+
+      errors = validateSchema(response.value, schema.schema);
+      if (errors.length === 0) {
+        return { data: response.value as T, tokenUsage };
+      }
+
+      currentPrompt = buildRepairPrompt(prompt, response.value, errors);
+    }
+
+    throw new LLMError(`Response did not match ${schema.name} schema: ${errors.join('; ')}`, this.provider);
+  }
+
+  /**
+   * 구조화 출력 API 호출 (추상 메서드)
+   * - Claude: tool use, OpenAI: json_schema response_format, Gemini: responseJsonSchema
+   * - JSON으로 파싱할 수 없는 응답은 원문 그대로 value로 반환 (검증 후 재요청)
+   */
+  protected abstract callStructuredAPI(
+    prompt: string,
+    schema: StructuredOutputSchema,
+    options: StructuredOutputOptions
+  ): Promise<{ value: unknown; tokenUsage: TokenUsage }>;
+
   /**
    * 캐시를 활용한 분석 (Feature 2: 답글 포함, 기존 키워드 전달)
    * - Protected: 하위 클래스에서 analyzeComment()에서 호출
+   * - 코멘트/답글/코드는 가린 뒤 캐시 키와 API 호출에 사용 (캐시에도 가린 결과 저장), 반환 시 복원
    */
   protected async analyzeWithCache(
+    rawContent: string,
+    rawCodeExamples: string[],
+    rawReplies?: Array<{ author: string; content: string; createdAt: string; }>,
+    existingKeywords?: string[],
+    rawCodeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; },
+    onPartial?: LLMStreamHandler
+  ): Promise<LLMResponse> {
+    const content = this.redact(rawContent);
+    const codeExamples = rawCodeExamples.map(example => this.redact(example));
+    const replies = rawReplies?.map(reply => ({ ...reply, content: this.redact(reply.content) }));
+    const codeContext = rawCodeContext && { ...rawCodeContext, lines: this.redact(rawCodeContext.lines) };
+    const restoringPartial = this.restoreStream(onPartial);
+
+    return this.restore(
+      await this.analyzeRedactedWithCache(content, codeExamples, replies, existingKeywords, codeContext, restoringPartial)
+    );
+  }
+
+  private async analyzeRedactedWithCache(
     content: string,
     codeExamples: string[],
     replies?: Array<{ author: string; content: string; createdAt: string; }>,
     existingKeywords?: string[],
-    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
+    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; },
+    onPartial?: LLMStreamHandler
   ): Promise<LLMResponse> {
     try {
-      // 1. 캐시 키 생성 (replies + existingKeywords + codeContext 포함)
+      // 1. 캐시 키 생성 (replies + existingKeywords + codeContext + 출력 언어 + 카테고리 + 모델 + 프롬프트 템플릿 버전 포함)
       const cacheKey = await llmCache.generateCacheKey(
-        content + (replies ? JSON.stringify(replies) : '') + (existingKeywords ? JSON.stringify(existingKeywords) : '') + (codeContext ? JSON.stringify(codeContext) : ''),
+        content + (replies ? JSON.stringify(replies) : '') + (existingKeywords ? JSON.stringify(existingKeywords) : '') + (codeContext ? JSON.stringify(codeContext) : '') + (this.outputLanguage ? `lang:${this.outputLanguage}` : '') + (this.categories ? JSON.stringify(this.categories) : ''),
         codeExamples,
-        this.provider
+        this.provider,
+        this.model,
+        this.promptTemplates?.version
       );
 
       // 2. 캐시 조회
@@ -81,7 +233,7 @@ export abstract class BaseLLMClient implements ILLMClient {
       }
 
       // 4. 캐시 MISS - API 호출
-      const response = await this.callAnalysisAPI(content, codeExamples, replies, existingKeywords, codeContext);
+      const response = await this.callAnalysisAPI(content, codeExamples, replies, existingKeywords, codeContext, onPartial);
 
       // 5. 응답 캐싱 (성공한 경우만)
       if (response.success && response.data) {
@@ -93,42 +245,77 @@ export abstract class BaseLLMClient implements ILLMClient {
 
     } catch (error) {
       // 캐시 실패 시 API 직접 호출 (Fail-safe)
-      return this.callAnalysisAPI(content, codeExamples, replies, existingKeywords, codeContext);
+      return this.callAnalysisAPI(content, codeExamples, replies, existingKeywords, codeContext, onPartial);
     }
   }
 
   /**
-   * 실제 API 호출 (추상 메서드)
-   * - Protected: 하위 클래스에서 구현
-   * - 기존 analyzeComment의 API 호출 로직을 여기로 이동
+   * 실제 분석 API 호출 (분석 결과 스키마 구조화 출력, suggestedCategory는 허용 카테고리로 제한)
+   * - 분석 템플릿이 설정되어 있으면 기본 프롬프트 대신 사용
    */
-  protected abstract callAnalysisAPI(
+  protected async callAnalysisAPI(
     content: string,
     codeExamples: string[],
     replies?: Array<{ author: string; content: string; createdAt: string; }>,
     existingKeywords?: string[],
-    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
-  ): Promise<LLMResponse>;
+    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; },
+    onPartial?: LLMStreamHandler
+  ): Promise<LLMResponse> {
+    try {
+      const template = this.promptTemplates?.analysis;
+      const prompt = template
+        ? renderAnalysisPrompt(template, {
+          comment: content,
+          replies: replies ?? [],
+          codeContext,
+          codeExamples,
+          existingKeywords: existingKeywords ?? [],
+          language: this.outputLanguage,
+          categories: this.categories
+        })
+        : buildAnalysisPrompt(content, codeExamples, replies, existingKeywords, codeContext, this.outputLanguage, this.categories);
+      const schema = buildAnalysisResultSchema(getAllowedCategories(this.categories));
+
+      const { data, tokenUsage } = await this.requestStructured<LLMAnalysisResult>(prompt, schema, {
+        system: SYSTEM_PROMPT,
+        max_tokens: 2048,
+        temperature: 0.3,
+        onPartial
+      });
+
+      return { success: true, data, tokenUsage: { ...tokenUsage, model: this.model } };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
 
   /**
    * 캐시를 활용한 유사도 검사 (Phase 1: 중복 파일 방지)
    */
   protected async checkSimilarityWithCache(
-    existingContent: string,
-    newContent: string
-  ): Promise<import('./types').SimilarityCheckResult> {
+    rawExistingContent: string,
+    rawNewContent: string
+  ): Promise<SimilarityCheckResult> {
+    const existingContent = this.redact(rawExistingContent);
+    const newContent = this.redact(rawNewContent);
+
     try {
-      // 1. 캐시 키 생성: SHA256(existingContent + newContent + provider)
+      // 1. 캐시 키 생성: SHA256(existingContent + newContent + provider + model)
       const cacheKey = await llmCache.generateCacheKey(
         existingContent + ':similarity:' + newContent,
         [],
-        this.provider
+        this.provider,
+        this.model
       );
 
       // 2. 캐시 조회
       const cachedData = await llmCache.get(cacheKey);
       if (cachedData) {
-        return { success: true, data: cachedData as any };
+        return { success: true, data: this.restore(cachedData as any) };
       }
 
       // 3. Rate limiting 체크
@@ -148,7 +335,7 @@ export abstract class BaseLLMClient implements ILLMClient {
         await llmCache.set(cacheKey, response.data as any, this.provider);
       }
 
-      return response;
+      return this.restore(response);
 
     } catch (error) {
       return {
@@ -159,31 +346,45 @@ export abstract class BaseLLMClient implements ILLMClient {
   }
 
   /**
-   * 실제 유사도 검사 API 호출 (추상 메서드)
+   * 실제 유사도 검사 API 호출 (SIMILARITY_CHECK_SCHEMA 구조화 출력)
    */
-  protected abstract callSimilarityAPI(
+  protected async callSimilarityAPI(
     existingContent: string,
     newContent: string
-  ): Promise<import('./types').SimilarityCheckResult>;
+  ): Promise<SimilarityCheckResult> {
+    const prompt = buildSimilarityCheckPrompt(existingContent, newContent);
+
+    const { data, tokenUsage } = await this.requestStructured<NonNullable<SimilarityCheckResult['data']>>(
+      prompt,
+      SIMILARITY_CHECK_SCHEMA,
+      { system: 'You are a code convention comparison expert.', max_tokens: 512, temperature: 0.3 }
+    );
+
+    return { success: true, data, tokenUsage: { ...tokenUsage, model: this.model } };
+  }
 
   /**
    * 캐시를 활용한 파일 병합 (Phase 1: 중복 파일 방지)
    */
   protected async mergeInstructionsWithCache(
-    existingContent: string,
-    newContent: string
+    rawExistingContent: string,
+    rawNewContent: string
   ): Promise<string> {
+    const existingContent = this.redact(rawExistingContent);
+    const newContent = this.redact(rawNewContent);
+
     // 1. 캐시 키 생성
     const cacheKey = await llmCache.generateCacheKey(
       'merge:' + existingContent + ':' + newContent,
       [],
-      this.provider
+      this.provider,
+      this.model
     );
 
     // 2. 캐시 조회
     const cachedData = await llmCache.get(cacheKey);
     if (cachedData) {
-      return cachedData as unknown as string;
+      return this.restore(cachedData as unknown as string);
     }
 
     // 3. Rate limiting 체크
@@ -198,7 +399,7 @@ export abstract class BaseLLMClient implements ILLMClient {
     // 5. 캐싱 (30일 TTL)
     await llmCache.set(cacheKey, mergedContent as any, this.provider);
 
-    return mergedContent;
+    return this.restore(mergedContent);
   }
 
   /**
@@ -209,6 +410,42 @@ export abstract class BaseLLMClient implements ILLMClient {
     newContent: string
   ): Promise<string>;
 
+  /**
+   * LLM 전송용 텍스트 가리기 (Redactor 미설정 시 그대로)
+   */
+  protected redact(text: string): string {
+    return this.redactor ? this.redactor.redact(text) : text;
+  }
+
+  /**
+   * LLM 응답의 자리표시자를 원래 값으로 복원 (문자열/객체 모두 지원)
+   */
+  protected restore<T>(value: T): T {
+    return this.redactor ? this.redactor.restoreValue(value) : value;
+  }
+
+  /**
+   * 스트리밍 부분 응답도 복원된 텍스트로 전달
+   */
+  protected restoreStream(onPartial?: LLMStreamHandler): LLMStreamHandler | undefined {
+    if (!onPartial || !this.redactor) {
+      return onPartial;
+    }
+    return accumulatedText => onPartial(this.restore(accumulatedText));
+  }
+
+  /**
+   * 제공자 응답의 토큰 사용량을 모델별 누적 사용량에 기록 (모델별 비용 계산용)
+   * - 분석, 경량 작업(파일명/분류/텍스트), 병합, 임베딩 등 모든 API 응답이 이 경로로 기록
+   * @param model 사용량을 기록할 모델 (기본: 이 클라이언트의 모델, 임베딩은 임베딩 모델)
+   */
+  protected async recordUsage(tokenUsage: TokenUsage, model: string = this.model): Promise<void> {
+    if (tokenUsage.inputTokens === 0 && tokenUsage.outputTokens === 0) {
+      return;
+    }
+    await llmCache.recordTokenUsage(model, tokenUsage);
+  }
+
   /**
    * 타임아웃 래퍼
    */
@@ -253,6 +490,53 @@ export abstract class BaseLLMClient implements ILLMClient {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * SSE(text/event-stream) 응답 읽기
+   * - `data:` 줄의 내용을 순서대로 전달 (OpenAI의 `[DONE]` 종료 표시는 제외)
+   */
+  protected async readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) {
+      throw new LLMError('Empty stream from API', this.provider);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flushLine = (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return;
+
+      const data = trimmed.slice('data:'.length).trim();
+      if (data && data !== '[DONE]') {
+        onData(data);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(flushLine);
+    }
+
+    flushLine(buffer + decoder.decode());
+  }
+
+  /**
+   * 구조화 출력 텍스트 파싱 (파싱 실패 시 원문 반환)
+   */
+  protected parseStructuredText(text: string): unknown {
+    try {
+      return this.parseJSON(text);
+    } catch {
+      return text;
+    }
+  }
+
   /**
    * JSON 파싱 헬퍼
    */
@@ -13,6 +13,7 @@ const CACHE_VERSION = 1;
 const CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30일 (ms)
 const MAX_CACHE_ENTRIES = 1000;
 const STORAGE_KEY = 'llm_response_cache';
+const USAGE_STORAGE_KEY = 'llm_token_usage';
 
 /**
  * 캐시 엔트리
@@ -40,6 +41,15 @@ export interface CacheStats {
   cacheSize: number; // bytes (추정치)
   oldestEntry?: number; // timestamp
   newestEntry?: number; // timestamp
+  tokenUsageByModel?: Record<string, ModelTokenUsage>; // 모델별 누적 토큰 사용량
+}
+
+/**
+ * 모델별 누적 토큰 사용량
+ */
+export interface ModelTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
 }
 
 /**
@@ -48,17 +58,23 @@ export interface CacheStats {
 export class LLMCache {
   private hitCount = 0;
   private missCount = 0;
+  private usageWrite: Promise<void> = Promise.resolve();
 
   /**
    * 캐시 키 생성 (SHA-256)
+   * @param model 이번 요청에 사용하는 모델 ID (모델을 바꾸면 다른 모델의 응답을 재사용하지 않도록)
+   * @param promptVersion 사용자 정의 프롬프트 템플릿 버전 (기본 프롬프트면 생략)
    */
   async generateCacheKey(
     content: string,
     codeExamples: string[],
-    provider: LLMProvider
+    provider: LLMProvider,
+    model: string,
+    promptVersion?: string
   ): Promise<string> {
-    // 버전:provider:content:examples 조합
-    const data = `${CACHE_VERSION}:${provider}:${content}:${codeExamples.join('||')}`;
+    // 버전(+프롬프트 버전):provider:model:content:examples 조합
+    const version = promptVersion ? `${CACHE_VERSION}+prompt:${promptVersion}` : `${CACHE_VERSION}`;
+    const data = `${version}:${provider}:${model}:${content}:${codeExamples.join('||')}`;
 
     // SHA-256 해시 생성 (Web Crypto API)
     const encoder = new TextEncoder();
@@ -178,11 +194,44 @@ export class LLMCache {
   }
 
   /**
-   * 캐시 전체 초기화
+   * 모델별 토큰 사용량 누적 (Popup 누적 비용 표시용)
+   * - 동시에 끝난 호출의 사용량이 덮어써지지 않도록 순서대로 기록
+   */
+  recordTokenUsage(
+    model: string,
+    usage: { inputTokens: number; outputTokens: number }
+  ): Promise<void> {
+    this.usageWrite = this.usageWrite.then(() => this.addTokenUsage(model, usage));
+    return this.usageWrite;
+  }
+
+  private async addTokenUsage(
+    model: string,
+    usage: { inputTokens: number; outputTokens: number }
+  ): Promise<void> {
+    try {
+      const storage = await chrome.storage.local.get(USAGE_STORAGE_KEY);
+      const usageByModel = (storage[USAGE_STORAGE_KEY] || {}) as Record<string, ModelTokenUsage>;
+
+      const current = usageByModel[model] || { inputTokens: 0, outputTokens: 0 };
+      usageByModel[model] = {
+        inputTokens: current.inputTokens + usage.inputTokens,
+        outputTokens: current.outputTokens + usage.outputTokens
+      };
+
+      await chrome.storage.local.set({ [USAGE_STORAGE_KEY]: usageByModel });
+
+    } catch (error) {
+      // 사용량 기록 실패해도 에러를 throw하지 않음 (Fail-safe)
+    }
+  }
+
+  /**
+   * 캐시 전체 초기화 (누적 토큰 사용량 포함)
    */
   async clear(): Promise<void> {
     try {
-      await chrome.storage.local.remove(STORAGE_KEY);
+      await chrome.storage.local.remove([STORAGE_KEY, USAGE_STORAGE_KEY]);
       this.hitCount = 0;
       this.missCount = 0;
 
@@ -196,8 +245,9 @@ export class LLMCache {
    */
   async getStats(): Promise<CacheStats> {
     try {
-      const storage = await chrome.storage.local.get(STORAGE_KEY);
+      const storage = await chrome.storage.local.get([STORAGE_KEY, USAGE_STORAGE_KEY]);
       const cache = (storage[STORAGE_KEY] || {}) as Record<string, CacheEntry>;
+      const tokenUsageByModel = (storage[USAGE_STORAGE_KEY] || {}) as Record<string, ModelTokenUsage>;
 
       const entries = Object.values(cache);
       const totalEntries = entries.length;
@@ -221,7 +271,8 @@ export class LLMCache {
         missCount: this.missCount,
         cacheSize,
         oldestEntry,
-        newestEntry
+        newestEntry,
+        tokenUsageByModel
       };
 
     } catch (error) {
@@ -3,58 +3,42 @@
  */
 
 import { BaseLLMClient } from './base-client';
-import type { LLMProvider, LLMResponse, LLMAnalysisResult, TokenUsage, SimilarityCheckResult } from './types';
+import type { LLMProvider, LLMResponse, LLMStreamHandler, TokenUsage, StructuredOutputOptions } from './types';
 import { LLMError } from './types';
-import { buildAnalysisPrompt, buildSimilarityCheckPrompt, buildMergeInstructionsPrompt, SYSTEM_PROMPT } from './prompts';
+import { DEFAULT_MODELS } from './models';
+import { buildMergeInstructionsPrompt } from './prompts';
+import type { StructuredOutputSchema } from './schemas';
 
 export class ClaudeClient extends BaseLLMClient {
   provider: LLMProvider = 'claude';
   private readonly apiUrl = 'https://api.anthropic.com/v1/messages';
-  private readonly model = 'claude-sonnet-4-5-20250929'; // 최신 모델
 
-  async analyzeComment(
-    content: string,
-    codeExamples: string[],
-    replies?: Array<{ author: string; content: string; createdAt: string; }>,
-    existingKeywords?: string[],
-    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
-  ): Promise<LLMResponse> {
-    // Feature 2: 캐시를 활용한 분석 (replies 포함, 기존 키워드 전달)
-    return this.analyzeWithCache(content, codeExamples, replies, existingKeywords, codeContext);
+  constructor(apiKey: string, model: string = DEFAULT_MODELS.claude.analysis) {
+    super(apiKey, model);
   }
 
-  protected async callAnalysisAPI(
+  async analyzeComment(
     content: string,
     codeExamples: string[],
     replies?: Array<{ author: string; content: string; createdAt: string; }>,
     existingKeywords?: string[],
-    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
+    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; },
+    onPartial?: LLMStreamHandler
   ): Promise<LLMResponse> {
-    try {
-
-      const { result, tokenUsage } = await this.retry(() =>
-        this.withTimeout(this.callAPIInternal(content, codeExamples, replies, existingKeywords, codeContext))
-      );
-
-      return { success: true, data: result, tokenUsage };
-
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
+    // Feature 2: 캐시를 활용한 분석 (replies 포함, 기존 키워드 전달)
+    return this.analyzeWithCache(content, codeExamples, replies, existingKeywords, codeContext, onPartial);
   }
 
-  private async callAPIInternal(
-    content: string,
-    codeExamples: string[],
-    replies?: Array<{ author: string; content: string; createdAt: string; }>,
-    existingKeywords?: string[],
-    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
-  ): Promise<{ result: LLMAnalysisResult; tokenUsage: TokenUsage }> {
-    const prompt = buildAnalysisPrompt(content, codeExamples, replies, existingKeywords, codeContext);
-
+  /**
+   * 구조화 출력 API 호출 (tool use)
+   * - 스키마를 input_schema로 하는 도구 하나를 강제 호출하고 tool_use 입력을 결과로 사용
+   * - onPartial이 있으면 스트리밍 (input_json_delta를 이어 붙여 전달)
+   */
+  protected async callStructuredAPI(
+    prompt: string,
+    schema: StructuredOutputSchema,
+    options: StructuredOutputOptions
+  ): Promise<{ value: unknown; tokenUsage: TokenUsage }> {
     const response = await fetch(this.apiUrl, {
       method: 'POST',
       headers: {
@@ -65,14 +49,24 @@ export class ClaudeClient extends BaseLLMClient {
       },
       body: JSON.stringify({
         model: this.model,
-        max_tokens: 2048,
+        max_tokens: options.max_tokens || 1024,
+        temperature: options.temperature ?? 0.3,
         messages: [
           {
             role: 'user',
             content: prompt
           }
         ],
-        system: SYSTEM_PROMPT
+        system: options.system || 'You are a helpful assistant.',
+        tools: [
+          {
+            name: schema.name,
+            description: schema.description,
+            input_schema: schema.schema
+          }
+        ],
+        tool_choice: { type: 'tool', name: schema.name },
+        ...(options.onPartial ? { stream: true } : {})
       })
     });
 
@@ -85,43 +79,24 @@ export class ClaudeClient extends BaseLLMClient {
       );
     }
 
-    const data = await response.json();
-    const textContent = data.content?.[0]?.text;
-
-    if (!textContent) {
-      throw new LLMError('Empty response from Claude API', 'claude');
+    if (options.onPartial) {
+      const { text, tokenUsage } = await this.readMessageStream(response, options.onPartial);
+      return { value: this.parseStructuredText(text), tokenUsage };
     }
 
-    // 토큰 사용량 추출 (Claude API response format)
-    const tokenUsage: TokenUsage = {
-      inputTokens: data.usage?.input_tokens || 0,
-      outputTokens: data.usage?.output_tokens || 0,
-      totalTokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0)
-    };
-
-    // JSON 파싱
-    const parsed = this.parseJSON(textContent);
+    const data = await response.json();
+    const blocks: Array<{ type: string; input?: unknown; text?: string }> = data.content || [];
+    const toolUse = blocks.find(block => block.type === 'tool_use' && block.input !== undefined);
+    const textContent = blocks.find(block => block.type === 'text')?.text;
 
-    // 타입 검증
-    if (!parsed.summary || !parsed.detailedExplanation) {
-      throw new LLMError('Invalid response format from Claude API', 'claude');
+    if (!toolUse && !textContent) {
+      throw new LLMError('Empty response from Claude API', 'claude');
     }
 
-    const result: LLMAnalysisResult = {
-      summary: parsed.summary,
-      detailedExplanation: parsed.detailedExplanation,
-      codeExplanations: parsed.codeExplanations || [],
-      additionalKeywords: parsed.additionalKeywords || [],
-      suggestedCategory: parsed.suggestedCategory,
-      reasoning: parsed.reasoning || {
-        detectedIntent: [],
-        keyPhrases: [],
-        codeReferences: [],
-        confidenceScore: 50
-      }
+    return {
+      value: toolUse ? toolUse.input : this.parseStructuredText(textContent!),
+      tokenUsage: this.toTokenUsage(data.usage)
     };
-
-    return { result, tokenUsage };
   }
 
   /**
@@ -130,9 +105,9 @@ export class ClaudeClient extends BaseLLMClient {
   async generateFileName(prompt: string): Promise<string> {
     try {
       const response = await this.retry(() =>
-        this.withTimeout(this.callFileNamingAPI(prompt))
+        this.withTimeout(this.callFileNamingAPI(this.redact(prompt)))
       );
-      return response;
+      return this.restore(response);
     } catch (error) {
       throw error;
     }
@@ -170,6 +145,7 @@ export class ClaudeClient extends BaseLLMClient {
     }
 
     const data = await response.json();
+    await this.recordUsage(this.toTokenUsage(data.usage));
     const textContent = data.content?.[0]?.text;
 
     if (!textContent) {
@@ -186,12 +162,16 @@ export class ClaudeClient extends BaseLLMClient {
     max_tokens?: number;
     temperature?: number;
     system?: string;
+    onPartial?: LLMStreamHandler;
   }): Promise<string> {
     try {
       const response = await this.retry(() =>
-        this.withTimeout(this.callTextGenerationAPI(prompt, options))
+        this.withTimeout(this.callTextGenerationAPI(this.redact(prompt), {
+          ...options,
+          onPartial: this.restoreStream(options?.onPartial)
+        }))
       );
-      return response;
+      return this.restore(response);
     } catch (error) {
       throw error;
     }
@@ -201,6 +181,7 @@ export class ClaudeClient extends BaseLLMClient {
     max_tokens?: number;
     temperature?: number;
     system?: string;
+    onPartial?: LLMStreamHandler;
   }): Promise<string> {
     const response = await fetch(this.apiUrl, {
       method: 'POST',
@@ -220,7 +201,8 @@ export class ClaudeClient extends BaseLLMClient {
             content: prompt
           }
         ],
-        system: options?.system || 'You are a helpful assistant.'
+        system: options?.system || 'You are a helpful assistant.',
+        ...(options?.onPartial ? { stream: true } : {})
       })
     });
 
@@ -233,86 +215,24 @@ export class ClaudeClient extends BaseLLMClient {
       );
     }
 
-    const data = await response.json();
-    const textContent = data.content?.[0]?.text;
-
-    if (!textContent) {
-      throw new LLMError('Empty response from Claude API', 'claude');
-    }
-
-    return textContent;
-  }
-
-  /**
-   * 유사도 검사 API 호출 (Phase 1: 중복 파일 방지)
-   */
-  protected async callSimilarityAPI(
-    existingContent: string,
-    newContent: string
-  ): Promise<SimilarityCheckResult> {
-    const prompt = buildSimilarityCheckPrompt(existingContent, newContent);
-
-    const response = await fetch(this.apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': this.apiKey,
-        'anthropic-version': '2023-06-01',
-        'anthropic-dangerous-direct-browser-access': 'true'
-      },
-      body: JSON.stringify({
-        model: this.model,
-        max_tokens: 512,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        system: 'You are a code convention comparison expert.'
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new LLMError(
-        errorData.error?.message || `API error: ${response.status}`,
-        'claude',
-        response.status
-      );
+    if (options?.onPartial) {
+      const { text, tokenUsage } = await this.readMessageStream(response, options.onPartial);
+      await this.recordUsage(tokenUsage);
+      if (!text) {
+        throw new LLMError('Empty response from Claude API', 'claude');
+      }
+      return text;
     }
 
     const data = await response.json();
+    await this.recordUsage(this.toTokenUsage(data.usage));
     const textContent = data.content?.[0]?.text;
 
     if (!textContent) {
       throw new LLMError('Empty response from Claude API', 'claude');
     }
 
-    // JSON 파싱
-    const parsed = this.parseJSON(textContent);
-
-    // 타입 검증
-    if (typeof parsed.similarity !== 'number' || !parsed.decision || !parsed.reasoning) {
-      throw new LLMError('Invalid similarity check response format', 'claude');
-    }
-
-    // 토큰 사용량 추출
-    const tokenUsage: TokenUsage = {
-      inputTokens: data.usage?.input_tokens || 0,
-      outputTokens: data.usage?.output_tokens || 0,
-      totalTokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0)
-    };
-
-    return {
-      success: true,
-      data: {
-        similarity: parsed.similarity,
-        decision: parsed.decision,
-        reasoning: parsed.reasoning
-      },
-      tokenUsage
-    };
+    return textContent;
   }
 
   /**
@@ -355,6 +275,7 @@ export class ClaudeClient extends BaseLLMClient {
     }
 
     const data = await response.json();
+    await this.recordUsage(this.toTokenUsage(data.usage));
     const textContent = data.content?.[0]?.text;
 
     if (!textContent) {
@@ -364,4 +285,54 @@ export class ClaudeClient extends BaseLLMClient {
     // 병합된 내용 그대로 반환 (JSON 아님)
     return textContent;
   }
+
+  /**
+   * Messages API 스트림 읽기
+   * - text_delta / input_json_delta를 이어 붙이고 message_start, message_delta에서 토큰 사용량 추출
+   */
+  private async readMessageStream(
+    response: Response,
+    onPartial: LLMStreamHandler
+  ): Promise<{ text: string; tokenUsage: TokenUsage }> {
+    let text = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    await this.readEventStream(response, (data) => {
+      const event = JSON.parse(data);
+
+      switch (event.type) {
+        case 'message_start':
+          inputTokens = event.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_delta': {
+          const delta = event.delta?.text ?? event.delta?.partial_json;
+          if (delta) {
+            text += delta;
+            onPartial(text);
+          }
+          break;
+        }
+        case 'message_delta':
+          outputTokens = event.usage?.output_tokens || outputTokens;
+          break;
+        case 'error':
+          throw new LLMError(event.error?.message || 'Stream error from Claude API', 'claude');
+      }
+    });
+
+    return {
+      text,
+      tokenUsage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+    };
+  }
+
+  /**
+   * Messages API usage를 TokenUsage로 변환
+   */
+  private toTokenUsage(usage?: { input_tokens?: number; output_tokens?: number }): TokenUsage {
+    const inputTokens = usage?.input_tokens || 0;
+    const outputTokens = usage?.output_tokens || 0;
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+  }
 }
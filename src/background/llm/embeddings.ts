@@ -0,0 +1,23 @@
+/**
+ * 임베딩 제공자 선택 (중복 규칙 검색용)
+ * - OpenAI/Gemini: 임베딩 API (비밀 정보 가리기 적용)
+ * - 그 외 (Claude, OpenAI 호환, LLM 미설정): 로컬 MinHash
+ */
+
+import type { LLMConfig } from '../../types';
+import { createApiEmbeddingProvider, createMinHashProvider, type EmbeddingProvider } from '../../core/semantic-index';
+import { createLLMClient } from './enhancer';
+import { EMBEDDING_MODELS } from './models';
+import { OpenAIClient } from './openai-client';
+import { GeminiClient } from './gemini-client';
+
+export function createEmbeddingProvider(config?: LLMConfig): EmbeddingProvider {
+  const model = config ? EMBEDDING_MODELS[config.provider] : undefined;
+  const client = config && model ? createLLMClient(config) : null;
+
+  if (model && (client instanceof OpenAIClient || client instanceof GeminiClient)) {
+    return createApiEmbeddingProvider(`${client.provider}:${model}`, texts => client.embedTexts(texts));
+  }
+
+  return createMinHashProvider();
+}
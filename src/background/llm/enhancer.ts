@@ -2,10 +2,24 @@
  * LLM 강화 엔트리포인트
  */
 
-import type { ParsedComment, EnhancedComment, LLMConfig, DiscussionThread, CodeContext } from '../../types';
+import type { ParsedComment, EnhancedComment, LLMConfig, LLMProvider, DiscussionThread, CodeContext } from '../../types';
 import { ClaudeClient } from './claude-client';
 import { OpenAIClient } from './openai-client';
-import type { ILLMClient } from './types';
+import { OpenAICompatibleClient } from './openai-compatible-client';
+import { GeminiClient } from './gemini-client';
+import { resolveModel, type LLMTask } from './models';
+import { Redactor } from './redaction';
+import type { LLMStreamHandler } from './types';
+
+/**
+ * 에러 메시지용 제공자 이름
+ */
+const PROVIDER_LABELS: Record<LLMProvider, string> = {
+  'claude': 'Claude',
+  'openai': 'OpenAI',
+  'gemini': 'Gemini',
+  'openai-compatible': 'OpenAI-compatible'
+};
 
 /**
  * ParsedComment를 LLM으로 강화 (Feature 2: 답글 포함, Thread 지원, 토큰 사용량 반환)
@@ -15,18 +29,20 @@ export async function enhanceWithLLM(
   config: LLMConfig,
   replies?: Array<{ author: string; content: string; createdAt: string; }>,
   thread?: DiscussionThread,
-  codeContext?: CodeContext
-): Promise<{ enhancedComment: EnhancedComment; tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; } }> {
-
-  // API 키 확인
-  const apiKey = config.provider === 'claude' ? config.claudeApiKey : config.openaiApiKey;
-  if (!apiKey) {
-    throw new Error(`${config.provider === 'claude' ? 'Claude' : 'OpenAI'} API key is required. Please configure it in the extension settings.`);
+  codeContext?: CodeContext,
+  onPartial?: LLMStreamHandler
+): Promise<{ enhancedComment: EnhancedComment; tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; model?: string; } }> {
+
+  // API 키 / 엔드포인트 확인
+  if (!isLLMConfigured(config)) {
+    throw new Error(config.provider === 'openai-compatible'
+      ? 'OpenAI-compatible endpoint URL and model are required. Please configure them in the extension settings.'
+      : `${PROVIDER_LABELS[config.provider]} API key is required. Please configure it in the extension settings.`);
   }
 
   try {
     // 클라이언트 생성
-    const client = createClient(config.provider, apiKey);
+    const client = createClient(config);
 
     // Thread 컨텍스트가 있으면 특별한 프롬프트 사용
     let contentToAnalyze = parsedComment.content;
@@ -40,7 +56,8 @@ export async function enhanceWithLLM(
       parsedComment.codeExamples,
       replies,
       parsedComment.keywords,  // 기존 규칙 기반 키워드 전달
-      codeContext               // 인라인 리뷰의 코드 컨텍스트
+      codeContext,              // 인라인 리뷰의 코드 컨텍스트
+      onPartial                 // 스트리밍 (미리보기 모달)
     );
 
     if (!response.success || !response.data) {
@@ -67,9 +84,16 @@ export async function enhanceWithLLM(
       detailedExplanation: data.detailedExplanation,
       codeExplanations: data.codeExplanations,
       additionalKeywords: data.additionalKeywords,
-      suggestedCategory: data.suggestedCategory
+      suggestedCategory: data.suggestedCategory,
+      reasoning: data.reasoning
     };
 
+    // 가린 항목 (미리보기 모달 표시용)
+    const redactions = client.getRedactions();
+    if (redactions.length > 0) {
+      enhancedComment.redactions = redactions;
+    }
+
     return { enhancedComment, tokenUsage };
 
   } catch (error) {
@@ -78,36 +102,71 @@ export async function enhanceWithLLM(
 }
 
 /**
- * LLM 클라이언트 팩토리
+ * 제공자별 필수 설정(API 키 또는 엔드포인트) 확인
+ * - OpenAI 호환 엔드포인트는 API 키가 선택이므로 URL과 모델명만 필요
  */
-export function createLLMClient(config: LLMConfig): ILLMClient | null {
-  const apiKey = config.provider === 'claude' ? config.claudeApiKey : config.openaiApiKey;
-  if (!apiKey) {
-    return null;
-  }
-
+export function isLLMConfigured(config: LLMConfig): boolean {
   switch (config.provider) {
     case 'claude':
-      return new ClaudeClient(apiKey);
+      return !!config.claudeApiKey;
     case 'openai':
-      return new OpenAIClient(apiKey);
+      return !!config.openaiApiKey;
+    case 'gemini':
+      return !!config.geminiApiKey;
+    case 'openai-compatible':
+      return !!config.compatibleBaseUrl && !!config.compatibleModel;
     default:
-      return null;
+      return false;
   }
 }
 
 /**
- * 내부용 클라이언트 생성 (기존 호환성 유지)
+ * LLM 클라이언트 팩토리
+ * @param task 'light'이면 파일명 생성/분류 등 경량 작업용 모델 사용
  */
-function createClient(provider: 'claude' | 'openai', apiKey: string): ILLMClient {
-  switch (provider) {
+export function createLLMClient(
+  config: LLMConfig,
+  task: LLMTask = 'analysis'
+): ClaudeClient | OpenAIClient | GeminiClient | null {
+  if (!isLLMConfigured(config)) {
+    return null;
+  }
+
+  return createClient(config, task);
+}
+
+/**
+ * 내부용 클라이언트 생성 (설정 확인 후 호출)
+ */
+function createClient(config: LLMConfig, task: LLMTask = 'analysis'): ClaudeClient | OpenAIClient | GeminiClient {
+  const model = resolveModel(config, task);
+  let client: ClaudeClient | OpenAIClient | GeminiClient;
+
+  switch (config.provider) {
     case 'claude':
-      return new ClaudeClient(apiKey);
+      client = new ClaudeClient(config.claudeApiKey!, model);
+      break;
     case 'openai':
-      return new OpenAIClient(apiKey);
+      client = new OpenAIClient(config.openaiApiKey!, model);
+      break;
+    case 'gemini':
+      client = new GeminiClient(config.geminiApiKey!, model);
+      break;
+    case 'openai-compatible':
+      client = new OpenAICompatibleClient(config.compatibleBaseUrl!, model, config.compatibleApiKey);
+      break;
     default:
-      throw new Error(`Unknown LLM provider: ${provider}`);
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+
+  client.setPromptTemplates(config.promptTemplates);
+  client.setOutputLanguage(config.outputLanguage);
+  client.setCategories(config.categories);
+  // 비밀 정보 가리기 (명시적으로 끈 경우만 생략)
+  if (config.redaction?.enabled !== false) {
+    client.setRedactor(new Redactor(config.redaction?.patterns));
   }
+  return client;
 }
 
 /**
@@ -0,0 +1,262 @@
+/**
+ * Google Gemini API 클라이언트
+ */
+
+import { BaseLLMClient } from './base-client';
+import type { LLMProvider, LLMResponse, LLMStreamHandler, TokenUsage, StructuredOutputOptions } from './types';
+import { LLMError } from './types';
+import { DEFAULT_MODELS, EMBEDDING_MODELS } from './models';
+import { buildMergeInstructionsPrompt } from './prompts';
+import type { JSONSchema, StructuredOutputSchema } from './schemas';
+
+/**
+ * generateContent 요청 옵션
+ */
+interface GenerateContentOptions {
+  system: string;
+  maxOutputTokens: number;
+  temperature: number;
+  json?: boolean;  // responseMimeType: application/json
+  schema?: JSONSchema;  // responseJsonSchema (json 모드에서만 사용)
+  onPartial?: LLMStreamHandler;  // 지정하면 streamGenerateContent (SSE) 사용
+}
+
+/**
+ * usageMetadata (스트리밍 시 마지막 청크 기준)
+ */
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export class GeminiClient extends BaseLLMClient {
+  provider: LLMProvider = 'gemini';
+  private readonly apiBaseUrl = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+  constructor(apiKey: string, model: string = DEFAULT_MODELS.gemini.analysis) {
+    super(apiKey, model);
+  }
+
+  async analyzeComment(
+    content: string,
+    codeExamples: string[],
+    replies?: Array<{ author: string; content: string; createdAt: string; }>,
+    existingKeywords?: string[],
+    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; },
+    onPartial?: LLMStreamHandler
+  ): Promise<LLMResponse> {
+    return this.analyzeWithCache(content, codeExamples, replies, existingKeywords, codeContext, onPartial);
+  }
+
+  /**
+   * 구조화 출력 API 호출 (responseJsonSchema)
+   */
+  protected async callStructuredAPI(
+    prompt: string,
+    schema: StructuredOutputSchema,
+    options: StructuredOutputOptions
+  ): Promise<{ value: unknown; tokenUsage: TokenUsage }> {
+    const { text, tokenUsage } = await this.callGenerateContent(prompt, {
+      system: options.system || 'You are a helpful assistant.',
+      maxOutputTokens: options.max_tokens || 1024,
+      temperature: options.temperature ?? 0.3,
+      json: true,
+      schema: schema.schema,
+      onPartial: options.onPartial
+    });
+
+    return { value: this.parseStructuredText(text), tokenUsage };
+  }
+
+  /**
+   * 파일명 생성 (AI 기반)
+   */
+  async generateFileName(prompt: string): Promise<string> {
+    const { text, tokenUsage } = await this.retry(() =>
+      this.withTimeout(this.callGenerateContent(this.redact(prompt), {
+        system: 'You are an expert at organizing code conventions and documentation. Generate concise, descriptive filenames following best practices.',
+        maxOutputTokens: 1024,
+        temperature: 0.3,
+        json: true
+      }))
+    );
+    await this.recordUsage(tokenUsage);
+    return this.restore(text);
+  }
+
+  /**
+   * 범용 텍스트 생성
+   */
+  async generateText(prompt: string, options?: {
+    max_tokens?: number;
+    temperature?: number;
+    system?: string;
+    onPartial?: LLMStreamHandler;
+  }): Promise<string> {
+    const { text, tokenUsage } = await this.retry(() =>
+      this.withTimeout(this.callGenerateContent(this.redact(prompt), {
+        system: options?.system || 'You are a helpful assistant.',
+        maxOutputTokens: options?.max_tokens || 1024,
+        temperature: options?.temperature ?? 1.0,
+        onPartial: this.restoreStream(options?.onPartial)
+      }))
+    );
+    await this.recordUsage(tokenUsage);
+    return this.restore(text);
+  }
+
+  /**
+   * 병합 API 호출 (Phase 1: 파일 병합)
+   */
+  protected async callMergeAPI(
+    existingContent: string,
+    newContent: string
+  ): Promise<string> {
+    const prompt = buildMergeInstructionsPrompt(existingContent, newContent);
+
+    const { text, tokenUsage } = await this.callGenerateContent(prompt, {
+      system: 'You are an expert at merging code review conventions intelligently.',
+      maxOutputTokens: 2048,
+      temperature: 0.3
+    });
+    await this.recordUsage(tokenUsage);
+
+    // 병합된 내용 그대로 반환 (JSON 아님)
+    return text;
+  }
+
+  /**
+   * 텍스트 임베딩 (중복 규칙 검색용, 비밀 정보는 가린 뒤 전송)
+   */
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    const input = texts.map(text => this.redact(text));
+    return this.retry(() => this.withTimeout(this.callEmbeddingAPI(input)));
+  }
+
+  private async callEmbeddingAPI(input: string[]): Promise<number[][]> {
+    const model = EMBEDDING_MODELS.gemini;
+    const response = await fetch(`${this.apiBaseUrl}/${model}:batchEmbedContents`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey
+      },
+      body: JSON.stringify({
+        requests: input.map(text => ({
+          model: `models/${model}`,
+          content: { parts: [{ text }] },
+          taskType: 'SEMANTIC_SIMILARITY'
+        }))
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new LLMError(
+        errorData.error?.message || `API error: ${response.status}`,
+        'gemini',
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    const embeddings: Array<{ values: number[] }> = data.embeddings ?? [];
+    if (embeddings.length !== input.length) {
+      throw new LLMError('Unexpected embedding response from Gemini API', 'gemini');
+    }
+
+    return embeddings.map(embedding => embedding.values);
+  }
+
+  /**
+   * generateContent API 호출
+   * - 응답 텍스트 파트를 이어 붙이고 usageMetadata를 TokenUsage로 변환
+   * - onPartial이 있으면 streamGenerateContent로 청크마다 전달
+   */
+  private async callGenerateContent(
+    prompt: string,
+    options: GenerateContentOptions
+  ): Promise<{ text: string; tokenUsage: TokenUsage }> {
+    const endpoint = options.onPartial ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    const response = await fetch(`${this.apiBaseUrl}/${this.model}:${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey
+      },
+      body: JSON.stringify({
+        systemInstruction: {
+          parts: [{ text: options.system }]
+        },
+        contents: [
+          {
+            role: 'user',
+            parts: [{ text: prompt }]
+          }
+        ],
+        generationConfig: {
+          maxOutputTokens: options.maxOutputTokens,
+          temperature: options.temperature,
+          // thinking 토큰이 출력 한도를 소모하지 않도록 최소화 (Pro 모델은 비활성화 불가)
+          thinkingConfig: { thinkingBudget: this.model.includes('-pro') ? 128 : 0 },
+          ...(options.json ? { responseMimeType: 'application/json' } : {}),
+          ...(options.json && options.schema ? { responseJsonSchema: options.schema } : {})
+        }
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new LLMError(
+        errorData.error?.message || `API error: ${response.status}`,
+        'gemini',
+        response.status
+      );
+    }
+
+    let text = '';
+    let usage: GeminiUsageMetadata | undefined;
+
+    if (options.onPartial) {
+      const onPartial = options.onPartial;
+      await this.readEventStream(response, (data) => {
+        const chunk = JSON.parse(data);
+        const delta = this.extractText(chunk);
+        if (delta) {
+          text += delta;
+          onPartial(text);
+        }
+        usage = chunk.usageMetadata ?? usage;
+      });
+    } else {
+      const data = await response.json();
+      text = this.extractText(data);
+      usage = data.usageMetadata;
+    }
+
+    if (!text) {
+      throw new LLMError('Empty response from Gemini API', 'gemini');
+    }
+
+    // 토큰 사용량 추출 (Gemini usageMetadata, thinking 토큰은 출력 요금으로 과금)
+    const inputTokens = usage?.promptTokenCount || 0;
+    const outputTokens = (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0);
+    const tokenUsage: TokenUsage = {
+      inputTokens,
+      outputTokens,
+      totalTokens: usage?.totalTokenCount || inputTokens + outputTokens
+    };
+
+    return { text, tokenUsage };
+  }
+
+  /**
+   * 응답(또는 스트림 청크)의 텍스트 파트 연결
+   */
+  private extractText(data: any): string {
+    const parts: Array<{ text?: string }> = data.candidates?.[0]?.content?.parts || [];
+    return parts.map(part => part.text || '').join('');
+  }
+}
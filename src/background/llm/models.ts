@@ -0,0 +1,59 @@
+/**
+ * LLM 모델 선택
+ * - 제공자별 분석 모델(analysis)과 경량 작업 모델(light)을 따로 선택
+ * - light: 파일명 생성, 디렉토리 제안, instruction/skill 분류, PR 제목 요약
+ */
+
+import type { LLMConfig, LLMProvider } from '../../types';
+
+/**
+ * 모델 용도
+ */
+export type LLMTask = 'analysis' | 'light';
+
+/**
+ * 제공자별 기본 모델 (OpenAI 호환 엔드포인트는 사용자 입력 필수)
+ */
+export const DEFAULT_MODELS: Record<Exclude<LLMProvider, 'openai-compatible'>, Record<LLMTask, string>> = {
+  'claude': {
+    analysis: 'claude-sonnet-4-5-20250929',
+    light: 'claude-haiku-4-5-20251001'
+  },
+  'openai': {
+    analysis: 'gpt-4-turbo-preview',
+    light: 'gpt-4o-mini'
+  },
+  'gemini': {
+    analysis: 'gemini-2.5-flash',
+    light: 'gemini-2.5-flash-lite'
+  }
+};
+
+/**
+ * 제공자별 임베딩 모델 (중복 규칙 검색용, 임베딩 API가 없는 제공자는 로컬 MinHash 사용)
+ */
+export const EMBEDDING_MODELS: Partial<Record<LLMProvider, string>> = {
+  'openai': 'text-embedding-3-small',
+  'gemini': 'gemini-embedding-001'
+};
+
+/**
+ * 설정과 용도에 맞는 모델 ID 반환 (선택하지 않았으면 기본 모델)
+ * - OpenAI 호환 엔드포인트는 경량 모델이 없으면 분석 모델 사용
+ */
+export function resolveModel(config: LLMConfig, task: LLMTask = 'analysis'): string {
+  const isLight = task === 'light';
+
+  switch (config.provider) {
+    case 'claude':
+      return (isLight ? config.claudeLightModel : config.claudeModel) || DEFAULT_MODELS.claude[task];
+    case 'openai':
+      return (isLight ? config.openaiLightModel : config.openaiModel) || DEFAULT_MODELS.openai[task];
+    case 'gemini':
+      return (isLight ? config.geminiLightModel : config.geminiModel) || DEFAULT_MODELS.gemini[task];
+    case 'openai-compatible':
+      return (isLight && config.compatibleLightModel) || config.compatibleModel || '';
+    default:
+      return DEFAULT_MODELS.claude[task];
+  }
+}
@@ -3,79 +3,87 @@
  */
 
 import { BaseLLMClient } from './base-client';
-import type { LLMProvider, LLMResponse, LLMAnalysisResult, TokenUsage, SimilarityCheckResult } from './types';
+import type { LLMProvider, LLMResponse, LLMStreamHandler, TokenUsage, StructuredOutputOptions } from './types';
 import { LLMError } from './types';
-import { buildAnalysisPrompt, buildSimilarityCheckPrompt, buildMergeInstructionsPrompt, SYSTEM_PROMPT } from './prompts';
+import { DEFAULT_MODELS, EMBEDDING_MODELS } from './models';
+import { buildMergeInstructionsPrompt } from './prompts';
+import type { StructuredOutputSchema } from './schemas';
+
+const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+
+/**
+ * json_schema response_format을 지원하지 않는 모델 (JSON 모드로 대체)
+ */
+const JSON_MODE_ONLY_MODELS = /^(gpt-4-turbo|gpt-4-\d{4}|gpt-4$|gpt-3\.5)/;
 
 export class OpenAIClient extends BaseLLMClient {
   provider: LLMProvider = 'openai';
-  private readonly apiUrl = 'https://api.openai.com/v1/chat/completions';
-  private readonly model = 'gpt-4-turbo-preview'; // 또는 'gpt-4o'
+  protected readonly apiUrl: string;
 
-  async analyzeComment(
-    content: string,
-    codeExamples: string[],
-    replies?: Array<{ author: string; content: string; createdAt: string; }>,
-    existingKeywords?: string[],
-    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
-  ): Promise<LLMResponse> {
-    // Feature 2: 캐시를 활용한 분석 (replies 포함, 기존 키워드 전달)
-    return this.analyzeWithCache(content, codeExamples, replies, existingKeywords, codeContext);
+  /**
+   * @param apiUrl Chat Completions URL (OpenAI 호환 서버용)
+   */
+  constructor(apiKey: string, model: string = DEFAULT_MODELS.openai.analysis, apiUrl: string = OPENAI_API_URL) {
+    super(apiKey, model);
+    this.apiUrl = apiUrl;
   }
 
-  protected async callAnalysisAPI(
+  /**
+   * 요청 헤더
+   */
+  protected buildHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.apiKey}`
+    };
+  }
+
+  async analyzeComment(
     content: string,
     codeExamples: string[],
     replies?: Array<{ author: string; content: string; createdAt: string; }>,
     existingKeywords?: string[],
-    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
+    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; },
+    onPartial?: LLMStreamHandler
   ): Promise<LLMResponse> {
-    try {
-
-      const { result, tokenUsage } = await this.retry(() =>
-        this.withTimeout(this.callAPIInternal(content, codeExamples, replies, existingKeywords, codeContext))
-      );
-
-      return { success: true, data: result, tokenUsage };
-
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
+    // Feature 2: 캐시를 활용한 분석 (replies 포함, 기존 키워드 전달)
+    return this.analyzeWithCache(content, codeExamples, replies, existingKeywords, codeContext, onPartial);
   }
 
-  private async callAPIInternal(
-    content: string,
-    codeExamples: string[],
-    replies?: Array<{ author: string; content: string; createdAt: string; }>,
-    existingKeywords?: string[],
-    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
-  ): Promise<{ result: LLMAnalysisResult; tokenUsage: TokenUsage }> {
-    const prompt = buildAnalysisPrompt(content, codeExamples, replies, existingKeywords, codeContext);
+  /**
+   * 구조화 출력 API 호출 (json_schema response_format, strict 모드)
+   * - 구형 모델은 JSON 모드로 요청하고 스키마 검증에 맡김
+   * - onPartial이 있으면 스트리밍
+   */
+  protected async callStructuredAPI(
+    prompt: string,
+    schema: StructuredOutputSchema,
+    options: StructuredOutputOptions
+  ): Promise<{ value: unknown; tokenUsage: TokenUsage }> {
+    const responseFormat = this.supportsJsonSchema()
+      ? { type: 'json_schema', json_schema: { name: schema.name, schema: schema.schema, strict: true } }
+      : { type: 'json_object' };
 
     const response = await fetch(this.apiUrl, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`
-      },
+      headers: this.buildHeaders(),
       body: JSON.stringify({
         model: this.model,
         messages: [
           {
             role: 'system',
-            content: SYSTEM_PROMPT
+            content: options.system || 'You are a helpful assistant.'
           },
           {
             role: 'user',
             content: prompt
           }
         ],
-        max_tokens: 2048,
-        temperature: 0.3,
-        response_format: { type: 'json_object' } // JSON 모드 활성화
+        max_tokens: options.max_tokens || 1024,
+        temperature: options.temperature ?? 0.3,
+        response_format: responseFormat,
+        ...(options.onPartial ? this.streamParams() : {})
       })
     });
 
@@ -83,48 +91,32 @@ export class OpenAIClient extends BaseLLMClient {
       const errorData = await response.json().catch(() => ({}));
       throw new LLMError(
         errorData.error?.message || `API error: ${response.status}`,
-        'openai',
+        this.provider,
         response.status
       );
     }
 
+    if (options.onPartial) {
+      const { text, tokenUsage } = await this.readCompletionStream(response, options.onPartial);
+      return { value: this.parseStructuredText(text), tokenUsage };
+    }
+
     const data = await response.json();
     const textContent = data.choices?.[0]?.message?.content;
 
     if (!textContent) {
-      throw new LLMError('Empty response from OpenAI API', 'openai');
+      throw new LLMError('Empty response from OpenAI API', this.provider);
     }
 
     // 토큰 사용량 추출 (OpenAI API response format)
-    const tokenUsage: TokenUsage = {
-      inputTokens: data.usage?.prompt_tokens || 0,
-      outputTokens: data.usage?.completion_tokens || 0,
-      totalTokens: data.usage?.total_tokens || 0
-    };
-
-    // JSON 파싱
-    const parsed = this.parseJSON(textContent);
-
-    // 타입 검증
-    if (!parsed.summary || !parsed.detailedExplanation) {
-      throw new LLMError('Invalid response format from OpenAI API', 'openai');
-    }
-
-    const result: LLMAnalysisResult = {
-      summary: parsed.summary,
-      detailedExplanation: parsed.detailedExplanation,
-      codeExplanations: parsed.codeExplanations || [],
-      additionalKeywords: parsed.additionalKeywords || [],
-      suggestedCategory: parsed.suggestedCategory,
-      reasoning: parsed.reasoning || {
-        detectedIntent: [],
-        keyPhrases: [],
-        codeReferences: [],
-        confidenceScore: 50
-      }
-    };
+    return { value: this.parseStructuredText(textContent), tokenUsage: this.toTokenUsage(data.usage) };
+  }
 
-    return { result, tokenUsage };
+  /**
+   * json_schema response_format 지원 여부
+   */
+  protected supportsJsonSchema(): boolean {
+    return !JSON_MODE_ONLY_MODELS.test(this.model);
   }
 
   /**
@@ -133,21 +125,55 @@ export class OpenAIClient extends BaseLLMClient {
   async generateFileName(prompt: string): Promise<string> {
     try {
       const response = await this.retry(() =>
-        this.withTimeout(this.callFileNamingAPI(prompt))
+        this.withTimeout(this.callFileNamingAPI(this.redact(prompt)))
       );
-      return response;
+      return this.restore(response);
     } catch (error) {
       throw error;
     }
   }
 
+  /**
+   * 텍스트 임베딩 (중복 규칙 검색용, 비밀 정보는 가린 뒤 전송)
+   */
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    const input = texts.map(text => this.redact(text));
+    return this.retry(() => this.withTimeout(this.callEmbeddingAPI(input)));
+  }
+
+  private async callEmbeddingAPI(input: string[]): Promise<number[][]> {
+    const response = await fetch(OPENAI_EMBEDDINGS_URL, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model: EMBEDDING_MODELS.openai,
+        input
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new LLMError(
+        errorData.error?.message || `API error: ${response.status}`,
+        this.provider,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    await this.recordUsage(this.toTokenUsage(data.usage), EMBEDDING_MODELS.openai!);
+    const items: Array<{ index: number; embedding: number[] }> = data.data ?? [];
+    if (items.length !== input.length) {
+      throw new LLMError('Unexpected embedding response from OpenAI API', this.provider);
+    }
+
+    return [...items].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+
   private async callFileNamingAPI(prompt: string): Promise<string> {
     const response = await fetch(this.apiUrl, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`
-      },
+      headers: this.buildHeaders(),
       body: JSON.stringify({
         model: this.model,
         messages: [
@@ -170,16 +196,17 @@ export class OpenAIClient extends BaseLLMClient {
       const errorData = await response.json().catch(() => ({}));
       throw new LLMError(
         errorData.error?.message || `API error: ${response.status}`,
-        'openai',
+        this.provider,
         response.status
       );
     }
 
     const data = await response.json();
+    await this.recordUsage(this.toTokenUsage(data.usage));
     const textContent = data.choices?.[0]?.message?.content;
 
     if (!textContent) {
-      throw new LLMError('Empty response from OpenAI API', 'openai');
+      throw new LLMError('Empty response from OpenAI API', this.provider);
     }
 
     return textContent;
@@ -192,12 +219,16 @@ export class OpenAIClient extends BaseLLMClient {
     max_tokens?: number;
     temperature?: number;
     system?: string;
+    onPartial?: LLMStreamHandler;
   }): Promise<string> {
     try {
       const response = await this.retry(() =>
-        this.withTimeout(this.callTextGenerationAPI(prompt, options))
+        this.withTimeout(this.callTextGenerationAPI(this.redact(prompt), {
+          ...options,
+          onPartial: this.restoreStream(options?.onPartial)
+        }))
       );
-      return response;
+      return this.restore(response);
     } catch (error) {
       throw error;
     }
@@ -207,13 +238,11 @@ export class OpenAIClient extends BaseLLMClient {
     max_tokens?: number;
     temperature?: number;
     system?: string;
+    onPartial?: LLMStreamHandler;
   }): Promise<string> {
     const response = await fetch(this.apiUrl, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`
-      },
+      headers: this.buildHeaders(),
       body: JSON.stringify({
         model: this.model,
         messages: [
@@ -227,7 +256,8 @@ export class OpenAIClient extends BaseLLMClient {
           }
         ],
         max_tokens: options?.max_tokens || 1024,
-        temperature: options?.temperature ?? 1.0
+        temperature: options?.temperature ?? 1.0,
+        ...(options?.onPartial ? this.streamParams() : {})
       })
     });
 
@@ -235,94 +265,29 @@ export class OpenAIClient extends BaseLLMClient {
       const errorData = await response.json().catch(() => ({}));
       throw new LLMError(
         errorData.error?.message || `API error: ${response.status}`,
-        'openai',
+        this.provider,
         response.status
       );
     }
 
-    const data = await response.json();
-    const textContent = data.choices?.[0]?.message?.content;
-
-    if (!textContent) {
-      throw new LLMError('Empty response from OpenAI API', 'openai');
-    }
-
-    return textContent;
-  }
-
-  /**
-   * 유사도 검사 API 호출 (Phase 1: 중복 파일 방지)
-   */
-  protected async callSimilarityAPI(
-    existingContent: string,
-    newContent: string
-  ): Promise<SimilarityCheckResult> {
-    const prompt = buildSimilarityCheckPrompt(existingContent, newContent);
-
-    const response = await fetch(this.apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`
-      },
-      body: JSON.stringify({
-        model: this.model,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a code convention comparison expert.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 512,
-        temperature: 0.3,
-        response_format: { type: 'json_object' }
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new LLMError(
-        errorData.error?.message || `API error: ${response.status}`,
-        'openai',
-        response.status
-      );
+    if (options?.onPartial) {
+      const { text, tokenUsage } = await this.readCompletionStream(response, options.onPartial);
+      await this.recordUsage(tokenUsage);
+      if (!text) {
+        throw new LLMError('Empty response from OpenAI API', this.provider);
+      }
+      return text;
     }
 
     const data = await response.json();
+    await this.recordUsage(this.toTokenUsage(data.usage));
     const textContent = data.choices?.[0]?.message?.content;
 
     if (!textContent) {
-      throw new LLMError('Empty response from OpenAI API', 'openai');
+      throw new LLMError('Empty response from OpenAI API', this.provider);
     }
 
-    // JSON 파싱
-    const parsed = this.parseJSON(textContent);
-
-    // 타입 검증
-    if (typeof parsed.similarity !== 'number' || !parsed.decision || !parsed.reasoning) {
-      throw new LLMError('Invalid similarity check response format', 'openai');
-    }
-
-    // 토큰 사용량 추출
-    const tokenUsage: TokenUsage = {
-      inputTokens: data.usage?.prompt_tokens || 0,
-      outputTokens: data.usage?.completion_tokens || 0,
-      totalTokens: data.usage?.total_tokens || 0
-    };
-
-    return {
-      success: true,
-      data: {
-        similarity: parsed.similarity,
-        decision: parsed.decision,
-        reasoning: parsed.reasoning
-      },
-      tokenUsage
-    };
+    return textContent;
   }
 
   /**
@@ -336,10 +301,7 @@ export class OpenAIClient extends BaseLLMClient {
 
     const response = await fetch(this.apiUrl, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`
-      },
+      headers: this.buildHeaders(),
       body: JSON.stringify({
         model: this.model,
         messages: [
@@ -361,19 +323,70 @@ export class OpenAIClient extends BaseLLMClient {
       const errorData = await response.json().catch(() => ({}));
       throw new LLMError(
         errorData.error?.message || `API error: ${response.status}`,
-        'openai',
+        this.provider,
         response.status
       );
     }
 
     const data = await response.json();
+    await this.recordUsage(this.toTokenUsage(data.usage));
     const textContent = data.choices?.[0]?.message?.content;
 
     if (!textContent) {
-      throw new LLMError('Empty response from OpenAI API', 'openai');
+      throw new LLMError('Empty response from OpenAI API', this.provider);
     }
 
     // 병합된 내용 그대로 반환 (JSON 아님)
     return textContent;
   }
+
+  /**
+   * 스트리밍 요청 파라미터 (마지막 청크에 토큰 사용량 포함)
+   */
+  private streamParams(): Record<string, unknown> {
+    return { stream: true, stream_options: { include_usage: true } };
+  }
+
+  /**
+   * Chat Completions 스트림 읽기
+   * - choices[0].delta.content를 이어 붙이고 usage 청크에서 토큰 사용량 추출
+   */
+  private async readCompletionStream(
+    response: Response,
+    onPartial: LLMStreamHandler
+  ): Promise<{ text: string; tokenUsage: TokenUsage }> {
+    let text = '';
+    let tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+    await this.readEventStream(response, (data) => {
+      const chunk = JSON.parse(data);
+
+      if (chunk.error) {
+        throw new LLMError(chunk.error.message || 'Stream error from OpenAI API', this.provider);
+      }
+
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onPartial(text);
+      }
+
+      if (chunk.usage) {
+        tokenUsage = this.toTokenUsage(chunk.usage);
+      }
+    });
+
+    return { text, tokenUsage };
+  }
+
+  /**
+   * Chat Completions/Embeddings usage를 TokenUsage로 변환
+   */
+  private toTokenUsage(usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }): TokenUsage {
+    return {
+      inputTokens: usage?.prompt_tokens || 0,
+      outputTokens: usage?.completion_tokens || 0,
+      totalTokens: usage?.total_tokens || 0
+    };
+  }
 }
@@ -0,0 +1,33 @@
+/**
+ * OpenAI 호환 API 클라이언트 (Ollama, vLLM 등 자체 호스팅 LLM)
+ */
+
+import { OpenAIClient } from './openai-client';
+import type { LLMProvider } from './types';
+import { getChatCompletionsUrl } from '../../utils/llm-endpoint';
+
+export class OpenAICompatibleClient extends OpenAIClient {
+  provider: LLMProvider = 'openai-compatible';
+  protected timeout: number = 120000; // 로컬 추론은 느릴 수 있으므로 2분
+
+  constructor(baseUrl: string, model: string, apiKey?: string) {
+    super(apiKey ?? '', model, getChatCompletionsUrl(baseUrl));
+  }
+
+  /**
+   * 요청 헤더 (API 키가 없으면 Authorization 생략)
+   */
+  protected buildHeaders(): Record<string, string> {
+    if (this.apiKey) {
+      return super.buildHeaders();
+    }
+    return { 'Content-Type': 'application/json' };
+  }
+
+  /**
+   * json_schema response_format 지원 여부 (모델 이름과 무관하게 서버에 맡김)
+   */
+  protected supportsJsonSchema(): boolean {
+    return true;
+  }
+}
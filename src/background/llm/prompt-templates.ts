@@ -0,0 +1,202 @@
+/**
+ * 사용자 정의 프롬프트 템플릿 (Popup에서 편집, 저장소별 override)
+ * - 템플릿 문법은 Custom Target과 같은 Mustache 형식 (template-renderer)
+ * - 렌더링 결과 뒤에 응답 파싱에 필요한 출력 형식을 항상 덧붙임
+ */
+
+import type { PromptTemplates, RepositoryCategory } from '../../types';
+import { renderTemplate, validateTemplate } from '../../core/template-renderer';
+import { parseYaml } from '../../utils/yaml';
+import { getAllowedCategories } from './prompts';
+
+export type PromptTemplateName = 'analysis' | 'classification' | 'fileNaming';
+
+export const PROMPT_TEMPLATE_NAMES: PromptTemplateName[] = ['analysis', 'classification', 'fileNaming'];
+
+/**
+ * 템플릿별 storage 키
+ */
+export const PROMPT_TEMPLATE_STORAGE_KEYS: Record<PromptTemplateName, string> = {
+  analysis: 'promptTemplateAnalysis',
+  classification: 'promptTemplateClassification',
+  fileNaming: 'promptTemplateFileNaming'
+};
+
+/**
+ * 템플릿 버전 storage 키 (템플릿이 바뀔 때마다 1씩 증가)
+ */
+export const PROMPT_TEMPLATE_VERSION_KEY = 'promptTemplateVersion';
+
+/**
+ * 대상 저장소의 프롬프트 override 파일
+ */
+export const REPO_PROMPTS_PATH = '.review-to-instruction/prompts.yaml';
+
+/**
+ * 분석 템플릿 변수
+ */
+export interface AnalysisPromptContext {
+  comment: string;
+  replies: Array<{ author: string; content: string; createdAt: string; }>;
+  codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; };
+  codeExamples: string[];
+  existingKeywords: string[];
+  language?: string;  // 출력 언어 (기본 English)
+  categories?: RepositoryCategory[];  // 사용자/저장소 정의 카테고리
+}
+
+/**
+ * 파일명 템플릿 변수 (thread는 Discussion Thread 변환일 때만)
+ */
+export interface FileNamingPromptContext {
+  comment: string;
+  summary: string;
+  category: string;
+  keywords: string[];
+  namingPattern: string;
+  existingFiles: string[];
+  thread?: {
+    commentCount: number;
+    participants: string[];
+    comments: Array<{ author: string; content: string; }>;
+  };
+}
+
+/**
+ * 분석 출력 형식 (language: 요약/설명 출력 언어, categories: 허용 카테고리)
+ */
+function buildAnalysisOutputFormat(language: string, categories: string[]): string {
+  return `**Output Format (JSON):**
+{
+  "summary": "One sentence IN ${language.toUpperCase()}",
+  "detailedExplanation": "Rule explanation IN ${language.toUpperCase()}",
+  "codeExplanations": [{ "code": "snippet", "explanation": "one line", "isGoodExample": true }],
+  "additionalKeywords": ["keyword"],
+  "suggestedCategory": "exactly one of: ${categories.join(', ')}",
+  "reasoning": { "detectedIntent": ["intent"], "keyPhrases": ["phrase"], "codeReferences": ["file.ts:123"], "confidenceScore": 85 }
+}
+
+Output ONLY valid JSON (no markdown, no extra text).`;
+}
+
+const CLASSIFICATION_OUTPUT_FORMAT = `Respond with ONLY ONE WORD (no explanation):
+- "instruction" if it describes a rule/convention/standard
+- "skill" if it describes a how-to/method/technique
+
+Answer:`;
+
+const FILE_NAMING_OUTPUT_FORMAT = `## Response Format (JSON)
+{
+  "filename": "suggested-filename.md",
+  "directory": ".claude/rules",
+  "reasoning": "Brief explanation"
+}
+
+Respond ONLY with valid JSON, no additional text.`;
+
+/**
+ * 분석 프롬프트 렌더링
+ */
+export function renderAnalysisPrompt(template: string, context: AnalysisPromptContext): string {
+  const language = context.language ?? 'English';
+  const categories = getAllowedCategories(context.categories);
+  const body = renderTemplate(template, {
+    ...context,
+    language,
+    categories,
+    categoryDefinitions: context.categories ?? []
+  });
+  return `${body.trim()}\n\n${buildAnalysisOutputFormat(language, categories)}`;
+}
+
+/**
+ * instruction/skill 분류 프롬프트 렌더링
+ */
+export function renderClassificationPrompt(template: string, comment: string, keywords: string[]): string {
+  const body = renderTemplate(template, { comment, keywords });
+  return `${body.trim()}\n\n${CLASSIFICATION_OUTPUT_FORMAT}`;
+}
+
+/**
+ * 파일명 프롬프트 렌더링
+ */
+export function renderFileNamingPrompt(template: string, context: FileNamingPromptContext): string {
+  const body = renderTemplate(template, { ...context });
+  return `${body.trim()}\n\n${FILE_NAMING_OUTPUT_FORMAT}`;
+}
+
+/**
+ * storage 값에서 프롬프트 템플릿 구성
+ * - 모든 템플릿이 비어 있으면 undefined (기본 프롬프트, 기존 캐시 키 유지)
+ */
+export function loadPromptTemplates(storage: Record<string, unknown>): PromptTemplates | undefined {
+  const templates: PromptTemplates = {
+    version: String(storage[PROMPT_TEMPLATE_VERSION_KEY] ?? 0)
+  };
+
+  for (const name of PROMPT_TEMPLATE_NAMES) {
+    const value = storage[PROMPT_TEMPLATE_STORAGE_KEYS[name]];
+    if (typeof value === 'string' && value.trim()) {
+      templates[name] = value;
+    }
+  }
+
+  return PROMPT_TEMPLATE_NAMES.some(name => templates[name]) ? templates : undefined;
+}
+
+/**
+ * 저장소 override 파일 파싱
+ * - 최상위 키: analysis, classification, fileNaming (문자열 템플릿)
+ * - 템플릿 문법 오류가 있으면 에러
+ */
+export function parseRepoPromptTemplates(source: string): Partial<Record<PromptTemplateName, string>> {
+  const parsed = parseYaml(source);
+  if (parsed === null) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${REPO_PROMPTS_PATH}: 최상위는 매핑이어야 합니다.`);
+  }
+
+  const overrides: Partial<Record<PromptTemplateName, string>> = {};
+
+  for (const name of PROMPT_TEMPLATE_NAMES) {
+    const value = (parsed as Record<string, unknown>)[name];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`${REPO_PROMPTS_PATH}: ${name}은(는) 문자열이어야 합니다.`);
+    }
+
+    const error = validateTemplate(value);
+    if (error) {
+      throw new Error(`${REPO_PROMPTS_PATH}: ${name} - ${error}`);
+    }
+    if (value.trim()) {
+      overrides[name] = value;
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * 저장소 override 병합 (override 우선)
+ * @param revision override 파일 리비전 (버전에 포함되어 파일이 바뀌면 캐시 키도 바뀜)
+ */
+export function mergePromptTemplates(
+  base: PromptTemplates | undefined,
+  overrides: Partial<Record<PromptTemplateName, string>>,
+  revision: string
+): PromptTemplates | undefined {
+  if (Object.keys(overrides).length === 0) {
+    return base;
+  }
+
+  return {
+    ...base,
+    ...overrides,
+    version: `${base?.version ?? '0'}+repo:${revision}`
+  };
+}
@@ -2,22 +2,59 @@
  * LLM 프롬프트 템플릿
  */
 
+import type { RepositoryCategory } from '../../types';
+
+/**
+ * 분석 결과 suggestedCategory 후보
+ */
+export const SUGGESTED_CATEGORIES = [
+  'naming', 'style', 'architecture', 'testing', 'security', 'performance', 'error-handling', 'documentation',
+  'accessibility', 'i18n', 'api', 'database', 'state-management', 'git', 'ci-cd', 'dependencies'
+];
+
+/**
+ * 허용 카테고리 (기본 카테고리 + 사용자/저장소 정의 카테고리)
+ */
+export function getAllowedCategories(categories?: RepositoryCategory[]): string[] {
+  return [...new Set([...SUGGESTED_CATEGORIES, ...(categories ?? []).map(category => category.name)])];
+}
+
 /**
- * 코멘트 분석 프롬프트 (Feature 2: 스레드 답글 포함, 영어 출력, 강화된 키워드 추출)
+ * 사용자 정의 카테고리 설명 (설명/키워드가 있는 카테고리만)
+ */
+function buildCategoryGuide(categories?: RepositoryCategory[]): string {
+  const described = (categories ?? []).filter(category => category.description || category.keywords?.length);
+  if (described.length === 0) {
+    return '';
+  }
+
+  return `\n   Project-specific categories:\n${described.map(category => {
+    const keywords = category.keywords?.length ? ` (keywords: ${category.keywords.join(', ')})` : '';
+    return `   - ${category.name}: ${category.description ?? ''}${keywords}`;
+  }).join('\n')}`;
+}
+
+/**
+ * 코멘트 분석 프롬프트 (Feature 2: 스레드 답글 포함, 강화된 키워드 추출)
+ * @param language 출력 언어 (저장소 설정 language, 기본 English)
+ * @param categories 사용자/저장소 정의 카테고리 (suggestedCategory 후보에 추가)
  */
 export function buildAnalysisPrompt(
   content: string,
   codeExamples: string[],
   replies?: Array<{ author: string; content: string; createdAt: string; }>,
   existingKeywords?: string[],
-  codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
+  codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; },
+  language: string = 'English',
+  categories?: RepositoryCategory[]
 ): string {
+  const outputLanguage = language.toUpperCase();
   const hasCode = codeExamples.length > 0;
   const hasReplies = replies && replies.length > 0;
   const hasExistingKeywords = existingKeywords && existingKeywords.length > 0;
   const hasCodeContext = codeContext && codeContext.lines.length > 0;
 
-  return `You are a code review analyzer. Analyze the following code review comment${hasReplies ? ' and discussion thread' : ''} and provide structured output IN ENGLISH.
+  return `You are a code review analyzer. Analyze the following code review comment${hasReplies ? ' and discussion thread' : ''} and provide structured output IN ${outputLanguage}.
 
 **Review Comment:**
 ${content}
@@ -77,17 +114,17 @@ Note: Extract ADDITIONAL keywords not in the above list. Focus on:
 2. Provide a COMPACT rule explanation (1-3 bullet points max, each under 80 chars).
 3. ${hasCode ? 'Briefly explain each code example (one line per example).' : 'No code examples provided.'}
 4. Extract 3-5 relevant keywords (concise, no duplicates).
-5. Suggest category from: naming, style, architecture, testing, security, performance, error-handling, documentation, accessibility, i18n, api, database, state-management, git, ci-cd, dependencies.
+5. Suggest category from (EXACTLY one of): ${getAllowedCategories(categories).join(', ')}.${buildCategoryGuide(categories)}
 6. Provide reasoning: detectedIntent (1-2 intents), keyPhrases (2-3 phrases), codeReferences (if any), confidenceScore (0-100).
 
 **Output Format (JSON):**
 {
-  "summary": "One sentence (max 100 chars) IN ENGLISH",
-  "detailedExplanation": "1-3 compact bullet points, each under 80 chars, IN ENGLISH",
+  "summary": "One sentence (max 100 chars) IN ${outputLanguage}",
+  "detailedExplanation": "1-3 compact bullet points, each under 80 chars, IN ${outputLanguage}",
   "codeExplanations": [
     {
       "code": "original code snippet",
-      "explanation": "Brief one-line explanation IN ENGLISH (max 60 chars)",
+      "explanation": "Brief one-line explanation IN ${outputLanguage} (max 60 chars)",
       "isGoodExample": true/false
     }
   ],
@@ -102,7 +139,7 @@ Note: Extract ADDITIONAL keywords not in the above list. Focus on:
 }
 
 **Important:**
-- ALL output MUST be in ENGLISH (summary, detailedExplanation, codeExplanations).
+- ALL output MUST be in ${outputLanguage} (summary, detailedExplanation, codeExplanations).
 - **CRITICAL: Be EXTREMELY CONCISE.** Context matters - long rules waste tokens.
 - Summary: ONE sentence, max 100 chars.
 - DetailedExplanation: 1-3 bullet points, each under 80 chars. NO redundancy with summary.
@@ -191,6 +228,42 @@ Output JSON:
 }`;
 }
 
+/**
+ * 규칙 관계 분류 프롬프트 (모순 검사)
+ *
+ * 새 규칙과 의미상 가까운 기존 규칙 파일을 consistent/refining/contradicting으로 분류
+ */
+export function buildRuleRelationPrompt(
+  newRule: string,
+  existingRules: Array<{ path: string; content: string }>
+): string {
+  const files = existingRules
+    .map((rule, i) => `[${i}] ${rule.path}\n${rule.content}`)
+    .join('\n\n');
+
+  return `You are a code convention consistency checker.
+
+NEW RULE:
+${newRule}
+
+EXISTING RULE FILES:
+${files}
+
+TASK: For each existing rule file, classify its relation to the new rule:
+- consistent: Compatible, or about something else
+- refining: Same convention, one is a more specific case of the other
+- contradicting: Following one would violate the other (e.g. "use snake_case for DB columns" vs "use camelCase everywhere")
+
+For each file, copy the single most relevant line of the existing file verbatim into existingRule.
+
+Output JSON:
+{
+  "relations": [
+    { "index": 0, "relation": "contradicting", "existingRule": "- Use camelCase everywhere", "reasoning": "New rule requires snake_case for DB columns" }
+  ]
+}`;
+}
+
 /**
  * 병합 프롬프트 (Phase 1: 파일 병합 로직)
  *
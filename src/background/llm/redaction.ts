@@ -0,0 +1,148 @@
+/**
+ * LLM 전송 전 비밀 정보/개인정보 가리기
+ * - 감지된 값을 `[REDACTED_<종류>_<번호>]` 자리표시자로 바꾸고, LLM 응답에서 원래 값으로 복원
+ * - 같은 값은 같은 자리표시자를 사용 (캐시 키가 안정적이고 응답 복원이 일관됨)
+ */
+
+import type { RedactionEntry, RedactionKind } from '../../types';
+import { SECRET_PATTERNS, maskValue } from '../../core/secret-scanner';
+
+interface Detector {
+  kind: RedactionKind;
+  pattern: RegExp;
+}
+
+/**
+ * 기본 감지기 (순서대로 적용: 커밋 전 검사와 같은 비밀 정보 패턴 → 이메일 → IP)
+ */
+const BUILT_IN_DETECTORS: Detector[] = [
+  ...SECRET_PATTERNS,
+  {
+    kind: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+  },
+  {
+    kind: 'ip',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g
+  }
+];
+
+const PLACEHOLDER_PATTERN = /\[REDACTED_[A-Z_]+_\d+\]/g;
+
+/**
+ * 사용자 정의 패턴 목록 검증 (한 줄에 정규식 하나)
+ * @returns 오류 메시지 (유효하면 null)
+ */
+export function validateRedactionPatterns(source: string): string | null {
+  for (const [index, line] of parsePatternLines(source).entries()) {
+    try {
+      new RegExp(line);
+    } catch {
+      return `${index + 1}번째 패턴이 올바른 정규식이 아닙니다: ${line}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 줄 단위 패턴 목록 (빈 줄 제외)
+ */
+export function parsePatternLines(source: string): string[] {
+  return source.split('\n').map(line => line.trim()).filter(line => line !== '');
+}
+
+/**
+ * 비밀 정보 가리기/복원
+ */
+export class Redactor {
+  private detectors: Detector[];
+  private placeholders = new Map<string, string>();  // 원래 값 → 자리표시자
+  private originals = new Map<string, string>();     // 자리표시자 → 원래 값
+  private entries: RedactionEntry[] = [];
+  private counters = new Map<RedactionKind, number>();
+
+  /**
+   * @param customPatterns 사용자 정의 정규식 (잘못된 패턴은 건너뜀)
+   */
+  constructor(customPatterns: string[] = []) {
+    const custom = customPatterns.flatMap(source => {
+      try {
+        return [{ kind: 'custom' as const, pattern: new RegExp(source, 'g') }];
+      } catch {
+        console.warn(`[Redactor] Skipping invalid pattern: ${source}`);
+        return [];
+      }
+    });
+
+    this.detectors = [...BUILT_IN_DETECTORS, ...custom];
+  }
+
+  /**
+   * 텍스트의 비밀 정보를 자리표시자로 치환
+   */
+  redact(text: string): string {
+    let result = text;
+
+    for (const { kind, pattern } of this.detectors) {
+      result = result.replace(pattern, match => {
+        // 빈 매치나 이미 치환된 자리표시자는 그대로 둠
+        if (!match || this.originals.has(match)) {
+          return match;
+        }
+        return this.getPlaceholder(kind, match);
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 자리표시자를 원래 값으로 복원
+   */
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.originals.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * 객체/배열 안의 모든 문자열 복원 (구조화 출력용)
+   */
+  restoreValue<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.restore(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.restoreValue(item)) as T;
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.restoreValue(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * 지금까지 가린 항목 (원래 값은 일부만 표시)
+   */
+  getEntries(): RedactionEntry[] {
+    return [...this.entries];
+  }
+
+  private getPlaceholder(kind: RedactionKind, value: string): string {
+    const existing = this.placeholders.get(value);
+    if (existing) {
+      return existing;
+    }
+
+    const count = (this.counters.get(kind) ?? 0) + 1;
+    this.counters.set(kind, count);
+
+    const placeholder = `[REDACTED_${kind.toUpperCase().replace(/-/g, '_')}_${count}]`;
+    this.placeholders.set(value, placeholder);
+    this.originals.set(placeholder, value);
+    this.entries.push({ kind, placeholder, preview: maskValue(value) });
+
+    return placeholder;
+  }
+}
+
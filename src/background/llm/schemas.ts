@@ -0,0 +1,229 @@
+/**
+ * LLM 구조화 출력 스키마 (Claude tool use, OpenAI JSON schema, Gemini responseJsonSchema 공용)
+ * - OpenAI strict 모드 제약에 맞춰 모든 속성을 required로, additionalProperties는 false로 정의
+ */
+
+/**
+ * 구조화 출력에 사용하는 JSON Schema 부분집합
+ */
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * 이름이 붙은 구조화 출력 스키마 (Claude tool 이름, OpenAI json_schema 이름)
+ */
+export interface StructuredOutputSchema {
+  name: string;
+  description: string;
+  schema: JSONSchema;
+}
+
+const STRING_ARRAY: JSONSchema = { type: 'array', items: { type: 'string' } };
+
+/**
+ * 코멘트 분석 결과 (LLMAnalysisResult)
+ * @param categories suggestedCategory 허용 값
+ */
+export function buildAnalysisResultSchema(categories: string[]): StructuredOutputSchema {
+  return {
+    name: 'record_comment_analysis',
+    description: 'Record the structured analysis of a code review comment.',
+    schema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string', description: 'One sentence (max 100 chars) in the requested output language' },
+        detailedExplanation: { type: 'string', description: '1-3 compact bullet points in the requested output language' },
+        codeExplanations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              code: { type: 'string' },
+              explanation: { type: 'string' },
+              isGoodExample: { type: 'boolean' }
+            },
+            required: ['code', 'explanation', 'isGoodExample'],
+            additionalProperties: false
+          }
+        },
+        additionalKeywords: STRING_ARRAY,
+        suggestedCategory: { type: 'string', enum: categories },
+        reasoning: {
+          type: 'object',
+          properties: {
+            detectedIntent: STRING_ARRAY,
+            keyPhrases: STRING_ARRAY,
+            codeReferences: STRING_ARRAY,
+            confidenceScore: { type: 'number', minimum: 0, maximum: 100 }
+          },
+          required: ['detectedIntent', 'keyPhrases', 'codeReferences', 'confidenceScore'],
+          additionalProperties: false
+        }
+      },
+      required: ['summary', 'detailedExplanation', 'codeExplanations', 'additionalKeywords', 'suggestedCategory', 'reasoning'],
+      additionalProperties: false
+    }
+  };
+}
+
+/**
+ * 유사도 검사 결과 (Phase 1: 중복 파일 방지)
+ */
+export const SIMILARITY_CHECK_SCHEMA: StructuredOutputSchema = {
+  name: 'record_similarity',
+  description: 'Record how similar the new convention is to the existing file.',
+  schema: {
+    type: 'object',
+    properties: {
+      similarity: { type: 'number', minimum: 0, maximum: 100 },
+      decision: { type: 'string', enum: ['IDENTICAL', 'MERGE', 'DIFFERENT'] },
+      reasoning: { type: 'string' }
+    },
+    required: ['similarity', 'decision', 'reasoning'],
+    additionalProperties: false
+  }
+};
+
+/**
+ * 새 규칙과 관련 기존 규칙의 관계 분류 결과 (모순 검사)
+ */
+export const RULE_RELATION_SCHEMA: StructuredOutputSchema = {
+  name: 'record_rule_relations',
+  description: 'Record how the new rule relates to each existing rule file.',
+  schema: {
+    type: 'object',
+    properties: {
+      relations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer', minimum: 0 },
+            relation: { type: 'string', enum: ['consistent', 'refining', 'contradicting'] },
+            existingRule: { type: 'string' },
+            reasoning: { type: 'string' }
+          },
+          required: ['index', 'relation', 'existingRule', 'reasoning'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['relations'],
+    additionalProperties: false
+  }
+};
+
+/**
+ * 디렉토리 후보 선택 결과 (DirectorySuggester)
+ */
+export const DIRECTORY_SELECTION_SCHEMA: StructuredOutputSchema = {
+  name: 'select_directory',
+  description: 'Select the best directory candidate by index.',
+  schema: {
+    type: 'object',
+    properties: {
+      selected: { type: 'integer', minimum: 0, maximum: 2 },
+      reasoning: { type: 'string' }
+    },
+    required: ['selected', 'reasoning'],
+    additionalProperties: false
+  }
+};
+
+/**
+ * 값 타입 확인
+ */
+function matchesType(value: unknown, type: JSONSchema['type']): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * 스키마 검증
+ * - 정의되지 않은 추가 속성은 무시 (결과 변환 시 사용하지 않음)
+ * @returns 오류 목록 (비어 있으면 유효)
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path: string = '$'): string[] {
+  if (!matchesType(value, schema.type)) {
+    return [`${path}: expected ${schema.type}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined || record[key] === null) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      if (record[key] !== undefined && record[key] !== null) {
+        errors.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * 검증 실패 시 재요청 프롬프트 (원래 요청 + 잘못된 출력 + 오류 목록)
+ */
+export function buildRepairPrompt(originalPrompt: string, invalidOutput: unknown, errors: string[]): string {
+  const output = typeof invalidOutput === 'string' ? invalidOutput : JSON.stringify(invalidOutput, null, 2);
+
+  return `${originalPrompt}
+
+---
+
+Your previous response did not match the required schema.
+
+**Previous response:**
+${output}
+
+**Validation errors:**
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the corrected result with every required field and the correct types.`;
+}
@@ -2,10 +2,11 @@
  * LLM 관련 타입 정의
  */
 
-import type { CodeExplanation } from '../../types';
+import type { CodeExplanation, RedactionEntry, RuleConflict, RuleProvenance } from '../../types';
+import type { StructuredOutputSchema } from './schemas';
 
 // LLM 제공자 타입
-export type LLMProvider = 'claude' | 'openai';
+export type LLMProvider = 'claude' | 'openai' | 'gemini' | 'openai-compatible';
 
 // LLM API 응답
 export interface LLMResponse {
@@ -38,6 +39,9 @@ export interface InstructionResult {
   content: string;                     // 생성된 Instruction 내용
   reasoning: ReasoningInfo;            // 추론 과정
   sources: CommentSource[];            // 참조한 코멘트
+  redactions?: RedactionEntry[];       // LLM 전송 전 가린 항목
+  conflicts?: RuleConflict[];          // 모순되는 기존 규칙 (해결 방법 선택 필요)
+  provenance?: RuleProvenance;         // 규칙 항목의 출처 (미리보기 hover 표시)
 }
 
 // 참조 코멘트 정보
@@ -53,8 +57,12 @@ export interface TokenUsage {
   inputTokens: number;    // 입력 토큰 수
   outputTokens: number;   // 출력 토큰 수
   totalTokens: number;    // 총 토큰 수
+  model?: string;         // 사용한 모델 ID (비용 계산용)
 }
 
+// 스트리밍 콜백 (현재 시도에서 지금까지 받은 전체 텍스트, repair 재요청 시 처음부터 다시 전달)
+export type LLMStreamHandler = (accumulatedText: string) => void;
+
 // LLM 클라이언트 인터페이스
 export interface ILLMClient {
   provider: LLMProvider;
@@ -63,13 +71,34 @@ export interface ILLMClient {
     codeExamples: string[],
     replies?: Array<{ author: string; content: string; createdAt: string; }>,
     existingKeywords?: string[],
-    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; }
+    codeContext?: { filePath: string; lines: string; startLine?: number; endLine?: number; },
+    onPartial?: LLMStreamHandler
   ): Promise<LLMResponse>;
   generateText(prompt: string, options?: {
     max_tokens?: number;
     temperature?: number;
     system?: string;
+    onPartial?: LLMStreamHandler;
   }): Promise<string>;
+  generateStructured<T>(
+    prompt: string,
+    schema: StructuredOutputSchema,
+    options?: StructuredOutputOptions
+  ): Promise<StructuredOutputResult<T>>;
+}
+
+// 구조화 출력 요청 옵션
+export interface StructuredOutputOptions {
+  max_tokens?: number;
+  temperature?: number;
+  system?: string;
+  onPartial?: LLMStreamHandler;  // 지정하면 스트리밍 요청
+}
+
+// 구조화 출력 결과 (스키마 검증 통과, 재요청 포함 토큰 합계)
+export interface StructuredOutputResult<T> {
+  data: T;
+  tokenUsage: TokenUsage;
 }
 
 // LLM API 에러
@@ -3,14 +3,20 @@
  * Content script와 Background 간 메시지 처리
  */
 
-import type { Message, MessageResponse, Comment, Repository, Platform, DiscussionThread } from '../types';
-import type { InstructionResult, CommentSource } from './llm/types';
-import { ApiClient } from './api-client';
+import type { Message, MessageResponse, Comment, Repository, Platform, DiscussionThread, LLMProvider, ValidationWarning, RuleConflict, ConflictResolution } from '../types';
+import type { InstructionResult, CommentSource, LLMAnalysisResult, LLMStreamHandler, TokenUsage } from './llm/types';
+import { ApiClient, getGitHubApiBaseUrl } from './api-client';
 import { llmCache } from './llm/cache';
 import { createServiceContainer } from './services/di-container';
 import { ConversionOrchestrator } from './services/conversion-orchestrator';
 import { globalCrypto } from './global-crypto';
 import { iconManager } from './services/icon-manager';
+import { PLATFORM_TOKEN_KEYS, LLM_API_KEY_KEYS } from './services/config-service';
+import { parsePartialJSON, type PreviewStreamMessage } from '../utils/preview-stream';
+import { scanForSecrets, toValidationWarnings } from '../core/secret-scanner';
+import { buildRuleProvenance } from '../core/provenance-ledger';
+import { HistoryHarvestService, ChromeHarvestJobStore } from './services/history-harvest-service';
+import { summarizeHarvestJob, type HarvestJob } from '../core/history-harvest';
 
 /**
  * 메시지 핸들러
@@ -81,6 +87,25 @@ export async function handleMessage(
       await handleCheckTokenStatus(message.payload, sendResponse);
       break;
 
+    case 'HARVEST_PREPARE':
+      await handleHarvest(() => historyHarvestService.prepare(message.payload.repository, message.payload.limit), sendResponse);
+      break;
+
+    case 'HARVEST_START':
+      await handleHarvest(() => historyHarvestService.start(), sendResponse);
+      break;
+
+    case 'HARVEST_STATUS':
+      await handleHarvest(async () => {
+        await historyHarvestService.resume();
+        return historyHarvestService.getJob();
+      }, sendResponse);
+      break;
+
+    case 'HARVEST_CANCEL':
+      await handleHarvest(() => historyHarvestService.cancel(), sendResponse);
+      break;
+
     default:
       sendResponse({ success: false, error: 'Unknown message type' });
   }
@@ -117,14 +142,17 @@ async function handleSaveConfig(
  * API 연결 테스트
  */
 async function handleTestApi(
-  payload: { platform: Platform; token: string; gitlabUrl?: string },
+  payload: { platform: Platform; token: string; githubUrl?: string; gitlabUrl?: string; bitbucketUsername?: string; giteaUrl?: string },
   sendResponse: (response: MessageResponse) => void
 ) {
   try {
     const client = new ApiClient({
       token: payload.token,
       platform: payload.platform,
-      gitlabUrl: payload.gitlabUrl
+      githubUrl: payload.githubUrl,
+      gitlabUrl: payload.gitlabUrl,
+      bitbucketUsername: payload.bitbucketUsername,
+      giteaUrl: payload.giteaUrl
     });
 
     const result = await client.testConnection();
@@ -151,6 +179,18 @@ async function handleTestApi(
 // Orchestrator 초기화 (전역 CryptoService 사용)
 const orchestrator = new ConversionOrchestrator(createServiceContainer(globalCrypto));
 
+// 히스토리 수집 작업 (진행 상황은 열려 있는 Popup에 전달, 받을 곳이 없으면 무시)
+const historyHarvestService = new HistoryHarvestService(orchestrator, new ChromeHarvestJobStore(), (job) => {
+  chrome.runtime.sendMessage({ type: 'HARVEST_PROGRESS', payload: summarizeHarvestJob(job) }).catch(() => {});
+});
+
+/**
+ * Service Worker 재시작 시 중단된 히스토리 수집 작업 재개
+ */
+export function resumeHistoryHarvest(): Promise<void> {
+  return historyHarvestService.resume();
+}
+
 /**
  * 코멘트 변환 (instruction/skills 생성)
  * Feature 1: 다중 프로젝트 타입 지원
@@ -208,6 +248,24 @@ async function handleConvertPrWrapup(
   }
 }
 
+/**
+ * 히스토리 수집 요청 공통 처리 (작업은 백그라운드에서 계속 진행, 응답은 작업 요약)
+ */
+async function handleHarvest(
+  action: () => Promise<HarvestJob | null>,
+  sendResponse: (response: MessageResponse) => void
+) {
+  try {
+    const job = await action();
+    sendResponse({ success: true, data: job ? summarizeHarvestJob(job) : null });
+  } catch (error) {
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
 /**
  * 캐시 통계 조회 (Feature 2)
  */
@@ -272,8 +330,9 @@ async function handleGetRepositoryInfo(
       throw new Error('GitHub token not configured');
     }
 
-    // Repository 정보 조회
-    const url = `https://api.github.com/repos/${payload.owner}/${payload.name}`;
+    // Repository 정보 조회 (GitHub Enterprise Server는 설정된 URL의 /api/v3 사용)
+    const { githubUrl } = await chrome.storage.local.get('githubUrl');
+    const url = `${getGitHubApiBaseUrl(githubUrl as string | undefined)}/repos/${payload.owner}/${payload.name}`;
     const headers = {
       'Authorization': `token ${token}`,
       'Accept': 'application/vnd.github.v3+json'
@@ -308,10 +367,41 @@ async function handleGetRepositoryInfo(
  * PR 정보 가져오기 (head branch 확인용)
  */
 async function handleGetPRInfo(
-  payload: { owner: string; name: string; prNumber: number },
+  payload: { owner: string; name: string; prNumber: number; platform?: Platform },
   sendResponse: (response: MessageResponse) => void
 ) {
   try {
+    // GitHub 외 플랫폼은 암호화된 설정으로 ApiClient를 통해 조회
+    if (payload.platform && payload.platform !== 'github') {
+      const config = await orchestrator.container.configService.loadConfig(payload.platform);
+      const client = new ApiClient({
+        token: config.token,
+        platform: payload.platform,
+        githubUrl: config.githubUrl,
+        gitlabUrl: config.gitlabUrl,
+        bitbucketUsername: config.bitbucketUsername,
+        giteaUrl: config.giteaUrl
+      });
+
+      const info = await client.getPullRequestInfo({
+        owner: payload.owner,
+        name: payload.name,
+        platform: payload.platform,
+        prNumber: payload.prNumber,
+        branch: ''
+      });
+
+      sendResponse({
+        success: true,
+        data: {
+          head_branch: info.headBranch,
+          base_branch: info.baseBranch,
+          title: info.title,
+          number: info.number
+        }
+      });
+      return;
+    }
 
     // GitHub token 가져오기
     const storage = await chrome.storage.sync.get(['githubToken']);
@@ -321,8 +411,10 @@ async function handleGetPRInfo(
       throw new Error('GitHub token not configured');
     }
 
-    // PR 정보 조회
-    const url = `https://api.github.com/repos/${payload.owner}/${payload.name}/pulls/${payload.prNumber}`;
+    // PR 정보 조회 (GitHub Enterprise Server는 설정된 URL의 /api/v3 사용)
+    const { githubUrl } = await chrome.storage.local.get('githubUrl');
+    const apiBaseUrl = getGitHubApiBaseUrl(githubUrl as string | undefined);
+    const url = `${apiBaseUrl}/repos/${payload.owner}/${payload.name}/pulls/${payload.prNumber}`;
     const headers = {
       'Authorization': `token ${token}`,
       'Accept': 'application/vnd.github.v3+json'
@@ -371,7 +463,10 @@ async function handleGetPRReviewData(
     const client = new ApiClient({
       token: config.token,
       platform: payload.platform,
-      gitlabUrl: config.gitlabUrl
+      githubUrl: config.githubUrl,
+      gitlabUrl: config.gitlabUrl,
+      bitbucketUsername: config.bitbucketUsername,
+      giteaUrl: config.giteaUrl
     });
 
     const reviewData = await client.getReviewData({
@@ -430,37 +525,25 @@ async function handleSetMasterPassword(
 async function determineIconState(): Promise<'active' | 'locked' | 'off'> {
   try {
     // 암호화된 token 확인
-    const storage = await chrome.storage.local.get([
-      'githubToken_enc',
-      'gitlabToken_enc'
-    ]);
-
-    const hasGitHub = !!storage.githubToken_enc;
-    const hasGitLab = !!storage.gitlabToken_enc;
+    const tokenKeys = Object.values(PLATFORM_TOKEN_KEYS).map(key => `${key}_enc`);
+    const storage = await chrome.storage.local.get(tokenKeys);
+    const storedKeys = tokenKeys.filter(key => !!storage[key]);
 
     // token이 하나도 없으면 'off'
-    if (!hasGitHub && !hasGitLab) {
+    if (storedKeys.length === 0) {
       return 'off';
     }
 
-    // token 복호화 시도
+    // token 복호화 시도 (하나라도 성공하면 잠금 해제 상태)
     let canDecrypt = false;
 
-    if (hasGitHub) {
-      try {
-        await globalCrypto.decrypt(storage.githubToken_enc as string);
-        canDecrypt = true;
-      } catch (error) {
-        // GitHub token 복호화 실패
-      }
-    }
-
-    if (!canDecrypt && hasGitLab) {
+    for (const key of storedKeys) {
       try {
-        await globalCrypto.decrypt(storage.gitlabToken_enc as string);
+        await globalCrypto.decrypt(storage[key] as string);
         canDecrypt = true;
+        break;
       } catch (error) {
-        // GitLab token도 복호화 실패
+        // 복호화 실패, 다음 token 시도
       }
     }
 
@@ -480,21 +563,114 @@ async function handlePreviewInstruction(
   sendResponse: (response: MessageResponse) => void
 ) {
   try {
-    // 1. 설정 로드
-    const config = await orchestrator.container.configService.loadConfig(payload.repository.platform);
+    sendResponse({
+      success: true,
+      data: await buildInstructionPreview(payload)
+    });
 
-    // 2. LLM 분석만 수행
-    const { enhancedComment, tokenUsage } = await orchestrator.container.commentService.validateAndEnhance(
-      payload.comment,
-      config.llmConfig
-    );
+  } catch (error) {
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
 
-    // 3. Instruction 내용 생성
-    const codeContextSection = payload.comment.codeContext && payload.comment.codeContext.lines
-      ? `\n## Reviewed Code\n\nFile: \`${payload.comment.codeContext.filePath}\`${payload.comment.codeContext.startLine ? ` (lines ${payload.comment.codeContext.startLine}-${payload.comment.codeContext.endLine})` : ''}\n\n\`\`\`\n${payload.comment.codeContext.lines}\n\`\`\`\n`
-      : '';
+/**
+ * Instruction 미리보기 스트리밍 포트 처리
+ * - LLM 응답 조각을 부분 분석 결과로 파싱해 partial로 보내고, 끝나면 complete 전송
+ * - Content script가 먼저 포트를 닫으면(모달 취소) 이후 메시지는 버림
+ * @param senderCheck 발신 URL 검증 결과 (service worker에서 전달)
+ */
+export function handlePreviewStreamPort(port: chrome.runtime.Port, senderCheck: Promise<boolean>): void {
+  let connected = true;
+  port.onDisconnect.addListener(() => {
+    connected = false;
+  });
+
+  const post = (message: PreviewStreamMessage) => {
+    if (connected) {
+      port.postMessage(message);
+    }
+  };
+
+  port.onMessage.addListener(async (message: Message) => {
+    if (message.type !== 'PREVIEW_INSTRUCTION') {
+      return;
+    }
 
-    const instructionContent = `# ${enhancedComment.suggestedCategory || 'Convention'}
+    if (!(await senderCheck)) {
+      post({ type: 'complete', response: { success: false, error: 'Unauthorized origin' } });
+      return;
+    }
+
+    let lastPartial = '';
+
+    try {
+      const data = await buildInstructionPreview(message.payload, (accumulatedText) => {
+        const partial = parsePartialJSON(accumulatedText);
+        if (!partial || typeof partial !== 'object') return;
+
+        // 변경된 경우만 전송
+        const serialized = JSON.stringify(partial);
+        if (serialized !== lastPartial) {
+          lastPartial = serialized;
+          post({ type: 'partial', data: partial as Partial<LLMAnalysisResult> });
+        }
+      });
+
+      post({ type: 'complete', response: { success: true, data } });
+
+    } catch (error) {
+      post({
+        type: 'complete',
+        response: {
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        }
+      });
+    }
+  });
+}
+
+/**
+ * Instruction 미리보기 생성 (LLM 분석 + 미리보기 내용/출처 구성 + 커밋 전 검사 경고 + 기존 규칙과의 모순)
+ */
+async function buildInstructionPreview(
+  payload: { comment: Comment; repository: Repository },
+  onPartial?: LLMStreamHandler
+): Promise<{ result: InstructionResult; tokenUsage?: TokenUsage; warnings: ValidationWarning[] }> {
+  // 1. 설정 로드
+  const config = await orchestrator.container.configService.loadConfig(payload.repository.platform);
+
+  // 2. 저장소 설정 적용 (변환 시와 같은 프롬프트/언어/캐시 사용)
+  const client = new ApiClient({
+    token: config.token,
+    platform: payload.repository.platform,
+    githubUrl: config.githubUrl,
+    gitlabUrl: config.gitlabUrl,
+    bitbucketUsername: config.bitbucketUsername,
+    giteaUrl: config.giteaUrl
+  });
+  const { llmConfig } = await orchestrator.applyRepositorySettings(
+    client,
+    payload.repository,
+    config.llmConfig
+  );
+
+  // 3. LLM 분석만 수행
+  const { enhancedComment, tokenUsage } = await orchestrator.container.commentService.validateAndEnhance(
+    payload.comment,
+    llmConfig,
+    onPartial
+  );
+
+  // 4. Instruction 내용 생성
+  const codeContextSection = payload.comment.codeContext && payload.comment.codeContext.lines
+    ? `\n## Reviewed Code\n\nFile: \`${payload.comment.codeContext.filePath}\`${payload.comment.codeContext.startLine ? ` (lines ${payload.comment.codeContext.startLine}-${payload.comment.codeContext.endLine})` : ''}\n\n\`\`\`\n${payload.comment.codeContext.lines}\n\`\`\`\n`
+    : '';
+
+  const instructionContent = `# ${enhancedComment.suggestedCategory || 'Convention'}
 
 ${enhancedComment.summary}
 
@@ -516,62 +692,72 @@ ${ex.explanation}
 `).join('\n')}
 ` : ''}`;
 
-    // 4. CommentSource 생성
-    const sources: CommentSource[] = [];
-
-    // 메인 코멘트
-    sources.push({
-      commentId: payload.comment.id,
-      author: payload.comment.author,
-      excerpt: payload.comment.content.substring(0, 150) +
-        (payload.comment.content.length > 150 ? '...' : ''),
-      weight: 1.0
-    });
-
-    // 답글들
-    if (payload.comment.replies && payload.comment.replies.length > 0) {
-      const replyWeight = 0.5 / payload.comment.replies.length;
-      payload.comment.replies.forEach(reply => {
-        sources.push({
-          commentId: reply.id,
-          author: reply.author,
-          excerpt: reply.content.substring(0, 100) +
-            (reply.content.length > 100 ? '...' : ''),
-          weight: replyWeight
-        });
+  // 5. CommentSource 생성
+  const sources: CommentSource[] = [];
+
+  // 메인 코멘트
+  sources.push({
+    commentId: payload.comment.id,
+    author: payload.comment.author,
+    excerpt: payload.comment.content.substring(0, 150) +
+      (payload.comment.content.length > 150 ? '...' : ''),
+    weight: 1.0
+  });
+
+  // 답글들
+  if (payload.comment.replies && payload.comment.replies.length > 0) {
+    const replyWeight = 0.5 / payload.comment.replies.length;
+    payload.comment.replies.forEach(reply => {
+      sources.push({
+        commentId: reply.id,
+        author: reply.author,
+        excerpt: reply.content.substring(0, 100) +
+          (reply.content.length > 100 ? '...' : ''),
+        weight: replyWeight
       });
-    }
-
-    // 5. InstructionResult 생성
-    const result: InstructionResult = {
-      content: instructionContent,
-      reasoning: enhancedComment.reasoning || {
-        detectedIntent: [],
-        keyPhrases: [],
-        codeReferences: [],
-        confidenceScore: 50
-      },
-      sources
-    };
-
-    sendResponse({
-      success: true,
-      data: { result, tokenUsage }
     });
+  }
+
+  // 6. 커밋 전 검사 (변환 시와 같은 규칙: 비밀 정보는 마스킹, 민감 파일 코드는 차단)
+  const scan = scanForSecrets('preview', instructionContent, payload.comment.codeContext);
 
+  // 7. 기존 규칙과의 모순 검사 (실패해도 미리보기는 표시)
+  let conflicts: RuleConflict[] = [];
+  try {
+    conflicts = await orchestrator.container.fileGenerationService.checkConflicts(
+      client,
+      payload.repository,
+      enhancedComment,
+      payload.comment,
+      llmConfig
+    );
   } catch (error) {
-    sendResponse({
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
-    });
+    console.warn('[buildInstructionPreview] Conflict check failed:', error);
   }
+
+  // 8. InstructionResult 생성
+  const result: InstructionResult = {
+    content: scan.content,
+    reasoning: enhancedComment.reasoning || {
+      detectedIntent: [],
+      keyPhrases: [],
+      codeReferences: [],
+      confidenceScore: 50
+    },
+    sources,
+    redactions: enhancedComment.redactions,
+    ...(conflicts.length > 0 ? { conflicts } : {}),
+    provenance: buildRuleProvenance(payload.repository, payload.comment)
+  };
+
+  return { result, tokenUsage, warnings: toValidationWarnings(scan.findings) };
 }
 
 /**
  * 미리보기 확인 후 실제 변환 수행
  */
 async function handleConfirmAndConvert(
-  payload: { comment: Comment; repository: Repository; editedContent?: string },
+  payload: { comment: Comment; repository: Repository; editedContent?: string; conflictResolution?: ConflictResolution; conflicts?: RuleConflict[] },
   sendResponse: (response: MessageResponse) => void
 ) {
   try {
@@ -583,7 +769,9 @@ async function handleConfirmAndConvert(
     // 기존 변환 로직 재사용
     const result = await orchestrator.convertComment({
       comment: finalComment,
-      repository: payload.repository
+      repository: payload.repository,
+      conflictResolution: payload.conflictResolution,
+      conflicts: payload.conflicts
     });
 
     sendResponse({ success: true, data: result });
@@ -606,22 +794,26 @@ async function handleCheckTokenStatus(
     const { platform } = payload;
 
     // 암호화된 token 확인
+    const platformTokenKey = `${PLATFORM_TOKEN_KEYS[platform]}_enc`;
     const storage = await chrome.storage.local.get([
-      'githubToken_enc',
-      'gitlabToken_enc',
+      platformTokenKey,
       'claudeApiKey_enc',
       'openaiApiKey_enc',
+      'geminiApiKey_enc',
+      'compatibleApiKey_enc',
+      'compatibleBaseUrl',
       'llmProvider'
     ]);
 
     // Platform별 token 확인
-    const platformTokenKey = platform === 'github' ? 'githubToken_enc' : 'gitlabToken_enc';
     const hasPlatformToken = !!storage[platformTokenKey];
 
-    // LLM API key 확인
+    // LLM API key 확인 (OpenAI 호환 엔드포인트는 키가 선택이므로 URL로 판단)
     const provider = storage.llmProvider || 'claude';
-    const llmKeyKey = provider === 'claude' ? 'claudeApiKey_enc' : 'openaiApiKey_enc';
-    const hasLlmKey = !!storage[llmKeyKey];
+    const llmKeyKey = `${LLM_API_KEY_KEYS[provider as LLMProvider] ?? LLM_API_KEY_KEYS.claude}_enc`;
+    const hasLlmKey = provider === 'openai-compatible'
+      ? !!storage.compatibleBaseUrl
+      : !!storage[llmKeyKey];
 
     // 둘 다 없으면 바로 false 반환
     if (!hasPlatformToken || !hasLlmKey) {
@@ -644,7 +836,9 @@ async function handleCheckTokenStatus(
     }
 
     try {
-      await globalCrypto.decrypt(storage[llmKeyKey] as string);
+      if (storage[llmKeyKey]) {
+        await globalCrypto.decrypt(storage[llmKeyKey] as string);
+      }
       canDecryptLlmKey = true;
     } catch (error) {
       // 복호화 실패
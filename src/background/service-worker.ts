@@ -3,10 +3,17 @@
  */
 
 import type { Message, MessageResponse } from '../types';
-import { handleMessage } from './message-handler';
+import { handleMessage, handlePreviewStreamPort, resumeHistoryHarvest } from './message-handler';
 import { iconManager } from './services/icon-manager';
 import { globalCrypto } from './global-crypto';
 import { sessionManager } from './services/session-manager';
+import { PLATFORM_TOKEN_KEYS } from './services/config-service';
+import { contentScriptRegistry } from './services/content-script-registry';
+import { startPromptTemplateVersioning } from './services/prompt-template-service';
+import { PREVIEW_STREAM_PORT } from '../utils/preview-stream';
+
+// 플랫폼별 암호화 token storage 키
+const ENCRYPTED_TOKEN_KEYS = Object.values(PLATFORM_TOKEN_KEYS).map(key => `${key}_enc`);
 
 /**
  * 아이콘 상태 초기화
@@ -56,11 +63,8 @@ async function initializeIconState(): Promise<void> {
  */
 async function checkTokensExist(): Promise<boolean> {
   try {
-    const storage = await chrome.storage.local.get([
-      'githubToken_enc',
-      'gitlabToken_enc'
-    ]);
-    return !!(storage.githubToken_enc || storage.gitlabToken_enc);
+    const storage = await chrome.storage.local.get(ENCRYPTED_TOKEN_KEYS);
+    return ENCRYPTED_TOKEN_KEYS.some(key => !!storage[key]);
   } catch (error) {
     console.error('[Service Worker] Failed to check tokens existence:', error);
     return false;
@@ -72,33 +76,17 @@ async function checkTokensExist(): Promise<boolean> {
  */
 async function checkTokensValid(): Promise<boolean> {
   try {
-    const storage = await chrome.storage.local.get([
-      'githubToken_enc',
-      'gitlabToken_enc'
-    ]);
-
-    // 적어도 하나의 암호화된 token이 있어야 함
-    const hasEncryptedToken = !!(storage.githubToken_enc || storage.gitlabToken_enc);
-    if (!hasEncryptedToken) {
-      return false;
-    }
+    const storage = await chrome.storage.local.get(ENCRYPTED_TOKEN_KEYS);
 
-    // 복호화 시도 (GitHub token 우선)
-    if (storage.githubToken_enc) {
+    // 복호화 시도 (GitHub → GitLab → Bitbucket 순)
+    // 적어도 하나의 암호화된 token이 복호화되어야 함
+    for (const key of ENCRYPTED_TOKEN_KEYS) {
+      if (!storage[key]) continue;
       try {
-        await globalCrypto.decrypt(storage.githubToken_enc as string);
+        await globalCrypto.decrypt(storage[key] as string);
         return true;
       } catch (error) {
-        // GitHub token 복호화 실패, GitLab token 시도
-      }
-    }
-
-    if (storage.gitlabToken_enc) {
-      try {
-        await globalCrypto.decrypt(storage.gitlabToken_enc as string);
-        return true;
-      } catch (error) {
-        // GitLab token도 복호화 실패
+        // 복호화 실패, 다음 token 시도
       }
     }
 
@@ -108,6 +96,54 @@ async function checkTokensValid(): Promise<boolean> {
   }
 }
 
+/**
+ * 메시지 발신 URL 검증
+ * extension 페이지, 기본 지원 호스트, popup에서 설정한 self-hosted 인스턴스만 허용
+ */
+async function isAllowedSenderUrl(url: string): Promise<boolean> {
+  if (url.startsWith(`chrome-extension://${chrome.runtime.id}/`)) {
+    return true;
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return false;
+  }
+
+  const isAllowedUrl =
+    url.includes('github.com') ||
+    url.includes('gitlab.com') ||
+    url.includes('git.projectbro.com') ||
+    hostname === 'bitbucket.org' ||
+    hostname === 'codeberg.org' ||
+    hostname === 'dev.azure.com';
+
+  if (isAllowedUrl) {
+    return true;
+  }
+
+  // Self-hosted 인스턴스 (GitHub Enterprise Server, GitLab, Gitea/Forgejo)
+  const storage = await chrome.storage.local.get(['githubUrl', 'gitlabUrl', 'giteaUrl']);
+  return [storage.githubUrl, storage.gitlabUrl, storage.giteaUrl].some((configuredUrl) => {
+    try {
+      return !!configuredUrl && new URL(configuredUrl as string).hostname === hostname;
+    } catch {
+      return false;
+    }
+  });
+}
+
+// 설정/권한 변경 시 GitHub Enterprise content script 재등록
+contentScriptRegistry.start();
+
+// 프롬프트 템플릿 변경 시 버전 증가 (LLM 캐시 키 갱신)
+startPromptTemplateVersioning();
+
+// 중단된 히스토리 수집 작업 재개 (Service Worker가 다시 시작될 때마다)
+resumeHistoryHarvest().catch(error => console.error('[Service Worker] Failed to resume history harvest:', error));
+
 // Extension 설치 시
 chrome.runtime.onInstalled.addListener(async () => {
   // 기본 설정 초기화
@@ -120,6 +156,9 @@ chrome.runtime.onInstalled.addListener(async () => {
 
   // 세션 관리자 시작
   await sessionManager.start();
+
+  // GitHub Enterprise, self-hosted Gitea content script 등록 상태 동기화
+  await contentScriptRegistry.syncAll();
 });
 
 // Service Worker 시작 시 (브라우저 시작 또는 Extension 재로드)
@@ -129,6 +168,9 @@ chrome.runtime.onStartup.addListener(async () => {
 
   // 세션 관리자 시작
   await sessionManager.start();
+
+  // GitHub Enterprise, self-hosted Gitea content script 등록 상태 동기화
+  await contentScriptRegistry.syncAll();
 });
 
 // Content script로부터 메시지 수신
@@ -153,26 +195,40 @@ chrome.runtime.onMessage.addListener(
     }
 
     // 허용된 URL 패턴 검증 (content script나 extension page에서만)
-    if (sender.url) {
-      const isExtensionUrl = sender.url.startsWith(`chrome-extension://${chrome.runtime.id}/`);
-      const isAllowedUrl =
-        sender.url.includes('github.com') ||
-        sender.url.includes('gitlab.com') ||
-        sender.url.includes('git.projectbro.com');
-
-      if (!isExtensionUrl && !isAllowedUrl) {
+    const senderCheck = sender.url ? isAllowedSenderUrl(sender.url) : Promise.resolve(true);
+
+    senderCheck.then((isAllowed) => {
+      if (!isAllowed) {
         sendResponse({
           success: false,
           error: 'Unauthorized origin'
         });
-        return true;
+        return;
       }
-    }
 
-    // 비동기 메시지 핸들러 호출
-    handleMessage(message, sendResponse);
+      // 비동기 메시지 핸들러 호출
+      handleMessage(message, sendResponse);
+    });
 
     // 비동기 응답을 위해 true 반환
     return true;
   }
 );
+
+// Content script의 미리보기 스트리밍 포트 연결
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== PREVIEW_STREAM_PORT) {
+    return;
+  }
+
+  // 발신자 검증 - onMessage와 동일한 기준
+  const sender = port.sender;
+  if (!sender?.id || sender.id !== chrome.runtime.id) {
+    port.disconnect();
+    return;
+  }
+
+  // 리스너는 바로 등록 (연결 직후 보낸 메시지를 놓치지 않도록), URL 검증은 요청 처리 전에 대기
+  const senderCheck = sender.url ? isAllowedSenderUrl(sender.url) : Promise.resolve(true);
+  handlePreviewStreamPort(port, senderCheck);
+});
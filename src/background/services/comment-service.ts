@@ -5,18 +5,20 @@
 import type { Comment, LLMConfig, EnhancedComment, DiscussionThread } from '../../types';
 import { isConventionComment, parseComment } from '../../core/parser';
 import { enhanceWithLLM } from '../llm/enhancer';
+import type { LLMStreamHandler } from '../llm/types';
 
 export interface CommentService {
   validateAndEnhance(
     comment: Comment,
-    llmConfig: LLMConfig
-  ): Promise<{ enhancedComment: EnhancedComment; tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; } }>;
+    llmConfig: LLMConfig,
+    onPartial?: LLMStreamHandler
+  ): Promise<{ enhancedComment: EnhancedComment; tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; model?: string; } }>;
 
   validateAndEnhanceThread(
     mergedComment: Comment,
     thread: DiscussionThread,
     llmConfig: LLMConfig
-  ): Promise<{ enhancedComment: EnhancedComment; tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; } }>;
+  ): Promise<{ enhancedComment: EnhancedComment; tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; model?: string; } }>;
 }
 
 /**
@@ -28,15 +30,16 @@ export class CommentServiceImpl implements CommentService {
    */
   async validateAndEnhance(
     comment: Comment,
-    llmConfig: LLMConfig
-  ): Promise<{ enhancedComment: EnhancedComment; tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; } }> {
+    llmConfig: LLMConfig,
+    onPartial?: LLMStreamHandler
+  ): Promise<{ enhancedComment: EnhancedComment; tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; model?: string; } }> {
     // 1. 컨벤션 관련 코멘트인지 확인
     if (!isConventionComment(comment.content)) {
       throw new Error('이 코멘트는 컨벤션 관련 내용이 아닙니다.');
     }
 
-    // 2. 코멘트 파싱 (규칙 기반)
-    const parsedComment = parseComment(comment.content);
+    // 2. 코멘트 파싱 (규칙 기반, 사용자/저장소 정의 카테고리 포함)
+    const parsedComment = parseComment(comment.content, llmConfig.categories);
 
     // 3. 키워드 검증 제거 - LLM이 키워드를 추출할 것
 
@@ -46,7 +49,8 @@ export class CommentServiceImpl implements CommentService {
       llmConfig,
       comment.replies,
       undefined,         // thread
-      comment.codeContext // 인라인 리뷰의 코드 컨텍스트
+      comment.codeContext, // 인라인 리뷰의 코드 컨텍스트
+      onPartial            // 미리보기 스트리밍
     );
 
     // 5. 선택적 경고 (디버깅용)
@@ -64,7 +68,7 @@ export class CommentServiceImpl implements CommentService {
     mergedComment: Comment,
     thread: DiscussionThread,
     llmConfig: LLMConfig
-  ): Promise<{ enhancedComment: EnhancedComment; tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; } }> {
+  ): Promise<{ enhancedComment: EnhancedComment; tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; model?: string; } }> {
     // 1. Thread에 충분한 내용이 있는지 확인 (느슨한 검증)
     // Thread는 여러 코멘트가 모여 컨벤션을 논의하므로 컨벤션 키워드 체크 대신 최소 내용만 확인
     const hasSubstantiveContent = thread.comments.some(comment =>
@@ -76,7 +80,7 @@ export class CommentServiceImpl implements CommentService {
     }
 
     // 2. 통합 코멘트 파싱
-    const parsedComment = parseComment(mergedComment.content);
+    const parsedComment = parseComment(mergedComment.content, llmConfig.categories);
 
     // 3. 키워드 검증 제거 - LLM이 Thread에서 키워드를 추출할 것
 
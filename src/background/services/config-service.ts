@@ -7,19 +7,69 @@
  * - Web Crypto API (AES-GCM 256-bit) 사용
  */
 
-import type { Platform, LLMConfig } from '../../types';
+import type { Platform, LLMConfig, LLMProvider, CustomTargetConfig, RepositoryCategory } from '../../types';
 import { CryptoService } from './crypto-service';
+import { parseCategories } from '../../core/repository-config';
+import {
+  PROMPT_TEMPLATE_STORAGE_KEYS,
+  PROMPT_TEMPLATE_VERSION_KEY,
+  loadPromptTemplates
+} from '../llm/prompt-templates';
+import { parsePatternLines } from '../llm/redaction';
 
 export interface ConfigServiceResult {
   token: string;
   llmConfig: LLMConfig;
+  githubUrl?: string;  // GitHub Enterprise Server URL (선택)
   gitlabUrl?: string;  // GitLab URL (선택)
+  bitbucketUsername?: string;  // Bitbucket 사용자명 (App Password 사용 시)
+  giteaUrl?: string;  // Gitea/Forgejo URL
+  customTarget?: CustomTargetConfig;  // 사용자 정의 출력 대상 (활성화 시)
 }
 
+/**
+ * 플랫폼별 토큰 storage 키 (암호화 저장 시 `${key}_enc`)
+ */
+export const PLATFORM_TOKEN_KEYS: Record<Platform, string> = {
+  github: 'githubToken',
+  gitlab: 'gitlabToken',
+  bitbucket: 'bitbucketAppPassword',
+  gitea: 'giteaToken',
+  azure: 'azureToken'
+};
+
+/**
+ * LLM 제공자별 API 키 storage 키 (암호화 저장 시 `${key}_enc`)
+ */
+export const LLM_API_KEY_KEYS: Record<LLMProvider, string> = {
+  'claude': 'claudeApiKey',
+  'openai': 'openaiApiKey',
+  'gemini': 'geminiApiKey',
+  'openai-compatible': 'compatibleApiKey'
+};
+
 export interface ConfigService {
   loadConfig(platform: Platform): Promise<ConfigServiceResult>;
 }
 
+/**
+ * Popup에서 입력한 사용자 정의 카테고리 (YAML 목록)
+ * - 비어 있거나 형식이 잘못되면 undefined (기본 분류 체계 사용)
+ */
+function loadCustomCategories(source: unknown): RepositoryCategory[] | undefined {
+  if (typeof source !== 'string' || !source.trim()) {
+    return undefined;
+  }
+
+  try {
+    const categories = parseCategories(source);
+    return categories.length > 0 ? categories : undefined;
+  } catch (error) {
+    console.warn('[ConfigService] Ignoring invalid custom categories:', error);
+    return undefined;
+  }
+}
+
 /**
  * ConfigService 구현
  */
@@ -40,16 +90,41 @@ export class ConfigServiceImpl implements ConfigService {
     }
 
     // 1. 플랫폼에 따른 토큰 키 결정
-    const tokenKey = platform === 'github' ? 'githubToken' : 'gitlabToken';
+    const tokenKey = PLATFORM_TOKEN_KEYS[platform];
     const encryptedTokenKey = `${tokenKey}_enc`;
 
     // 2. Chrome Storage Local에서 암호화된 설정 가져오기
     const storage = await chrome.storage.local.get([
       encryptedTokenKey,
+      'githubUrl',
       'gitlabUrl',
+      'bitbucketUsername',
+      'giteaUrl',
       'claudeApiKey_enc',
       'openaiApiKey_enc',
-      'llmProvider'
+      'geminiApiKey_enc',
+      'compatibleApiKey_enc',
+      'compatibleBaseUrl',
+      'compatibleModel',
+      'compatibleLightModel',
+      'claudeModel',
+      'claudeLightModel',
+      'openaiModel',
+      'openaiLightModel',
+      'geminiModel',
+      'geminiLightModel',
+      'llmProvider',
+      'customTargetEnabled',
+      'customTargetDirectory',
+      'customTargetExtension',
+      'customTargetMode',
+      'customTargetFileName',
+      'customTargetTemplate',
+      ...Object.values(PROMPT_TEMPLATE_STORAGE_KEYS),
+      PROMPT_TEMPLATE_VERSION_KEY,
+      'customCategories',
+      'redactionEnabled',
+      'redactionPatterns'
     ]);
 
     // 3. Token 복호화
@@ -65,12 +140,17 @@ export class ConfigServiceImpl implements ConfigService {
       throw new Error(`${platform} token 복호화에 실패했습니다. 마스터 비밀번호가 필요합니다. Extension Popup을 열어 다시 잠금 해제해주세요.`);
     }
 
-    // 4. GitLab URL 추출 (선택적, 암호화 불필요)
+    // 4. GitHub Enterprise/GitLab URL 추출 (선택적, 암호화 불필요)
+    const githubUrl = platform === 'github' ? (storage.githubUrl as string | undefined) : undefined;
     const gitlabUrl = platform === 'gitlab' ? (storage.gitlabUrl as string | undefined) : undefined;
+    const bitbucketUsername = platform === 'bitbucket' ? (storage.bitbucketUsername as string | undefined) : undefined;
+    const giteaUrl = platform === 'gitea' ? (storage.giteaUrl as string | undefined) : undefined;
 
     // 5. LLM API 키 복호화
     let claudeApiKey: string | undefined;
     let openaiApiKey: string | undefined;
+    let geminiApiKey: string | undefined;
+    let compatibleApiKey: string | undefined;
 
     if (storage.claudeApiKey_enc) {
       try {
@@ -86,14 +166,57 @@ export class ConfigServiceImpl implements ConfigService {
       }
     }
 
-    // 6. LLM 설정 구성
+    if (storage.geminiApiKey_enc) {
+      try {
+        geminiApiKey = await this.crypto.decrypt(storage.geminiApiKey_enc as string);
+      } catch (error) {
+      }
+    }
+
+    if (storage.compatibleApiKey_enc) {
+      try {
+        compatibleApiKey = await this.crypto.decrypt(storage.compatibleApiKey_enc as string);
+      } catch (error) {
+      }
+    }
+
+    // 6. LLM 설정 구성 (엔드포인트 URL/모델명/프롬프트 템플릿/카테고리/가리기 패턴은 암호화 불필요)
     const llmConfig: LLMConfig = {
-      provider: (storage.llmProvider as 'claude' | 'openai' | undefined) ?? 'claude',
+      provider: (storage.llmProvider as LLMProvider | undefined) ?? 'claude',
       claudeApiKey,
-      openaiApiKey
+      openaiApiKey,
+      geminiApiKey,
+      compatibleBaseUrl: storage.compatibleBaseUrl as string | undefined,
+      compatibleModel: storage.compatibleModel as string | undefined,
+      compatibleApiKey,
+      compatibleLightModel: storage.compatibleLightModel as string | undefined,
+      claudeModel: storage.claudeModel as string | undefined,
+      claudeLightModel: storage.claudeLightModel as string | undefined,
+      openaiModel: storage.openaiModel as string | undefined,
+      openaiLightModel: storage.openaiLightModel as string | undefined,
+      geminiModel: storage.geminiModel as string | undefined,
+      geminiLightModel: storage.geminiLightModel as string | undefined,
+      promptTemplates: loadPromptTemplates(storage),
+      categories: loadCustomCategories(storage.customCategories),
+      redaction: {
+        enabled: storage.redactionEnabled !== false,
+        patterns: parsePatternLines((storage.redactionPatterns as string | undefined) ?? '')
+      }
     };
 
-    return { token, llmConfig, gitlabUrl };
+    // 7. 사용자 정의 출력 대상 (활성화되고 디렉토리가 있을 때만)
+    const customTarget: CustomTargetConfig | undefined =
+      storage.customTargetEnabled && storage.customTargetDirectory
+        ? {
+          directory: storage.customTargetDirectory as string,
+          extension: (storage.customTargetExtension as string | undefined) || '.md',
+          mode: storage.customTargetMode === 'single-file' ? 'single-file' : 'per-rule',
+          fileName: (storage.customTargetFileName as string | undefined) ?? '',
+          template: (storage.customTargetTemplate as string | undefined) ?? ''
+        }
+        : undefined;
+
+    return { token, llmConfig, githubUrl, gitlabUrl, bitbucketUsername, giteaUrl, customTarget };
   }
 
   /**
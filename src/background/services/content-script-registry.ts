@@ -0,0 +1,127 @@
+/**
+ * Content Script Registry - GitHub Enterprise Server, self-hosted Gitea/Forgejo용 동적 content script 등록
+ *
+ * manifest의 content_scripts는 github.com, codeberg.org 등 공개 호스트만 매칭하므로, 사용자가 설정한
+ * GHES/Gitea 호스트에 host permission이 허용되면 같은 content script를 chrome.scripting으로 런타임에 등록합니다.
+ */
+
+import {
+  isGitHubEnterpriseUrl,
+  getGitHubEnterprisePRPattern,
+  getGitHubEnterprisePermissionOrigins
+} from '../../utils/github-enterprise';
+import { isSelfHostedGiteaUrl, getGiteaPRPattern, getGiteaPermissionOrigins } from '../../utils/gitea-host';
+
+export class ContentScriptRegistry {
+  private static readonly GHES_SCRIPT_ID = 'rti-github-enterprise';
+  private static readonly GITEA_SCRIPT_ID = 'rti-gitea';
+
+  /**
+   * 저장된 githubUrl과 허용된 권한에 맞춰 GHES content script 등록 상태 동기화
+   * - GHES URL 없음 / 권한 없음: 등록 해제
+   * - GHES URL + 권한 있음: 등록 또는 매칭 패턴 갱신
+   */
+  async syncGitHubEnterprise(): Promise<void> {
+    try {
+      const { githubUrl } = await chrome.storage.local.get('githubUrl');
+      const url = githubUrl as string | undefined;
+
+      await this.syncHostScript(
+        ContentScriptRegistry.GHES_SCRIPT_ID,
+        isGitHubEnterpriseUrl(url)
+          ? { matches: [getGitHubEnterprisePRPattern(url)], origins: getGitHubEnterprisePermissionOrigins(url) }
+          : null
+      );
+    } catch (error) {
+      console.error('[ContentScriptRegistry] Failed to sync GitHub Enterprise content script:', error);
+    }
+  }
+
+  /**
+   * 저장된 giteaUrl과 허용된 권한에 맞춰 self-hosted Gitea/Forgejo content script 등록 상태 동기화
+   * - codeberg.org는 manifest에서 매칭하므로 등록하지 않음
+   */
+  async syncGitea(): Promise<void> {
+    try {
+      const { giteaUrl } = await chrome.storage.local.get('giteaUrl');
+      const url = giteaUrl as string | undefined;
+
+      await this.syncHostScript(
+        ContentScriptRegistry.GITEA_SCRIPT_ID,
+        isSelfHostedGiteaUrl(url)
+          ? { matches: [getGiteaPRPattern(url)], origins: getGiteaPermissionOrigins(url) }
+          : null
+      );
+    } catch (error) {
+      console.error('[ContentScriptRegistry] Failed to sync Gitea content script:', error);
+    }
+  }
+
+  /**
+   * 설정된 모든 호스트의 content script 등록 상태 동기화
+   */
+  async syncAll(): Promise<void> {
+    await this.syncGitHubEnterprise();
+    await this.syncGitea();
+  }
+
+  /**
+   * 호스트별 content script 등록/갱신/해제
+   * @param host 매칭 패턴과 필요한 권한 (null이면 설정된 호스트 없음)
+   */
+  private async syncHostScript(
+    scriptId: string,
+    host: { matches: string[]; origins: string[] } | null
+  ): Promise<void> {
+    const registered = await chrome.scripting.getRegisteredContentScripts({ ids: [scriptId] });
+    const granted = !!host && await chrome.permissions.contains({ origins: host.origins });
+
+    if (!host || !granted) {
+      if (registered.length > 0) {
+        await chrome.scripting.unregisterContentScripts({ ids: [scriptId] });
+      }
+      return;
+    }
+
+    // manifest에 선언된 content script 파일 재사용 (빌드 시 출력 파일명이 반영됨)
+    const manifestScript = chrome.runtime.getManifest().content_scripts?.[0];
+    if (!manifestScript?.js) {
+      return;
+    }
+
+    const script: chrome.scripting.RegisteredContentScript = {
+      id: scriptId,
+      matches: host.matches,
+      js: manifestScript.js,
+      css: manifestScript.css,
+      runAt: 'document_end'
+    };
+
+    if (registered.length > 0) {
+      await chrome.scripting.updateContentScripts([script]);
+    } else {
+      await chrome.scripting.registerContentScripts([script]);
+    }
+  }
+
+  /**
+   * 설정/권한 변경 시 자동으로 재동기화
+   */
+  start() {
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName !== 'local') return;
+      if ('githubUrl' in changes) {
+        this.syncGitHubEnterprise();
+      }
+      if ('giteaUrl' in changes) {
+        this.syncGitea();
+      }
+    });
+
+    chrome.permissions.onAdded.addListener(() => this.syncAll());
+    chrome.permissions.onRemoved.addListener(() => this.syncAll());
+  }
+}
+
+// Export singleton instance
+export const contentScriptRegistry = new ContentScriptRegistry();
@@ -2,13 +2,16 @@
  * ConversionOrchestrator - 코멘트 변환 비즈니스 로직 조율
  */
 
-import type { Comment, Repository, DiscussionThread } from '../../types';
+import type { Comment, Repository, DiscussionThread, LLMConfig, RepositoryConfig, ConflictResolution, RuleConflict } from '../../types';
 import type { ServiceContainer } from './di-container';
 import { ApiClient } from '../api-client';
+import { resolveLanguageName, mergeCategories } from '../../core/repository-config';
 
 export interface ConversionPayload {
   comment: Comment;
   repository: Repository;
+  conflictResolution?: ConflictResolution;  // 미리보기에서 고른 모순 해결 방법
+  conflicts?: RuleConflict[];               // 미리보기에서 확인한 모순 (있으면 다시 검사하지 않음)
 }
 
 export interface ConversionResult {
@@ -30,6 +33,7 @@ export interface ConversionResult {
     inputTokens: number;
     outputTokens: number;
     totalTokens: number;
+    model?: string;  // 비용 계산용 모델 ID
   };
   // Phase 1: 최상위 레벨에도 추가 (첫 번째 파일의 결과)
   isUpdate?: boolean;
@@ -48,7 +52,7 @@ export class ConversionOrchestrator {
    * 코멘트를 instruction/skill 파일로 변환하고 PR 생성 (Feature 2: 토큰 사용량 추적)
    */
   async convertComment(payload: ConversionPayload): Promise<ConversionResult> {
-    const { comment, repository } = payload;
+    const { comment, repository, conflictResolution, conflicts } = payload;
 
     // 1. 설정 로드
     const config = await this.container.configService.loadConfig(repository.platform);
@@ -57,9 +61,17 @@ export class ConversionOrchestrator {
     const client = new ApiClient({
       token: config.token,
       platform: repository.platform,
-      gitlabUrl: config.gitlabUrl
+      githubUrl: config.githubUrl,
+      gitlabUrl: config.gitlabUrl,
+      bitbucketUsername: config.bitbucketUsername,
+      giteaUrl: config.giteaUrl
     });
 
+    // 저장소 설정 적용 (.review-to-instruction.yml, .review-to-instruction/prompts.yaml)
+    const settings = await this.applyRepositorySettings(client, repository, config.llmConfig);
+    config.llmConfig = settings.llmConfig;
+    const repositoryConfig = settings.repositoryConfig ?? undefined;
+
     // 3. 코멘트 검증 및 강화 (답글 포함, 토큰 사용량 추적)
     const { enhancedComment, tokenUsage } = await this.container.commentService.validateAndEnhance(
       comment,
@@ -72,7 +84,12 @@ export class ConversionOrchestrator {
       repository,
       enhancedComment,
       comment,
-      config.llmConfig  // LLM 설정 전달
+      config.llmConfig,  // LLM 설정 전달
+      undefined,
+      config.customTarget,
+      repositoryConfig,
+      conflictResolution,
+      conflicts
     );
 
     // 5. PR/MR 생성 (LLM 설정 전달하여 요약 기능 활성화)
@@ -82,7 +99,8 @@ export class ConversionOrchestrator {
       enhancedComment,
       comment,
       files,
-      config.llmConfig  // LLM으로 PR 타이틀/커밋 메시지 요약
+      config.llmConfig,  // LLM으로 PR 타이틀/커밋 메시지 요약
+      repositoryConfig
     );
 
     // 6. 결과 반환 (토큰 사용량 포함, Phase 1: 중복 검사 결과 포함)
@@ -126,9 +144,17 @@ export class ConversionOrchestrator {
     const client = new ApiClient({
       token: config.token,
       platform: repository.platform,
-      gitlabUrl: config.gitlabUrl
+      githubUrl: config.githubUrl,
+      gitlabUrl: config.gitlabUrl,
+      bitbucketUsername: config.bitbucketUsername,
+      giteaUrl: config.giteaUrl
     });
 
+    // 저장소 설정 적용 (.review-to-instruction.yml, .review-to-instruction/prompts.yaml)
+    const settings = await this.applyRepositorySettings(client, repository, config.llmConfig);
+    config.llmConfig = settings.llmConfig;
+    const repositoryConfig = settings.repositoryConfig ?? undefined;
+
     // 3. Thread 코멘트들을 하나의 통합 코멘트로 병합
     const mergedComment = this.mergeThreadComments(thread);
 
@@ -147,7 +173,9 @@ export class ConversionOrchestrator {
       enhancedComment,
       mergedComment,
       config.llmConfig,
-      thread  // Thread 컨텍스트를 파일명 생성에 전달
+      thread,  // Thread 컨텍스트를 파일명 생성에 전달
+      config.customTarget,
+      repositoryConfig
     );
 
     // 6. PR/MR 생성
@@ -157,7 +185,8 @@ export class ConversionOrchestrator {
       enhancedComment,
       mergedComment,
       files,
-      config.llmConfig
+      config.llmConfig,
+      repositoryConfig
     );
 
     // 7. 결과 반환 (Phase 1: 중복 검사 결과 포함)
@@ -209,9 +238,17 @@ export class ConversionOrchestrator {
     const client = new ApiClient({
       token: config.token,
       platform: repository.platform,
-      gitlabUrl: config.gitlabUrl
+      githubUrl: config.githubUrl,
+      gitlabUrl: config.gitlabUrl,
+      bitbucketUsername: config.bitbucketUsername,
+      giteaUrl: config.giteaUrl
     });
 
+    // 저장소 설정 적용 (.review-to-instruction.yml, .review-to-instruction/prompts.yaml)
+    const settings = await this.applyRepositorySettings(client, repository, config.llmConfig);
+    config.llmConfig = settings.llmConfig;
+    const repositoryConfig = settings.repositoryConfig ?? undefined;
+
     // 3. 각 코멘트를 병렬로 처리
     let totalInputTokens = 0;
     let totalOutputTokens = 0;
@@ -235,7 +272,10 @@ export class ConversionOrchestrator {
             repository,
             enhancedComment,
             comment,
-            config.llmConfig
+            config.llmConfig,
+            undefined,
+            config.customTarget,
+            repositoryConfig
           );
 
           return { enhancedComment, comment, files, tokenUsage };
@@ -273,7 +313,8 @@ export class ConversionOrchestrator {
       client,
       repository,
       successfulResults,
-      config.llmConfig
+      config.llmConfig,
+      repositoryConfig
     );
 
     // 5. 결과 반환
@@ -288,6 +329,37 @@ export class ConversionOrchestrator {
     };
   }
 
+  /**
+   * 대상 저장소 설정을 LLM 설정에 반영
+   * - 프롬프트 override (.review-to-instruction/prompts.yaml)
+   * - 저장소 설정 (.review-to-instruction.yml)의 language → 생성 규칙 언어
+   * - 저장소 categories → Popup 카테고리에 병합 (같은 이름은 저장소 정의 우선)
+   */
+  async applyRepositorySettings(
+    client: ApiClient,
+    repository: Repository,
+    llmConfig: LLMConfig
+  ): Promise<{ llmConfig: LLMConfig; repositoryConfig: RepositoryConfig | null }> {
+    const withPrompts = await this.container.promptTemplateService.applyRepositoryOverrides(
+      client,
+      repository,
+      llmConfig
+    );
+    const repositoryConfig = await this.container.repositoryConfigService.load(client, repository);
+    if (!repositoryConfig) {
+      return { llmConfig: withPrompts, repositoryConfig };
+    }
+
+    return {
+      llmConfig: {
+        ...withPrompts,
+        outputLanguage: repositoryConfig.language ? resolveLanguageName(repositoryConfig.language) : withPrompts.outputLanguage,
+        categories: mergeCategories(withPrompts.categories, repositoryConfig.categories)
+      },
+      repositoryConfig
+    };
+  }
+
   /**
    * Thread 코멘트들을 하나의 Markdown으로 병합
    */
@@ -6,11 +6,15 @@ import type { ConfigService } from './config-service';
 import type { CommentService } from './comment-service';
 import type { FileGenerationService } from './file-generation-service';
 import type { PullRequestService } from './pr-service';
+import type { PromptTemplateService } from './prompt-template-service';
+import type { RepositoryConfigService } from './repository-config-service';
 
 import { ConfigServiceImpl } from './config-service';
 import { CommentServiceImpl } from './comment-service';
 import { FileGenerationServiceImpl } from './file-generation-service';
 import { PullRequestServiceImpl } from './pr-service';
+import { PromptTemplateServiceImpl } from './prompt-template-service';
+import { RepositoryConfigServiceImpl } from './repository-config-service';
 import { CryptoService } from './crypto-service';
 
 export interface ServiceContainer {
@@ -18,6 +22,8 @@ export interface ServiceContainer {
   commentService: CommentService;
   fileGenerationService: FileGenerationService;
   prService: PullRequestService;
+  promptTemplateService: PromptTemplateService;
+  repositoryConfigService: RepositoryConfigService;
 }
 
 /**
@@ -29,6 +35,8 @@ export function createServiceContainer(crypto: CryptoService): ServiceContainer
     configService: new ConfigServiceImpl(crypto),
     commentService: new CommentServiceImpl(),
     fileGenerationService: new FileGenerationServiceImpl(),
-    prService: new PullRequestServiceImpl()
+    prService: new PullRequestServiceImpl(),
+    promptTemplateService: new PromptTemplateServiceImpl(),
+    repositoryConfigService: new RepositoryConfigServiceImpl()
   };
 }
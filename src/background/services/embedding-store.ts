@@ -0,0 +1,84 @@
+/**
+ * EmbeddingStore - 규칙 파일 임베딩 인덱스 캐시 (IndexedDB)
+ * - 저장소/브랜치 단위로 저장, IndexedDB를 쓸 수 없으면 메모리에만 유지
+ */
+
+import type { EmbeddingIndexRecord, EmbeddingStore } from '../../core/semantic-index';
+
+const DB_NAME = 'review-to-instruction';
+const DB_VERSION = 1;
+const STORE_NAME = 'embeddings';
+
+/**
+ * IndexedDB 기반 임베딩 저장소
+ */
+export class IndexedDBEmbeddingStore implements EmbeddingStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, EmbeddingIndexRecord>();
+
+  async get(key: string): Promise<EmbeddingIndexRecord | null> {
+    const db = await this.open();
+    if (!db) {
+      return this.memory.get(key) ?? null;
+    }
+
+    try {
+      const record = await toPromise<EmbeddingIndexRecord | undefined>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+      );
+      return record ?? null;
+    } catch (error) {
+      console.warn('[EmbeddingStore] Failed to read index:', error);
+      return this.memory.get(key) ?? null;
+    }
+  }
+
+  async set(key: string, record: EmbeddingIndexRecord): Promise<void> {
+    this.memory.set(key, record);
+
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+
+    try {
+      await toPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(record, key));
+    } catch (error) {
+      console.warn('[EmbeddingStore] Failed to write index:', error);
+    }
+  }
+
+  /**
+   * DB 열기 (한 번만, 실패하면 null)
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('[EmbeddingStore] IndexedDB unavailable, using memory only:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -3,16 +3,26 @@
  * AI 기반 분석 및 지능적 파일명 생성 지원
  */
 
-import type { Repository, EnhancedComment, Comment, FileGenerationResult, ProjectType, LLMConfig, DiscussionThread } from '../../types';
+import type { Repository, EnhancedComment, Comment, FileGenerationResult, ProjectType, LLMConfig, DiscussionThread, CustomTargetConfig, RepositoryConfig, CodeContext, ClaudeFile, RuleConflict, ConflictResolution } from '../../types';
 import type { ApiClient } from '../api-client';
 import { ProjectTypeDetector } from '../../core/project-detector';
 import { GeneratorFactory } from '../../core/generators/generator-factory';
-import { findMatchingFileForProjectType } from '../../core/file-matcher';
+import { CursorGenerator, CURSOR_MIGRATED_RULES_PATH } from '../../core/generators/cursor-generator';
+import { CLINE_RULES_PATH } from '../../core/generators/cline-generator';
+import { CustomGenerator } from '../../core/generators/custom-generator';
+import { deriveFileGlob } from '../../core/generators/base-generator';
+import { findMatchingFileForProjectType, findMatchingFileForCustomTarget } from '../../core/file-matcher';
 import { InstructionAnalyzer, type AnalysisResult } from '../../core/instruction-analyzer';
 import { SmartFileNaming } from '../../core/smart-file-naming';
-import { ClaudeClient } from '../llm/claude-client';
-import { OpenAIClient } from '../llm/openai-client';
+import { scanForSecrets } from '../../core/secret-scanner';
+import { SemanticIndex, createMinHashProvider, type EmbeddingProvider, type EmbeddingStore, type SemanticMatch } from '../../core/semantic-index';
+import { describeRule, classifyRuleRelations, detectContradictions, removeRuleLines, scopeRuleToPaths } from '../../core/rule-conflicts';
+import { isActiveRule, markSuperseded } from '../../core/rule-lifecycle';
+import { buildRuleProvenance, collectProvenance } from '../../core/provenance-ledger';
+import { createLLMClient } from '../llm/enhancer';
+import { createEmbeddingProvider } from '../llm/embeddings';
 import type { ILLMClient } from '../llm/types';
+import { IndexedDBEmbeddingStore } from './embedding-store';
 
 export interface FileGenerationService {
   generateForAllTypes(
@@ -21,10 +31,25 @@ export interface FileGenerationService {
     enhancedComment: EnhancedComment,
     originalComment: Comment,
     llmConfig?: LLMConfig,
-    thread?: DiscussionThread
+    thread?: DiscussionThread,
+    customTarget?: CustomTargetConfig,
+    repositoryConfig?: RepositoryConfig,
+    conflictResolution?: ConflictResolution,
+    previewConflicts?: RuleConflict[]
   ): Promise<FileGenerationResult[]>;
+
+  checkConflicts(
+    client: ApiClient,
+    repository: Repository,
+    enhancedComment: EnhancedComment,
+    originalComment: Comment,
+    llmConfig?: LLMConfig
+  ): Promise<RuleConflict[]>;
 }
 
+// 모순 검사 시 LLM에 보낼 관련 기존 규칙 수
+const RELATED_RULE_LIMIT = 3;
+
 /**
  * FileGenerationService 구현
  */
@@ -33,8 +58,12 @@ export class FileGenerationServiceImpl implements FileGenerationService {
   private instructionAnalyzer: InstructionAnalyzer;
   private smartFileNaming: SmartFileNaming;
   private analysisCache: Map<string, AnalysisResult | null> = new Map();
+  private semanticIndexCache: Map<string, SemanticIndex> = new Map();
 
-  constructor() {
+  /**
+   * @param embeddingStore 규칙 파일 임베딩 캐시 (기본: IndexedDB)
+   */
+  constructor(private embeddingStore: EmbeddingStore = new IndexedDBEmbeddingStore()) {
     this.projectDetector = new ProjectTypeDetector();
     this.instructionAnalyzer = new InstructionAnalyzer();
     this.smartFileNaming = new SmartFileNaming();
@@ -42,6 +71,8 @@ export class FileGenerationServiceImpl implements FileGenerationService {
 
   /**
    * 감지된 모든 프로젝트 타입에 대해 파일 생성
+   * @param conflictResolution 기존 규칙과 모순될 때 처리 방법 (없으면 모순을 결과에 기록하고 기존 파일은 건드리지 않음)
+   * @param previewConflicts 미리보기에서 사용자가 확인한 모순 (있으면 다시 검사하지 않고 그대로 사용)
    */
   async generateForAllTypes(
     client: ApiClient,
@@ -49,36 +80,35 @@ export class FileGenerationServiceImpl implements FileGenerationService {
     enhancedComment: EnhancedComment,
     originalComment: Comment,
     llmConfig?: LLMConfig,
-    thread?: DiscussionThread
+    thread?: DiscussionThread,
+    customTarget?: CustomTargetConfig,
+    repositoryConfig?: RepositoryConfig,
+    conflictResolution?: ConflictResolution,
+    previewConflicts?: RuleConflict[]
   ): Promise<FileGenerationResult[]> {
-    // 1. 프로젝트 타입 감지
-    const detectionResult = await this.projectDetector.detect(client, repository);
+    // 1. 프로젝트 타입 감지 (사용자 정의 대상 포함)
+    const detectionResult = await this.projectDetector.detect(client, repository, customTarget);
 
+    // 저장소 설정에 projectTypes가 있으면 감지 결과 대신 사용 ('custom'은 사용자 정의 대상이 있을 때만)
     // 프로젝트 타입이 감지되지 않으면 기본 타입들을 사용 (디렉토리 자동 생성)
     // 기본: Claude Code만 생성
-    const typesToGenerate: ProjectType[] = detectionResult.detectedTypes.length > 0
-      ? detectionResult.detectedTypes
-      : ['claude-code'];
+    const declaredTypes = repositoryConfig?.projectTypes?.filter(type => type !== 'custom' || customTarget);
+    const typesToGenerate: ProjectType[] = declaredTypes && declaredTypes.length > 0
+      ? declaredTypes
+      : detectionResult.detectedTypes.length > 0
+        ? detectionResult.detectedTypes
+        : ['claude-code'];
 
 
     // 2. AI 기반 프로젝트 분석 (Claude Code 타입일 때만)
     let analysisResult: AnalysisResult | null = null;
 
     if (typesToGenerate.includes('claude-code')) {
-
-      // 캐시 확인
-      const cacheKey = `${repository.owner}/${repository.name}/${repository.branch}`;
-      if (this.analysisCache.has(cacheKey)) {
-        analysisResult = this.analysisCache.get(cacheKey)!;
-      } else {
-        // 새로 분석
-        analysisResult = await this.instructionAnalyzer.analyzeProject(client, repository);
-        this.analysisCache.set(cacheKey, analysisResult);
-      }
+      analysisResult = await this.getAnalysis(client, repository);
     }
 
     // 3. Generator 생성
-    const generators = GeneratorFactory.createGenerators(typesToGenerate);
+    const generators = GeneratorFactory.createGenerators(typesToGenerate, customTarget);
 
     // 4. 각 타입별 파일 생성
     const files: FileGenerationResult[] = [];
@@ -94,7 +124,10 @@ export class FileGenerationServiceImpl implements FileGenerationService {
           generator,
           analysisResult,
           llmConfig,
-          thread
+          thread,
+          repositoryConfig,
+          conflictResolution,
+          previewConflicts
         );
 
         files.push(file);
@@ -109,7 +142,137 @@ export class FileGenerationServiceImpl implements FileGenerationService {
       throw new Error('파일 생성에 모두 실패했습니다.');
     }
 
-    return files;
+    // 6. 레거시 .cursorrules가 있으면 .cursor/rules/ MDC 규칙으로 마이그레이션 (레거시 파일은 같은 커밋에서 삭제)
+    const cursorGenerator = generators.get('cursor');
+    const legacyPath = detectionResult.configs.get('cursor')?.legacyPath;
+    if (cursorGenerator instanceof CursorGenerator && legacyPath) {
+      files.push(...await this.migrateLegacyCursorRules(client, repository, cursorGenerator, legacyPath));
+    }
+
+    // 7. 새 규칙으로 대체된 기존 규칙을 같은 PR에서 deprecated로 표시
+    files.push(...this.deprecateSuperseded(files, analysisResult));
+
+    // 8. 커밋 전 검사 (비밀 정보 마스킹, 민감 파일 코드 포함 시 차단 항목 기록)
+    return files.map(file => this.scanBeforeCommit(file, originalComment.codeContext));
+  }
+
+  /**
+   * 대체된 기존 규칙 파일 (status: deprecated, supersededBy 추가)
+   * - 이미 이번 변환에서 수정하는 파일은 제외
+   */
+  private deprecateSuperseded(files: FileGenerationResult[], analysisResult: AnalysisResult | null): FileGenerationResult[] {
+    const deprecated: FileGenerationResult[] = [];
+
+    for (const file of files) {
+      for (const path of file.supersedes ?? []) {
+        const existing = analysisResult?.existingFiles.find(existingFile => existingFile.path === path);
+        if (!existing || files.some(f => f.filePath === path) || deprecated.some(f => f.filePath === path)) {
+          continue;
+        }
+
+        deprecated.push({
+          projectType: file.projectType,
+          filePath: path,
+          content: markSuperseded(existing.content, file.filePath),
+          isUpdate: true,
+          reasoning: `Superseded by ${file.filePath}`
+        });
+      }
+    }
+
+    return deprecated;
+  }
+
+  /**
+   * 새 규칙과 모순되는 기존 Claude Code 규칙 (미리보기 표시용)
+   */
+  async checkConflicts(
+    client: ApiClient,
+    repository: Repository,
+    enhancedComment: EnhancedComment,
+    originalComment: Comment,
+    llmConfig?: LLMConfig
+  ): Promise<RuleConflict[]> {
+    const activeFiles = (await this.getAnalysis(client, repository))?.existingFiles.filter(isActiveRule) ?? [];
+    if (activeFiles.length === 0) {
+      return [];
+    }
+
+    return this.findConflicts(repository, activeFiles, enhancedComment, originalComment.codeContext, llmConfig);
+  }
+
+  /**
+   * 프로젝트 분석 결과 (저장소/브랜치 단위 캐시)
+   */
+  private async getAnalysis(client: ApiClient, repository: Repository): Promise<AnalysisResult | null> {
+    const cacheKey = `${repository.owner}/${repository.name}/${repository.branch}`;
+    if (this.analysisCache.has(cacheKey)) {
+      return this.analysisCache.get(cacheKey)!;
+    }
+
+    const analysisResult = await this.instructionAnalyzer.analyzeProject(client, repository);
+    this.analysisCache.set(cacheKey, analysisResult);
+    return analysisResult;
+  }
+
+  /**
+   * 생성 파일의 비밀 정보 검사 (스킵된 파일은 커밋되지 않으므로 제외)
+   */
+  private scanBeforeCommit(file: FileGenerationResult, codeContext?: CodeContext): FileGenerationResult {
+    if (file.skipped) {
+      return file;
+    }
+
+    const { content, findings } = scanForSecrets(file.filePath, file.content, codeContext);
+    if (findings.length === 0) {
+      return file;
+    }
+
+    console.warn(`[FileGenerationService] ${findings.length} secret finding(s) in ${file.filePath}`);
+
+    // 출처 기록의 규칙 항목도 같은 방식으로 마스킹 (커밋된 내용과 일치하도록)
+    const provenance = file.provenance?.map(entry => ({ ...entry, rule: scanForSecrets(file.filePath, entry.rule).content }));
+    return { ...file, content, secretFindings: findings, ...(provenance ? { provenance } : {}) };
+  }
+
+  /**
+   * 레거시 .cursorrules 내용을 MDC 규칙 파일로 변환
+   * - Cursor가 두 파일을 모두 읽어 규칙이 중복되지 않도록 레거시 파일 삭제를 함께 반환
+   * - 이미 마이그레이션된 파일이 있으면 건너뜀
+   */
+  private async migrateLegacyCursorRules(
+    client: ApiClient,
+    repository: Repository,
+    generator: CursorGenerator,
+    legacyPath: string
+  ): Promise<FileGenerationResult[]> {
+    try {
+      const migratedFile = await client.getFileContent(repository, CURSOR_MIGRATED_RULES_PATH);
+      if (migratedFile) {
+        return [];
+      }
+
+      const legacyFile = await client.getFileContent(repository, legacyPath);
+      if (!legacyFile) {
+        return [];
+      }
+
+      const legacyContent = new TextDecoder().decode(
+        Uint8Array.from(atob(legacyFile.content), c => c.charCodeAt(0))
+      );
+      if (!legacyContent.trim()) {
+        return [];
+      }
+
+      const result = generator.migrateLegacyRules(legacyContent);
+      return [
+        { projectType: 'cursor', ...result },
+        { projectType: 'cursor', filePath: legacyPath, content: '', isUpdate: true, deleted: true }
+      ];
+    } catch (error) {
+      // 마이그레이션 실패는 규칙 생성 결과에 영향 주지 않음
+      return [];
+    }
   }
 
   /**
@@ -124,45 +287,181 @@ export class FileGenerationServiceImpl implements FileGenerationService {
     generator: any,
     analysisResult?: AnalysisResult | null,
     llmConfig?: LLMConfig,
-    thread?: DiscussionThread
+    thread?: DiscussionThread,
+    repositoryConfig?: RepositoryConfig,
+    conflictResolution?: ConflictResolution,
+    previewConflicts?: RuleConflict[]
   ): Promise<FileGenerationResult> {
-    // 1. AI 기반 파일명 생성 (Claude Code 타입이고 LLM이 활성화된 경우)
+    // 1. AI 기반 파일명 생성 (Claude Code 타입이고 LLM 또는 저장소 설정이 있는 경우, Cline)
     let smartFilePath: string | null = null;
 
-    if (projectType === 'claude-code' && llmConfig && analysisResult) {
+    if (projectType === 'claude-code' && (llmConfig || repositoryConfig) && analysisResult) {
       try {
         const namingResult = await this.smartFileNaming.generateFileName({
           parsedComment: enhancedComment,
           analysisResult,
           llmConfig,
-          thread  // Thread 컨텍스트 전달
+          thread,  // Thread 컨텍스트 전달
+          repositoryConfig
         });
 
         smartFilePath = namingResult.fullPath;
 
       } catch (error) {
       }
-    }
+    } else if (projectType === 'cline') {
+      // Cline: .clinerules/ 하위 폴더 + 파일명 (LLM 없으면 규칙 기반)
+      try {
+        const namingResult = await this.smartFileNaming.generateFileName({
+          parsedComment: enhancedComment,
+          analysisResult: null,  // 프로젝트 분석은 .claude/ 기준이므로 사용하지 않음
+          llmConfig,
+          thread,
+          baseDir: CLINE_RULES_PATH,
+          repositoryConfig
+        });
 
-    // 2. 매칭 파일 찾기 (기존 방식)
-    const matchResult = await findMatchingFileForProjectType(
-      client,
-      repository,
-      enhancedComment,
-      projectType as ProjectType
-    );
+        smartFilePath = namingResult.fullPath;
 
-    // 2.5. LLM 기반 중복 검사 (Phase 1: 중복 파일 방지)
+      } catch (error) {
+      }
+    }
+
+    // 2. 매칭 파일 찾기 (기존 방식, 사용자 정의 대상은 설정된 경로)
+    const matchResult = generator instanceof CustomGenerator
+      ? await findMatchingFileForCustomTarget(
+        client,
+        repository,
+        generator.getFilePath(enhancedComment),
+        generator.isSingleFile()
+      )
+      : await findMatchingFileForProjectType(
+        client,
+        repository,
+        enhancedComment,
+        projectType as ProjectType,
+        originalComment.codeContext?.filePath
+      );
+
+    // 2.3. 기존 규칙과의 모순 검사 (Claude Code 규칙, 모순이 있으면 중복 검사 대신 해결 방법 적용)
+    // deprecated 규칙은 중복/모순 검사 대상에서 제외, 미리보기에서 확인한 모순이 있으면 그 결과를 그대로 사용
+    const activeFiles = projectType === 'claude-code' ? analysisResult?.existingFiles.filter(isActiveRule) ?? [] : [];
     let merged = false;
     let similarityScore: number | undefined;
     let reasoning: string | undefined;
+    let semanticDecided = false;
+    let conflicts: RuleConflict[] = [];
+    let scopeGlob: string | undefined;
+    let supersedes: string[] | undefined;
+
+    if (activeFiles.length > 0 && previewConflicts) {
+      conflicts = previewConflicts.filter(conflict => activeFiles.some(file => file.path === conflict.filePath));
+    } else if (activeFiles.length > 0) {
+      try {
+        conflicts = await this.findConflicts(
+          repository,
+          activeFiles,
+          enhancedComment,
+          originalComment.codeContext,
+          llmConfig
+        );
+      } catch (error) {
+        // 모순 검사 실패는 파일 생성에 영향 주지 않음
+      }
+    }
+
+    if (conflicts.length > 0 && conflictResolution === 'supersede') {
+      // 대체: 새 파일로 만들고 모순되는 기존 규칙 파일은 같은 PR에서 deprecated로 표시 (7단계)
+      supersedes = [...new Set(conflicts.map(conflict => conflict.filePath))];
+      matchResult.existingContent = undefined;
+      reasoning = `Supersedes ${supersedes.join(', ')}`;
+      conflicts = [];
+      semanticDecided = true;
+    } else if (conflicts.length > 0 && conflictResolution === 'replace') {
+      // 교체: 첫 번째 모순 파일에서 모순되는 규칙을 지우고 그 파일에 새 규칙 추가
+      const target = activeFiles.find(file => file.path === conflicts[0].filePath);
+      const targetConflicts = conflicts.filter(conflict => conflict.filePath === conflicts[0].filePath);
+      const replaced = target ? removeRuleLines(target.content, targetConflicts.map(conflict => conflict.existingRule)) : null;
+
+      if (target && replaced !== null) {
+        smartFilePath = target.path;
+        matchResult.filePath = target.path;
+        matchResult.existingContent = replaced;
+        reasoning = `Replaced contradicting rule in ${target.path}`;
+        conflicts = conflicts.filter(conflict => !targetConflicts.includes(conflict));
+        semanticDecided = true;
+      }
+    } else if (conflicts.length > 0 && conflictResolution === 'scope-narrow' && conflicts[0].narrowScope) {
+      // 범위 축소: 새 파일로 만들고 리뷰 코드 경로에만 적용
+      scopeGlob = conflicts[0].narrowScope;
+      matchResult.existingContent = undefined;
+      reasoning = `Scoped to ${scopeGlob} (contradicts ${conflicts.map(conflict => conflict.filePath).join(', ')})`;
+      conflicts = [];
+      semanticDecided = true;
+    }
+
+    // 2.4. 임베딩 기반 중복 검사 (Claude Code 규칙, 가장 가까운 기존 규칙으로 판단)
+    if (activeFiles.length > 0 && !semanticDecided) {
+      try {
+        const nearest = await this.findNearestRule(repository, activeFiles, enhancedComment, llmConfig);
+
+        if (nearest) {
+          similarityScore = Math.round(nearest.score * 100);
+          reasoning = `Nearest existing rule: ${nearest.file.path} (${nearest.providerId}, similarity ${similarityScore}%)`;
+          semanticDecided = nearest.decision !== null;
+
+          switch (nearest.decision) {
+            case 'IDENTICAL':
+              // 스킵: 같은 규칙이 이미 있음
+              return {
+                projectType,
+                filePath: nearest.file.path,
+                content: nearest.file.content,
+                isUpdate: false,
+                skipped: true,
+                similarityScore,
+                reasoning
+              };
+
+            case 'MERGE':
+              // 가장 가까운 규칙에 섹션 단위로 병합 (키워드 매칭, AI 제안 경로보다 우선)
+              smartFilePath = nearest.file.path;
+              matchResult.filePath = nearest.file.path;
+              matchResult.existingContent = nearest.file.content;
+              merged = true;
+              break;
+
+            case 'DIFFERENT':
+              // 키워드로 매칭된 파일이 있어도 의미가 다르면 새 파일
+              if (matchResult.existingContent) {
+                smartFilePath = await this.generateUniquePath(client, repository, matchResult.filePath, enhancedComment);
+                matchResult.filePath = smartFilePath;
+                matchResult.existingContent = undefined;
+              }
+              break;
+
+            default:
+              // 판단 보류: 키워드 매칭 결과가 없으면 가장 가까운 규칙을 LLM 판단 대상으로
+              if (!matchResult.existingContent && llmConfig) {
+                smartFilePath = nearest.file.path;
+                matchResult.filePath = nearest.file.path;
+                matchResult.existingContent = nearest.file.content;
+              }
+          }
+        }
+      } catch (error) {
+        // Fallback: 임베딩 실패 시 기존 로직 유지
+      }
+    }
 
-    if (matchResult.existingContent && llmConfig) {
+    // 2.5. LLM 기반 중복 검사 (Phase 1: 중복 파일 방지, 임베딩으로 판단하지 못한 경우)
+    if (matchResult.existingContent && llmConfig && !semanticDecided) {
       try {
         // LLM 클라이언트 생성
-        const llmClient: ILLMClient = llmConfig.provider === 'claude'
-          ? new ClaudeClient(llmConfig.claudeApiKey!)
-          : new OpenAIClient(llmConfig.openaiApiKey!);
+        const llmClient: ILLMClient | null = createLLMClient(llmConfig);
+        if (!llmClient) {
+          throw new Error('LLM is not configured');
+        }
 
         // 새 내용 미리보기 생성 (경량)
         const previewContent = this.generatePreviewContent(enhancedComment);
@@ -197,18 +496,26 @@ export class FileGenerationServiceImpl implements FileGenerationService {
                 matchResult.existingContent,
                 previewContent
               );
+              smartFilePath = matchResult.filePath;
               matchResult.existingContent = mergedContent;
               merged = true;
               break;
 
             case 'DIFFERENT':
+              // 경로가 고정된 파일은 기존 파일에 섹션 추가
+              if (matchResult.fixedPath) {
+                break;
+              }
+
               // 새 파일: 고유한 이름 생성
               const uniquePath = await this.generateUniquePath(
                 client,
                 repository,
                 matchResult.filePath,
+                enhancedComment,
                 similarityResult.data.reasoning
               );
+              smartFilePath = uniquePath;
               matchResult.filePath = uniquePath;
               matchResult.existingContent = undefined;
               break;
@@ -226,24 +533,158 @@ export class FileGenerationServiceImpl implements FileGenerationService {
       repository,
       existingContent: matchResult.existingContent,
       suggestedPath: smartFilePath || undefined,  // SmartFileNaming 결과 전달
-      llmConfig: llmConfig  // LLM 설정 전달 (Claude Code 분류에 사용)
+      matchedPath: matchResult.filePath || undefined,  // 기존 파일 또는 중복 회피 경로
+      llmConfig: llmConfig,  // LLM 설정 전달 (Claude Code 분류에 사용)
+      supersedes  // 대체되는 기존 규칙 (Claude Code frontmatter)
     });
 
     // 4. 파일 경로 결정 (우선순위: Generator > Matcher)
     // Generator가 이미 smartFilePath를 사용했으므로 그 결과 사용
-    const finalFilePath = generationResult.filePath || matchResult.filePath;
+    let finalFilePath = generationResult.filePath || matchResult.filePath;
+    let content = generationResult.content;
+
+    // 5. 범위 축소/대체: 새 파일이어야 하므로 기존 파일 경로와 겹치면 별도 경로로
+    if (scopeGlob) {
+      content = scopeRuleToPaths(content, scopeGlob);
+      finalFilePath = this.nextFreePath(finalFilePath, 'scoped', analysisResult?.existingFiles ?? []);
+    } else if (supersedes) {
+      finalFilePath = this.nextFreePath(finalFilePath, 'revised', analysisResult?.existingFiles ?? []);
+    }
+
+    // 6. 이번 변환에서 추가한 규칙 항목의 출처 (Claude Code 규칙, 저장소의 원래 내용과 비교)
+    const provenance = projectType === 'claude-code'
+      ? collectProvenance(
+        content,
+        analysisResult?.existingFiles.find(file => file.path === finalFilePath)?.content
+          ?? (generationResult.isUpdate ? matchResult.existingContent : undefined),
+        buildRuleProvenance(repository, originalComment, thread)
+      )
+      : undefined;
 
     return {
       projectType,
       filePath: finalFilePath,
-      content: generationResult.content,
+      content,
       isUpdate: generationResult.isUpdate,
       merged,
       similarityScore,
-      reasoning
+      reasoning,
+      ...(conflicts.length > 0 ? { conflicts } : {}),
+      ...(supersedes ? { supersedes } : {}),
+      ...(provenance ? { provenance } : {})
     };
   }
 
+  /**
+   * 기존 파일과 겹치지 않는 경로 (naming.md → naming-revised.md → naming-revised-2.md)
+   */
+  private nextFreePath(filePath: string, suffix: string, existingFiles: ClaudeFile[]): string {
+    const taken = new Set(existingFiles.map(file => file.path));
+    if (!taken.has(filePath)) {
+      return filePath;
+    }
+
+    const extension = filePath.match(/\.[A-Za-z0-9]+$/)?.[0] ?? '';
+    const baseName = filePath.slice(0, filePath.length - extension.length);
+    let candidate = `${baseName}-${suffix}${extension}`;
+    for (let i = 2; taken.has(candidate); i++) {
+      candidate = `${baseName}-${suffix}-${i}${extension}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * 새 규칙과 모순되는 기존 규칙
+   * - LLM: 의미상 가까운 규칙만 분류 (실패 시 규칙 기반)
+   * - LLM 없음: 모든 기존 규칙을 규칙 기반으로 검사
+   */
+  private async findConflicts(
+    repository: Repository,
+    existingFiles: ClaudeFile[],
+    enhancedComment: EnhancedComment,
+    codeContext?: CodeContext,
+    llmConfig?: LLMConfig
+  ): Promise<RuleConflict[]> {
+    const newRule = describeRule(enhancedComment);
+    const llmClient = llmConfig ? createLLMClient(llmConfig) : null;
+    let conflicts: RuleConflict[];
+
+    if (llmClient) {
+      try {
+        const related = await this.searchRules(repository, existingFiles, enhancedComment, llmConfig, RELATED_RULE_LIMIT);
+        conflicts = await classifyRuleRelations(llmClient, newRule, related.map(match => match.file));
+      } catch (error) {
+        console.warn('[FileGenerationService] LLM conflict check failed, using rule-based check:', error);
+        conflicts = detectContradictions(newRule, existingFiles);
+      }
+    } else {
+      conflicts = detectContradictions(newRule, existingFiles);
+    }
+
+    const narrowScope = codeContext?.filePath ? deriveFileGlob(codeContext.filePath) : undefined;
+    return narrowScope ? conflicts.map(conflict => ({ ...conflict, narrowScope })) : conflicts;
+  }
+
+  /**
+   * 기존 규칙 파일 중 가장 가까운 규칙
+   */
+  private async findNearestRule(
+    repository: Repository,
+    existingFiles: ClaudeFile[],
+    enhancedComment: EnhancedComment,
+    llmConfig?: LLMConfig
+  ): Promise<SemanticMatch | null> {
+    const [nearest] = await this.searchRules(repository, existingFiles, enhancedComment, llmConfig, 1);
+    return nearest ?? null;
+  }
+
+  /**
+   * 의미상 가까운 기존 규칙 파일 (임베딩 API 실패 시 로컬 MinHash로 재시도)
+   * - 인덱스는 저장소/브랜치, 제공자 단위로 캐시 (미리보기와 변환이 같은 인덱스 사용)
+   */
+  private async searchRules(
+    repository: Repository,
+    existingFiles: ClaudeFile[],
+    enhancedComment: EnhancedComment,
+    llmConfig: LLMConfig | undefined,
+    limit: number
+  ): Promise<SemanticMatch[]> {
+    const cacheKey = `${repository.platform}:${repository.owner}/${repository.name}@${repository.branch}`;
+    const query = this.generatePreviewContent(enhancedComment);
+    const provider = createEmbeddingProvider(llmConfig);
+
+    try {
+      const index = await this.getSemanticIndex(existingFiles, provider, cacheKey);
+      return await index.search(query, limit);
+    } catch (error) {
+      if (provider.id.startsWith('local:')) {
+        throw error;
+      }
+      console.warn('[FileGenerationService] Embedding API failed, using local MinHash:', error);
+      const index = await this.getSemanticIndex(existingFiles, createMinHashProvider(), cacheKey);
+      return index.search(query, limit);
+    }
+  }
+
+  /**
+   * 기존 규칙 파일 임베딩 인덱스 (저장소/브랜치, 제공자 단위 캐시)
+   */
+  private async getSemanticIndex(
+    existingFiles: ClaudeFile[],
+    provider: EmbeddingProvider,
+    cacheKey: string
+  ): Promise<SemanticIndex> {
+    const indexKey = `${cacheKey}|${provider.id}`;
+    const cached = this.semanticIndexCache.get(indexKey);
+    if (cached) {
+      return cached;
+    }
+
+    const index = await SemanticIndex.build(existingFiles, provider, this.embeddingStore, cacheKey);
+    this.semanticIndexCache.set(indexKey, index);
+    return index;
+  }
+
   /**
    * 미리보기 내용 생성 (경량) - Phase 1: 중복 검사용
    */
@@ -263,20 +704,24 @@ ${parsedComment.content}`;
     client: ApiClient,
     repository: Repository,
     originalPath: string,
-    reasoning: string
+    enhancedComment: EnhancedComment,
+    reasoning?: string
   ): Promise<string> {
-    // 1. LLM reasoning에서 키워드 추출
-    const suffix = this.extractSuffixFromReasoning(reasoning);
+    // 1. LLM reasoning의 키워드, 없으면 새 코멘트의 파일명 제안/키워드에서 suffix 추출
+    const suffix = (reasoning && this.extractSuffixFromReasoning(reasoning))
+      || this.extractSuffixFromComment(enhancedComment, originalPath)
+      || `alt-${Date.now()}`;
 
-    // 2. 파일명 변형: error-handling.md → error-handling-async.md
-    const baseName = originalPath.replace(/\.md$/, '');
-    let newPath = `${baseName}-${suffix}.md`;
+    // 2. 파일명 변형: error-handling.md → error-handling-async.md (.mdc, 사용자 정의 확장자 유지)
+    const extension = originalPath.match(/\.[A-Za-z0-9]+$/)?.[0] ?? '.md';
+    const baseName = originalPath.slice(0, originalPath.length - (originalPath.endsWith(extension) ? extension.length : 0));
+    let newPath = `${baseName}-${suffix}${extension}`;
 
     // 3. 여전히 충돌하면 timestamp 추가
     const fileExists = await client.getFileContent(repository, newPath);
     if (fileExists) {
       const timestamp = Date.now();
-      newPath = `${baseName}-${suffix}-${timestamp}.md`;
+      newPath = `${baseName}-${suffix}-${timestamp}${extension}`;
     }
 
     return newPath;
@@ -285,17 +730,28 @@ ${parsedComment.content}`;
   /**
    * Reasoning에서 파일명 suffix 추출 - Phase 1: 중복 검사
    */
-  private extractSuffixFromReasoning(reasoning: string): string {
+  private extractSuffixFromReasoning(reasoning: string): string | null {
     // 예: "focuses on async patterns" → "async-patterns"
     const keywords = reasoning
       .toLowerCase()
       .match(/\b(async|sync|pattern|example|advanced|basic|handler|helper|util|service|component)\b/g);
 
-    if (keywords && keywords.length > 0) {
-      return keywords.slice(0, 2).join('-');
-    }
+    return keywords && keywords.length > 0 ? keywords.slice(0, 2).join('-') : null;
+  }
+
+  /**
+   * 새 코멘트의 파일명 제안과 키워드에서 파일명 suffix 추출 (기존 파일명에 없는 단어 2개까지)
+   * 예: error-handling.md + suggestedFileName "error-logging", keywords ["request-id"] → "logging-request"
+   */
+  private extractSuffixFromComment(enhancedComment: EnhancedComment, originalPath: string): string | null {
+    const fileName = (originalPath.split('/').pop() ?? '').replace(/\.[A-Za-z0-9]+$/, '');
+    const existingWords = new Set(fileName.toLowerCase().split(/[^a-z0-9]+/));
+
+    const words = [enhancedComment.suggestedFileName, ...enhancedComment.keywords]
+      .flatMap(text => (text ?? '').toLowerCase().split(/[^a-z0-9]+/))
+      .filter(word => word.length > 1 && !existingWords.has(word));
 
-    // Fallback: timestamp
-    return `alt-${Date.now()}`;
+    const suffix = [...new Set(words)].slice(0, 2);
+    return suffix.length > 0 ? suffix.join('-') : null;
   }
 }
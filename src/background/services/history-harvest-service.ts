@@ -0,0 +1,293 @@
+/**
+ * HistoryHarvestService - 머지된 PR/MR 히스토리에서 컨벤션 수집
+ * - prepare(): PR 목록/리뷰 데이터 수집, 비슷한 코멘트 묶기, 비용 추정 (LLM 호출 없음)
+ * - start(): 추정을 확인한 뒤 묶음별 변환, 하나의 규칙 PR 생성
+ * - 단계마다 작업 상태를 저장하여 Service Worker 재시작 후 resume()으로 이어서 진행
+ */
+
+import type { Repository } from '../../types';
+import type { ConversionOrchestrator } from './conversion-orchestrator';
+import type { ConfigServiceResult } from './config-service';
+import { ApiClient } from '../api-client';
+import { ConventionFilter } from '../../core/convention-filter';
+import { resolveModel } from '../llm/models';
+import { logger } from '../../utils/logger';
+import {
+  createHarvestJob,
+  collectConventionComments,
+  clusterComments,
+  mergeClusterComments,
+  estimateHarvestCost,
+  type HarvestJob
+} from '../../core/history-harvest';
+
+/**
+ * 작업 저장소 (한 번에 하나의 작업)
+ */
+export interface HarvestJobStore {
+  load(): Promise<HarvestJob | null>;
+  save(job: HarvestJob): Promise<void>;
+}
+
+const HARVEST_JOB_KEY = 'historyHarvestJob';
+
+// 수집 가능한 최대 PR/MR 수
+export const MAX_HARVEST_PULL_REQUESTS = 200;
+
+/**
+ * chrome.storage.local 기반 작업 저장소
+ */
+export class ChromeHarvestJobStore implements HarvestJobStore {
+  async load(): Promise<HarvestJob | null> {
+    const storage = await chrome.storage.local.get(HARVEST_JOB_KEY);
+    return (storage[HARVEST_JOB_KEY] as HarvestJob | undefined) ?? null;
+  }
+
+  async save(job: HarvestJob): Promise<void> {
+    await chrome.storage.local.set({ [HARVEST_JOB_KEY]: job });
+  }
+}
+
+export class HistoryHarvestService {
+  private running: Promise<void> | null = null;
+
+  constructor(
+    private orchestrator: ConversionOrchestrator,
+    private store: HarvestJobStore = new ChromeHarvestJobStore(),
+    private onUpdate: (job: HarvestJob) => void = () => {}
+  ) {}
+
+  /**
+   * 현재 작업 (없으면 null)
+   */
+  getJob(): Promise<HarvestJob | null> {
+    return this.store.load();
+  }
+
+  /**
+   * 새 작업 시작: 수집과 비용 추정까지 진행 (완료되면 'estimated')
+   */
+  async prepare(repository: Repository, limit: number): Promise<HarvestJob> {
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HARVEST_PULL_REQUESTS) {
+      throw new Error(`The number of PR/MRs must be between 1 and ${MAX_HARVEST_PULL_REQUESTS}`);
+    }
+
+    const current = await this.store.load();
+    if (this.running || current?.status === 'collecting' || current?.status === 'converting') {
+      throw new Error('A history harvest is already running. Cancel it before starting a new one.');
+    }
+
+    const job = createHarvestJob(repository, limit);
+    await this.save(job);
+    this.run(job);
+    return job;
+  }
+
+  /**
+   * 비용 추정을 확인한 작업의 변환 시작
+   * - 실패한 작업은 중단된 단계부터 재시도 (추정 전이면 수집, 이후면 남은 묶음 변환)
+   */
+  async start(): Promise<HarvestJob> {
+    const job = await this.store.load();
+    if (!job || (job.status !== 'estimated' && job.status !== 'failed')) {
+      throw new Error('No estimated history harvest to start');
+    }
+    if (this.running) {
+      throw new Error('A history harvest is already running');
+    }
+
+    job.status = job.estimate ? 'converting' : 'collecting';
+    job.error = undefined;
+    await this.save(job);
+    this.run(job);
+    return job;
+  }
+
+  /**
+   * 작업 취소 (진행 중인 단계는 현재 PR/묶음을 마친 뒤 중단)
+   */
+  async cancel(): Promise<HarvestJob | null> {
+    const job = await this.store.load();
+    if (!job || job.status === 'completed' || job.status === 'cancelled') {
+      return job;
+    }
+
+    job.status = 'cancelled';
+    await this.save(job);
+    return job;
+  }
+
+  /**
+   * 중단된 작업 이어서 진행 (Service Worker 재시작 시)
+   */
+  async resume(): Promise<void> {
+    const job = await this.store.load();
+    if (!this.running && job && (job.status === 'collecting' || job.status === 'converting')) {
+      logger.log(`[HistoryHarvest] Resuming ${job.id} (${job.status})`);
+      this.run(job);
+    }
+  }
+
+  /**
+   * 진행 중인 단계가 끝날 때까지 대기
+   */
+  async whenIdle(): Promise<void> {
+    await this.running;
+  }
+
+  /**
+   * 단계 실행 (실패하면 진행 상태를 유지한 채 'failed'로 저장)
+   */
+  private run(job: HarvestJob): void {
+    this.running = this.process(job)
+      .catch(async (error) => {
+        console.error('[HistoryHarvest] Job failed:', error);
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        await this.checkpoint(job);
+      })
+      .finally(() => {
+        this.running = null;
+      });
+  }
+
+  private async process(job: HarvestJob): Promise<void> {
+    const config = await this.orchestrator.container.configService.loadConfig(job.repository.platform);
+    const client = new ApiClient({
+      token: config.token,
+      platform: job.repository.platform,
+      githubUrl: config.githubUrl,
+      gitlabUrl: config.gitlabUrl,
+      bitbucketUsername: config.bitbucketUsername,
+      giteaUrl: config.giteaUrl
+    });
+
+    if (job.status === 'collecting') {
+      await this.collect(job, client, config);
+    } else if (job.status === 'converting') {
+      await this.convert(job, client, config);
+    }
+  }
+
+  /**
+   * 머지된 PR/MR의 리뷰 데이터 수집 → 컨벤션 필터 → 묶기 → 비용 추정
+   */
+  private async collect(job: HarvestJob, client: ApiClient, config: ConfigServiceResult): Promise<void> {
+    if (!job.pullRequests) {
+      job.pullRequests = await client.listMergedPullRequests(job.repository, job.limit);
+      if (job.pullRequests.length === 0) {
+        throw new Error('No merged PR/MRs found in this repository');
+      }
+
+      // 규칙 PR은 최근 PR의 타겟 브랜치로
+      const baseBranch = job.pullRequests[0].baseBranch;
+      job.repository = { ...job.repository, branch: baseBranch, baseBranch };
+      if (!(await this.checkpoint(job))) return;
+    }
+
+    const filter = new ConventionFilter();
+    for (const pr of job.pullRequests) {
+      if (job.collectedPrs.includes(pr.number)) continue;
+
+      try {
+        const reviewData = await client.getReviewData({ ...job.repository, prNumber: pr.number });
+        job.comments.push(...collectConventionComments(reviewData, pr, job.repository.platform, filter));
+      } catch (error) {
+        console.warn(`[HistoryHarvest] Failed to load review data for #${pr.number}:`, error);
+      }
+
+      job.collectedPrs.push(pr.number);
+      if (!(await this.checkpoint(job))) return;
+    }
+
+    if (job.comments.length === 0) {
+      throw new Error('No convention comments found in the harvested PR/MRs');
+    }
+
+    job.clusters = await clusterComments(job.comments);
+    job.estimate = estimateHarvestCost(job.comments, job.clusters, {
+      analysis: resolveModel(config.llmConfig, 'analysis'),
+      light: resolveModel(config.llmConfig, 'light')
+    });
+    job.status = 'estimated';
+    await this.checkpoint(job);
+  }
+
+  /**
+   * 묶음별 분석/파일 생성 → 하나의 규칙 PR 생성
+   */
+  private async convert(job: HarvestJob, client: ApiClient, config: ConfigServiceResult): Promise<void> {
+    const { container } = this.orchestrator;
+    const settings = await this.orchestrator.applyRepositorySettings(client, job.repository, config.llmConfig);
+    const repositoryConfig = settings.repositoryConfig ?? undefined;
+
+    for (let i = job.nextCluster; i < job.clusters.length; i++) {
+      const members = job.clusters[i].map(index => job.comments[index]);
+      const comment = mergeClusterComments(members);
+
+      try {
+        const { enhancedComment, tokenUsage } =
+          await container.commentService.validateAndEnhance(comment, settings.llmConfig);
+
+        // 출처 기록은 묶음의 첫 코멘트가 달린 PR 기준
+        const files = await container.fileGenerationService.generateForAllTypes(
+          client,
+          { ...job.repository, prNumber: members[0].pr },
+          enhancedComment,
+          comment,
+          settings.llmConfig,
+          undefined,
+          config.customTarget,
+          repositoryConfig
+        );
+
+        job.results.push({ enhancedComment, comment, files });
+        if (tokenUsage) {
+          job.tokenUsage.inputTokens += tokenUsage.inputTokens;
+          job.tokenUsage.outputTokens += tokenUsage.outputTokens;
+        }
+      } catch (error) {
+        console.error(`[HistoryHarvest] Failed to convert cluster ${i + 1}:`, error);
+      }
+
+      job.nextCluster = i + 1;
+      if (!(await this.checkpoint(job))) return;
+    }
+
+    if (job.results.length === 0) {
+      throw new Error('Failed to process any conventions');
+    }
+
+    const prResult = await container.prService.createMultiFileWrapup(
+      client,
+      job.repository,
+      job.results,
+      settings.llmConfig,
+      repositoryConfig,
+      job.pullRequests ?? []
+    );
+
+    job.prUrl = prResult.prUrl;
+    job.status = 'completed';
+    await this.checkpoint(job);
+  }
+
+  /**
+   * 진행 상태 저장 (다른 요청으로 취소된 작업이면 저장하지 않고 false)
+   */
+  private async checkpoint(job: HarvestJob): Promise<boolean> {
+    const stored = await this.store.load();
+    if (stored?.id === job.id && stored.status === 'cancelled') {
+      return false;
+    }
+
+    await this.save(job);
+    return true;
+  }
+
+  private async save(job: HarvestJob): Promise<void> {
+    job.updatedAt = Date.now();
+    await this.store.save(job);
+    this.onUpdate(job);
+  }
+}
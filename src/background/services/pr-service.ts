@@ -2,8 +2,8 @@
  * PullRequestService - PR/MR 생성 서비스
  */
 
-import type { Repository, EnhancedComment, Comment, FileGenerationResult, LLMConfig } from '../../types';
-import type { ApiClient } from '../api-client';
+import type { Repository, EnhancedComment, Comment, FileGenerationResult, LLMConfig, RepositoryConfig } from '../../types';
+import type { ApiClient, MergedPullRequest } from '../api-client';
 import { createPullRequestWithMultipleFiles } from '../../core/pr-creator';
 import { createLLMClient } from '../llm/enhancer';
 import { FileMerger } from '../../core/file-merger';
@@ -19,7 +19,8 @@ export interface PullRequestService {
     enhancedComment: EnhancedComment,
     originalComment: Comment,
     files: FileGenerationResult[],
-    llmConfig?: LLMConfig
+    llmConfig?: LLMConfig,
+    repositoryConfig?: RepositoryConfig
   ): Promise<PullRequestResult>;
 
   createMultiFileWrapup(
@@ -30,7 +31,9 @@ export interface PullRequestService {
       comment: Comment;
       files: FileGenerationResult[];
     }>,
-    llmConfig?: LLMConfig
+    llmConfig?: LLMConfig,
+    repositoryConfig?: RepositoryConfig,
+    sourcePullRequests?: MergedPullRequest[]
   ): Promise<PullRequestResult>;
 }
 
@@ -47,11 +50,12 @@ export class PullRequestServiceImpl implements PullRequestService {
     enhancedComment: EnhancedComment,
     originalComment: Comment,
     files: FileGenerationResult[],
-    llmConfig?: LLMConfig
+    llmConfig?: LLMConfig,
+    repositoryConfig?: RepositoryConfig
   ): Promise<PullRequestResult> {
     // LLM 클라이언트 생성 (llmConfig가 있으면)
     const llmClient = llmConfig
-      ? (createLLMClient(llmConfig) ?? undefined)
+      ? (createLLMClient(llmConfig, 'light') ?? undefined)
       : undefined;
 
     const prResult = await createPullRequestWithMultipleFiles({
@@ -60,7 +64,10 @@ export class PullRequestServiceImpl implements PullRequestService {
       parsedComment: enhancedComment,
       originalComment,
       files,
-      llmClient
+      llmClient,
+      branchPrefix: repositoryConfig?.branchPrefix,
+      labels: repositoryConfig?.labels,
+      reviewers: repositoryConfig?.reviewers
     });
 
     if (!prResult.success) {
@@ -75,6 +82,7 @@ export class PullRequestServiceImpl implements PullRequestService {
 
   /**
    * Wrapup: 여러 코멘트의 파일들을 하나의 PR로 생성
+   * - sourcePullRequests가 있으면 히스토리 수집 PR (여러 머지된 PR/MR에서 모은 컨벤션)
    */
   async createMultiFileWrapup(
     client: ApiClient,
@@ -84,7 +92,9 @@ export class PullRequestServiceImpl implements PullRequestService {
       comment: Comment;
       files: FileGenerationResult[];
     }>,
-    llmConfig?: LLMConfig
+    llmConfig?: LLMConfig,
+    repositoryConfig?: RepositoryConfig,
+    sourcePullRequests?: MergedPullRequest[]
   ): Promise<PullRequestResult> {
     // 모든 파일 수집
     const allFiles: FileGenerationResult[] = [];
@@ -97,7 +107,7 @@ export class PullRequestServiceImpl implements PullRequestService {
     const mergedFiles = fileMerger.mergeFiles(allFiles);
 
     // LLM 클라이언트 생성
-    const llmClient = llmConfig ? (createLLMClient(llmConfig) ?? undefined) : undefined;
+    const llmClient = llmConfig ? (createLLMClient(llmConfig, 'light') ?? undefined) : undefined;
 
     // 첫 번째 결과를 대표로 사용 (PR 제목/본문 생성용)
     const firstResult = results[0];
@@ -111,7 +121,11 @@ export class PullRequestServiceImpl implements PullRequestService {
       files: mergedFiles,
       llmClient,
       isWrapup: true,  // Wrapup 모드 표시
-      wrapupCommentCount: results.length  // 총 코멘트 수
+      wrapupCommentCount: results.length,  // 총 코멘트 수
+      sourcePullRequests,
+      branchPrefix: repositoryConfig?.branchPrefix,
+      labels: repositoryConfig?.labels,
+      reviewers: repositoryConfig?.reviewers
     });
 
     if (!prResult.success) {
@@ -0,0 +1,92 @@
+/**
+ * PromptTemplateService - 저장소별 프롬프트 override 적용 및 템플릿 버전 관리
+ *
+ * - 대상 저장소에 `.review-to-instruction/prompts.yaml`이 있으면 Popup 템플릿 위에 병합
+ * - Popup에서 템플릿을 저장하면 버전을 올려 이전 프롬프트로 만든 LLM 캐시를 쓰지 않도록 함
+ */
+
+import type { LLMConfig, Repository } from '../../types';
+import type { ApiClient } from '../api-client';
+import {
+  PROMPT_TEMPLATE_STORAGE_KEYS,
+  PROMPT_TEMPLATE_VERSION_KEY,
+  REPO_PROMPTS_PATH,
+  parseRepoPromptTemplates,
+  mergePromptTemplates
+} from '../llm/prompt-templates';
+
+export interface PromptTemplateService {
+  applyRepositoryOverrides(client: ApiClient, repository: Repository, llmConfig: LLMConfig): Promise<LLMConfig>;
+}
+
+/**
+ * PromptTemplateService 구현
+ */
+export class PromptTemplateServiceImpl implements PromptTemplateService {
+  /**
+   * 저장소 override 파일을 읽어 LLM 설정의 프롬프트 템플릿에 병합
+   * - 파일이 없거나 형식이 잘못되면 기존 설정 그대로 사용 (변환은 계속 진행)
+   */
+  async applyRepositoryOverrides(
+    client: ApiClient,
+    repository: Repository,
+    llmConfig: LLMConfig
+  ): Promise<LLMConfig> {
+    try {
+      const file = await client.getFileContent(repository, REPO_PROMPTS_PATH);
+      if (!file) {
+        return llmConfig;
+      }
+
+      const source = new TextDecoder().decode(
+        Uint8Array.from(atob(file.content), c => c.charCodeAt(0))
+      );
+      const overrides = parseRepoPromptTemplates(source);
+      const revision = file.sha ? file.sha.slice(0, 12) : await hashContent(source);
+
+      return {
+        ...llmConfig,
+        promptTemplates: mergePromptTemplates(llmConfig.promptTemplates, overrides, revision)
+      };
+    } catch (error) {
+      console.warn(`[PromptTemplateService] Ignoring ${REPO_PROMPTS_PATH}:`, error);
+      return llmConfig;
+    }
+  }
+}
+
+/**
+ * 파일 내용 SHA-256 앞 12자리 (sha를 주지 않는 플랫폼용 리비전)
+ */
+async function hashContent(content: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, 12);
+}
+
+/**
+ * 템플릿 변경 시 버전 자동 증가
+ * - Popup 저장은 한 번의 storage.set이므로 여러 템플릿이 바뀌어도 1만 증가
+ */
+export function startPromptTemplateVersioning(): void {
+  const templateKeys = Object.values(PROMPT_TEMPLATE_STORAGE_KEYS);
+
+  chrome.storage.onChanged.addListener(async (changes, areaName) => {
+    if (areaName !== 'local') {
+      return;
+    }
+
+    const changed = templateKeys.some(key =>
+      key in changes && (changes[key].oldValue ?? '') !== (changes[key].newValue ?? '')
+    );
+    if (!changed) {
+      return;
+    }
+
+    const storage = await chrome.storage.local.get(PROMPT_TEMPLATE_VERSION_KEY);
+    const version = Number(storage[PROMPT_TEMPLATE_VERSION_KEY] ?? 0);
+    await chrome.storage.local.set({ [PROMPT_TEMPLATE_VERSION_KEY]: version + 1 });
+  });
+}
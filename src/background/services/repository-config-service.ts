@@ -0,0 +1,33 @@
+/**
+ * RepositoryConfigService - 대상 저장소의 `.review-to-instruction.yml` 로드
+ */
+
+import type { Repository, RepositoryConfig } from '../../types';
+import type { ApiClient } from '../api-client';
+import { REPOSITORY_CONFIG_PATH, parseRepositoryConfig } from '../../core/repository-config';
+
+export interface RepositoryConfigService {
+  load(client: ApiClient, repository: Repository): Promise<RepositoryConfig | null>;
+}
+
+/**
+ * RepositoryConfigService 구현
+ */
+export class RepositoryConfigServiceImpl implements RepositoryConfigService {
+  /**
+   * 저장소 설정 로드
+   * - 파일이 없으면 null (기본값 사용)
+   * - 형식이 잘못되면 에러 (팀 설정을 무시한 채 PR을 만들지 않도록 변환 중단)
+   */
+  async load(client: ApiClient, repository: Repository): Promise<RepositoryConfig | null> {
+    const file = await client.getFileContent(repository, REPOSITORY_CONFIG_PATH);
+    if (!file) {
+      return null;
+    }
+
+    const source = new TextDecoder().decode(
+      Uint8Array.from(atob(file.content), c => c.charCodeAt(0))
+    );
+    return parseRepositoryConfig(source);
+  }
+}
@@ -0,0 +1,904 @@
+/**
+ * Review to Instruction - Azure DevOps Injector
+ * Azure DevOps PR 페이지에 버튼을 주입합니다.
+ */
+
+import { CommentDetector, type CommentElement } from './comment-detector';
+import { ThreadDetector } from './thread-detector';
+import { UIBuilder } from './ui-builder';
+import { PreviewModal, type ModalAction } from './preview-modal';
+import { requestPreviewStream } from '../utils/preview-stream';
+import { WrapupButtonManager } from './wrapup-button-manager';
+import { extractCodeContextFromDOM, apiToCodeContext } from './code-context-extractor';
+import { AZURE_SELECTORS } from './platform-selectors';
+import type { Comment, Repository, DiscussionThread, PRReviewData, ApiReviewThread } from '../types';
+import { isConventionComment } from '../core/parser';
+
+export class AzureDevOpsInjector {
+  private detector: CommentDetector;
+  private threadDetector: ThreadDetector;
+  private uiBuilder: UIBuilder;
+  private wrapupManager: WrapupButtonManager;
+  private repository: Repository | null = null;
+  private threadObserver: MutationObserver | null = null;
+  private hasApiToken: boolean = false;
+  private reviewData: PRReviewData | null = null;
+
+  constructor() {
+    this.uiBuilder = new UIBuilder();
+
+    // Azure DevOps PR 페이지의 코멘트 선택자 (platform-selectors.ts에서 중앙 관리)
+    this.detector = new CommentDetector(
+      (comment) => this.onCommentDetected(comment),
+      AZURE_SELECTORS.comment.containers,
+      AZURE_SELECTORS.comment.content
+    );
+
+    // Thread 감지기
+    this.threadDetector = new ThreadDetector('azure');
+
+    // Wrapup 버튼 관리자
+    this.wrapupManager = new WrapupButtonManager('azure');
+  }
+
+  /**
+   * Azure DevOps 페이지에서 레포지토리 정보 추출
+   */
+  private extractRepository(): Repository | null {
+    try {
+      // 프로젝트/레포명에 공백 등이 있으면 URL 인코딩되어 있으므로 디코딩
+      const pathParts = window.location.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+      // 경로 형식: /organization/project/_git/repo/pullrequest/number
+      if (pathParts.length >= 6 && pathParts[2] === '_git' && pathParts[4] === 'pullrequest') {
+        // owner는 '{organization}/{project}'로 구성 (ApiClient가 분리하여 사용)
+        const owner = `${pathParts[0]}/${pathParts[1]}`;
+        const name = pathParts[3];
+        const prNumber = parseInt(pathParts[5], 10);
+
+        // PR의 작업 브랜치 정보 추출 (platform-selectors.ts에서 관리)
+        let branch: string | undefined;
+        for (const selector of AZURE_SELECTORS.branch.source) {
+          branch = document.querySelector(selector)?.textContent?.trim();
+          if (branch) break;
+        }
+
+        // API fallback은 updateDefaultBranch에서 처리
+        if (!branch) {
+          branch = 'main';  // 임시값
+        }
+
+        // PR의 타겟 브랜치(base branch) 정보 추출 (platform-selectors.ts에서 관리)
+        let baseBranch: string | undefined;
+        for (const selector of AZURE_SELECTORS.branch.target) {
+          baseBranch = document.querySelector(selector)?.textContent?.trim();
+          if (baseBranch) break;
+        }
+
+        // fallback to 'main'
+        if (!baseBranch) {
+          baseBranch = 'main';
+        }
+
+        return {
+          owner,
+          name,
+          platform: 'azure',
+          branch,
+          baseBranch,
+          prNumber
+        };
+      }
+    } catch (error) {
+    }
+
+    return null;
+  }
+
+  /**
+   * 시작
+   */
+  async start() {
+    // 설정 확인
+    const config = await this.getConfig();
+    if (!config.showButtons) {
+      return;
+    }
+
+    // API Token 상태 확인
+    await this.checkApiTokenStatus();
+
+    // 레포지토리 정보 추출
+    this.repository = this.extractRepository();
+    if (!this.repository) {
+      return;
+    }
+
+    // ✅ 즉시 버튼 감지 시작 (차단 없음)
+    this.detector.start();
+
+    // API 기반 리뷰 데이터 조회 → Thread/Wrapup 버튼 생성
+    this.fetchReviewData().then(async () => {
+      if (this.reviewData) {
+        this.addThreadButtonsFromApi();
+        this.wrapupManager.addWrapupButtonFromApi(this.reviewData, (comments) => this.onWrapupButtonClick(comments));
+      } else {
+        // API 실패 시 기존 DOM 기반 fallback
+        this.detectAndAddThreadButtons();
+        this.observeThreads();
+        await this.wrapupManager.addWrapupButton((comments) => this.onWrapupButtonClick(comments));
+      }
+    }).catch(async () => {
+      // fallback: 기존 DOM 기반
+      this.detectAndAddThreadButtons();
+      this.observeThreads();
+      await this.wrapupManager.addWrapupButton((comments) => this.onWrapupButtonClick(comments));
+    });
+
+    // ✅ 브랜치 정보는 백그라운드에서 업데이트
+    this.updateDefaultBranch().catch(() => {
+      // 실패해도 버튼은 이미 표시되어 있음
+    });
+  }
+
+  /**
+   * API Token 상태 확인 (복호화 가능 여부)
+   */
+  private async checkApiTokenStatus() {
+    try {
+      // Chrome API 존재 여부 확인
+      if (typeof chrome === 'undefined' || !chrome.runtime) {
+        this.hasApiToken = false;
+        return;
+      }
+
+      // Background로 메시지 전송하여 토큰 유효성 확인
+      const response = await chrome.runtime.sendMessage({
+        type: 'CHECK_TOKEN_STATUS',
+        payload: { platform: 'azure' }
+      });
+
+      if (response.success) {
+        this.hasApiToken = response.data.hasValidTokens;
+      } else {
+        this.hasApiToken = false;
+      }
+    } catch (error) {
+      this.hasApiToken = false;
+    }
+  }
+
+  /**
+   * API를 통해 PR의 head branch와 base branch 가져오기
+   */
+  private async updateDefaultBranch() {
+    if (!this.repository) return;
+
+    // Chrome Extension API 확인
+    if (typeof chrome === 'undefined' || !chrome.runtime || !chrome.runtime.sendMessage) {
+      return;
+    }
+
+    try {
+      // Background script를 통해 PR 정보 API 호출
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_PR_INFO',
+        payload: {
+          owner: this.repository.owner,
+          name: this.repository.name,
+          prNumber: this.repository.prNumber,
+          platform: 'azure'
+        }
+      });
+
+      if (response.success) {
+        // head branch (작업 브랜치) 저장
+        if (response.data.head_branch) {
+          this.repository.branch = response.data.head_branch;
+        }
+        // base branch (타겟 브랜치) 저장
+        if (response.data.base_branch) {
+          this.repository.baseBranch = response.data.base_branch;
+        }
+      }
+    } catch (error) {
+      // API 호출 실패는 무시 (DOM에서 추출한 branch 사용)
+    }
+  }
+
+  /**
+   * 중지
+   */
+  stop() {
+    this.detector.stop();
+    this.uiBuilder.removeAllButtons();
+    this.uiBuilder.removeAllThreadButtons();
+    this.wrapupManager.removeWrapupButton();
+
+    // Thread Observer 정지
+    if (this.threadObserver) {
+      this.threadObserver.disconnect();
+      this.threadObserver = null;
+    }
+  }
+
+  /**
+   * 코멘트 감지 콜백
+   */
+  private onCommentDetected(commentElement: CommentElement) {
+    // 코멘트 정보 추출
+    const comment = this.extractCommentInfo(commentElement);
+    if (!comment) {
+      return;
+    }
+
+    // 비활성화 이유 결정
+    let disabled = false;
+    let disabledReason = '';
+
+    // 1. API Token 확인
+    if (!this.hasApiToken) {
+      disabled = true;
+      disabledReason = '⚠️ API tokens not configured\n\nPlease configure your Azure DevOps token and LLM API key in the extension settings to use this feature.';
+    }
+    // 2. 컨벤션 코멘트 여부 체크 (API token이 있는 경우에만)
+    else {
+      const isConvention = isConventionComment(comment.content);
+      if (!isConvention) {
+        disabled = true;
+        disabledReason = '⚠️ Comment does not meet requirements\n\nThis comment needs at least one of:\n• 50+ characters\n• Convention keywords (e.g., "must", "should", "avoid")\n• Code examples\n• Emojis';
+      }
+    }
+
+    // 버튼 추가
+    this.uiBuilder.addButton(
+      commentElement.element,
+      commentElement.contentElement,
+      {
+        platform: 'azure',
+        comment,
+        onClick: (comment) => this.onButtonClick(comment),
+        disabled,
+        disabledReason
+      }
+    );
+  }
+
+  /**
+   * 코멘트 정보 추출 (스레드 답글 포함)
+   */
+  private extractCommentInfo(commentElement: CommentElement): Comment | null {
+    try {
+      const element = commentElement.element;
+
+      // 작성자 (platform-selectors.ts에서 관리)
+      let author = 'Unknown';
+      for (const selector of AZURE_SELECTORS.comment.author) {
+        const authorElement = element.querySelector(selector);
+        if (authorElement?.textContent?.trim()) {
+          author = authorElement.textContent.trim();
+          break;
+        }
+      }
+
+      // 코멘트 내용
+      const content = commentElement.contentElement.textContent?.trim() || '';
+      const htmlContent = commentElement.contentElement.innerHTML || '';
+
+      // 작성 시간 (platform-selectors.ts에서 관리)
+      let createdAt = new Date().toISOString();
+      for (const selector of AZURE_SELECTORS.comment.timestamp) {
+        const timeElement = element.querySelector(selector);
+        const datetime = timeElement?.getAttribute('datetime');
+        if (datetime) {
+          createdAt = datetime;
+          break;
+        }
+      }
+
+      // 코멘트 URL
+      const url = window.location.href;
+
+      // 스레드 답글 추출 (Feature 2)
+      const replies = this.extractCommentReplies(element);
+
+      // 코드 컨텍스트 추출: API 데이터 우선, DOM fallback
+      const apiComment = this.findApiCommentForElement(commentElement);
+      const codeContext = apiComment
+        ? apiToCodeContext(apiComment)
+        : extractCodeContextFromDOM(element, 'azure');
+
+      return {
+        id: commentElement.id,
+        author,
+        content,
+        htmlContent,
+        url,
+        createdAt,
+        platform: 'azure',
+        replies: replies.length > 0 ? replies : undefined,
+        codeContext
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 코멘트 스레드의 답글 추출
+   */
+  private extractCommentReplies(commentElement: Element): Array<{ id: string; author: string; content: string; createdAt: string; }> {
+    const replies: Array<{ id: string; author: string; content: string; createdAt: string; }> = [];
+
+    try {
+      // Azure DevOps에서 답글은 같은 discussion thread 내에 순서대로 위치
+      const replyAreaSelector = AZURE_SELECTORS.thread.replyArea.join(', ');
+      const parentGroup = commentElement.closest(replyAreaSelector);
+      if (!parentGroup) return replies;
+
+      // 대화 내 모든 코멘트 요소 찾기
+      const commentContainerSelector = AZURE_SELECTORS.comment.containers.join(', ');
+      const allComments = Array.from(parentGroup.querySelectorAll(commentContainerSelector));
+
+      // 현재 코멘트 이후의 코멘트만 답글로 추출
+      const currentIndex = allComments.indexOf(commentElement);
+      if (currentIndex === -1) return replies;
+
+      for (let i = currentIndex + 1; i < allComments.length; i++) {
+        const replyElement = allComments[i];
+
+        let replyAuthor = 'Unknown';
+        for (const selector of AZURE_SELECTORS.comment.author) {
+          replyAuthor = replyElement.querySelector(selector)?.textContent?.trim() || 'Unknown';
+          if (replyAuthor !== 'Unknown') break;
+        }
+        let replyBody: Element | null = null;
+        for (const selector of AZURE_SELECTORS.comment.content) {
+          replyBody = replyElement.querySelector(selector);
+          if (replyBody) break;
+        }
+        const replyContent = replyBody?.textContent?.trim() || '';
+        let replyTime = '';
+        for (const selector of AZURE_SELECTORS.comment.timestamp) {
+          replyTime = replyElement.querySelector(selector)?.getAttribute('datetime') || '';
+          if (replyTime) break;
+        }
+        const replyId = replyElement.id || `reply-${i}`;
+
+        if (replyContent) {
+          replies.push({
+            id: replyId,
+            author: replyAuthor,
+            content: replyContent,
+            createdAt: replyTime
+          });
+        }
+      }
+    } catch (error) {
+      // 답글 추출 실패는 무시하고 빈 배열 반환
+    }
+
+    return replies;
+  }
+
+  /**
+   * 버튼 클릭 핸들러
+   */
+  private async onButtonClick(comment: Comment) {
+    const button = this.uiBuilder.getButton(comment.id);
+    if (!button) return;
+
+    // Progress 타이머 추적 (취소 가능하도록)
+    const progressTimers: number[] = [];
+
+    try {
+      // Chrome Extension API 체크
+      if (typeof chrome === 'undefined' || !chrome.runtime || !chrome.runtime.sendMessage) {
+        throw new Error('Chrome Extension API is not available.');
+      }
+
+      // 1. Progress 시뮬레이션 시작
+      this.simulateProgress(button, progressTimers);
+
+      // 2. 미리보기 요청 (스트리밍: 첫 응답 조각이 오면 모달을 열고 점진적으로 표시)
+      let editedContent: string | null = null;
+      const onEdit = (content: string) => { editedContent = content; };
+      const modal = new PreviewModal();
+      const preview = { action: null as Promise<ModalAction> | null };
+
+      const previewResponse = await requestPreviewStream(
+        { comment, repository: this.repository },
+        (partial) => {
+          if (!preview.action) {
+            progressTimers.forEach(timer => clearTimeout(timer));
+            this.uiBuilder.setButtonState(button, 'default');
+            preview.action = modal.show({ warnings: [], onEdit });
+          }
+          modal.updatePartial(partial);
+        }
+      );
+
+      // Progress 타이머 정리
+      progressTimers.forEach(timer => clearTimeout(timer));
+
+      if (!previewResponse.success) {
+        modal.close();
+        throw new Error(previewResponse.error || 'Preview failed');
+      }
+
+      if (preview.action) {
+        // 3. 스트리밍 모달에 최종 결과 반영
+        modal.complete(previewResponse.data.result, previewResponse.data.warnings ?? []);
+      } else {
+        // 3. 스트리밍 없이 완료 (캐시 HIT): 100%
+        this.uiBuilder.setButtonProgress(button, 100, 'Complete!');
+        await new Promise(resolve => setTimeout(resolve, 500)); // 0.5초 표시
+
+        // 4. 버튼 상태 복원
+        this.uiBuilder.setButtonState(button, 'default');
+
+        // 5. PreviewModal 표시 (edit 콜백 포함)
+        preview.action = modal.show({
+          result: previewResponse.data.result,
+          warnings: previewResponse.data.warnings ?? [],
+          onEdit
+        });
+      }
+
+      const action = await preview.action;
+
+      // 6. 사용자 액션 처리
+      if (action === 'cancel') {
+        return;
+      }
+
+      // 7. edit 또는 confirm: 실제 변환 수행
+      if (action === 'edit' || action === 'confirm') {
+        this.uiBuilder.setButtonState(button, 'loading');
+
+        const payload = action === 'edit' && editedContent !== null
+          ? { comment, repository: this.repository, editedContent, conflictResolution: modal.getConflictResolution(), conflicts: previewResponse.data.result.conflicts ?? [] }
+          : { comment, repository: this.repository, conflictResolution: modal.getConflictResolution(), conflicts: previewResponse.data.result.conflicts ?? [] };
+
+        const convertResponse = await chrome.runtime.sendMessage({
+          type: 'CONFIRM_AND_CONVERT',
+          payload
+        });
+
+        if (convertResponse.success) {
+          this.uiBuilder.showSuccessMessage(
+            button,
+            convertResponse.data.prUrl,
+            convertResponse.data.isUpdate,
+            convertResponse.data.tokenUsage,
+            'azure',
+            convertResponse.data.skipped,
+            convertResponse.data.merged,
+            convertResponse.data.similarityScore
+          );
+        } else {
+          throw new Error(convertResponse.error || 'Conversion failed');
+        }
+      }
+
+    } catch (error) {
+      // Progress 타이머 정리
+      progressTimers.forEach(timer => clearTimeout(timer));
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      // Extension context invalidated 에러 특별 처리
+      if (errorMessage.includes('Extension context invalidated') ||
+          errorMessage.includes('message port closed') ||
+          errorMessage.includes('runtime.sendMessage')) {
+        this.uiBuilder.setButtonState(button, 'error');
+        alert(
+          `⚠️ Extension Connection Lost\n\n` +
+          `The extension was reloaded or updated.\n\n` +
+          `💡 Please reload this page (F5) and try again.`
+        );
+        return;
+      }
+
+      this.uiBuilder.showErrorMessage(button, errorMessage, 'azure');
+    }
+  }
+
+  /**
+   * Progress 시뮬레이션 (추정 기반)
+   */
+  private simulateProgress(button: HTMLButtonElement, timers: number[]) {
+    // 0ms: 0%
+    this.uiBuilder.setButtonProgress(button, 0, 'Starting...');
+
+    // 100ms: 10%
+    timers.push(setTimeout(() => {
+      this.uiBuilder.setButtonProgress(button, 10, 'Parsing comment...');
+    }, 100));
+
+    // 300ms: 20%
+    timers.push(setTimeout(() => {
+      this.uiBuilder.setButtonProgress(button, 20, 'Preparing analysis...');
+    }, 300));
+
+    // 500ms-5000ms: 20% → 90% (선형 증가)
+    const startPercent = 20;
+    const endPercent = 90;
+    const startTime = 500;
+    const endTime = 5000;
+    const steps = 20; // 20단계로 나눔
+
+    for (let i = 0; i <= steps; i++) {
+      const time = startTime + (endTime - startTime) * (i / steps);
+      const percent = startPercent + (endPercent - startPercent) * (i / steps);
+
+      timers.push(setTimeout(() => {
+        this.uiBuilder.setButtonProgress(button, percent, 'Analyzing with Claude...');
+      }, time));
+    }
+
+    // 5000ms: 95%
+    timers.push(setTimeout(() => {
+      this.uiBuilder.setButtonProgress(button, 95, 'Processing results...');
+    }, 5000));
+  }
+
+  /**
+   * Thread 감지 및 버튼 추가
+   */
+  private detectAndAddThreadButtons() {
+    const threads = this.threadDetector.detectThreads();
+
+    threads.forEach((thread) => {
+      // 2개 이상 코멘트가 있는 Thread만 처리
+      if (thread.comments.length >= 2) {
+        this.uiBuilder.addThreadButton({
+          platform: 'azure',
+          thread,
+          onClick: (thread) => this.onThreadButtonClick(thread)
+        });
+      }
+    });
+  }
+
+  /**
+   * 새로운 Thread 감지 (MutationObserver)
+   */
+  private observeThreads() {
+    // 이미 Observer가 있으면 재사용
+    if (this.threadObserver) {
+      return;
+    }
+
+    let debounceTimer: number | null = null;
+
+    this.threadObserver = new MutationObserver(() => {
+      // 디바운싱: 500ms 후 Thread 재감지 (성능 최적화)
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+      }
+
+      debounceTimer = setTimeout(() => {
+        this.detectAndAddThreadButtons();
+        debounceTimer = null;
+      }, 500) as unknown as number;
+    });
+
+    // PR 타임라인 컨테이너 감시 (platform-selectors.ts에서 관리)
+    const timelineSelector = AZURE_SELECTORS.page.timeline.join(', ');
+    const timelineContainer = document.querySelector(timelineSelector);
+    if (timelineContainer) {
+      this.threadObserver.observe(timelineContainer, {
+        childList: true,
+        subtree: false // subtree를 false로 변경하여 성능 향상
+      });
+    }
+  }
+
+  /**
+   * DOM 코멘트 요소에 대응하는 API 코멘트 찾기
+   */
+  private findApiCommentForElement(commentElement: CommentElement): import('../types').ApiReviewComment | undefined {
+    if (!this.reviewData) return undefined;
+
+    const elementId = commentElement.id;
+
+    // 모든 스레드의 코멘트에서 ID 매칭
+    for (const thread of this.reviewData.threads) {
+      for (const c of thread.comments) {
+        // DOM의 comment ID에 API comment ID가 포함되어 있는지 확인
+        if (elementId.includes(String(c.id))) {
+          return c;
+        }
+      }
+    }
+
+    // 일반 코멘트에서도 검색
+    for (const c of this.reviewData.generalComments) {
+      if (elementId.includes(String(c.id))) {
+        return c;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * API로 PR 리뷰 데이터 조회
+   */
+  private async fetchReviewData(): Promise<void> {
+    if (!this.repository) return;
+
+    try {
+      if (typeof chrome === 'undefined' || !chrome.runtime?.sendMessage) return;
+
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_PR_REVIEW_DATA',
+        payload: {
+          owner: this.repository.owner,
+          name: this.repository.name,
+          prNumber: this.repository.prNumber,
+          platform: 'azure'
+        }
+      });
+
+      if (response.success && response.data) {
+        this.reviewData = response.data;
+      }
+    } catch {
+      // API 실패 시 reviewData는 null 유지 → fallback
+    }
+  }
+
+  /**
+   * API 데이터 기반 Thread 버튼 추가
+   */
+  private addThreadButtonsFromApi(): void {
+    if (!this.reviewData) return;
+
+    for (const apiThread of this.reviewData.threads) {
+      if (apiThread.comments.length < 2) continue;
+
+      // DOM에서 스레드 컨테이너 찾기 (위치 매칭)
+      const container = this.findThreadContainerForApi(apiThread);
+      if (!container) continue;
+
+      // API 스레드를 DiscussionThread로 변환
+      const thread = this.apiThreadToDiscussionThread(apiThread, container);
+
+      this.uiBuilder.addThreadButton({
+        platform: 'azure',
+        thread,
+        onClick: (t) => this.onThreadButtonClick(t)
+      });
+    }
+  }
+
+  /**
+   * API 스레드에 대응하는 DOM 컨테이너 찾기
+   */
+  private findThreadContainerForApi(apiThread: ApiReviewThread): HTMLElement | null {
+    const threadSelector = AZURE_SELECTORS.thread.containers.join(', ');
+
+    // 1. 스레드 ID 기반 탐색 (코멘트 ID는 스레드 내에서만 고유하므로 스레드 ID 사용)
+    const byThreadId = document.querySelector<HTMLElement>(`[data-thread-id="${apiThread.id}"]`);
+    if (byThreadId) {
+      return byThreadId.closest<HTMLElement>(threadSelector) || byThreadId;
+    }
+
+    // 2. 파일 경로 기반 fallback
+    if (apiThread.path) {
+      const fileContainer = document.querySelector<HTMLElement>(
+        `[data-file-path="/${apiThread.path}"], [data-path="${apiThread.path}"]`
+      );
+      if (fileContainer) {
+        const threads = fileContainer.querySelectorAll<HTMLElement>(threadSelector);
+        for (const t of threads) {
+          // 이미 버튼이 있는 컨테이너는 스킵
+          if (!t.querySelector('.review-to-instruction-thread-button-container')) {
+            return t;
+          }
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * API 스레드 → DiscussionThread 변환
+   */
+  private apiThreadToDiscussionThread(
+    apiThread: ApiReviewThread,
+    container: HTMLElement
+  ): DiscussionThread {
+    const comments: Comment[] = apiThread.comments.map(c => ({
+      id: String(c.id),
+      author: c.author,
+      content: c.body,
+      htmlContent: c.body,
+      url: window.location.href,
+      createdAt: c.createdAt,
+      platform: 'azure' as const,
+      codeContext: c.diffHunk && c.path ? {
+        filePath: c.path,
+        lines: c.diffHunk,
+        startLine: c.line,
+        endLine: c.line
+      } : undefined
+    }));
+
+    return {
+      id: `thread-api-${apiThread.id}`,
+      platform: 'azure',
+      comments,
+      containerElement: container
+    };
+  }
+
+  /**
+   * Thread 버튼 클릭 핸들러
+   */
+  private async onThreadButtonClick(thread: DiscussionThread) {
+    const button = this.uiBuilder.getThreadButton(thread.id);
+    if (!button) return;
+
+    try {
+      // Chrome Extension API 존재 여부 확인
+      if (typeof chrome === 'undefined' || !chrome.runtime || !chrome.runtime.sendMessage) {
+        throw new Error('Chrome Extension API is not available. Please check if the extension is properly loaded.');
+      }
+
+      // Background script로 메시지 전송
+      const response = await chrome.runtime.sendMessage({
+        type: 'CONVERT_THREAD',
+        payload: {
+          thread,
+          repository: this.repository
+        }
+      });
+
+      if (response.success) {
+        // 성공 메시지 표시
+        this.uiBuilder.showSuccessMessage(
+          button,
+          response.data.prUrl,
+          response.data.isUpdate,
+          response.data.tokenUsage,
+          'azure',
+          response.data.skipped,
+          response.data.merged,
+          response.data.similarityScore
+        );
+      } else {
+        throw new Error(response.error || 'Unknown error');
+      }
+    } catch (error) {
+      // 에러 메시지 표시
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      // Extension context invalidated 에러 특별 처리
+      if (errorMessage.includes('Extension context invalidated') ||
+          errorMessage.includes('message port closed') ||
+          errorMessage.includes('runtime.sendMessage')) {
+        this.uiBuilder.setButtonState(button, 'error');
+        alert(
+          `⚠️ Extension Connection Lost\n\n` +
+          `The extension was reloaded or updated.\n\n` +
+          `💡 Please reload this page (F5) and try again.`
+        );
+        return;
+      }
+
+      this.uiBuilder.showErrorMessage(button, errorMessage, 'azure');
+    }
+  }
+
+  /**
+   * Wrapup 버튼 클릭 핸들러
+   */
+  private async onWrapupButtonClick(comments: Comment[]) {
+    const button = this.wrapupManager.getButton();
+    if (!button) return;
+
+
+    try {
+      // Chrome Extension API 존재 여부 확인
+      if (typeof chrome === 'undefined' || !chrome.runtime || !chrome.runtime.sendMessage) {
+        throw new Error('Chrome Extension API is not available. Please check if the extension is properly loaded.');
+      }
+
+      // 버튼 상태를 loading으로 변경
+      this.wrapupManager.setButtonState('loading', 'Processing...');
+
+      // Background script로 메시지 전송
+      const response = await chrome.runtime.sendMessage({
+        type: 'CONVERT_PR_WRAPUP',
+        payload: {
+          comments,
+          repository: this.repository
+        }
+      });
+
+      if (response.success) {
+        // 성공 메시지 표시
+        this.wrapupManager.setButtonState('success', 'Converted!');
+
+        // 3초 후 성공 메시지를 alert로 표시
+        setTimeout(() => {
+          const prUrl = response.data.prUrl || 'N/A';
+          const fileCount = response.data.fileCount || 0;
+          const tokenUsage = response.data.tokenUsage;
+
+          let message = `✅ Successfully converted ${comments.length} comments to AI Instructions!\n\n`;
+          message += `📁 Files created/updated: ${fileCount}\n`;
+          message += `🔗 PR: ${prUrl}\n`;
+
+          if (tokenUsage) {
+            message += `\n💰 Tokens used: ${tokenUsage.totalTokens}`;
+          }
+
+          alert(message);
+
+          // PR 열기
+          if (prUrl && prUrl !== 'N/A') {
+            window.open(prUrl, '_blank');
+          }
+        }, 500);
+      } else {
+        throw new Error(response.error || 'Unknown error');
+      }
+    } catch (error) {
+      // 에러 메시지 표시
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      console.error('[RTI Error] [AzureDevOpsInjector] Wrapup conversion failed:', errorMessage);
+
+      this.wrapupManager.setButtonState('error', 'Failed');
+
+      // Extension context invalidated 에러 특별 처리
+      if (errorMessage.includes('Extension context invalidated') ||
+          errorMessage.includes('message port closed') ||
+          errorMessage.includes('runtime.sendMessage')) {
+        setTimeout(() => {
+          alert(
+            `⚠️ Extension Connection Lost\n\n` +
+            `The extension was reloaded or updated while processing your request.\n\n` +
+            `💡 Solution:\n` +
+            `1. Reload this page (F5 or Ctrl+R)\n` +
+            `2. Try the operation again\n\n` +
+            `If the problem persists:\n` +
+            `• Go to chrome://extensions\n` +
+            `• Find "Review to Instruction"\n` +
+            `• Click the reload button`
+          );
+        }, 500);
+        return;
+      }
+
+      // 3초 후 에러 메시지 표시
+      setTimeout(() => {
+        alert(`❌ Failed to convert PR conventions:\n\n${errorMessage}`);
+      }, 500);
+    }
+  }
+
+  /**
+   * 설정 가져오기 (chrome.storage.local에서)
+   */
+  private async getConfig() {
+    try {
+      // Chrome API 존재 여부 확인
+      if (typeof chrome === 'undefined' || !chrome.storage) {
+        return { showButtons: true };
+      }
+
+      const result = await chrome.storage.local.get(['showButtons']);
+      return {
+        showButtons: result.showButtons !== false  // 기본값 true
+      };
+    } catch (error) {
+      return { showButtons: true };
+    }
+  }
+}
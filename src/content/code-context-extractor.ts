@@ -8,16 +8,25 @@ import type { Platform, CodeContext, ApiReviewComment } from '../types';
 const MAX_CODE_LINES = 50;
 
 /**
- * DOM 요소에서 코드 컨텍스트를 추출 (GitHub/GitLab 공통 진입점)
+ * DOM 요소에서 코드 컨텍스트를 추출 (플랫폼 공통 진입점)
  */
 export function extractCodeContextFromDOM(
   element: Element,
   platform: Platform
 ): CodeContext | undefined {
   try {
-    return platform === 'github'
-      ? extractGitHubCodeContext(element)
-      : extractGitLabCodeContext(element);
+    switch (platform) {
+      case 'github':
+        return extractGitHubCodeContext(element);
+      case 'bitbucket':
+        return extractBitbucketCodeContext(element);
+      case 'gitea':
+        return extractGiteaCodeContext(element);
+      case 'azure':
+        return extractAzureCodeContext(element);
+      default:
+        return extractGitLabCodeContext(element);
+    }
   } catch {
     return undefined;
   }
@@ -137,6 +146,130 @@ function extractGitLabCodeContext(element: Element): CodeContext | undefined {
   };
 }
 
+/**
+ * Bitbucket 인라인 리뷰 코멘트의 코드 컨텍스트 추출
+ * 인라인 코멘트 스레드는 diff 파일 블록 내부, 코멘트가 달린 라인 바로 아래에 렌더링됨
+ */
+function extractBitbucketCodeContext(element: Element): CodeContext | undefined {
+  // 1. 코멘트가 속한 diff 파일 블록 찾기
+  const fileContainer = element.closest(
+    '[data-qa="pr-diff-file-styles"], [data-testid="file-diff"], section.bb-udiff'
+  );
+  if (!fileContainer) return undefined;
+
+  // 2. 코멘트 스레드 직전까지의 코드 라인 추출
+  const threadContainer = element.closest(
+    '[data-qa="pr-comment-thread"], [data-testid="comment-thread"], .comment-thread-container'
+  );
+  const lineElements = Array.from(
+    fileContainer.querySelectorAll('[data-qa="code-line"], .code-diff, .udiff-line .source')
+  ).filter(el => !threadContainer
+    || (threadContainer.compareDocumentPosition(el) & Node.DOCUMENT_POSITION_PRECEDING) !== 0);
+
+  const codeLines = lineElements
+    .map(el => el.textContent?.trimEnd() || '')
+    .filter(line => line.length > 0)
+    .slice(-MAX_CODE_LINES);
+
+  if (codeLines.length === 0) return undefined;
+
+  // 3. 파일 경로 추출
+  const filePath = fileContainer.getAttribute('data-file-path')
+    || fileContainer.getAttribute('data-path')
+    || fileContainer.querySelector('[data-qa="bk-filepath"], .filename')?.textContent?.trim()
+    || 'unknown';
+
+  // 4. 라인 번호 추출
+  const { startLine, endLine } = extractLineNumbers(
+    fileContainer,
+    '[data-line-number]',
+    'data-line-number'
+  );
+
+  return {
+    filePath,
+    lines: codeLines.join('\n'),
+    startLine,
+    endLine
+  };
+}
+
+/**
+ * Gitea/Forgejo 코드 리뷰 대화의 코드 컨텍스트 추출
+ * Conversation 탭에서는 대화 상단에 코멘트 대상 코드 조각이 함께 렌더링됨
+ */
+function extractGiteaCodeContext(element: Element): CodeContext | undefined {
+  // 1. 대화 컨테이너 찾기
+  const conversation = element.closest('.conversation-holder, .comment-code-cloud');
+  if (!conversation) return undefined;
+
+  // 2. 대화에 포함된 코드 조각, 없으면 diff 파일 블록에서 추출
+  const codeSource = conversation.querySelector('table')
+    || conversation.closest('.diff-file-box');
+  if (!codeSource) return undefined;
+
+  const codeLines = extractCodeLinesFromElements(
+    codeSource.querySelectorAll('td.lines-code code, .lines-code .code-inner')
+  );
+
+  if (codeLines.length === 0) return undefined;
+
+  // 3. 파일 경로 추출
+  const fileHeader = conversation.closest('.diff-file-box, [data-path]') || conversation;
+  const filePath = fileHeader.getAttribute('data-path')
+    || fileHeader.getAttribute('data-new-filename')
+    || fileHeader.querySelector('.file-comment a, .file-link')?.textContent?.trim()
+    || 'unknown';
+
+  // 4. 라인 번호 추출
+  const { startLine, endLine } = extractLineNumbers(
+    codeSource,
+    '[data-line-num]',
+    'data-line-num'
+  );
+
+  return {
+    filePath,
+    lines: truncateLines(codeLines).join('\n'),
+    startLine,
+    endLine
+  };
+}
+
+/**
+ * Azure DevOps 코멘트 스레드의 코드 컨텍스트 추출
+ * Overview 탭의 인라인 스레드는 파일 경로 헤더와 코드 조각을 함께 렌더링함
+ */
+function extractAzureCodeContext(element: Element): CodeContext | undefined {
+  // 1. 스레드 컨테이너 찾기
+  const thread = element.closest('.repos-discussion-thread, .vc-discussion-thread-box');
+  if (!thread) return undefined;
+
+  // 2. 스레드 상단 코드 조각에서 코드 라인 추출
+  const codeLines = extractCodeLinesFromElements(
+    thread.querySelectorAll('.repos-line-content, .code-line-content')
+  );
+
+  if (codeLines.length === 0) return undefined;
+
+  // 3. 파일 경로 추출
+  const filePath = thread.querySelector('[data-file-path]')?.getAttribute('data-file-path')
+    || thread.querySelector('.comment-file-header-link, .repos-comment-file-header a')?.textContent?.trim()
+    || 'unknown';
+
+  // 4. 라인 번호 추출 (라인 번호 셀의 텍스트)
+  const lineNumbers = Array.from(thread.querySelectorAll('.repos-line-number, .line-number'))
+    .map(el => parseInt(el.textContent?.trim() || '0', 10))
+    .filter(n => n > 0);
+
+  return {
+    filePath: filePath.replace(/^\//, ''),
+    lines: truncateLines(codeLines).join('\n'),
+    startLine: lineNumbers.length > 0 ? Math.min(...lineNumbers) : undefined,
+    endLine: lineNumbers.length > 0 ? Math.max(...lineNumbers) : undefined
+  };
+}
+
 /**
  * 요소 목록에서 코드 라인 텍스트 추출
  */
@@ -167,7 +300,7 @@ function extractGitLabFilePath(container: Element): string {
 }
 
 /**
- * 라인 번호 추출 (GitHub용)
+ * 라인 번호 추출 (GitHub/Bitbucket/Gitea용)
  */
 function extractLineNumbers(
   container: Element,
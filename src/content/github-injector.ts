@@ -6,7 +6,8 @@
 import { CommentDetector, type CommentElement } from './comment-detector';
 import { ThreadDetector } from './thread-detector';
 import { UIBuilder } from './ui-builder';
-import { PreviewModal } from './preview-modal';
+import { PreviewModal, type ModalAction } from './preview-modal';
+import { requestPreviewStream } from '../utils/preview-stream';
 import { WrapupButtonManager } from './wrapup-button-manager';
 import { extractCodeContextFromDOM, apiToCodeContext } from './code-context-extractor';
 import { GITHUB_SELECTORS } from './platform-selectors';
@@ -395,34 +396,52 @@ export class GitHubInjector {
       // 1. Progress 시뮬레이션 시작
       this.simulateProgress(button, progressTimers);
 
-      // 2. 미리보기 요청 (실제 LLM 호출)
-      const previewResponse = await chrome.runtime.sendMessage({
-        type: 'PREVIEW_INSTRUCTION',
-        payload: { comment, repository: this.repository }
-      });
+      // 2. 미리보기 요청 (스트리밍: 첫 응답 조각이 오면 모달을 열고 점진적으로 표시)
+      let editedContent: string | null = null;
+      const onEdit = (content: string) => { editedContent = content; };
+      const modal = new PreviewModal();
+      const preview = { action: null as Promise<ModalAction> | null };
+
+      const previewResponse = await requestPreviewStream(
+        { comment, repository: this.repository },
+        (partial) => {
+          if (!preview.action) {
+            progressTimers.forEach(timer => clearTimeout(timer));
+            this.uiBuilder.setButtonState(button, 'default');
+            preview.action = modal.show({ warnings: [], onEdit });
+          }
+          modal.updatePartial(partial);
+        }
+      );
 
       // Progress 타이머 정리
       progressTimers.forEach(timer => clearTimeout(timer));
 
       if (!previewResponse.success) {
+        modal.close();
         throw new Error(previewResponse.error || 'Preview failed');
       }
 
-      // 3. 완료: 100%
-      this.uiBuilder.setButtonProgress(button, 100, 'Complete!');
-      await new Promise(resolve => setTimeout(resolve, 500)); // 0.5초 표시
-
-      // 4. 버튼 상태 복원
-      this.uiBuilder.setButtonState(button, 'default');
+      if (preview.action) {
+        // 3. 스트리밍 모달에 최종 결과 반영
+        modal.complete(previewResponse.data.result, previewResponse.data.warnings ?? []);
+      } else {
+        // 3. 스트리밍 없이 완료 (캐시 HIT): 100%
+        this.uiBuilder.setButtonProgress(button, 100, 'Complete!');
+        await new Promise(resolve => setTimeout(resolve, 500)); // 0.5초 표시
+
+        // 4. 버튼 상태 복원
+        this.uiBuilder.setButtonState(button, 'default');
+
+        // 5. PreviewModal 표시 (edit 콜백 포함)
+        preview.action = modal.show({
+          result: previewResponse.data.result,
+          warnings: previewResponse.data.warnings ?? [],
+          onEdit
+        });
+      }
 
-      // 5. PreviewModal 표시 (edit 콜백 포함)
-      let editedContent: string | null = null;
-      const modal = new PreviewModal();
-      const action = await modal.show({
-        result: previewResponse.data.result,
-        warnings: [],
-        onEdit: (content) => { editedContent = content; }
-      });
+      const action = await preview.action;
 
       // 6. 사용자 액션 처리
       if (action === 'cancel') {
@@ -434,8 +453,8 @@ export class GitHubInjector {
         this.uiBuilder.setButtonState(button, 'loading');
 
         const payload = action === 'edit' && editedContent !== null
-          ? { comment, repository: this.repository, editedContent }
-          : { comment, repository: this.repository };
+          ? { comment, repository: this.repository, editedContent, conflictResolution: modal.getConflictResolution(), conflicts: previewResponse.data.result.conflicts ?? [] }
+          : { comment, repository: this.repository, conflictResolution: modal.getConflictResolution(), conflicts: previewResponse.data.result.conflicts ?? [] };
 
         const convertResponse = await chrome.runtime.sendMessage({
           type: 'CONFIRM_AND_CONVERT',
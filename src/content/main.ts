@@ -1,14 +1,46 @@
 /**
  * Review to Instruction - Content Script
- * GitHub/GitLab PR 페이지에 주입되는 스크립트
+ * GitHub/GitLab/Bitbucket/Gitea/Azure DevOps PR 페이지에 주입되는 스크립트
  */
 
 import './styles.css';
 import type { Platform } from '../types';
 import { GitHubInjector } from './github-injector';
 import { GitLabInjector } from './gitlab-injector';
+import { BitbucketInjector } from './bitbucket-injector';
+import { GiteaInjector } from './gitea-injector';
+import { AzureDevOpsInjector } from './azure-injector';
 
-let injector: GitHubInjector | GitLabInjector | null = null;
+let injector: GitHubInjector | GitLabInjector | BitbucketInjector | GiteaInjector | AzureDevOpsInjector | null = null;
+
+/**
+ * 현재 호스트가 설정된 GitHub Enterprise Server인지 확인 (popup의 githubUrl과 비교)
+ */
+async function isGitHubEnterpriseHost(hostname: string): Promise<boolean> {
+  try {
+    const { githubUrl } = await chrome.storage.local.get('githubUrl');
+    return !!githubUrl && new URL(githubUrl as string).hostname === hostname;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 현재 호스트가 설정된 Gitea/Forgejo 인스턴스인지 확인
+ * codeberg.org는 기본 지원, self-hosted는 popup의 giteaUrl과 비교
+ */
+async function isGiteaHost(hostname: string): Promise<boolean> {
+  if (hostname === 'codeberg.org') {
+    return true;
+  }
+
+  try {
+    const { giteaUrl } = await chrome.storage.local.get('giteaUrl');
+    return !!giteaUrl && new URL(giteaUrl as string).hostname === hostname;
+  } catch {
+    return false;
+  }
+}
 
 // 현재 플랫폼 감지
 async function detectPlatform(): Promise<Platform | null> {
@@ -20,6 +52,26 @@ async function detectPlatform(): Promise<Platform | null> {
     return 'github';
   }
 
+  // GitHub Enterprise Server 감지 (PR URL 패턴: /owner/repo/pull/)
+  if (/^\/[^/]+\/[^/]+\/pull\/\d+/.test(pathname) && await isGitHubEnterpriseHost(hostname)) {
+    return 'github';
+  }
+
+  // Bitbucket Cloud 감지 (PR URL 패턴: /workspace/repo/pull-requests/)
+  if (hostname === 'bitbucket.org' && pathname.includes('/pull-requests/')) {
+    return 'bitbucket';
+  }
+
+  // Azure DevOps 감지 (PR URL 패턴: /org/project/_git/repo/pullrequest/)
+  if (hostname === 'dev.azure.com' && pathname.includes('/pullrequest/')) {
+    return 'azure';
+  }
+
+  // Gitea/Forgejo 감지 (PR URL 패턴: /owner/repo/pulls/)
+  if (/^\/[^/]+\/[^/]+\/pulls\/\d+/.test(pathname) && await isGiteaHost(hostname)) {
+    return 'gitea';
+  }
+
   // GitLab 감지 (gitlab.com 또는 MR URL 패턴)
   // GitLab의 MR URL 패턴: /-/merge_requests/
   if (hostname.includes('gitlab.com') || pathname.includes('/-/merge_requests/')) {
@@ -51,6 +103,15 @@ async function init() {
     } else if (platform === 'gitlab') {
       injector = new GitLabInjector();
       await injector.start();
+    } else if (platform === 'bitbucket') {
+      injector = new BitbucketInjector();
+      await injector.start();
+    } else if (platform === 'gitea') {
+      injector = new GiteaInjector();
+      await injector.start();
+    } else if (platform === 'azure') {
+      injector = new AzureDevOpsInjector();
+      await injector.start();
     }
   } catch (error) {
   }
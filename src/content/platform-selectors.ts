@@ -1,9 +1,11 @@
 /**
  * Review to Instruction - Platform Selectors
- * GitHub/GitLab 플랫폼별 DOM selector를 중앙에서 관리합니다.
+ * GitHub/GitLab/Bitbucket/Gitea/Azure DevOps 플랫폼별 DOM selector를 중앙에서 관리합니다.
  * 플랫폼 UI 변경 시 이 파일만 수정하면 됩니다.
  */
 
+import type { Platform } from '../types';
+
 /**
  * 플랫폼별 DOM selector 인터페이스
  */
@@ -191,9 +193,234 @@ export const GITLAB_SELECTORS: PlatformSelectors = {
   }
 };
 
+/**
+ * Bitbucket Cloud PR 페이지 DOM 선택자
+ * Bitbucket은 React 기반 UI로 class가 난독화되어 있어 data-qa/data-testid 속성 위주로 선택
+ */
+export const BITBUCKET_SELECTORS: PlatformSelectors = {
+  comment: {
+    // 코멘트 컨테이너: 일반 코멘트, 인라인 코멘트, 답글
+    containers: [
+      '[data-qa="pr-comment"]',          // PR 코멘트
+      '[data-testid="comment"]',         // data-testid 속성
+      'article[id^="comment-"]',         // 코멘트 ID로 시작하는 article
+      'div[id^="comment-"]',             // 코멘트 ID로 시작하는 div
+      '.comment-thread-container .comment' // 구 UI 코멘트
+    ],
+    // 코멘트 내용 선택자
+    content: [
+      '[data-qa="comment-content"]',     // 코멘트 본문
+      '[data-testid="comment-content"]', // data-testid 속성
+      '.ak-renderer-document',           // Atlaskit 렌더러 본문
+      '.comment-content'                 // 구 UI 본문
+    ],
+    // 작성자 선택자
+    author: [
+      '[data-qa="comment-author"]',
+      '[data-testid="comment-author"]',
+      '.author'
+    ],
+    // 시간 선택자
+    timestamp: [
+      'time'
+    ]
+  },
+  thread: {
+    // 스레드 컨테이너 선택자
+    containers: [
+      '[data-qa="pr-comment-thread"]',    // 코멘트 스레드
+      '[data-testid="comment-thread"]',   // data-testid 속성
+      '.comment-thread-container'         // 구 UI 스레드
+    ],
+    // 답글 영역 선택자
+    replyArea: [
+      '[data-qa="pr-comment-thread"]',
+      '[data-testid="comment-thread"]',
+      '.comment-thread-container'
+    ]
+  },
+  branch: {
+    // 소스 브랜치 (PR의 source branch)
+    source: [
+      '[data-qa="pr-branches-and-state-styles"] [data-qa="pr-source-branch"]',
+      '[data-testid="pr-source-branch"]',
+      '.branch-from .branch-name'
+    ],
+    // 타겟 브랜치 (PR의 destination branch)
+    target: [
+      '[data-qa="pr-branches-and-state-styles"] [data-qa="pr-destination-branch"]',
+      '[data-testid="pr-destination-branch"]',
+      '.branch-to .branch-name'
+    ]
+  },
+  page: {
+    // 타임라인 컨테이너 (Thread Observer 대상)
+    timeline: [
+      '[data-qa="pr-activity"]',
+      '#pull-request-details'
+    ],
+    // 디스커션 컨테이너 (MutationObserver 대상)
+    discussion: [
+      '[data-qa="pr-activity"]',
+      '[data-qa="pr-diff-file-styles"]',
+      '#pull-request-details'
+    ]
+  }
+};
+
+/**
+ * Gitea/Forgejo PR 페이지 DOM 선택자
+ * Fomantic UI 기반 서버 렌더링 페이지 (Forgejo도 동일한 템플릿 구조 사용)
+ */
+export const GITEA_SELECTORS: PlatformSelectors = {
+  comment: {
+    // 코멘트 컨테이너: 타임라인 코멘트, 코드 리뷰 대화 코멘트
+    containers: [
+      '.timeline-item.comment',            // 타임라인 코멘트
+      '.conversation-holder .comment',     // 코드 리뷰 대화 내 코멘트
+      '.comment-code-cloud .comment',      // diff 내 코드 코멘트
+      'div[id^="issuecomment-"]'           // 코멘트 ID로 시작하는 div
+    ],
+    // 코멘트 내용 선택자
+    content: [
+      '.render-content.markup',            // 렌더링된 마크다운 본문
+      '.comment-body .markup',             // 코멘트 본문
+      '.raw'                               // 원본 텍스트 (숨김 영역 fallback)
+    ],
+    // 작성자 선택자
+    author: [
+      '.author',
+      'a.author'
+    ],
+    // 시간 선택자
+    timestamp: [
+      'relative-time',
+      '.time-since'
+    ]
+  },
+  thread: {
+    // 스레드 컨테이너 선택자
+    containers: [
+      '.conversation-holder',              // 코드 리뷰 대화
+      '.comment-code-cloud'                // diff 내 코멘트 묶음
+    ],
+    // 답글 영역 선택자
+    replyArea: [
+      '.conversation-holder',
+      '.comment-code-cloud'
+    ]
+  },
+  branch: {
+    // 소스 브랜치 (PR의 head branch)
+    source: [
+      '#branch_target',
+      '.pull-desc code:first-of-type a'
+    ],
+    // 타겟 브랜치 (PR의 base branch)
+    target: [
+      '.pull-desc code:last-of-type a',
+      '.pull-desc code:last-of-type'
+    ]
+  },
+  page: {
+    // 타임라인 컨테이너 (Thread Observer 대상)
+    timeline: [
+      '#issue-timeline',
+      '.ui.timeline'
+    ],
+    // 디스커션 컨테이너 (MutationObserver 대상)
+    discussion: [
+      '#issue-timeline',
+      '.ui.timeline',
+      '#diff-file-boxes'
+    ]
+  }
+};
+
+/**
+ * Azure DevOps PR 페이지 DOM 선택자
+ * React 기반 SPA (Azure DevOps Services 신규 PR 경험)
+ */
+export const AZURE_SELECTORS: PlatformSelectors = {
+  comment: {
+    // 코멘트 컨테이너: Overview 탭 스레드 코멘트, Files 탭 인라인 코멘트
+    containers: [
+      '.repos-discussion-comment',         // 스레드 내 코멘트
+      '.vc-discussion-thread-comment',     // 구 UI 코멘트
+      '[data-comment-id]'                  // 코멘트 ID 속성
+    ],
+    // 코멘트 내용 선택자
+    content: [
+      '.repos-discussion-comment .markdown-content',
+      '.comment-content .markdown-content',
+      '.rendered-markdown',
+      '.comment-content'
+    ],
+    // 작성자 선택자
+    author: [
+      '.repos-discussion-comment-header .font-weight-semibold',
+      '.comment-author',
+      '.identity-name'
+    ],
+    // 시간 선택자
+    timestamp: [
+      'time',
+      '.comment-timestamp'
+    ]
+  },
+  thread: {
+    // 스레드 컨테이너 선택자
+    containers: [
+      '.repos-discussion-thread',          // 코멘트 스레드
+      '.vc-discussion-thread-box'          // 구 UI 스레드
+    ],
+    // 답글 영역 선택자
+    replyArea: [
+      '.repos-discussion-thread',
+      '.vc-discussion-thread-box'
+    ]
+  },
+  branch: {
+    // 소스 브랜치 (PR의 head branch)
+    source: [
+      '.pr-header-branches a:first-of-type',
+      '.repos-pr-header .pr-header-branches a:first-of-type'
+    ],
+    // 타겟 브랜치 (PR의 base branch)
+    target: [
+      '.pr-header-branches a:last-of-type',
+      '.repos-pr-header .pr-header-branches a:last-of-type'
+    ]
+  },
+  page: {
+    // 타임라인 컨테이너 (Thread Observer 대상)
+    timeline: [
+      '.repos-activity-feed',
+      '.repos-pr-details-page'
+    ],
+    // 디스커션 컨테이너 (MutationObserver 대상)
+    discussion: [
+      '.repos-activity-feed',
+      '.repos-pr-details-page',
+      '.repos-changes-viewer'
+    ]
+  }
+};
+
 /**
  * 플랫폼에 맞는 selector 설정 반환
  */
-export function getPlatformSelectors(platform: 'github' | 'gitlab'): PlatformSelectors {
-  return platform === 'github' ? GITHUB_SELECTORS : GITLAB_SELECTORS;
+export function getPlatformSelectors(platform: Platform): PlatformSelectors {
+  switch (platform) {
+    case 'github':
+      return GITHUB_SELECTORS;
+    case 'bitbucket':
+      return BITBUCKET_SELECTORS;
+    case 'gitea':
+      return GITEA_SELECTORS;
+    case 'azure':
+      return AZURE_SELECTORS;
+    default:
+      return GITLAB_SELECTORS;
+  }
 }
@@ -2,17 +2,15 @@
  * PreviewModal - Instruction Preview Modal (Phase 1: Transparency Enhancement)
  */
 
-import type { InstructionResult, ReasoningInfo, CommentSource } from '../background/llm/types';
+import type { InstructionResult, ReasoningInfo, CommentSource, LLMAnalysisResult } from '../background/llm/types';
+import type { RedactionEntry, ValidationWarning, RuleConflict, ConflictResolution, RuleProvenance } from '../types';
 
-export type ModalAction = 'confirm' | 'edit' | 'cancel';
+export type { ValidationWarning } from '../types';
 
-export interface ValidationWarning {
-  type: 'warning' | 'error';
-  message: string;
-}
+export type ModalAction = 'confirm' | 'edit' | 'cancel';
 
 export interface PreviewModalOptions {
-  result: InstructionResult;
+  result?: InstructionResult;  // 없으면 스트리밍 상태로 열고 updatePartial() / complete()로 채움
   warnings?: ValidationWarning[];
   onEdit?: (editedContent: string) => void;
 }
@@ -26,6 +24,11 @@ export class PreviewModal {
   private isEditing = false;
   private originalContent = '';
   private onEditCallback: ((editedContent: string) => void) | null = null;
+  private isStreaming = false;
+  private hasErrors = false;
+  private hasPendingConflicts = false;
+  private conflictResolution: ConflictResolution | null = null;
+  private provenance: RuleProvenance | null = null;
 
   /**
    * Show modal and wait for user action
@@ -54,12 +57,22 @@ export class PreviewModal {
     });
   }
 
+  /**
+   * 미리보기에서 고른 모순 해결 방법 (모순이 없거나 고르지 않았으면 undefined)
+   */
+  getConflictResolution(): ConflictResolution | undefined {
+    return this.conflictResolution ?? undefined;
+  }
+
   /**
    * Create modal DOM
    */
   private createModal(options: PreviewModalOptions): void {
     const { result, warnings } = options;
-    this.originalContent = result.content;
+    this.originalContent = result?.content ?? '';
+    this.isStreaming = !result;
+    this.conflictResolution = null;
+    this.hasPendingConflicts = false;
 
     // Modal overlay
     const overlay = document.createElement('div');
@@ -82,7 +95,7 @@ export class PreviewModal {
     const header = document.createElement('div');
     header.className = 'modal-header';
     header.innerHTML = `
-      <h2>🔍 Instruction Preview</h2>
+      <h2>🔍 Instruction Preview${this.isStreaming ? '<span class="modal-streaming-status">Generating...</span>' : ''}</h2>
       <button type="button" class="modal-close" title="Close">✕</button>
     `;
     header.querySelector('.modal-close')?.addEventListener('click', () => {
@@ -97,56 +110,141 @@ export class PreviewModal {
     const body = document.createElement('div');
     body.className = 'modal-body';
 
-    // Instruction content
-    const contentSection = this.createContentSection(result.content);
-    body.appendChild(contentSection);
+    if (result) {
+      this.renderBody(body, result, warnings);
+    } else {
+      // 스트리밍 중: 내용 섹션만 먼저 표시 (추론은 도착하면 추가)
+      body.appendChild(this.createContentSection('Analyzing review comment...'));
+      body.querySelector('.instruction-content')?.classList.add('streaming');
+    }
+
+    // Footer (buttons)
+    const footer = document.createElement('div');
+    footer.className = 'modal-footer';
+
+    modal.appendChild(header);
+    modal.appendChild(body);
+    modal.appendChild(footer);
+    overlay.appendChild(modal);
+
+    this.modalElement = overlay;
+
+    // 스트리밍 중에는 Cancel만 활성화
+    this.hasErrors = warnings?.some(w => w.type === 'error') ?? false;
+    this.updateFooterForPreviewMode();
+  }
+
+  /**
+   * Body 섹션 구성 (내용, 경고, 모순, 가린 항목, 추론, 참조 코멘트)
+   */
+  private renderBody(body: HTMLElement, result: InstructionResult, warnings?: ValidationWarning[]): void {
+    body.innerHTML = '';
+
+    // Instruction content (rule items show their provenance on hover)
+    this.provenance = result.provenance ?? null;
+    body.appendChild(this.createContentSection(result.content));
 
     // Validation warnings/suggestions (if any)
     if (warnings && warnings.length > 0) {
-      const warningsSection = this.createWarningsSection(warnings);
-      body.appendChild(warningsSection);
+      body.appendChild(this.createWarningsSection(warnings));
+    }
+
+    // Contradicting existing rules (resolution required before confirm)
+    if (result.conflicts && result.conflicts.length > 0) {
+      this.hasPendingConflicts = !this.conflictResolution;
+      body.appendChild(this.createConflictsSection(result.conflicts));
+    }
+
+    // Redacted before sending to the LLM (if any)
+    if (result.redactions && result.redactions.length > 0) {
+      body.appendChild(this.createRedactionsSection(result.redactions));
     }
 
     // Analysis reasoning
-    const reasoningSection = this.createReasoningSection(result.reasoning);
-    body.appendChild(reasoningSection);
+    body.appendChild(this.createReasoningSection(result.reasoning));
 
     // Referenced comments
-    const sourcesSection = this.createSourcesSection(result.sources);
-    body.appendChild(sourcesSection);
-
-    // Footer (buttons)
-    const footer = document.createElement('div');
-    footer.className = 'modal-footer';
+    body.appendChild(this.createSourcesSection(result.sources));
+  }
 
-    const hasErrors = warnings?.some(w => w.type === 'error');
+  /**
+   * 스트리밍 중 부분 분석 결과 표시 (요약, 설명, 예시, 추론)
+   */
+  updatePartial(partial: Partial<LLMAnalysisResult>): void {
+    if (!this.isStreaming || !this.modalElement) return;
 
-    footer.innerHTML = `
-      <button type="button" class="modal-btn modal-btn-secondary" data-action="cancel">Cancel</button>
-      <button type="button" class="modal-btn modal-btn-primary" data-action="edit">Edit</button>
-      <button type="button" class="modal-btn modal-btn-success" data-action="confirm" ${hasErrors ? 'disabled' : ''}>
-        Confirm and Create
-      </button>
-    `;
+    const code = this.modalElement.querySelector('.instruction-content code');
+    if (code) {
+      code.textContent = this.formatPartialContent(partial);
+    }
 
-    // Edit 버튼은 enterEditMode 호출, 나머지는 기존 handleAction
-    footer.querySelectorAll('[data-action]').forEach(btn => {
-      btn.addEventListener('click', (e) => {
-        const action = (e.target as HTMLElement).dataset.action as ModalAction;
-        if (action === 'edit') {
-          this.enterEditMode();
-        } else {
-          this.handleAction(action);
-        }
+    const reasoning = partial.reasoning;
+    if (reasoning) {
+      const section = this.createReasoningSection({
+        detectedIntent: reasoning.detectedIntent ?? [],
+        keyPhrases: reasoning.keyPhrases ?? [],
+        codeReferences: reasoning.codeReferences ?? [],
+        confidenceScore: reasoning.confidenceScore ?? 0
       });
-    });
+      const existing = this.modalElement.querySelector('.reasoning-section');
+      if (existing) {
+        existing.replaceWith(section);
+      } else {
+        this.modalElement.querySelector('.modal-body')?.appendChild(section);
+      }
+    }
+  }
 
-    modal.appendChild(header);
-    modal.appendChild(body);
-    modal.appendChild(footer);
-    overlay.appendChild(modal);
+  /**
+   * 스트리밍 완료: 최종 결과로 다시 그리고 버튼 활성화
+   */
+  complete(result: InstructionResult, warnings?: ValidationWarning[]): void {
+    if (!this.isStreaming || !this.modalElement) return;
+    this.isStreaming = false;
+    this.originalContent = result.content;
 
-    this.modalElement = overlay;
+    this.modalElement.querySelector('.modal-streaming-status')?.remove();
+
+    const body = this.modalElement.querySelector('.modal-body') as HTMLElement | null;
+    if (body) {
+      this.renderBody(body, result, warnings);
+    }
+
+    this.hasErrors = warnings?.some(w => w.type === 'error') ?? false;
+    this.updateFooterForPreviewMode();
+  }
+
+  /**
+   * 모달 닫기 (스트리밍 실패 시, 'cancel'로 처리)
+   */
+  close(): void {
+    this.handleAction('cancel');
+  }
+
+  /**
+   * 부분 분석 결과를 미리보기 텍스트로 변환 (최종 Instruction과 같은 구조)
+   */
+  private formatPartialContent(partial: Partial<LLMAnalysisResult>): string {
+    const sections = [`# ${partial.suggestedCategory || 'Convention'}`];
+
+    if (partial.summary) {
+      sections.push(partial.summary);
+    }
+
+    if (partial.detailedExplanation) {
+      sections.push(`## Details\n\n${partial.detailedExplanation}`);
+    }
+
+    const examples = (partial.codeExplanations ?? []).filter(ex => ex && ex.code);
+    if (examples.length > 0) {
+      sections.push('## Examples');
+      examples.forEach((ex, i) => {
+        const label = ex.isGoodExample === undefined ? '' : ` (${ex.isGoodExample ? '✅ Good' : '❌ Bad'})`;
+        sections.push(`### Example ${i + 1}${label}\n\n\`\`\`\n${ex.code}\n\`\`\`${ex.explanation ? `\n\n${ex.explanation}` : ''}`);
+      });
+    }
+
+    return sections.join('\n\n');
   }
 
   /**
@@ -164,7 +262,7 @@ export class PreviewModal {
 
     const pre = document.createElement('pre');
     const code = document.createElement('code');
-    code.textContent = content;
+    this.renderContent(code, content);
     pre.appendChild(code);
     contentBox.appendChild(pre);
 
@@ -174,6 +272,47 @@ export class PreviewModal {
     return section;
   }
 
+  /**
+   * 내용 표시: 규칙 항목(목록 줄)은 hover 시 출처 표시 (textContent는 원문 그대로 유지)
+   */
+  private renderContent(code: HTMLElement, content: string): void {
+    code.innerHTML = '';
+
+    if (!this.provenance) {
+      code.textContent = content;
+      return;
+    }
+
+    const tooltip = this.formatProvenance(this.provenance);
+    content.split('\n').forEach((line, index) => {
+      if (index > 0) {
+        code.appendChild(document.createTextNode('\n'));
+      }
+
+      if (/^\s*[-*+]\s+\S/.test(line)) {
+        const span = document.createElement('span');
+        span.className = 'rule-line';
+        span.title = tooltip;
+        span.textContent = line;
+        code.appendChild(span);
+      } else {
+        code.appendChild(document.createTextNode(line));
+      }
+    });
+  }
+
+  /**
+   * 출처 툴팁 (PR, 코멘트, 리뷰어, 스레드 참여자, 날짜)
+   */
+  private formatProvenance(provenance: RuleProvenance): string {
+    return [
+      `PR #${provenance.pr} · comment ${provenance.commentId} by @${provenance.reviewer}`,
+      `Participants: ${provenance.participants.map(name => `@${name}`).join(', ')}`,
+      `Date: ${provenance.date}`,
+      provenance.url
+    ].join('\n');
+  }
+
   /**
    * Validation warnings/suggestions section
    */
@@ -197,6 +336,96 @@ export class PreviewModal {
     return section;
   }
 
+  /**
+   * Contradicting rules section (supersede / replace / narrow scope / abort)
+   */
+  private createConflictsSection(conflicts: RuleConflict[]): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'modal-section conflict-section';
+
+    const title = document.createElement('h3');
+    title.textContent = '⚠️ Contradicts Existing Rules';
+
+    const list = document.createElement('ul');
+    list.className = 'conflict-list';
+    list.innerHTML = conflicts.map(conflict => `
+      <li class="conflict-item">
+        <code>${this.escapeHtml(conflict.filePath)}</code>
+        <span class="conflict-rule">${this.escapeHtml(conflict.existingRule)}</span>
+        <span class="conflict-reasoning">${this.escapeHtml(conflict.reasoning)}</span>
+      </li>
+    `).join('');
+
+    const target = conflicts[0];
+    const scope = target.narrowScope;
+    const options = document.createElement('div');
+    options.className = 'conflict-options';
+    const files = [...new Set(conflicts.map(conflict => conflict.filePath))];
+    options.innerHTML = `
+      <label class="conflict-option">
+        <input type="radio" name="conflict-resolution" value="supersede" ${this.conflictResolution === 'supersede' ? 'checked' : ''}>
+        Supersede: mark ${files.map(file => `<code>${this.escapeHtml(file)}</code>`).join(', ')} as deprecated in the same PR
+      </label>
+      <label class="conflict-option">
+        <input type="radio" name="conflict-resolution" value="replace" ${this.conflictResolution === 'replace' ? 'checked' : ''}>
+        Replace: remove the contradicting rule from <code>${this.escapeHtml(target.filePath)}</code> and add this one there
+      </label>
+      ${scope ? `
+      <label class="conflict-option">
+        <input type="radio" name="conflict-resolution" value="scope-narrow" ${this.conflictResolution === 'scope-narrow' ? 'checked' : ''}>
+        Narrow scope: apply this rule only to <code>${this.escapeHtml(scope)}</code>
+      </label>` : ''}
+      <button type="button" class="modal-btn modal-btn-secondary" data-conflict-action="abort">Abort</button>
+    `;
+
+    options.querySelectorAll<HTMLInputElement>('input[name="conflict-resolution"]').forEach(input => {
+      input.addEventListener('change', () => {
+        this.conflictResolution = input.value as ConflictResolution;
+        this.hasPendingConflicts = false;
+        if (this.isEditing) {
+          this.updateFooterForEditMode();
+        } else {
+          this.updateFooterForPreviewMode();
+        }
+      });
+    });
+
+    options.querySelector('[data-conflict-action="abort"]')?.addEventListener('click', () => {
+      this.handleAction('cancel');
+    });
+
+    section.appendChild(title);
+    section.appendChild(list);
+    section.appendChild(options);
+
+    return section;
+  }
+
+  /**
+   * Redacted values section (placeholder + masked original)
+   */
+  private createRedactionsSection(redactions: RedactionEntry[]): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'modal-section redaction-section';
+
+    const title = document.createElement('h3');
+    title.textContent = '🔒 Redacted Before Sending to the LLM';
+
+    const list = document.createElement('ul');
+    list.className = 'redaction-list';
+    list.innerHTML = redactions.map(entry => `
+      <li class="redaction-item">
+        <code>${this.escapeHtml(entry.placeholder)}</code>
+        <span class="redaction-preview">${this.escapeHtml(entry.preview)}</span>
+      </li>
+    `).join('');
+
+    section.appendChild(title);
+    section.appendChild(list);
+
+    return section;
+  }
+
   /**
    * Analysis reasoning section
    */
@@ -298,7 +527,7 @@ export class PreviewModal {
    * Edit 모드 진입: <pre><code>를 <textarea>로 교체, footer 버튼 변경
    */
   private enterEditMode(): void {
-    if (this.isEditing || !this.modalElement) return;
+    if (this.isEditing || this.isStreaming || !this.modalElement) return;
     this.isEditing = true;
 
     const contentBox = this.modalElement.querySelector('.instruction-content');
@@ -341,7 +570,7 @@ export class PreviewModal {
 
     const pre = document.createElement('pre');
     const code = document.createElement('code');
-    code.textContent = this.originalContent;
+    this.renderContent(code, this.originalContent);
     pre.appendChild(code);
     contentBox.appendChild(pre);
 
@@ -375,7 +604,7 @@ export class PreviewModal {
 
     footer.innerHTML = `
       <button type="button" class="modal-btn modal-btn-secondary" data-edit-action="cancel-edit">Cancel Edit</button>
-      <button type="button" class="modal-btn modal-btn-success" data-edit-action="save">Save</button>
+      <button type="button" class="modal-btn modal-btn-success" data-edit-action="save" ${this.hasPendingConflicts ? 'disabled' : ''}>Save</button>
     `;
 
     footer.querySelector('[data-edit-action="cancel-edit"]')?.addEventListener('click', () => {
@@ -389,6 +618,7 @@ export class PreviewModal {
 
   /**
    * Footer를 Preview 모드용 버튼으로 복원 (Cancel + Edit + Confirm and Create)
+   * - 스트리밍 중에는 Edit/Confirm 비활성화, 검증 에러가 있거나 모순 해결 방법을 고르지 않았으면 Confirm 비활성화
    */
   private updateFooterForPreviewMode(): void {
     const footer = this.modalElement?.querySelector('.modal-footer');
@@ -396,12 +626,13 @@ export class PreviewModal {
 
     footer.innerHTML = `
       <button type="button" class="modal-btn modal-btn-secondary" data-action="cancel">Cancel</button>
-      <button type="button" class="modal-btn modal-btn-primary" data-action="edit">Edit</button>
-      <button type="button" class="modal-btn modal-btn-success" data-action="confirm">
+      <button type="button" class="modal-btn modal-btn-primary" data-action="edit" ${this.isStreaming ? 'disabled' : ''}>Edit</button>
+      <button type="button" class="modal-btn modal-btn-success" data-action="confirm" ${this.isStreaming || this.hasErrors || this.hasPendingConflicts ? 'disabled' : ''}>
         Confirm and Create
       </button>
     `;
 
+    // Edit 버튼은 enterEditMode 호출, 나머지는 기존 handleAction
     footer.querySelectorAll('[data-action]').forEach(btn => {
       btn.addEventListener('click', (e) => {
         const action = (e.target as HTMLElement).dataset.action as ModalAction;
@@ -433,6 +664,7 @@ export class PreviewModal {
       this.modalElement.parentNode.removeChild(this.modalElement);
     }
     this.modalElement = null;
+    this.isStreaming = false;
   }
 
   /**
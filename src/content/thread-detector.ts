@@ -37,6 +37,40 @@ const GITLAB_THREAD_SELECTORS = {
   time: 'time'
 };
 
+const BITBUCKET_THREAD_SELECTORS = {
+  container: [
+    '[data-qa="pr-comment-thread"]',  // 코멘트 스레드
+    '[data-testid="comment-thread"]', // data-testid 속성
+    '.comment-thread-container'       // 구 UI 스레드
+  ],
+  comment: '[data-qa="pr-comment"], [data-testid="comment"], article[id^="comment-"]',
+  content: '[data-qa="comment-content"], .ak-renderer-document',
+  author: '[data-qa="comment-author"], .author',
+  time: 'time'
+};
+
+const GITEA_THREAD_SELECTORS = {
+  container: [
+    '.conversation-holder',     // 코드 리뷰 대화
+    '.comment-code-cloud'       // diff 내 코멘트 묶음
+  ],
+  comment: '.comment',
+  content: '.render-content.markup',
+  author: '.author',
+  time: 'relative-time, .time-since'
+};
+
+const AZURE_THREAD_SELECTORS = {
+  container: [
+    '.repos-discussion-thread',   // 코멘트 스레드
+    '.vc-discussion-thread-box'   // 구 UI 스레드
+  ],
+  comment: '.repos-discussion-comment, .vc-discussion-thread-comment',
+  content: '.markdown-content, .rendered-markdown',
+  author: '.repos-discussion-comment-header .font-weight-semibold, .comment-author',
+  time: 'time, .comment-timestamp'
+};
+
 /**
  * ThreadDetector - Discussion Thread 감지 및 추출
  */
@@ -224,9 +258,18 @@ export class ThreadDetector {
    * Platform별 선택자 가져오기
    */
   private getThreadSelectors() {
-    return this.platform === 'github'
-      ? GITHUB_THREAD_SELECTORS
-      : GITLAB_THREAD_SELECTORS;
+    switch (this.platform) {
+      case 'github':
+        return GITHUB_THREAD_SELECTORS;
+      case 'bitbucket':
+        return BITBUCKET_THREAD_SELECTORS;
+      case 'gitea':
+        return GITEA_THREAD_SELECTORS;
+      case 'azure':
+        return AZURE_THREAD_SELECTORS;
+      default:
+        return GITLAB_THREAD_SELECTORS;
+    }
   }
 
   /**
@@ -414,7 +414,7 @@ export class UIBuilder {
     button: HTMLButtonElement,
     prUrl: string,
     isUpdate: boolean,
-    tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; },
+    tokenUsage?: { inputTokens: number; outputTokens: number; totalTokens: number; model?: string; },
     platform?: Platform,
     skipped?: boolean,
     merged?: boolean,
@@ -472,9 +472,9 @@ export class UIBuilder {
     const prMr = platform === 'gitlab' ? 'MR' : 'PR';
     const link = document.createElement('a');
     try {
-      // URL 유효성 검증
+      // URL 유효성 검증 (현재 페이지와 같은 호스트는 self-hosted 인스턴스 포함 허용)
       const url = new URL(prUrl);
-      if (url.protocol === 'https:' && (url.hostname.includes('github.com') || url.hostname.includes('gitlab.com') || url.hostname === 'git.projectbro.com')) {
+      if (url.protocol === 'https:' && (url.hostname.includes('github.com') || url.hostname.includes('gitlab.com') || url.hostname === 'bitbucket.org' || url.hostname === 'dev.azure.com' || url.hostname === 'git.projectbro.com' || url.hostname === window.location.hostname)) {
         link.href = prUrl;
         link.target = '_blank';
         link.rel = 'noopener noreferrer';
@@ -493,7 +493,7 @@ export class UIBuilder {
     if (tokenUsage) {
       const cost = calculateCost(
         { inputTokens: tokenUsage.inputTokens, outputTokens: tokenUsage.outputTokens },
-        'claude' // TODO: Get provider from settings
+        tokenUsage.model ?? 'claude'
       );
       const tokenSpan = document.createElement('span');
       tokenSpan.className = 'token-usage';
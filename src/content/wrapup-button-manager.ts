@@ -6,6 +6,7 @@
 import type { Platform, Comment, PRReviewData, ApiReviewComment } from '../types';
 import { ConventionFilter } from '../core/convention-filter';
 import { extractCodeContextFromDOM } from './code-context-extractor';
+import { BITBUCKET_SELECTORS, GITEA_SELECTORS, AZURE_SELECTORS } from './platform-selectors';
 
 /**
  * WrapupButtonManager - PR/MR 전체 변환 버튼 관리
@@ -120,7 +121,7 @@ export class WrapupButtonManager {
       const conventionComments = filter.filterConventionComments(allComments);
 
       if (conventionComments.length === 0) {
-        const prMr = this.platform === 'github' ? 'PR' : 'MR';
+        const prMr = this.platform === 'gitlab' ? 'MR' : 'PR';
         alert(`❌ No convention comments found in this ${prMr}\n\nFound ${allComments.length} total comments, but none meet the convention criteria.\n\nFiltered out:\n• Questions and simple replies\n• Thanks and LGTM messages\n• One-time fixes and typos\n• Uncertain suggestions\n\nConvention comments should include:\n• Clear rules or patterns (50+ chars)\n• Keywords: must, should, always, avoid\n• Code examples\n• General best practices`);
         return;
       }
@@ -181,7 +182,7 @@ export class WrapupButtonManager {
       e.stopPropagation();
 
       if (allComments.length === 0) {
-        const prMr = this.platform === 'github' ? 'PR' : 'MR';
+        const prMr = this.platform === 'gitlab' ? 'MR' : 'PR';
         alert(`No comments found in this ${prMr}`);
         return;
       }
@@ -256,7 +257,7 @@ export class WrapupButtonManager {
    * 보라색 Wrapup 버튼 생성
    */
   private createWrapupButton(commentCount: number): HTMLButtonElement {
-    const prMr = this.platform === 'github' ? 'PR' : 'MR';
+    const prMr = this.platform === 'gitlab' ? 'MR' : 'PR';
     const button = document.createElement('button');
     button.className = `review-to-instruction-wrapup-button ${this.platform}`;
     button.setAttribute('type', 'button');
@@ -281,6 +282,13 @@ export class WrapupButtonManager {
   private findButtonInsertionPoint(): HTMLElement | null {
     if (this.platform === 'github') {
       return this.findGitHubInsertionPoint();
+    } else if (this.platform === 'bitbucket') {
+      return this.findBitbucketInsertionPoint();
+    } else if (this.platform === 'gitea') {
+      return document.querySelector<HTMLElement>('.issue-content-right, .issue-content .four.wide.column');
+    } else if (this.platform === 'azure') {
+      // Azure DevOps: Overview 탭 오른쪽 패널 (Reviewers, Work items)
+      return document.querySelector<HTMLElement>('.repos-overview-right-pane, .repos-pr-details-page .flex-column.right-pane');
     } else {
       return this.findGitLabInsertionPoint();
     }
@@ -370,6 +378,35 @@ export class WrapupButtonManager {
     return null;
   }
 
+  /**
+   * Bitbucket 버튼 삽입 위치 찾기 (PR 사이드바 최상단)
+   */
+  private findBitbucketInsertionPoint(): HTMLElement | null {
+    const selectors = [
+      '[data-qa="pr-sidebar"]',              // PR 사이드바
+      '[data-testid="pr-sidebar"]',          // data-testid 속성
+      '#pull-request-details aside',         // PR 상세 aside
+      '[data-qa="pr-header-actions"]'        // 헤더 액션 영역 (fallback)
+    ];
+
+    for (const selector of selectors) {
+      const element = document.querySelector<HTMLElement>(selector);
+      if (element) {
+        return element;
+      }
+    }
+
+    // Fallback: Reviewers 텍스트가 있는 aside
+    const asides = document.querySelectorAll<HTMLElement>('aside');
+    for (const aside of asides) {
+      if (aside.textContent?.includes('Reviewers')) {
+        return aside;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Platform별 코멘트 선택자 반환
    */
@@ -383,6 +420,12 @@ export class WrapupButtonManager {
         'div[id^="discussion_r"]',
         'div[id^="pullrequestreview"]'
       ];
+    } else if (this.platform === 'bitbucket') {
+      return BITBUCKET_SELECTORS.comment.containers;
+    } else if (this.platform === 'gitea') {
+      return GITEA_SELECTORS.comment.containers;
+    } else if (this.platform === 'azure') {
+      return AZURE_SELECTORS.comment.containers;
     } else {
       return [
         '.note:not(.system-note)',
@@ -399,17 +442,31 @@ export class WrapupButtonManager {
   private extractCommentFromElement(element: HTMLElement): Comment | null {
     try {
       // Platform별 선택자
-      const contentSelectors = this.platform === 'github'
-        ? ['.comment-body', '.js-comment-body', '.review-comment-contents .comment-body']
-        : ['.note-text', '[data-testid="note-text"]', '.note-text.md'];
-
-      const authorSelectors = this.platform === 'github'
-        ? ['.author', 'a.author', '.timeline-comment-author']
-        : ['.note-header-author-name', '.author-link'];
-
-      const timeSelectors = this.platform === 'github'
-        ? ['relative-time', 'time']
-        : ['time', '.note-created-at'];
+      let contentSelectors: string[];
+      let authorSelectors: string[];
+      let timeSelectors: string[];
+
+      if (this.platform === 'github') {
+        contentSelectors = ['.comment-body', '.js-comment-body', '.review-comment-contents .comment-body'];
+        authorSelectors = ['.author', 'a.author', '.timeline-comment-author'];
+        timeSelectors = ['relative-time', 'time'];
+      } else if (this.platform === 'bitbucket') {
+        contentSelectors = BITBUCKET_SELECTORS.comment.content;
+        authorSelectors = BITBUCKET_SELECTORS.comment.author;
+        timeSelectors = BITBUCKET_SELECTORS.comment.timestamp;
+      } else if (this.platform === 'gitea') {
+        contentSelectors = GITEA_SELECTORS.comment.content;
+        authorSelectors = GITEA_SELECTORS.comment.author;
+        timeSelectors = GITEA_SELECTORS.comment.timestamp;
+      } else if (this.platform === 'azure') {
+        contentSelectors = AZURE_SELECTORS.comment.content;
+        authorSelectors = AZURE_SELECTORS.comment.author;
+        timeSelectors = AZURE_SELECTORS.comment.timestamp;
+      } else {
+        contentSelectors = ['.note-text', '[data-testid="note-text"]', '.note-text.md'];
+        authorSelectors = ['.note-header-author-name', '.author-link'];
+        timeSelectors = ['time', '.note-created-at'];
+      }
 
       // 코멘트 내용
       let contentElement: HTMLElement | null = null;
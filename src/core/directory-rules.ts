@@ -3,6 +3,8 @@
  * 키워드와 카테고리를 디렉토리 경로로 매핑하는 규칙
  */
 
+import type { RepositoryConfig } from '../types';
+
 /**
  * 디렉토리 매칭 결과
  */
@@ -21,7 +23,7 @@ export class DirectoryRules {
    *
    * 프로젝트 타입별로 자주 사용되는 디렉토리 패턴 정의
    */
-  private static rules: Record<string, string[]> = {
+  private static defaultRules: Record<string, string[]> = {
     // API 관련
     'api': ['api', 'rest', 'restful', 'graphql', 'endpoint', 'request', 'response', 'http', 'fetch'],
 
@@ -62,7 +64,7 @@ export class DirectoryRules {
    *
    * 코멘트의 카테고리가 명확할 때 사용
    */
-  private static categoryMap: Record<string, string> = {
+  private static defaultCategoryMap: Record<string, string> = {
     'api': 'api',
     'ui': 'ui',
     'frontend': 'ui',
@@ -90,6 +92,34 @@ export class DirectoryRules {
     'general': ''     // 일반은 루트
   };
 
+  private rules: Record<string, string[]>;
+  private categoryMap: Record<string, string>;
+
+  /**
+   * @param repositoryConfig 저장소 설정 (선언된 directories는 기본 키워드 규칙 대체,
+   *   categories는 기본 카테고리 매핑에 추가/덮어쓰기)
+   */
+  constructor(repositoryConfig?: Pick<RepositoryConfig, 'directories' | 'categories'>) {
+    this.rules = repositoryConfig?.directories
+      ? Object.fromEntries(
+          Object.entries(repositoryConfig.directories).map(([dir, keywords]) => [dir, keywords.map(k => k.toLowerCase())])
+        )
+      : { ...DirectoryRules.defaultRules };
+    this.categoryMap = { ...DirectoryRules.defaultCategoryMap };
+
+    for (const category of repositoryConfig?.categories ?? []) {
+      // 디렉토리를 지정하지 않은 카테고리는 기존 매핑 유지 (없으면 루트)
+      const name = category.name.toLowerCase();
+      const directory = category.directory ?? this.categoryMap[name] ?? '';
+      this.categoryMap[name] = directory;
+
+      // 카테고리 키워드는 해당 디렉토리 키워드 규칙에 합침
+      if (directory && category.keywords?.length) {
+        this.rules[directory] = [...new Set([...(this.rules[directory] ?? []), ...category.keywords.map(k => k.toLowerCase())])];
+      }
+    }
+  }
+
   /**
    * 카테고리에서 디렉토리 경로 추출
    *
@@ -98,7 +128,7 @@ export class DirectoryRules {
    */
   getCategoryDirectory(category: string): string | null {
     const normalized = category.toLowerCase().trim();
-    const directory = DirectoryRules.categoryMap[normalized];
+    const directory = this.categoryMap[normalized];
 
     if (directory === '') {
       // 빈 문자열은 루트 디렉토리 의미
@@ -122,7 +152,7 @@ export class DirectoryRules {
     const matches: DirectoryMatch[] = [];
 
     // 각 규칙에 대해 키워드 매칭
-    for (const [directory, ruleKeywords] of Object.entries(DirectoryRules.rules)) {
+    for (const [directory, ruleKeywords] of Object.entries(this.rules)) {
       const matchedKeywords: string[] = [];
 
       // 코멘트 키워드 중 규칙 키워드와 일치하는 것 찾기
@@ -175,7 +205,7 @@ export class DirectoryRules {
     const matches: DirectoryMatch[] = [];
 
     // 각 규칙에 대해 키워드 매칭
-    for (const [directory, ruleKeywords] of Object.entries(DirectoryRules.rules)) {
+    for (const [directory, ruleKeywords] of Object.entries(this.rules)) {
       const matchedKeywords: string[] = [];
 
       keywords.forEach(keyword => {
@@ -215,7 +245,7 @@ export class DirectoryRules {
    * @param keywords 매칭할 키워드 배열
    */
   addCustomRule(directory: string, keywords: string[]): void {
-    DirectoryRules.rules[directory] = keywords;
+    this.rules[directory] = keywords;
   }
 
   /**
@@ -225,20 +255,20 @@ export class DirectoryRules {
    * @param directory 매핑할 디렉토리
    */
   addCategoryMapping(category: string, directory: string): void {
-    DirectoryRules.categoryMap[category.toLowerCase()] = directory;
+    this.categoryMap[category.toLowerCase()] = directory;
   }
 
   /**
    * 모든 규칙 반환 (디버깅/검증용)
    */
   getRules(): Record<string, string[]> {
-    return { ...DirectoryRules.rules };
+    return { ...this.rules };
   }
 
   /**
    * 모든 카테고리 매핑 반환 (디버깅/검증용)
    */
   getCategoryMappings(): Record<string, string> {
-    return { ...DirectoryRules.categoryMap };
+    return { ...this.categoryMap };
   }
 }
@@ -6,8 +6,8 @@
 import { DirectoryRules } from './directory-rules';
 import type { AnalysisResult } from './instruction-analyzer';
 import type { ParsedComment, EnhancedComment, ClaudeFile } from '../types';
-import type { ClaudeClient } from '../background/llm/claude-client';
-import type { OpenAIClient } from '../background/llm/openai-client';
+import type { ILLMClient } from '../background/llm/types';
+import { DIRECTORY_SELECTION_SCHEMA } from '../background/llm/schemas';
 import type { LLMConfig } from '../types';
 
 /**
@@ -33,11 +33,11 @@ interface LLMSelectionResponse {
  */
 export class DirectorySuggester {
   private rules: DirectoryRules;
-  private llmClient?: ClaudeClient | OpenAIClient;
+  private llmClient?: ILLMClient;
 
   constructor(
     rules?: DirectoryRules,
-    llmClient?: ClaudeClient | OpenAIClient
+    llmClient?: ILLMClient
   ) {
     this.rules = rules || new DirectoryRules();
     this.llmClient = llmClient;
@@ -49,14 +49,15 @@ export class DirectorySuggester {
    * @param comment 코멘트 (ParsedComment 또는 EnhancedComment)
    * @param analysisResult 프로젝트 분석 결과
    * @param llmConfig LLM 설정 (선택적)
+   * @param baseDir 기본 디렉토리 (기본값: .claude/rules)
    * @returns 제안된 디렉토리 전체 경로
    */
   async suggestDirectory(
     comment: ParsedComment | EnhancedComment,
     analysisResult: AnalysisResult | null,
-    llmConfig?: LLMConfig
+    llmConfig?: LLMConfig,
+    baseDir: string = '.claude/rules'
   ): Promise<string> {
-    const baseDir = '.claude/rules';
 
     // 1. 규칙 기반 후보 3개 생성
     const candidates = this.generateRuleBasedCandidates(comment, analysisResult, baseDir);
@@ -311,12 +312,15 @@ export class DirectorySuggester {
     const prompt = this.buildLLMSelectionPrompt(candidates, comment, analysisResult);
 
     try {
-      const response = await this.llmClient.generateText(prompt, {
-        max_tokens: 500,
-        temperature: 0.3 // 일관성을 위해 낮은 temperature
-      });
-
-      const parsed = this.parseSelectionResponse(response);
+      // 스키마 검증 실패(재요청 포함) 시 에러 → 호출부에서 1순위 후보 사용
+      const { data: parsed } = await this.llmClient.generateStructured<LLMSelectionResponse>(
+        prompt,
+        DIRECTORY_SELECTION_SCHEMA,
+        {
+          max_tokens: 500,
+          temperature: 0.3 // 일관성을 위해 낮은 temperature
+        }
+      );
 
       // 선택된 인덱스 검증
       if (parsed.selected < 0 || parsed.selected >= candidates.length) {
@@ -376,36 +380,6 @@ ${candidatesText}
 JSON만 반환하고 다른 텍스트는 포함하지 마세요.`;
   }
 
-  /**
-   * LLM 응답 파싱
-   */
-  private parseSelectionResponse(response: string): LLMSelectionResponse {
-    try {
-      // JSON 추출 (코드 블록 제거)
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-
-      if (!jsonMatch) {
-        throw new Error('JSON not found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]) as LLMSelectionResponse;
-
-      // 검증
-      if (typeof parsed.selected !== 'number' || typeof parsed.reasoning !== 'string') {
-        throw new Error('Invalid response format');
-      }
-
-      return parsed;
-
-    } catch (error) {
-      // 기본값: 0번 후보 선택
-      return {
-        selected: 0,
-        reasoning: 'LLM 응답 파싱 실패, 1순위 후보 사용'
-      };
-    }
-  }
-
   /**
    * 텍스트 축약
    */
@@ -6,6 +6,11 @@
 
 import type { ApiClient } from '../background/api-client';
 import type { Repository, ClaudeFile, MatchResult, ParsedComment, ProjectType } from '../types';
+import { COPILOT_INSTRUCTIONS_PATH, getCopilotScopedInstructionsPath } from './generators/copilot-generator';
+import { CODEX_AGENTS_PATH } from './generators/codex-generator';
+import { GEMINI_CONTEXT_PATH } from './generators/gemini-generator';
+import { AIDER_CONVENTIONS_PATH } from './generators/aider-generator';
+import { CLINE_RULES_PATH } from './generators/cline-generator';
 
 // 매칭 임계값 (60점 이상이면 기존 파일에 병합)
 const MATCH_THRESHOLD = 60;
@@ -77,9 +82,9 @@ async function findInDirectory(
       return { file: null, score: 0, isMatch: false };
     }
 
-    // Markdown 파일만 필터링
+    // Markdown 파일만 필터링 (Cursor MDC 규칙 포함)
     const mdFiles = items.filter(item =>
-      item.type === 'file' && item.name.endsWith('.md')
+      item.type === 'file' && /\.mdc?$/.test(item.name)
     );
 
     if (mdFiles.length === 0) {
@@ -99,6 +104,9 @@ async function findInDirectory(
       // YAML frontmatter 파싱
       const frontmatter = parseFrontmatter(content);
 
+      // 대체된 규칙(deprecated)에는 병합하지 않음
+      if (frontmatter.status === 'deprecated') continue;
+
       // 매칭 스코어 계산
       const score = calculateMatchScore(
         parsedComment,
@@ -109,7 +117,7 @@ async function findInDirectory(
 
       const claudeFile: ClaudeFile = {
         path: file.path,
-        title: frontmatter.title || file.name.replace('.md', ''),
+        title: frontmatter.title || file.name.replace(/\.mdc?$/, ''),
         keywords: frontmatter.keywords || [],
         category: frontmatter.category || 'conventions',
         content,
@@ -239,7 +247,7 @@ function calculateMatchScore(
   }
 
   // 3. 파일명 매칭 (20점)
-  const fileNameLower = fileName.toLowerCase().replace('.md', '');
+  const fileNameLower = fileName.toLowerCase().replace(/\.mdc?$/, '');
   const suggestedNameLower = parsedComment.suggestedFileName.toLowerCase();
 
   if (fileNameLower === suggestedNameLower) {
@@ -339,6 +347,7 @@ export async function ensureUniqueFileName(
 export interface ProjectTypeMatchResult {
   existingContent?: string;  // 기존 파일 내용 (업데이트용)
   filePath: string;          // 생성될 파일 경로
+  fixedPath?: boolean;       // 단일 파일처럼 경로가 고정됨 (중복 검사 시 새 파일로 분리하지 않음)
 }
 
 /**
@@ -348,7 +357,8 @@ export async function findMatchingFileForProjectType(
   client: ApiClient,
   repository: Repository,
   parsedComment: ParsedComment,
-  projectType: ProjectType
+  projectType: ProjectType,
+  codeFilePath?: string  // 인라인 리뷰 대상 코드 파일 경로 (Copilot 경로별 지침 판단용)
 ): Promise<ProjectTypeMatchResult> {
 
   switch (projectType) {
@@ -358,6 +368,16 @@ export async function findMatchingFileForProjectType(
       return findMatchingFileForCursor(client, repository, parsedComment);
     case 'windsurf':
       return findMatchingFileForWindsurf(client, repository, parsedComment);
+    case 'copilot':
+      return findMatchingFileForCopilot(client, repository, parsedComment, codeFilePath);
+    case 'codex':
+      return findSingleFile(client, repository, CODEX_AGENTS_PATH);
+    case 'gemini':
+      return findSingleFile(client, repository, GEMINI_CONTEXT_PATH);
+    case 'aider':
+      return findSingleFile(client, repository, AIDER_CONVENTIONS_PATH);
+    case 'cline':
+      return findMatchingFileForCline(client, repository, parsedComment);
     default:
       throw new Error(`Unknown project type: ${projectType}`);
   }
@@ -389,7 +409,7 @@ async function findMatchingFileForClaudeCode(
 }
 
 /**
- * Cursor 파일 매칭 (.cursor/rules/ 디렉토리)
+ * Cursor 파일 매칭 (.cursor/rules/ 디렉토리, .md/.mdc)
  */
 async function findMatchingFileForCursor(
   client: ApiClient,
@@ -453,3 +473,120 @@ async function findMatchingFileForWindsurf(
     filePath: '' // Generator에서 결정
   };
 }
+
+/**
+ * GitHub Copilot 파일 매칭
+ * - 인라인 리뷰: .github/instructions/{name}.instructions.md
+ * - 일반 코멘트: .github/copilot-instructions.md (단일 파일, append)
+ */
+async function findMatchingFileForCopilot(
+  client: ApiClient,
+  repository: Repository,
+  parsedComment: ParsedComment,
+  codeFilePath?: string
+): Promise<ProjectTypeMatchResult> {
+  const filePath = codeFilePath
+    ? getCopilotScopedInstructionsPath(parsedComment.suggestedFileName)
+    : COPILOT_INSTRUCTIONS_PATH;
+
+  return findSingleFile(client, repository, filePath);
+}
+
+/**
+ * 고정 경로 파일 매칭 (AGENTS.md, GEMINI.md, CONVENTIONS.md 등 단일 파일 타입)
+ * - 파일이 있으면 기존 내용 반환 (Generator가 섹션 단위로 갱신)
+ */
+async function findSingleFile(
+  client: ApiClient,
+  repository: Repository,
+  filePath: string
+): Promise<ProjectTypeMatchResult> {
+  try {
+    const fileContent = await client.getFileContent(repository, filePath);
+    if (fileContent) {
+      return {
+        existingContent: decodeBase64(fileContent.content),
+        filePath,
+        fixedPath: true
+      };
+    }
+  } catch (error) {
+  }
+
+  return { filePath, fixedPath: true };
+}
+
+/**
+ * Cline 규칙 레이아웃 확인
+ * - 'dir': .clinerules/ 디렉토리
+ * - 'file': 레거시 단일 .clinerules 파일
+ * - null: 없음
+ */
+export async function detectClineRulesLayout(
+  client: ApiClient,
+  repository: Repository
+): Promise<'dir' | 'file' | null> {
+  const items = await client.getDirectoryContents(repository, CLINE_RULES_PATH);
+
+  // GitHub/Gitea contents API는 파일 경로를 조회하면 해당 파일 하나를 반환
+  if (items.length === 1 && items[0].type === 'file' && items[0].path === CLINE_RULES_PATH) {
+    return 'file';
+  }
+  if (items.length > 0) {
+    return 'dir';
+  }
+
+  // 파일 경로에 빈 목록을 반환하는 플랫폼(GitLab tree API 등)은 파일 내용으로 확인
+  const fileContent = await client.getFileContent(repository, CLINE_RULES_PATH);
+  return fileContent ? 'file' : null;
+}
+
+/**
+ * Cline 파일 매칭
+ * - 레거시 단일 .clinerules 파일: 해당 파일 (섹션 upsert)
+ * - .clinerules/ 디렉토리: 키워드 기반 매칭
+ */
+async function findMatchingFileForCline(
+  client: ApiClient,
+  repository: Repository,
+  parsedComment: ParsedComment
+): Promise<ProjectTypeMatchResult> {
+  try {
+    const layout = await detectClineRulesLayout(client, repository);
+
+    if (layout === 'file') {
+      return findSingleFile(client, repository, CLINE_RULES_PATH);
+    }
+
+    if (layout === 'dir') {
+      const matchResult = await findInDirectory(client, repository, CLINE_RULES_PATH, parsedComment);
+      if (matchResult.isMatch && matchResult.file) {
+        return {
+          existingContent: matchResult.file.content,
+          filePath: matchResult.file.path
+        };
+      }
+    }
+  } catch (error) {
+  }
+
+  // 새 파일 생성 (파일 경로는 SmartFileNaming/Generator가 결정)
+  return {
+    filePath: ''
+  };
+}
+
+/**
+ * 사용자 정의 대상 파일 매칭
+ * - single-file: 고정 경로 (섹션 upsert)
+ * - per-rule: 제안 파일명 경로에 기존 파일이 있으면 해당 파일 갱신
+ */
+export async function findMatchingFileForCustomTarget(
+  client: ApiClient,
+  repository: Repository,
+  filePath: string,
+  singleFile: boolean
+): Promise<ProjectTypeMatchResult> {
+  const result = await findSingleFile(client, repository, filePath);
+  return singleFile ? result : { ...result, fixedPath: false };
+}
@@ -80,6 +80,11 @@ export class FileMerger {
       return files[0];
     }
 
+    // 내용이 모두 같으면 그대로 사용 (예: 여러 코멘트에서 생성된 같은 마이그레이션 파일)
+    if (files.every(f => f.content === files[0].content)) {
+      return files[0];
+    }
+
     // 첫 번째 파일을 기준으로
     const first = files[0];
 
@@ -90,11 +95,21 @@ export class FileMerger {
     // isUpdate: 하나라도 true면 true
     const isUpdate = files.some(f => f.isUpdate);
 
+    // 커밋 전 검사 결과, 해결하지 않은 모순, 대체 관계, 항목별 출처는 모두 유지 (병합으로 사라지지 않도록)
+    const secretFindings = files.flatMap(f => f.secretFindings ?? []);
+    const conflicts = files.flatMap(f => f.conflicts ?? []);
+    const supersedes = [...new Set(files.flatMap(f => f.supersedes ?? []))];
+    const provenance = files.flatMap(f => f.provenance ?? []);
+
     return {
       projectType: first.projectType,
       filePath: first.filePath,
       content: mergedContent,
-      isUpdate
+      isUpdate,
+      ...(secretFindings.length > 0 ? { secretFindings } : {}),
+      ...(conflicts.length > 0 ? { conflicts } : {}),
+      ...(supersedes.length > 0 ? { supersedes } : {}),
+      ...(provenance.length > 0 ? { provenance } : {})
     };
   }
 
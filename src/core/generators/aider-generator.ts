@@ -0,0 +1,54 @@
+/**
+ * Review to Instruction - Aider Generator
+ * Aider CONVENTIONS.md 파일 생성 (단일 파일, 섹션 upsert 방식)
+ */
+
+import { BaseGenerator, type GeneratorOptions, type GenerationResult } from './base-generator';
+
+/**
+ * Aider 컨벤션 파일 경로 (프로젝트 루트, `aider --read CONVENTIONS.md`로 로드)
+ */
+export const AIDER_CONVENTIONS_PATH = 'CONVENTIONS.md';
+
+/**
+ * Aider 파일 생성기
+ * - 프로젝트 루트에 CONVENTIONS.md 단일 파일 생성
+ * - 같은 제목 또는 키워드가 겹치는 섹션이 있으면 해당 섹션에 병합, 없으면 파일 끝에 추가
+ */
+export class AiderGenerator extends BaseGenerator {
+  /**
+   * 파일 생성
+   */
+  async generate(options: GeneratorOptions): Promise<GenerationResult> {
+    const { existingContent } = options;
+    const section = this.generateRuleSectionBlock(options);
+
+    const content = existingContent
+      ? this.upsertRuleSection(existingContent, section, options)
+      : [
+        '# Coding Conventions\n',
+        'These conventions were extracted from code reviews. Load them with `aider --read CONVENTIONS.md`.\n',
+        section
+      ].join('\n');
+
+    return {
+      content,
+      filePath: AIDER_CONVENTIONS_PATH,
+      isUpdate: !!existingContent
+    };
+  }
+
+  /**
+   * 대상 디렉토리 반환 (루트)
+   */
+  getTargetDirectory(): string {
+    return '.';
+  }
+
+  /**
+   * 파일 확장자 반환
+   */
+  getFileExtension(): string {
+    return '.md';
+  }
+}
@@ -5,6 +5,7 @@
 
 import type { ParsedComment, EnhancedComment, Comment, Repository, LLMConfig } from '../../types';
 import { summarizeComment } from '../parser';
+import { upsertMarkdownSection, type SectionMatchOptions } from '../markdown-sections';
 
 // Generator 옵션
 export interface GeneratorOptions {
@@ -13,7 +14,9 @@ export interface GeneratorOptions {
   repository: Repository;
   existingContent?: string;
   suggestedPath?: string;  // SmartFileNaming에서 제안된 전체 경로 (선택적)
+  matchedPath?: string;  // FileMatcher가 결정한 경로 (기존 파일 또는 중복 회피 경로)
   llmConfig?: LLMConfig;  // LLM 설정 (분류 등에 사용)
+  supersedes?: string[];  // 이 규칙으로 대체되는 기존 규칙 파일 (Claude Code frontmatter)
 }
 
 // 파일 생성 결과
@@ -23,6 +26,25 @@ export interface GenerationResult {
   isUpdate: boolean;
 }
 
+/**
+ * 리뷰된 코드 파일 경로에서 규칙 적용 범위 glob 생성
+ * - src/api/users.ts → src/api/**\/*.ts
+ * - README.md → **\/*.md
+ * - Dockerfile → **
+ */
+export function deriveFileGlob(codeFilePath: string): string {
+  const normalized = codeFilePath.trim().replace(/\\/g, '/').replace(/^\/+/, '');
+  const lastSlash = normalized.lastIndexOf('/');
+  const dir = lastSlash >= 0 ? normalized.slice(0, lastSlash) : '';
+  const fileName = lastSlash >= 0 ? normalized.slice(lastSlash + 1) : normalized;
+
+  const dotIndex = fileName.lastIndexOf('.');
+  const extension = dotIndex > 0 ? fileName.slice(dotIndex) : '';
+
+  const prefix = dir ? `${dir}/` : '';
+  return extension ? `${prefix}**/*${extension}` : `${prefix}**`;
+}
+
 /**
  * 파일 생성기 베이스 클래스
  *
@@ -215,4 +237,46 @@ export abstract class BaseGenerator {
 
     return sections.join('\n');
   }
+
+  /**
+   * 단일 파일용 규칙 섹션 생성 (## 제목, 공통 로직)
+   * - GEMINI.md, CONVENTIONS.md, copilot-instructions.md처럼 여러 규칙을 한 파일에 모으는 경우 사용
+   */
+  protected generateRuleSectionBlock(options: GeneratorOptions): string {
+    const { parsedComment } = options;
+    const sections: string[] = [
+      `## ${this.generateTitle(parsedComment)}\n`,
+      this.generateBodySection(options),
+      ''
+    ];
+
+    const examples = this.generateExamplesSection(parsedComment);
+    if (examples) {
+      // 최상위 섹션이 ##이므로 예시 헤딩은 한 단계 낮춤
+      sections.push(examples.replace(/^(#{2,3}) /gm, '#$1 '));
+    }
+
+    sections.push(this.generateMetadataFooter(options));
+
+    return sections.join('\n');
+  }
+
+  /**
+   * 기존 내용에 규칙 섹션 upsert (공통 로직)
+   * - 같은 제목 또는 키워드/카테고리가 겹치는 섹션에 병합, 없으면 파일 끝에 추가
+   */
+  protected upsertRuleSection(
+    existingContent: string,
+    section: string,
+    options: GeneratorOptions,
+    matchOptions: SectionMatchOptions = {}
+  ): string {
+    const { parsedComment } = options;
+
+    return upsertMarkdownSection(existingContent, section, {
+      keywords: parsedComment.keywords,
+      category: parsedComment.category,
+      ...matchOptions
+    });
+  }
 }
@@ -7,7 +7,9 @@ import { BaseGenerator, type GeneratorOptions, type GenerationResult } from './b
 import { generateInstruction } from '../instruction-generator';
 import { generateSkill } from '../skill-generator';
 import { buildClassificationPrompt } from '../../background/llm/prompts';
-import { ClaudeClient } from '../../background/llm/claude-client';
+import { renderClassificationPrompt } from '../../background/llm/prompt-templates';
+import { createLLMClient } from '../../background/llm/enhancer';
+import type { LLMConfig } from '../../types';
 
 /**
  * Claude Code 파일 생성기
@@ -79,19 +81,23 @@ export class ClaudeCodeGenerator extends BaseGenerator {
   private async determineFileType(
     content: string,
     keywords: string[],
-    llmConfig?: any
+    llmConfig?: LLMConfig
   ): Promise<'instruction' | 'skill'> {
+    // LLM 클라이언트 생성 (경량 작업용 모델)
+    const client = llmConfig ? createLLMClient(llmConfig, 'light') : null;
+
     // LLM이 없으면 기본값(instruction) 반환
-    if (!llmConfig?.apiKey) {
+    if (!client) {
       return 'instruction';
     }
 
     try {
-      // LLM 클라이언트 생성
-      const client = new ClaudeClient(llmConfig.apiKey);
 
-      // 분류 프롬프트 생성
-      const prompt = buildClassificationPrompt(content, keywords);
+      // 분류 프롬프트 생성 (사용자 정의 템플릿 우선)
+      const template = llmConfig?.promptTemplates?.classification;
+      const prompt = template
+        ? renderClassificationPrompt(template, content, keywords)
+        : buildClassificationPrompt(content, keywords);
 
       // LLM 호출 (generateText 사용)
       const response = await client.generateText(prompt, {
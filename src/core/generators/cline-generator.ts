@@ -0,0 +1,103 @@
+/**
+ * Review to Instruction - Cline Generator
+ * Cline .clinerules/ 디렉토리 파일 생성 (규칙당 파일 1개)
+ */
+
+import { BaseGenerator, type GeneratorOptions, type GenerationResult } from './base-generator';
+
+/**
+ * Cline 규칙 경로 (디렉토리 형식) / 레거시 단일 파일 경로
+ */
+export const CLINE_RULES_PATH = '.clinerules';
+
+/**
+ * Cline 파일 생성기
+ * - .clinerules/ 디렉토리에 규칙당 Markdown 파일 생성 (SmartFileNaming 하위 폴더 포함)
+ * - 레거시 단일 .clinerules 파일이면 해당 파일에 섹션 upsert
+ */
+export class ClineGenerator extends BaseGenerator {
+  /**
+   * 파일 생성
+   */
+  async generate(options: GeneratorOptions): Promise<GenerationResult> {
+    const { parsedComment, existingContent, suggestedPath, matchedPath } = options;
+
+    // 레거시 단일 파일: 디렉토리를 만들 수 없으므로 기존 파일에 섹션 upsert
+    if (matchedPath === CLINE_RULES_PATH) {
+      const section = this.generateRuleSectionBlock(options);
+      return {
+        content: existingContent ? this.upsertRuleSection(existingContent, section, options) : section,
+        filePath: CLINE_RULES_PATH,
+        isUpdate: !!existingContent
+      };
+    }
+
+    // 기존 규칙 파일이 매칭되면 그 경로 유지, 아니면 SmartFileNaming 제안 경로
+    const filePath = (existingContent && matchedPath)
+      || suggestedPath
+      || this.generateFilePath(parsedComment.suggestedFileName);
+
+    const content = existingContent
+      ? this.updateClineRule(options, existingContent)
+      : this.createClineRule(options);
+
+    return {
+      content,
+      filePath,
+      isUpdate: !!existingContent
+    };
+  }
+
+  /**
+   * 대상 디렉토리 반환
+   */
+  getTargetDirectory(): string {
+    return CLINE_RULES_PATH;
+  }
+
+  /**
+   * 파일 확장자 반환
+   */
+  getFileExtension(): string {
+    return '.md';
+  }
+
+  /**
+   * 새 Cline rule 파일 생성
+   */
+  private createClineRule(options: GeneratorOptions): string {
+    const { parsedComment } = options;
+    const sections: string[] = [];
+
+    // 제목
+    sections.push(`# ${this.generateTitle(parsedComment)}\n`);
+
+    // 본문 내용
+    sections.push(this.generateBodySection(options));
+    sections.push('');
+
+    // 코드 예시
+    const examples = this.generateExamplesSection(parsedComment);
+    if (examples) {
+      sections.push(examples);
+    }
+
+    // 메타데이터 footer
+    sections.push(this.generateMetadataFooter(options));
+
+    return sections.join('\n');
+  }
+
+  /**
+   * 기존 Cline rule 업데이트 (섹션 upsert)
+   * - 규칙당 파일 1개이므로 제목이 달라도 문서의 유일한 최상위 섹션에 병합
+   */
+  private updateClineRule(
+    options: GeneratorOptions,
+    existingContent: string
+  ): string {
+    return this.upsertRuleSection(existingContent, this.createClineRule(options), options, {
+      fallbackToSoleSection: true
+    });
+  }
+}
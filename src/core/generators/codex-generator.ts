@@ -1,16 +1,21 @@
 /**
  * Review to Instruction - Codex Generator
- * Codex AGENTS.md 파일 생성 (단일 파일, append 방식)
+ * Codex AGENTS.md 파일 생성 (단일 파일, 섹션 upsert 방식)
  */
 
 import { BaseGenerator, type GeneratorOptions, type GenerationResult } from './base-generator';
 import type { EnhancedComment } from '../../types';
 import { summarizeComment } from '../parser';
 
+/**
+ * Codex AGENTS.md 파일 경로 (프로젝트 루트)
+ */
+export const CODEX_AGENTS_PATH = 'AGENTS.md';
+
 /**
  * Codex 파일 생성기
  * - 프로젝트 루트에 AGENTS.md 단일 파일 생성
- * - 새로운 규칙은 파일 끝에 append
+ * - 대응하는 섹션(같은 제목 또는 키워드가 겹치는 제목)이 있으면 병합, 없으면 파일 끝에 추가
  * - Markdown 형식, 섹션 단위로 구분
  */
 export class CodexGenerator extends BaseGenerator {
@@ -20,13 +25,13 @@ export class CodexGenerator extends BaseGenerator {
   async generate(options: GeneratorOptions): Promise<GenerationResult> {
     const { existingContent } = options;
 
-    // 기존 파일이 있으면 append, 없으면 새로 생성
+    // 기존 파일이 있으면 섹션 upsert, 없으면 새로 생성
     const content = existingContent
-      ? this.appendToAgentsFile(options, existingContent)
+      ? this.upsertToAgentsFile(options, existingContent)
       : this.createAgentsFile(options);
 
     // Codex는 항상 AGENTS.md 파일 사용
-    const filePath = 'AGENTS.md';
+    const filePath = CODEX_AGENTS_PATH;
 
     return {
       content,
@@ -67,17 +72,16 @@ export class CodexGenerator extends BaseGenerator {
   }
 
   /**
-   * 기존 AGENTS.md 파일에 규칙 추가 (append)
+   * 기존 AGENTS.md 파일에 규칙 반영 (섹션 upsert)
    */
-  private appendToAgentsFile(
+  private upsertToAgentsFile(
     options: GeneratorOptions,
     existingContent: string
   ): string {
-    // 새 규칙 섹션 생성
-    const newSection = this.generateRuleSection(options);
-
-    // 기존 내용에 구분선과 함께 추가
-    return `${existingContent.trim()}\n\n---\n\n${newSection}`;
+    // 새 섹션은 기존처럼 구분선과 함께 추가
+    return this.upsertRuleSection(existingContent, this.generateRuleSection(options), options, {
+      separator: true
+    });
   }
 
   /**
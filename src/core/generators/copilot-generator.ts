@@ -0,0 +1,148 @@
+/**
+ * Review to Instruction - GitHub Copilot Generator
+ * Copilot .github/copilot-instructions.md 및 .github/instructions/*.instructions.md 파일 생성
+ */
+
+import { BaseGenerator, deriveFileGlob, type GeneratorOptions, type GenerationResult } from './base-generator';
+
+/**
+ * 저장소 전체에 적용되는 Copilot 지침 파일 경로
+ */
+export const COPILOT_INSTRUCTIONS_PATH = '.github/copilot-instructions.md';
+
+/**
+ * 경로별 Copilot 지침 파일 디렉토리
+ */
+export const COPILOT_SCOPED_INSTRUCTIONS_DIR = '.github/instructions';
+
+/**
+ * 제안 파일명에 대한 경로별 지침 파일 경로
+ */
+export function getCopilotScopedInstructionsPath(suggestedFileName: string): string {
+  const baseName = suggestedFileName.replace(/(\.instructions)?\.md$/, '');
+  return `${COPILOT_SCOPED_INSTRUCTIONS_DIR}/${baseName}.instructions.md`;
+}
+
+/**
+ * GitHub Copilot 파일 생성기
+ * - 인라인 리뷰 (codeContext 있음): .github/instructions/{name}.instructions.md에
+ *   applyTo frontmatter와 함께 경로별 지침 생성
+ * - 일반 코멘트: .github/copilot-instructions.md 단일 파일에 섹션 upsert
+ */
+export class CopilotGenerator extends BaseGenerator {
+  /**
+   * 파일 생성
+   */
+  async generate(options: GeneratorOptions): Promise<GenerationResult> {
+    const { parsedComment, originalComment, existingContent, suggestedPath } = options;
+    const codeFilePath = originalComment.codeContext?.filePath;
+
+    if (codeFilePath) {
+      const applyTo = deriveFileGlob(codeFilePath);
+      const content = existingContent
+        ? this.updateScopedFile(options, existingContent, applyTo)
+        : this.createScopedFile(options, applyTo);
+
+      return {
+        content,
+        filePath: suggestedPath || getCopilotScopedInstructionsPath(parsedComment.suggestedFileName),
+        isUpdate: !!existingContent
+      };
+    }
+
+    // 기존 파일이 있으면 섹션 upsert, 없으면 새로 생성
+    const content = existingContent
+      ? this.upsertRuleSection(existingContent, this.generateRuleSectionBlock(options), options)
+      : this.createInstructionsFile(options);
+
+    return {
+      content,
+      filePath: COPILOT_INSTRUCTIONS_PATH,
+      isUpdate: !!existingContent
+    };
+  }
+
+  /**
+   * 대상 디렉토리 반환 (경로별 지침)
+   */
+  getTargetDirectory(): string {
+    return COPILOT_SCOPED_INSTRUCTIONS_DIR;
+  }
+
+  /**
+   * 파일 확장자 반환
+   */
+  getFileExtension(): string {
+    return '.instructions.md';
+  }
+
+  /**
+   * 새 copilot-instructions.md 파일 생성
+   */
+  private createInstructionsFile(options: GeneratorOptions): string {
+    return [
+      '# Copilot Instructions\n',
+      'This file contains coding conventions and best practices extracted from code reviews.\n',
+      this.generateRuleSectionBlock(options)
+    ].join('\n');
+  }
+
+  /**
+   * 새 경로별 지침 파일 생성 (applyTo frontmatter 포함)
+   */
+  private createScopedFile(options: GeneratorOptions, applyTo: string): string {
+    return [
+      '---',
+      `applyTo: "${applyTo}"`,
+      '---\n',
+      this.generateScopedBody(options)
+    ].join('\n');
+  }
+
+  /**
+   * 경로별 지침 본문 생성 (frontmatter 제외)
+   */
+  private generateScopedBody(options: GeneratorOptions): string {
+    const { parsedComment } = options;
+    const sections: string[] = [
+      `# ${this.generateTitle(parsedComment)}\n`,
+      this.generateBodySection(options),
+      ''
+    ];
+
+    const examples = this.generateExamplesSection(parsedComment);
+    if (examples) {
+      sections.push(examples);
+    }
+
+    sections.push(this.generateMetadataFooter(options));
+
+    return sections.join('\n');
+  }
+
+  /**
+   * 기존 경로별 지침 파일 업데이트
+   * - 새 glob이 applyTo에 없으면 콤마로 추가
+   * - 본문은 섹션 upsert (규칙당 파일 1개이므로 유일한 최상위 섹션에 병합)
+   */
+  private updateScopedFile(
+    options: GeneratorOptions,
+    existingContent: string,
+    applyTo: string
+  ): string {
+    const withApplyTo = existingContent.trim().replace(
+      /^(---\r?\n[\s\S]*?^applyTo:[ \t]*)"?([^"\r\n]*)"?([ \t]*)$/m,
+      (match, prefix: string, globs: string, suffix: string) => {
+        const current = globs.split(',').map(glob => glob.trim()).filter(Boolean);
+        if (current.includes(applyTo)) {
+          return match;
+        }
+        return `${prefix}"${[...current, applyTo].join(',')}"${suffix}`;
+      }
+    );
+
+    return this.upsertRuleSection(withApplyTo, this.generateScopedBody(options), options, {
+      fallbackToSoleSection: true
+    });
+  }
+}
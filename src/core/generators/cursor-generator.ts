@@ -1,25 +1,45 @@
 /**
  * Review to Instruction - Cursor Generator
- * Cursor .cursor/rules/*.md 파일 생성 (다중 파일 방식)
+ * Cursor .cursor/rules/*.mdc 파일 생성 (다중 파일 방식)
  */
 
-import { BaseGenerator, type GeneratorOptions, type GenerationResult } from './base-generator';
+import { BaseGenerator, deriveFileGlob, type GeneratorOptions, type GenerationResult } from './base-generator';
+import type { EnhancedComment } from '../../types';
+
+/**
+ * 레거시 단일 규칙 파일 경로 (프로젝트 루트)
+ */
+export const CURSOR_LEGACY_RULES_PATH = '.cursorrules';
+
+/**
+ * 레거시 .cursorrules 내용을 옮길 MDC 규칙 파일 경로
+ */
+export const CURSOR_MIGRATED_RULES_PATH = '.cursor/rules/cursorrules.mdc';
+
+/**
+ * MDC frontmatter 필드
+ */
+interface MdcFrontmatter {
+  description: string;
+  globs: string[];
+  alwaysApply: boolean;
+}
 
 /**
  * Cursor 파일 생성기
- * - .cursor/rules/ 디렉토리에 개별 Markdown 파일 생성
- * - YAML frontmatter 포함
- * - Claude Code와 유사한 구조
+ * - .cursor/rules/ 디렉토리에 개별 MDC 규칙 파일 생성
+ * - frontmatter: description, globs (리뷰된 파일 경로에서 추론), alwaysApply
+ * - 인라인 리뷰는 globs로 범위 지정, 일반 코멘트는 alwaysApply
  */
 export class CursorGenerator extends BaseGenerator {
   /**
    * 파일 생성
    */
   async generate(options: GeneratorOptions): Promise<GenerationResult> {
-    const { parsedComment, existingContent, suggestedPath } = options;
+    const { parsedComment, existingContent, suggestedPath, matchedPath } = options;
 
     // 파일 경로 결정
-    const filePath = suggestedPath || this.generateFilePath(parsedComment.suggestedFileName);
+    const filePath = suggestedPath || matchedPath || this.generateFilePath(parsedComment.suggestedFileName);
 
     // 콘텐츠 생성
     const content = existingContent
@@ -44,7 +64,24 @@ export class CursorGenerator extends BaseGenerator {
    * 파일 확장자 반환
    */
   getFileExtension(): string {
-    return '.md';
+    return '.mdc';
+  }
+
+  /**
+   * 레거시 .cursorrules 내용을 항상 적용되는 MDC 규칙으로 변환
+   */
+  migrateLegacyRules(legacyContent: string): GenerationResult {
+    const frontmatter = this.formatMdcFrontmatter({
+      description: `Project rules migrated from ${CURSOR_LEGACY_RULES_PATH}`,
+      globs: [],
+      alwaysApply: true
+    });
+
+    return {
+      content: `${frontmatter}\n${legacyContent.trim()}\n`,
+      filePath: CURSOR_MIGRATED_RULES_PATH,
+      isUpdate: false
+    };
   }
 
   /**
@@ -55,26 +92,63 @@ export class CursorGenerator extends BaseGenerator {
   }
 
   /**
-   * 기존 파일 업데이트 (append)
+   * 기존 파일 업데이트 (섹션 upsert)
+   * - MDC frontmatter의 globs/alwaysApply를 새 코멘트 범위에 맞게 확장
+   * - 레거시 frontmatter(title/category 등)는 MDC frontmatter로 교체
    */
   private updateExistingFile(
     options: GeneratorOptions,
     existingContent: string
   ): string {
-    const newSection = this.generateNewSection(options);
-    return `${existingContent.trim()}\n\n---\n\n${newSection}`;
+    const { frontmatter, body } = this.splitFrontmatter(existingContent.trim());
+    const scope = this.getRuleScope(options);
+
+    const merged: MdcFrontmatter = frontmatter ?? {
+      description: this.generateDescription(options),
+      globs: [],
+      alwaysApply: false
+    };
+
+    if (scope.alwaysApply) {
+      merged.alwaysApply = true;
+    }
+    for (const glob of scope.globs) {
+      if (!merged.globs.includes(glob)) {
+        merged.globs.push(glob);
+      }
+    }
+    // globs가 없으면 자동 적용될 수 없으므로 항상 적용
+    if (merged.globs.length === 0) {
+      merged.alwaysApply = true;
+    }
+
+    // 규칙당 파일 1개이므로 제목이 달라도 문서의 유일한 최상위 섹션에 병합
+    const updatedBody = this.upsertRuleSection(body.trim(), this.generateRuleBody(options), options, {
+      fallbackToSoleSection: true
+    });
+    return `${this.formatMdcFrontmatter(merged)}\n${updatedBody.trim()}\n`;
   }
 
   /**
-   * 규칙 콘텐츠 생성 (YAML frontmatter 포함)
+   * 규칙 콘텐츠 생성 (MDC frontmatter 포함)
    */
   private generateRuleContent(options: GeneratorOptions): string {
+    // MDC frontmatter
+    const frontmatter = this.formatMdcFrontmatter({
+      description: this.generateDescription(options),
+      ...this.getRuleScope(options)
+    });
+
+    return `${frontmatter}\n${this.generateRuleBody(options)}`;
+  }
+
+  /**
+   * 규칙 본문 생성 (frontmatter 제외)
+   */
+  private generateRuleBody(options: GeneratorOptions): string {
     const { parsedComment } = options;
     const sections: string[] = [];
 
-    // YAML frontmatter (BaseGenerator 메서드 사용)
-    sections.push(this.generateFrontmatter(options, 'yaml'));
-
     // 제목
     sections.push(`# ${this.generateTitle(parsedComment)}\n`);
 
@@ -95,26 +169,93 @@ export class CursorGenerator extends BaseGenerator {
   }
 
   /**
-   * 새 섹션 생성 (업데이트 시 사용)
+   * 규칙 적용 범위 결정
+   * - 인라인 리뷰: 리뷰된 파일 경로에서 추론한 glob, alwaysApply false
+   * - 일반 코멘트: 프로젝트 전체 규칙, alwaysApply true
+   */
+  private getRuleScope(options: GeneratorOptions): Pick<MdcFrontmatter, 'globs' | 'alwaysApply'> {
+    const codeFilePath = options.originalComment.codeContext?.filePath;
+
+    if (codeFilePath) {
+      return { globs: [deriveFileGlob(codeFilePath)], alwaysApply: false };
+    }
+
+    return { globs: [], alwaysApply: true };
+  }
+
+  /**
+   * description 생성 (Agent가 규칙 적용 여부를 판단하는 한 줄 설명)
    */
-  private generateNewSection(options: GeneratorOptions): string {
+  private generateDescription(options: GeneratorOptions): string {
     const { parsedComment } = options;
-    const date = new Date().toISOString().split('T')[0];
+    const isEnhanced = 'llmEnhanced' in parsedComment && parsedComment.llmEnhanced;
+    const summary = isEnhanced ? (parsedComment as EnhancedComment).summary : undefined;
 
-    const sections: string[] = [
-      `## Update (${date})`,
-      '',
-      this.generateBodySection(options),
-      ''
-    ];
+    const description = summary || this.generateTitle(parsedComment);
+    return description.replace(/\s+/g, ' ').trim();
+  }
 
-    const examples = this.generateExamplesSection(parsedComment);
-    if (examples) {
-      sections.push(examples);
+  /**
+   * MDC frontmatter 문자열 생성
+   * - description은 `:`, `#`, 따옴표가 있어도 YAML로 읽히도록 큰따옴표 문자열로 기록
+   */
+  private formatMdcFrontmatter(frontmatter: MdcFrontmatter): string {
+    return [
+      '---',
+      `description: ${JSON.stringify(frontmatter.description)}`,
+      `globs: ${frontmatter.globs.join(',')}`,
+      `alwaysApply: ${frontmatter.alwaysApply}`,
+      '---\n'
+    ].join('\n');
+  }
+
+  /**
+   * 기존 내용에서 frontmatter와 본문 분리
+   * - MDC 필드가 없는 frontmatter는 레거시로 보고 frontmatter: null 반환
+   */
+  private splitFrontmatter(content: string): { frontmatter: MdcFrontmatter | null; body: string } {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (!match) {
+      return { frontmatter: null, body: content };
     }
 
-    sections.push(this.generateMetadataFooter(options, false));
+    const body = content.slice(match[0].length);
+    const fields = new Map<string, string>();
+    for (const line of match[1].split(/\r?\n/)) {
+      const colonIndex = line.indexOf(':');
+      if (colonIndex === -1) continue;
+      fields.set(line.slice(0, colonIndex).trim(), line.slice(colonIndex + 1).trim());
+    }
 
-    return sections.join('\n');
+    if (!fields.has('globs') && !fields.has('alwaysApply')) {
+      return { frontmatter: null, body };
+    }
+
+    return {
+      frontmatter: {
+        description: this.parseDescription(fields.get('description') ?? ''),
+        globs: (fields.get('globs') ?? '')
+          .replace(/^\[|\]$/g, '')
+          .split(',')
+          .map(glob => glob.trim().replace(/^["']|["']$/g, ''))
+          .filter(Boolean),
+        alwaysApply: fields.get('alwaysApply') === 'true'
+      },
+      body
+    };
+  }
+
+  /**
+   * frontmatter description 값 읽기 (큰따옴표 문자열은 이스케이프 해제)
+   */
+  private parseDescription(value: string): string {
+    if (value.startsWith('"')) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        // 이스케이프 규칙이 다른 문자열은 따옴표만 제거
+      }
+    }
+    return value.replace(/^["']|["']$/g, '');
   }
 }
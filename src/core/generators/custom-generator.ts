@@ -0,0 +1,165 @@
+/**
+ * Review to Instruction - Custom Target Generator
+ * Popup에서 구성한 사용자 정의 출력 대상 파일 생성 (Mustache 형식 템플릿)
+ */
+
+import { BaseGenerator, deriveFileGlob, type GeneratorOptions, type GenerationResult } from './base-generator';
+import type { CustomTargetConfig, EnhancedComment, ParsedComment } from '../../types';
+import { summarizeComment } from '../parser';
+import { renderTemplate, type TemplateContext } from '../template-renderer';
+
+/**
+ * 기본 템플릿 (템플릿을 비워두면 사용)
+ */
+export const DEFAULT_CUSTOM_TEMPLATE = [
+  '## {{title}}',
+  '',
+  '{{#summary}}',
+  '{{summary}}',
+  '',
+  '{{/summary}}',
+  '{{#rules}}',
+  '- {{.}}',
+  '{{/rules}}',
+  '',
+  '{{#codeExplanations}}',
+  '```',
+  '{{code}}',
+  '```',
+  '{{#explanation}}',
+  '',
+  '{{explanation}}',
+  '{{/explanation}}',
+  '',
+  '{{/codeExplanations}}',
+  '**Source:** [PR #{{source.pr}}]({{source.url}}) by @{{source.author}}',
+  '{{#keywords}}',
+  '**Keywords:** {{keywords}}',
+  '{{/keywords}}',
+  ''
+].join('\n');
+
+/**
+ * 사용자 정의 대상 파일 생성기
+ * - per-rule: {directory}/{제안 파일명}{extension}, 규칙당 파일 1개
+ * - single-file: {directory}/{fileName}{extension}, 대응하는 섹션에 upsert
+ * - 템플릿에서 EnhancedComment 필드(summary, rules, codeExplanations, keywords, source 등) 사용 가능
+ */
+export class CustomGenerator extends BaseGenerator {
+  constructor(private config: CustomTargetConfig) {
+    super();
+  }
+
+  /**
+   * 파일 생성
+   */
+  async generate(options: GeneratorOptions): Promise<GenerationResult> {
+    const { parsedComment, existingContent, matchedPath } = options;
+
+    const rendered = `${renderTemplate(this.getTemplate(), this.buildTemplateContext(options)).trim()}\n`;
+
+    // per-rule 모드는 규칙당 파일 1개이므로 유일한 최상위 섹션에 병합
+    const content = existingContent
+      ? this.upsertRuleSection(existingContent, rendered, options, {
+        fallbackToSoleSection: !this.isSingleFile()
+      })
+      : rendered;
+
+    return {
+      content,
+      filePath: matchedPath || this.getFilePath(parsedComment),
+      isUpdate: !!existingContent
+    };
+  }
+
+  /**
+   * 대상 디렉토리 반환
+   */
+  getTargetDirectory(): string {
+    return this.config.directory.trim().replace(/^\.?\/+|\/+$/g, '') || '.';
+  }
+
+  /**
+   * 파일 확장자 반환 (점 포함)
+   */
+  getFileExtension(): string {
+    const ext = this.config.extension.trim() || '.md';
+    return ext.startsWith('.') ? ext : `.${ext}`;
+  }
+
+  /**
+   * 단일 파일 모드 여부
+   */
+  isSingleFile(): boolean {
+    return this.config.mode === 'single-file';
+  }
+
+  /**
+   * 코멘트에 대한 대상 파일 경로
+   */
+  getFilePath(parsedComment: ParsedComment | EnhancedComment): string {
+    const baseName = this.isSingleFile()
+      ? this.config.fileName.trim() || 'instructions'
+      : parsedComment.suggestedFileName.replace(/\.md$/, '');
+
+    const fileName = `${baseName}${this.getFileExtension()}`;
+    const dir = this.getTargetDirectory();
+
+    return dir === '.' ? fileName : `${dir}/${fileName}`;
+  }
+
+  /**
+   * 사용할 템플릿 (비어 있으면 기본 템플릿)
+   */
+  private getTemplate(): string {
+    return this.config.template.trim() ? this.config.template : DEFAULT_CUSTOM_TEMPLATE;
+  }
+
+  /**
+   * 템플릿 컨텍스트 생성
+   */
+  private buildTemplateContext(options: GeneratorOptions): TemplateContext {
+    const { parsedComment, originalComment, repository } = options;
+
+    const isEnhanced = 'llmEnhanced' in parsedComment && parsedComment.llmEnhanced;
+    const enhanced = isEnhanced ? (parsedComment as EnhancedComment) : null;
+
+    const ruleText = enhanced?.detailedExplanation || summarizeComment(originalComment.content);
+    const rules = ruleText
+      .split('\n')
+      .map(line => line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, '').trim())
+      .filter(line => line.length > 0);
+
+    // LLM 설명이 없으면 코드 예시만으로 구성
+    const codeExplanations = enhanced?.codeExplanations?.length
+      ? enhanced.codeExplanations.map(explanation => ({
+        code: explanation.code,
+        explanation: explanation.explanation,
+        label: explanation.isGoodExample === undefined
+          ? 'Example'
+          : (explanation.isGoodExample ? 'Correct' : 'Incorrect')
+      }))
+      : parsedComment.codeExamples.map(code => ({ code, explanation: '', label: 'Example' }));
+
+    const codeFilePath = originalComment.codeContext?.filePath;
+
+    return {
+      title: this.generateTitle(parsedComment),
+      summary: enhanced?.summary ?? '',
+      rules,
+      codeExamples: parsedComment.codeExamples,
+      codeExplanations,
+      keywords: parsedComment.keywords,
+      category: parsedComment.category,
+      source: {
+        pr: repository.prNumber,
+        url: originalComment.url,
+        author: originalComment.author,
+        platform: repository.platform
+      },
+      filePath: codeFilePath ?? '',
+      glob: codeFilePath ? deriveFileGlob(codeFilePath) : '',
+      date: new Date().toISOString().split('T')[0]
+    };
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Review to Instruction - Gemini CLI Generator
+ * Gemini CLI GEMINI.md 파일 생성 (단일 파일, 섹션 upsert 방식)
+ */
+
+import { BaseGenerator, type GeneratorOptions, type GenerationResult } from './base-generator';
+
+/**
+ * Gemini CLI 컨텍스트 파일 경로 (프로젝트 루트)
+ */
+export const GEMINI_CONTEXT_PATH = 'GEMINI.md';
+
+/**
+ * Gemini CLI 파일 생성기
+ * - 프로젝트 루트에 GEMINI.md 단일 파일 생성
+ * - 같은 제목 또는 키워드가 겹치는 섹션이 있으면 해당 섹션에 병합, 없으면 파일 끝에 추가
+ */
+export class GeminiGenerator extends BaseGenerator {
+  /**
+   * 파일 생성
+   */
+  async generate(options: GeneratorOptions): Promise<GenerationResult> {
+    const { existingContent } = options;
+    const section = this.generateRuleSectionBlock(options);
+
+    const content = existingContent
+      ? this.upsertRuleSection(existingContent, section, options)
+      : [
+        '# Project Context\n',
+        'This file contains coding conventions and best practices extracted from code reviews.\n',
+        section
+      ].join('\n');
+
+    return {
+      content,
+      filePath: GEMINI_CONTEXT_PATH,
+      isUpdate: !!existingContent
+    };
+  }
+
+  /**
+   * 대상 디렉토리 반환 (루트)
+   */
+  getTargetDirectory(): string {
+    return '.';
+  }
+
+  /**
+   * 파일 확장자 반환
+   */
+  getFileExtension(): string {
+    return '.md';
+  }
+}
@@ -3,12 +3,17 @@
  * 프로젝트 타입에 따라 적절한 Generator 생성
  */
 
-import type { ProjectType } from '../../types';
+import type { ProjectType, CustomTargetConfig } from '../../types';
 import type { BaseGenerator } from './base-generator';
 import { ClaudeCodeGenerator } from './claude-code-generator';
 import { CursorGenerator } from './cursor-generator';
 import { WindsurfGenerator } from './windsurf-generator';
 import { CodexGenerator } from './codex-generator';
+import { CopilotGenerator } from './copilot-generator';
+import { GeminiGenerator } from './gemini-generator';
+import { AiderGenerator } from './aider-generator';
+import { ClineGenerator } from './cline-generator';
+import { CustomGenerator } from './custom-generator';
 
 /**
  * Generator Factory
@@ -17,12 +22,16 @@ import { CodexGenerator } from './codex-generator';
 export class GeneratorFactory {
   /**
    * 여러 프로젝트 타입에 대한 Generator 생성
+   * - 'custom' 타입은 사용자 정의 대상 설정이 있어야 생성됨
    */
-  static createGenerators(detectedTypes: ProjectType[]): Map<ProjectType, BaseGenerator> {
+  static createGenerators(
+    detectedTypes: ProjectType[],
+    customTarget?: CustomTargetConfig
+  ): Map<ProjectType, BaseGenerator> {
     const generators = new Map<ProjectType, BaseGenerator>();
 
     for (const type of detectedTypes) {
-      const generator = this.createGenerator(type);
+      const generator = this.createGenerator(type, customTarget);
       if (generator) {
         generators.set(type, generator);
       }
@@ -34,7 +43,10 @@ export class GeneratorFactory {
   /**
    * 단일 프로젝트 타입에 대한 Generator 생성
    */
-  private static createGenerator(type: ProjectType): BaseGenerator | null {
+  private static createGenerator(
+    type: ProjectType,
+    customTarget?: CustomTargetConfig
+  ): BaseGenerator | null {
     switch (type) {
       case 'claude-code':
         return new ClaudeCodeGenerator();
@@ -44,6 +56,16 @@ export class GeneratorFactory {
         return new WindsurfGenerator();
       case 'codex':
         return new CodexGenerator();
+      case 'copilot':
+        return new CopilotGenerator();
+      case 'gemini':
+        return new GeminiGenerator();
+      case 'aider':
+        return new AiderGenerator();
+      case 'cline':
+        return new ClineGenerator();
+      case 'custom':
+        return customTarget ? new CustomGenerator(customTarget) : null;
       default:
         return null;
     }
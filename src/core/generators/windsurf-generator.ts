@@ -16,15 +16,15 @@ export class WindsurfGenerator extends BaseGenerator {
    * 파일 생성
    */
   async generate(options: GeneratorOptions): Promise<GenerationResult> {
-    const { parsedComment, existingContent } = options;
+    const { parsedComment, existingContent, matchedPath } = options;
 
     // 기존 파일이 있으면 업데이트, 없으면 새로 생성
     const content = existingContent
       ? this.updateWindsurfRule(options, existingContent)
       : this.createWindsurfRule(options);
 
-    // 파일 경로 생성
-    const filePath = this.generateFilePath(parsedComment.suggestedFileName);
+    // 파일 경로 생성 (기존 파일을 갱신하면 그 경로 유지)
+    const filePath = (existingContent && matchedPath) || this.generateFilePath(parsedComment.suggestedFileName);
 
     return {
       content,
@@ -75,31 +75,15 @@ export class WindsurfGenerator extends BaseGenerator {
   }
 
   /**
-   * 기존 Windsurf rule 업데이트
+   * 기존 Windsurf rule 업데이트 (섹션 upsert)
+   * - 규칙당 파일 1개이므로 제목이 달라도 문서의 유일한 최상위 섹션에 병합
    */
   private updateWindsurfRule(
     options: GeneratorOptions,
     existingContent: string
   ): string {
-    const { parsedComment } = options;
-    const date = new Date().toISOString().split('T')[0];
-
-    const addendum: string[] = [
-      '',
-      `## Update (${date})`,
-      '',
-      this.generateBodySection(options),
-      ''
-    ];
-
-    const examples = this.generateExamplesSection(parsedComment);
-    if (examples) {
-      addendum.push(examples);
-    }
-
-    addendum.push('---');
-    addendum.push(this.generateMetadataFooter(options, false));
-
-    return `${existingContent.trim()}\n\n${addendum.join('\n')}`;
+    return this.upsertRuleSection(existingContent, this.createWindsurfRule(options), options, {
+      fallbackToSoleSection: true
+    });
   }
 }
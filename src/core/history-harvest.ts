@@ -0,0 +1,283 @@
+/**
+ * Review to Instruction - History Harvest
+ * 최근 머지된 PR/MR의 리뷰 코멘트에서 컨벤션을 모아 하나의 규칙 PR로 제안
+ * - PR별 리뷰 데이터 → 컨벤션 코멘트 (ConventionFilter)
+ * - 여러 PR에서 반복된 비슷한 코멘트는 하나로 묶음 (로컬 MinHash)
+ * - 묶음 수로 LLM 비용 추정 (시작 전 확인용)
+ */
+
+import type { Comment, EnhancedComment, FileGenerationResult, Platform, PRReviewData, Repository } from '../types';
+import type { MergedPullRequest } from '../background/api-client';
+import type { ConventionFilter } from './convention-filter';
+import { createMinHashProvider, type EmbeddingProvider } from './semantic-index';
+import { calculateCost } from '../utils/token-pricing';
+
+/**
+ * 작업 상태
+ * - collecting: PR 목록/리뷰 데이터 수집 중 → estimated: 비용 추정 완료, 시작 확인 대기
+ * - converting: 묶음별 LLM 분석/파일 생성 중 → completed: 규칙 PR 생성 완료
+ */
+export type HarvestStatus = 'collecting' | 'estimated' | 'converting' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * 수집한 컨벤션 코멘트 (출처 PR 포함)
+ */
+export interface HarvestedComment {
+  pr: number;
+  comment: Comment;
+}
+
+/**
+ * 시작 전 비용 추정
+ */
+export interface HarvestCostEstimate {
+  commentCount: number;   // 컨벤션 코멘트 수
+  clusterCount: number;   // 묶은 규칙 후보 수 (LLM 분석 횟수)
+  inputTokens: number;
+  outputTokens: number;
+  usd: number;
+  krw: number;
+}
+
+/**
+ * 변환한 묶음 (Wrapup PR 생성 입력과 같은 형태)
+ */
+export interface HarvestResult {
+  enhancedComment: EnhancedComment;
+  comment: Comment;
+  files: FileGenerationResult[];
+}
+
+/**
+ * 히스토리 수집 작업 (Service Worker 재시작 후 이어서 진행할 수 있도록 단계마다 저장)
+ */
+export interface HarvestJob {
+  id: string;
+  repository: Repository;
+  limit: number;                              // 대상 PR/MR 수
+  status: HarvestStatus;
+  pullRequests: MergedPullRequest[] | null;   // null: 목록 조회 전
+  collectedPrs: number[];                     // 리뷰 데이터를 수집한 PR 번호
+  comments: HarvestedComment[];
+  clusters: number[][];                       // comments 인덱스 묶음
+  estimate?: HarvestCostEstimate;
+  nextCluster: number;                        // 다음에 변환할 묶음 (완료/실패한 묶음은 건너뜀)
+  results: HarvestResult[];
+  tokenUsage: { inputTokens: number; outputTokens: number };
+  prUrl?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 진행률 (수집 중에는 PR 단위, 변환 중에는 묶음 단위)
+ */
+export interface HarvestProgress {
+  phase: 'collecting' | 'converting';
+  done: number;
+  total: number;
+}
+
+/**
+ * Popup에 보내는 작업 요약 (코멘트/변환 결과 제외)
+ */
+export interface HarvestJobSummary {
+  id: string;
+  repository: Repository;
+  status: HarvestStatus;
+  progress: HarvestProgress;
+  pullRequestCount: number;
+  estimate?: HarvestCostEstimate;
+  tokenUsage: { inputTokens: number; outputTokens: number };
+  prUrl?: string;
+  error?: string;
+}
+
+// 묶음당 예상 토큰 (분석 프롬프트, 분류/파일명/중복·모순 검사 등 경량 호출 포함)
+const ANALYSIS_PROMPT_TOKENS = 1200;
+const ANALYSIS_OUTPUT_TOKENS = 800;
+const LIGHT_INPUT_TOKENS = 2500;
+const LIGHT_OUTPUT_TOKENS = 300;
+
+/**
+ * 새 작업
+ */
+export function createHarvestJob(repository: Repository, limit: number): HarvestJob {
+  const now = Date.now();
+  return {
+    id: `harvest-${now}`,
+    repository,
+    limit,
+    status: 'collecting',
+    pullRequests: null,
+    collectedPrs: [],
+    comments: [],
+    clusters: [],
+    nextCluster: 0,
+    results: [],
+    tokenUsage: { inputTokens: 0, outputTokens: 0 },
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * PR 리뷰 데이터 → 컨벤션 코멘트
+ * - 스레드는 첫 코멘트를 기준으로 판단하고 나머지는 답글로 유지
+ */
+export function collectConventionComments(
+  reviewData: PRReviewData,
+  pr: MergedPullRequest,
+  platform: Platform,
+  filter: ConventionFilter
+): HarvestedComment[] {
+  const comments: Comment[] = [];
+
+  for (const thread of reviewData.threads) {
+    const [root, ...replies] = thread.comments;
+    if (!root) continue;
+
+    comments.push({
+      id: String(root.id),
+      author: root.author,
+      content: root.body,
+      htmlContent: root.body,
+      url: pr.url,
+      createdAt: root.createdAt,
+      platform,
+      replies: replies.length > 0
+        ? replies.map(reply => ({ id: String(reply.id), author: reply.author, content: reply.body, createdAt: reply.createdAt }))
+        : undefined,
+      codeContext: thread.path && thread.diffHunk
+        ? { filePath: thread.path, lines: thread.diffHunk, startLine: thread.line, endLine: thread.line }
+        : undefined
+    });
+  }
+
+  for (const general of reviewData.generalComments) {
+    comments.push({
+      id: String(general.id),
+      author: general.author,
+      content: general.body,
+      htmlContent: general.body,
+      url: pr.url,
+      createdAt: general.createdAt,
+      platform
+    });
+  }
+
+  return filter.filterConventionComments(comments).map(comment => ({ pr: pr.number, comment }));
+}
+
+/**
+ * 비슷한 코멘트 묶기 (첫 코멘트와의 유사도가 병합 임계값 이상이면 같은 묶음)
+ * @returns comments 인덱스 묶음 (큰 묶음 우선)
+ */
+export async function clusterComments(
+  comments: HarvestedComment[],
+  provider: EmbeddingProvider = createMinHashProvider()
+): Promise<number[][]> {
+  const vectors = await provider.embed(comments.map(item => item.comment.content));
+  const clusters: number[][] = [];
+
+  vectors.forEach((vector, index) => {
+    const cluster = clusters.find(members => provider.similarity(vectors[members[0]], vector) >= provider.thresholds.merge);
+    if (cluster) {
+      cluster.push(index);
+    } else {
+      clusters.push([index]);
+    }
+  });
+
+  return clusters.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * 묶음을 하나의 코멘트로 (첫 코멘트 기준, 다른 PR의 코멘트는 답글로 추가)
+ */
+export function mergeClusterComments(members: HarvestedComment[]): Comment {
+  const [first, ...others] = members;
+  if (others.length === 0) {
+    return first.comment;
+  }
+
+  return {
+    ...first.comment,
+    replies: [
+      ...(first.comment.replies ?? []),
+      ...others.flatMap(({ pr, comment }) => [
+        { id: comment.id, author: comment.author, content: `[PR #${pr}] ${comment.content}`, createdAt: comment.createdAt },
+        ...(comment.replies ?? [])
+      ])
+    ],
+    codeContext: first.comment.codeContext ?? others.find(item => item.comment.codeContext)?.comment.codeContext
+  };
+}
+
+/**
+ * LLM 비용 추정 (묶음마다 분석 1회 + 경량 호출, 토큰은 글자 수 / 4로 근사)
+ */
+export function estimateHarvestCost(
+  comments: HarvestedComment[],
+  clusters: number[][],
+  models: { analysis: string; light: string }
+): HarvestCostEstimate {
+  const commentTokens = clusters.reduce((sum, members) => sum + Math.ceil(
+    members.reduce((length, index) => length + commentLength(comments[index].comment), 0) / 4
+  ), 0);
+
+  const analysis = {
+    inputTokens: clusters.length * ANALYSIS_PROMPT_TOKENS + commentTokens,
+    outputTokens: clusters.length * ANALYSIS_OUTPUT_TOKENS
+  };
+  const light = {
+    inputTokens: clusters.length * LIGHT_INPUT_TOKENS,
+    outputTokens: clusters.length * LIGHT_OUTPUT_TOKENS
+  };
+
+  const analysisCost = calculateCost(analysis, models.analysis);
+  const lightCost = calculateCost(light, models.light);
+
+  return {
+    commentCount: comments.length,
+    clusterCount: clusters.length,
+    inputTokens: analysis.inputTokens + light.inputTokens,
+    outputTokens: analysis.outputTokens + light.outputTokens,
+    usd: Math.round((analysisCost.usd + lightCost.usd) * 1000) / 1000,
+    krw: analysisCost.krw + lightCost.krw
+  };
+}
+
+/**
+ * 작업 진행률
+ */
+export function getHarvestProgress(job: HarvestJob): HarvestProgress {
+  if (job.status === 'collecting' || !job.estimate) {
+    return { phase: 'collecting', done: job.collectedPrs.length, total: job.pullRequests?.length ?? job.limit };
+  }
+  return { phase: 'converting', done: job.nextCluster, total: job.clusters.length };
+}
+
+/**
+ * 작업 요약
+ */
+export function summarizeHarvestJob(job: HarvestJob): HarvestJobSummary {
+  return {
+    id: job.id,
+    repository: job.repository,
+    status: job.status,
+    progress: getHarvestProgress(job),
+    pullRequestCount: job.pullRequests?.length ?? 0,
+    estimate: job.estimate,
+    tokenUsage: job.tokenUsage,
+    prUrl: job.prUrl,
+    error: job.error
+  };
+}
+
+function commentLength(comment: Comment): number {
+  return comment.content.length
+    + (comment.codeContext?.lines.length ?? 0)
+    + (comment.replies ?? []).reduce((sum, reply) => sum + reply.content.length, 0);
+}
@@ -5,12 +5,15 @@
 
 import type { ParsedComment, EnhancedComment, Comment, Repository } from '../types';
 import { summarizeComment } from './parser';
+import { upsertMarkdownSection } from './markdown-sections';
+import { confirmRule } from './rule-lifecycle';
 
 export interface InstructionOptions {
   parsedComment: ParsedComment | EnhancedComment; // EnhancedComment 허용
   originalComment: Comment;
   repository: Repository;
   existingContent?: string;
+  supersedes?: string[];  // 이 규칙으로 대체되는 기존 규칙 파일 경로
 }
 
 /**
@@ -39,7 +42,7 @@ function createInstruction(options: InstructionOptions): string {
   const isEnhanced = 'llmEnhanced' in parsedComment && parsedComment.llmEnhanced;
   const enhanced = isEnhanced ? (parsedComment as EnhancedComment) : null;
 
-  // YAML frontmatter (source 정보를 구조화하여 본문에서 분리)
+  // YAML frontmatter (source 정보를 구조화하여 본문에서 분리, 상태 메타데이터 포함)
   const date = new Date().toISOString().split('T')[0];
   const frontmatter = [
     '---',
@@ -50,6 +53,11 @@ function createInstruction(options: InstructionOptions): string {
     `  date: "${date}"`,
     `category: ${parsedComment.category}`,
     `keywords: [${parsedComment.keywords.slice(0, 5).join(', ')}]`,
+    'status: active',
+    `lastConfirmed: "${date}"`,
+    ...(options.supersedes && options.supersedes.length > 0
+      ? ['supersedes:', ...options.supersedes.map(path => `  - "${path}"`)]
+      : []),
     '---',
     '',
     ''
@@ -117,21 +125,19 @@ function createInstruction(options: InstructionOptions): string {
 }
 
 /**
- * 기존 instruction 파일 업데이트 (simplified)
+ * 기존 instruction 파일 업데이트 (섹션 upsert)
+ * - 새 규칙은 ## Rules 목록에 항목 단위로 병합 (중복 항목 제외)
+ * - 코드 예시는 ## Examples 섹션에 병합
+ * - 다시 확인된 규칙이므로 lastConfirmed 갱신
  */
 function updateInstruction(options: InstructionOptions, existingContent: string): string {
   const { parsedComment, originalComment } = options;
 
-  const date = new Date().toISOString().split('T')[0];
-
   // 리뷰 맥락을 제거한 내용으로 업데이트
   const cleanedContent = stripReviewContext(originalComment.content);
 
-  // Add new section at the end
-  const addendum: string[] = [
-    '',
-    '',
-    `## Update (${date})`,
+  const sections: string[] = [
+    '## Rules',
     '',
     convertToMarkdownList(cleanedContent),
     ''
@@ -139,15 +145,16 @@ function updateInstruction(options: InstructionOptions, existingContent: string)
 
   // Add code examples if present
   if (parsedComment.codeExamples.length > 0) {
-    addendum.push('### Examples\n');
+    sections.push('## Examples\n');
     parsedComment.codeExamples.forEach(example => {
-      addendum.push('```');
-      addendum.push(example);
-      addendum.push('```\n');
+      sections.push('```');
+      sections.push(example);
+      sections.push('```\n');
     });
   }
 
-  return existingContent.trim() + addendum.join('\n') + '\n';
+  const date = new Date().toISOString().split('T')[0];
+  return confirmRule(upsertMarkdownSection(existingContent, sections.join('\n')), date);
 }
 
 /**
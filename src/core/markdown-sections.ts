@@ -0,0 +1,625 @@
+/**
+ * Review to Instruction - Markdown Section Upsert
+ * 규칙 파일(AGENTS.md, GEMINI.md, .cursor/rules/*.mdc 등)에서 대응하는 섹션을 찾아 갱신
+ * - 제목을 섹션 트리로 파싱하고, 같은 제목 또는 키워드/카테고리가 겹치는 섹션에 병합
+ * - 글머리 목록은 항목 단위, 메타데이터(**Source:**, **Keywords:**)는 줄 단위로 병합
+ * - 기존 내용의 순서는 유지하고 새 내용만 뒤에 추가
+ */
+
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const BOLD_META_REGEX = /^\*\*([^*:]+):\*\*\s*(.+)$/;
+const ITALIC_META_REGEX = /^\*([^*:]+):\s*(.+?)\*$/;
+const SEPARATOR = '---';
+
+// 값을 콤마 목록으로 합치는 메타데이터 라벨
+const MERGED_META_LABELS = new Set(['keywords', 'tags']);
+
+// 목록 항목 포함 관계로 중복을 판단할 최소 길이 (짧은 항목의 오탐 방지)
+const MIN_CONTAINED_ITEM_LENGTH = 12;
+
+// 제목이 다른 섹션에 병합하는 기준: 키워드 2개 이상, 또는 제목 단어 중 키워드/카테고리 비율
+const MIN_TITLE_KEYWORD_HITS = 2;
+const MIN_TITLE_MATCH_RATIO = 0.6;
+
+/**
+ * 섹션 매칭 옵션
+ */
+export interface SectionMatchOptions {
+  keywords?: string[];              // 제목에 키워드가 포함된 섹션을 같은 규칙으로 간주
+  category?: string;                // 키워드와 함께 매칭 점수에 반영
+  fallbackToSoleSection?: boolean;  // 매칭이 없고 같은 레벨 섹션이 하나뿐이면 그 섹션에 병합 (규칙당 파일 1개)
+  separator?: boolean;              // 새 섹션을 추가할 때 앞에 구분선(---) 삽입
+}
+
+/**
+ * Markdown 섹션 트리 노드
+ */
+export interface MarkdownSection {
+  level: number;               // 0 = 문서 루트 (첫 제목 이전 내용)
+  title: string;
+  heading: string;             // 원본 제목 줄
+  blocks: string[];            // 하위 섹션 이전 본문 (빈 줄 기준 블록)
+  children: MarkdownSection[];
+}
+
+/**
+ * 제목 비교용 정규화 (대소문자, 공백 무시)
+ */
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 블록/항목 비교용 정규화 (강조 기호, 끝 문장부호 무시)
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[.;:,!]+$/, '')
+    .trim();
+}
+
+/**
+ * 줄 배열을 빈 줄 기준 블록으로 분리 (코드 블록 내부의 빈 줄은 유지)
+ */
+function splitBlocks(lines: string[]): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  for (const line of lines) {
+    if (FENCE_REGEX.test(line)) {
+      inFence = !inFence;
+    }
+
+    if (!inFence && line.trim() === '') {
+      if (current.length > 0) {
+        blocks.push(current.join('\n'));
+        current = [];
+      }
+      continue;
+    }
+
+    current.push(line);
+  }
+
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+
+  return blocks;
+}
+
+/**
+ * Markdown을 섹션 트리로 파싱 (코드 블록 안의 제목은 무시)
+ */
+export function parseMarkdownSections(content: string): MarkdownSection {
+  const root: MarkdownSection = { level: 0, title: '', heading: '', blocks: [], children: [] };
+  const bodyLines = new Map<MarkdownSection, string[]>([[root, []]]);
+  const stack: MarkdownSection[] = [root];
+  let inFence = false;
+
+  for (const line of content.split('\n')) {
+    if (FENCE_REGEX.test(line)) {
+      inFence = !inFence;
+    }
+
+    const match = inFence ? null : line.match(HEADING_REGEX);
+    if (!match) {
+      bodyLines.get(stack[stack.length - 1])!.push(line);
+      continue;
+    }
+
+    const section: MarkdownSection = {
+      level: match[1].length,
+      title: match[2],
+      heading: line,
+      blocks: [],
+      children: []
+    };
+
+    while (stack[stack.length - 1].level >= section.level) {
+      stack.pop();
+    }
+    stack[stack.length - 1].children.push(section);
+    stack.push(section);
+    bodyLines.set(section, []);
+  }
+
+  for (const [section, lines] of bodyLines) {
+    section.blocks = splitBlocks(lines);
+  }
+
+  return root;
+}
+
+/**
+ * 섹션 트리를 Markdown으로 변환
+ */
+export function serializeMarkdownSection(section: MarkdownSection): string {
+  const parts = section.level > 0 ? [section.heading] : [];
+  parts.push(...section.blocks);
+  parts.push(...section.children.map(serializeMarkdownSection));
+  return parts.join('\n\n');
+}
+
+/**
+ * 섹션 upsert
+ * - section은 제목으로 시작하는 Markdown (예: "## Naming Conventions\n\n- ...")
+ * - 같은 제목, 또는 키워드/카테고리가 겹치는 같은 레벨 섹션이 있으면 병합
+ * - 없으면 파일 끝에 추가
+ */
+export function upsertMarkdownSection(
+  content: string,
+  section: string,
+  options: SectionMatchOptions = {}
+): string {
+  const incoming = parseMarkdownSections(section.trim());
+
+  if (incoming.children.length === 0) {
+    return appendSection(content, section.trim(), options);
+  }
+
+  // 첫 제목 이전 내용은 첫 섹션 본문으로 취급
+  incoming.children[0].blocks.unshift(...incoming.blocks);
+
+  return incoming.children.reduce(
+    (result, node) => upsertSectionNode(result, node, options),
+    content
+  );
+}
+
+/**
+ * 섹션 하나를 문서에 upsert
+ */
+function upsertSectionNode(
+  content: string,
+  node: MarkdownSection,
+  options: SectionMatchOptions
+): string {
+  const lines = content.trimEnd().split('\n');
+  const range = findSectionRange(lines, node, options);
+
+  if (!range) {
+    return appendSection(content, serializeMarkdownSection(node), options);
+  }
+
+  // 섹션 끝의 구분선(---)과 빈 줄은 다음 섹션 쪽에 유지
+  let bodyEnd = range.end;
+  while (bodyEnd > range.start + 1 && (lines[bodyEnd - 1].trim() === '' || lines[bodyEnd - 1].trim() === SEPARATOR)) {
+    bodyEnd--;
+  }
+
+  const existing = parseMarkdownSections(lines.slice(range.start, bodyEnd).join('\n')).children[0];
+  const mergedSection = serializeMarkdownSection(mergeSections(existing, node));
+  const before = lines.slice(0, range.start).join('\n');
+  const after = lines.slice(bodyEnd).join('\n');
+
+  return `${before}${before ? '\n' : ''}${mergedSection}${after ? `\n${after}` : ''}\n`;
+}
+
+/**
+ * 파일 끝에 섹션 추가
+ */
+function appendSection(content: string, section: string, options: SectionMatchOptions): string {
+  const separator = options.separator ? `${SEPARATOR}\n\n` : '';
+  return `${content.trimEnd()}\n\n${separator}${section}\n`;
+}
+
+/**
+ * 대응하는 섹션의 줄 범위 찾기
+ * 1. 같은 레벨, 같은 제목
+ * 2. 같은 레벨에서 제목에 키워드가 가장 많이 포함된 섹션 (기준 미달이면 매칭하지 않음)
+ * 3. (fallbackToSoleSection) 같은 레벨 섹션이 하나뿐이면 그 섹션
+ */
+function findSectionRange(
+  lines: string[],
+  node: MarkdownSection,
+  options: SectionMatchOptions
+): { start: number; end: number } | null {
+  const headings: Array<{ index: number; level: number; title: string }> = [];
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_REGEX.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const match = lines[i].match(HEADING_REGEX);
+    if (match) {
+      headings.push({ index: i, level: match[1].length, title: match[2] });
+    }
+  }
+
+  const candidates = headings.filter(heading => heading.level === node.level);
+  const title = normalizeTitle(node.title);
+
+  let target = candidates.find(heading => normalizeTitle(heading.title) === title);
+
+  if (!target && options.keywords && options.keywords.length > 0) {
+    const keywordTokens = new Set(options.keywords.flatMap(tokenize));
+    const categoryTokens = new Set(tokenize(options.category ?? ''));
+
+    let bestScore = 0;
+    for (const heading of candidates) {
+      const score = scoreTitle(heading.title, keywordTokens, categoryTokens);
+      if (score > bestScore) {
+        bestScore = score;
+        target = heading;
+      }
+    }
+  }
+
+  if (!target && options.fallbackToSoleSection && candidates.length === 1) {
+    target = candidates[0];
+  }
+
+  if (!target) {
+    return null;
+  }
+
+  const next = headings.find(heading => heading.index > target!.index && heading.level <= node.level);
+  return { start: target.index, end: next ? next.index : lines.length };
+}
+
+/**
+ * 제목 토큰화 (kebab-case 키워드도 단어 단위로 분리)
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1);
+}
+
+/**
+ * 섹션 제목 매칭 점수
+ * - 키워드가 하나도 없거나, 키워드 1개만 겹치고 나머지 단어가 무관하면 0
+ *   (예: "Error Logging" 규칙이 "Error Boundaries" 섹션에 병합되지 않도록)
+ */
+function scoreTitle(title: string, keywordTokens: Set<string>, categoryTokens: Set<string>): number {
+  const titleTokens = new Set(tokenize(title));
+  let keywordHits = 0;
+  let categoryHits = 0;
+
+  for (const token of titleTokens) {
+    if (keywordTokens.has(token)) {
+      keywordHits++;
+    } else if (categoryTokens.has(token)) {
+      categoryHits++;
+    }
+  }
+
+  const matchRatio = (keywordHits + categoryHits) / titleTokens.size;
+  if (keywordHits === 0 || (keywordHits < MIN_TITLE_KEYWORD_HITS && matchRatio < MIN_TITLE_MATCH_RATIO)) {
+    return 0;
+  }
+
+  return keywordHits * 2 + categoryHits;
+}
+
+/**
+ * 섹션 병합
+ * - 새 섹션 끝의 footer(구분선, 메타데이터)는 기존 footer에 합침
+ */
+function mergeSections(existing: MarkdownSection, incoming: MarkdownSection): MarkdownSection {
+  const footer = extractFooter(incoming);
+  const merged = mergeSectionTree(existing, incoming);
+
+  if (footer.length > 0) {
+    mergeFooter(merged, footer);
+  }
+
+  return merged;
+}
+
+/**
+ * 섹션 트리 병합 (하위 섹션은 같은 제목끼리 재귀 병합, 새 하위 섹션은 뒤에 추가)
+ */
+function mergeSectionTree(existing: MarkdownSection, incoming: MarkdownSection): MarkdownSection {
+  const merged: MarkdownSection = {
+    ...existing,
+    blocks: mergeBlocks(existing.blocks, incoming.blocks),
+    children: [...existing.children]
+  };
+
+  for (const child of incoming.children) {
+    const index = merged.children.findIndex(existingChild =>
+      existingChild.level === child.level && normalizeTitle(existingChild.title) === normalizeTitle(child.title)
+    );
+
+    if (index >= 0) {
+      merged.children[index] = mergeSectionTree(merged.children[index], child);
+    } else {
+      merged.children.push(child);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * 본문 블록 병합
+ * - 목록: 첫 번째 목록에 항목 단위로 병합
+ * - 메타데이터: 기존 메타데이터와 줄 단위로 병합
+ * - 그 외: 같은 블록이 없을 때만 본문 끝 footer 앞에 추가
+ */
+function mergeBlocks(existing: string[], incoming: string[]): string[] {
+  const result = [...existing];
+
+  let insertAt = result.length;
+  while (insertAt > 0 && isFooterBlock(result[insertAt - 1])) {
+    insertAt--;
+  }
+
+  for (const block of incoming) {
+    if (isListBlock(block)) {
+      const listIndex = result.findIndex(isListBlock);
+      if (listIndex >= 0) {
+        result[listIndex] = mergeListBlock(result[listIndex], block);
+        continue;
+      }
+    }
+
+    if (isMetaBlock(block) && result.some(isMetaBlock)) {
+      mergeMetaBlock(result, block);
+      continue;
+    }
+
+    const key = normalizeText(block);
+    if (result.some(existingBlock => normalizeText(existingBlock) === key)) {
+      continue;
+    }
+
+    if (isMetaBlock(block)) {
+      result.push(block);
+    } else {
+      result.splice(insertAt, 0, block);
+      insertAt++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 목록 블록 여부 (첫 줄이 항목이고 나머지는 항목 또는 들여쓴 연속 줄)
+ */
+function isListBlock(block: string): boolean {
+  const lines = block.split('\n');
+  return LIST_ITEM_REGEX.test(lines[0])
+    && lines.every(line => LIST_ITEM_REGEX.test(line) || /^\s+\S/.test(line));
+}
+
+/**
+ * 메타데이터 블록 여부 (**Label:** value 또는 *Label: value*, 앞에 구분선 한 줄 허용)
+ */
+function isMetaBlock(block: string): boolean {
+  const lines = block.split('\n');
+  const metaLines = lines.length > 1 && lines[0].trim() === SEPARATOR ? lines.slice(1) : lines;
+  return metaLines.every(line => parseMetaLine(line) !== null);
+}
+
+/**
+ * 본문 끝 footer 블록 여부 (구분선 또는 메타데이터)
+ */
+function isFooterBlock(block: string): boolean {
+  return block.trim() === SEPARATOR || isMetaBlock(block);
+}
+
+/**
+ * 목록 항목 분리 (들여쓴 하위 항목/연속 줄은 상위 항목에 포함)
+ */
+function parseListItems(block: string): string[] {
+  const lines = block.split('\n');
+  const baseIndent = lines[0].match(LIST_ITEM_REGEX)![1].length;
+  const items: string[] = [];
+
+  for (const line of lines) {
+    const match = line.match(LIST_ITEM_REGEX);
+    if (match && match[1].length === baseIndent) {
+      items.push(line);
+    } else if (items.length > 0) {
+      items[items.length - 1] += `\n${line}`;
+    }
+  }
+
+  return items;
+}
+
+/**
+ * 목록 항목의 비교용 텍스트
+ */
+function itemKey(item: string): string {
+  const [first, ...rest] = item.split('\n');
+  const text = first.replace(LIST_ITEM_REGEX, '$3');
+  return normalizeText([text, ...rest].join(' '));
+}
+
+/**
+ * 목록 항목 표시 기호 교체
+ */
+function withMarker(item: string, marker: string): string {
+  return item.replace(LIST_ITEM_REGEX, (_match, indent: string, _marker: string, text: string) => `${indent}${marker} ${text}`);
+}
+
+/**
+ * 목록 병합
+ * - 같은 항목은 건너뜀, 기존 항목을 포함하는 더 구체적인 항목은 제자리에서 교체
+ * - 새 항목은 기존 목록의 표시 기호(-, *, 1.)에 맞춰 끝에 추가
+ */
+function mergeListBlock(existing: string, incoming: string): string {
+  const items = parseListItems(existing);
+  const firstMarker = items[0].match(LIST_ITEM_REGEX)![2];
+  const ordered = /^\d/.test(firstMarker);
+
+  for (const item of parseListItems(incoming)) {
+    const key = itemKey(item);
+    if (!key) continue;
+
+    const duplicateIndex = items.findIndex(existingItem => {
+      const existingKey = itemKey(existingItem);
+      if (existingKey === key) return true;
+
+      const shorter = existingKey.length < key.length ? existingKey : key;
+      return shorter.length >= MIN_CONTAINED_ITEM_LENGTH
+        && (existingKey.includes(key) || key.includes(existingKey));
+    });
+
+    if (duplicateIndex >= 0) {
+      const existingItem = items[duplicateIndex];
+      if (key.length > itemKey(existingItem).length) {
+        items[duplicateIndex] = withMarker(item, existingItem.match(LIST_ITEM_REGEX)![2]);
+      }
+      continue;
+    }
+
+    items.push(withMarker(item, ordered ? `${items.length + 1}.` : firstMarker));
+  }
+
+  return items.join('\n');
+}
+
+/**
+ * 메타데이터 줄 파싱
+ */
+function parseMetaLine(line: string): { label: string; value: string; style: 'bold' | 'italic' } | null {
+  const bold = line.trim().match(BOLD_META_REGEX);
+  if (bold) {
+    return { label: bold[1].trim(), value: bold[2].trim(), style: 'bold' };
+  }
+
+  const italic = line.trim().match(ITALIC_META_REGEX);
+  if (italic) {
+    return { label: italic[1].trim(), value: italic[2].trim(), style: 'italic' };
+  }
+
+  return null;
+}
+
+/**
+ * 메타데이터 줄 생성 (기존 줄의 스타일 유지)
+ */
+function formatMetaLine(meta: { label: string; value: string; style: 'bold' | 'italic' }): string {
+  return meta.style === 'bold'
+    ? `**${meta.label}:** ${meta.value}`
+    : `*${meta.label}: ${meta.value}*`;
+}
+
+/**
+ * 메타데이터 블록 병합 (blocks를 직접 수정)
+ * - Keywords/Tags: 기존 줄에 값 합집합
+ * - 그 외(Source 등): 같은 줄이 없으면 마지막 메타데이터 블록 뒤에 새 블록으로 추가
+ */
+function mergeMetaBlock(blocks: string[], incoming: string): void {
+  const remainder: string[] = [];
+
+  for (const line of incoming.split('\n')) {
+    const meta = parseMetaLine(line);
+    if (!meta) continue;
+
+    const label = meta.label.toLowerCase();
+
+    if (MERGED_META_LABELS.has(label)) {
+      const blockIndex = blocks.findIndex(block =>
+        isMetaBlock(block) && block.split('\n').some(existingLine => parseMetaLine(existingLine)?.label.toLowerCase() === label)
+      );
+
+      if (blockIndex >= 0) {
+        blocks[blockIndex] = blocks[blockIndex].split('\n').map(existingLine => {
+          const existingMeta = parseMetaLine(existingLine);
+          if (!existingMeta || existingMeta.label.toLowerCase() !== label) {
+            return existingLine;
+          }
+
+          const values = [...existingMeta.value.split(','), ...meta.value.split(',')]
+            .map(value => value.trim())
+            .filter(Boolean);
+          return formatMetaLine({ ...existingMeta, value: [...new Set(values)].join(', ') });
+        }).join('\n');
+        continue;
+      }
+    }
+
+    const key = normalizeText(line);
+    const exists = blocks.some(block =>
+      isMetaBlock(block) && block.split('\n').some(existingLine => normalizeText(existingLine) === key)
+    );
+    if (!exists) {
+      remainder.push(line);
+    }
+  }
+
+  if (remainder.length > 0) {
+    let lastMetaIndex = -1;
+    blocks.forEach((block, index) => {
+      if (isMetaBlock(block)) lastMetaIndex = index;
+    });
+    blocks.splice(lastMetaIndex + 1, 0, remainder.join('\n'));
+  }
+}
+
+/**
+ * 문서 순서상 마지막 섹션
+ */
+function lastSection(section: MarkdownSection): MarkdownSection {
+  return section.children.length > 0
+    ? lastSection(section.children[section.children.length - 1])
+    : section;
+}
+
+/**
+ * 섹션 끝의 footer(구분선, 메타데이터 블록) 분리
+ */
+function extractFooter(section: MarkdownSection): string[] {
+  const last = lastSection(section);
+  const footer: string[] = [];
+
+  while (last.blocks.length > 0 && isFooterBlock(last.blocks[last.blocks.length - 1])) {
+    footer.unshift(last.blocks.pop()!);
+  }
+
+  return footer;
+}
+
+/**
+ * footer를 기존 메타데이터가 있는 섹션에 병합 (없으면 마지막 섹션 끝에 추가)
+ */
+function mergeFooter(section: MarkdownSection, footer: string[]): void {
+  const metaBlocks = footer.filter(isMetaBlock);
+  const owner = findMetaOwner(section);
+
+  if (owner && metaBlocks.length > 0) {
+    metaBlocks.forEach(block => mergeMetaBlock(owner.blocks, block));
+    return;
+  }
+
+  const last = lastSection(section);
+  for (const block of footer) {
+    if (!last.blocks.some(existing => normalizeText(existing) === normalizeText(block))) {
+      last.blocks.push(block);
+    }
+  }
+}
+
+/**
+ * 메타데이터 블록이 있는 첫 섹션 (문서 순서)
+ */
+function findMetaOwner(section: MarkdownSection): MarkdownSection | null {
+  if (section.blocks.some(isMetaBlock)) {
+    return section;
+  }
+
+  for (const child of section.children) {
+    const owner = findMetaOwner(child);
+    if (owner) return owner;
+  }
+
+  return null;
+}
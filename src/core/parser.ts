@@ -3,7 +3,7 @@
  * Intelligent keyword extraction with NLP-inspired techniques
  */
 
-import type { ParsedComment } from '../types';
+import type { ParsedComment, RepositoryCategory } from '../types';
 
 // ============================================================================
 // KEYWORD DICTIONARIES (Expanded Coverage)
@@ -211,21 +211,23 @@ const CODE_STRUCTURE_KEYWORDS = [
 
 /**
  * Parse comment with intelligent keyword extraction
+ * @param categories User/repository-defined categories (added to the built-in taxonomy)
  */
-export function parseComment(content: string): ParsedComment {
+export function parseComment(content: string, categories?: RepositoryCategory[]): ParsedComment {
   const lowercaseContent = content.toLowerCase();
+  const categoryKeywords = buildCategoryKeywords(categories);
 
   // 1. Extract keywords using multiple strategies
-  const keywords = extractKeywords(content, lowercaseContent);
+  const keywords = extractKeywords(content, lowercaseContent, categoryKeywords);
 
   // 2. Classify category with improved scoring
-  const category = classifyCategory(content, lowercaseContent, keywords);
+  const category = classifyCategory(content, lowercaseContent, keywords, categoryKeywords);
 
   // 3. Extract code examples
   const codeExamples = extractCodeExamples(content);
 
   // 4. Generate filename
-  const suggestedFileName = generateFileName(category, keywords);
+  const suggestedFileName = generateFileName(category, keywords, categoryKeywords);
 
   return {
     content,
@@ -236,10 +238,30 @@ export function parseComment(content: string): ParsedComment {
   };
 }
 
+/**
+ * Category taxonomy: built-in keywords plus custom categories
+ * (a custom category's name counts as one of its keywords)
+ */
+function buildCategoryKeywords(categories?: RepositoryCategory[]): Record<string, string[]> {
+  const categoryKeywords = { ...CATEGORY_KEYWORDS };
+
+  for (const category of categories ?? []) {
+    categoryKeywords[category.name] = [
+      ...new Set([...(categoryKeywords[category.name] ?? []), category.name, ...(category.keywords ?? [])])
+    ];
+  }
+
+  return categoryKeywords;
+}
+
 /**
  * Intelligent keyword extraction with multiple strategies
  */
-function extractKeywords(content: string, lowercaseContent: string): string[] {
+function extractKeywords(
+  content: string,
+  lowercaseContent: string,
+  categoryKeywords: Record<string, string[]>
+): string[] {
   const keywordScores = new Map<string, number>();
 
   // Check if this is a convention comment
@@ -252,7 +274,7 @@ function extractKeywords(content: string, lowercaseContent: string): string[] {
   }
 
   // Strategy 1: Category keywords (highest priority)
-  extractCategoryKeywords(lowercaseContent, keywordScores);
+  extractCategoryKeywords(lowercaseContent, keywordScores, categoryKeywords);
 
   // Strategy 2: Contextual extraction (should/must/avoid patterns)
   extractContextualKeywords(content, keywordScores);
@@ -287,9 +309,10 @@ function extractKeywords(content: string, lowercaseContent: string): string[] {
  */
 function extractCategoryKeywords(
   lowercaseContent: string,
-  scores: Map<string, number>
+  scores: Map<string, number>,
+  categoryKeywordMap: Record<string, string[]>
 ): void {
-  for (const [category, categoryKeywords] of Object.entries(CATEGORY_KEYWORDS)) {
+  for (const [category, categoryKeywords] of Object.entries(categoryKeywordMap)) {
     for (const keyword of categoryKeywords) {
       if (lowercaseContent.includes(keyword.toLowerCase())) {
         addScore(scores, keyword.toLowerCase(), 5);
@@ -490,6 +513,13 @@ function addScore(scores: Map<string, number>, keyword: string, score: number):
   scores.set(keyword, (scores.get(keyword) || 0) + score);
 }
 
+/**
+ * Helper: Escape keyword for use in a RegExp (custom keywords may contain symbols)
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 // ============================================================================
 // CATEGORY CLASSIFICATION
 // ============================================================================
@@ -500,13 +530,14 @@ function addScore(scores: Map<string, number>, keyword: string, score: number):
 function classifyCategory(
   content: string,
   lowercaseContent: string,
-  keywords: string[]
+  keywords: string[],
+  categoryKeywordMap: Record<string, string[]>
 ): string {
   const categoryScores: Record<string, number> = {};
 
   // 1. Keyword-based scoring
   for (const keyword of keywords) {
-    for (const [category, categoryKeywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    for (const [category, categoryKeywords] of Object.entries(categoryKeywordMap)) {
       if (categoryKeywords.some(ck => ck.toLowerCase() === keyword)) {
         categoryScores[category] = (categoryScores[category] || 0) + 3;
       }
@@ -514,9 +545,9 @@ function classifyCategory(
   }
 
   // 2. Content-based scoring (word frequency)
-  for (const [category, categoryKeywords] of Object.entries(CATEGORY_KEYWORDS)) {
+  for (const [category, categoryKeywords] of Object.entries(categoryKeywordMap)) {
     for (const keyword of categoryKeywords) {
-      const regex = new RegExp(`\\b${keyword.toLowerCase()}\\b`, 'g');
+      const regex = new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}\\b`, 'g');
       const matches = lowercaseContent.match(regex);
       if (matches) {
         categoryScores[category] = (categoryScores[category] || 0) + matches.length;
@@ -602,7 +633,11 @@ function extractCodeExamples(content: string): string[] {
  * Generate filename from category and keywords
  * 카테고리 수준의 추상화된 파일명을 생성하여 파일 폭증을 방지
  */
-function generateFileName(category: string, keywords: string[]): string {
+function generateFileName(
+  category: string,
+  keywords: string[],
+  categoryKeywordMap: Record<string, string[]>
+): string {
   // 카테고리가 충분히 구체적이면 그대로 사용
   const specificCategories = [
     'naming', 'style', 'architecture', 'testing', 'security',
@@ -619,7 +654,7 @@ function generateFileName(category: string, keywords: string[]): string {
   if (genericCategories.includes(category) && keywords.length > 0) {
     // tech 스택 키워드 제외, 카테고리 레벨의 키워드만 사용
     const categoryLevelKeyword = keywords.find(k =>
-      specificCategories.includes(k) || CATEGORY_KEYWORDS[k] !== undefined
+      specificCategories.includes(k) || categoryKeywordMap[k] !== undefined
     );
 
     if (categoryLevelKeyword) {
@@ -4,9 +4,11 @@
  * Feature 1: 다중 파일 PR 생성 지원
  */
 
-import type { ApiClient } from '../background/api-client';
+import type { ApiClient, MergedPullRequest } from '../background/api-client';
 import type { Repository, ParsedComment, Comment, FileGenerationResult } from '../types';
 import type { ILLMClient } from '../background/llm/types';
+import { formatFinding } from './secret-scanner';
+import { withProvenanceLedger } from './provenance-ledger';
 
 export interface PrCreationOptions {
   client: ApiClient;
@@ -18,6 +20,11 @@ export interface PrCreationOptions {
   isUpdate: boolean;
 }
 
+/**
+ * 기본 브랜치 접두사
+ */
+export const DEFAULT_BRANCH_PREFIX = 'ai-instruction/';
+
 export interface PrCreationResult {
   success: boolean;
   prUrl?: string;
@@ -161,8 +168,9 @@ export async function createPullRequest(
 
 /**
  * 브랜치명 생성 (타임스탬프 포함하여 고유성 보장)
+ * @param prefix 브랜치 접두사 (저장소 설정 branchPrefix)
  */
-function generateBranchName(parsedComment: ParsedComment): string {
+function generateBranchName(parsedComment: ParsedComment, prefix: string = DEFAULT_BRANCH_PREFIX): string {
   const keyword = parsedComment.keywords[0] || parsedComment.category;
   const normalizedKeyword = keyword
     .toLowerCase()
@@ -181,7 +189,7 @@ function generateBranchName(parsedComment: ParsedComment): string {
     String(now.getSeconds()).padStart(2, '0')
   ].join('');
 
-  return `ai-instruction/add-${normalizedKeyword}-convention-${timestamp}`;
+  return `${prefix}add-${normalizedKeyword}-convention-${timestamp}`;
 }
 
 /**
@@ -354,6 +362,10 @@ export interface MultiFilePrCreationOptions {
   llmClient?: ILLMClient;  // LLM 클라이언트 (optional, 요약 기능용)
   isWrapup?: boolean;  // Wrapup 모드 여부
   wrapupCommentCount?: number;  // Wrapup 모드일 때 총 코멘트 수
+  sourcePullRequests?: MergedPullRequest[];  // 히스토리 수집: 코멘트를 모은 머지된 PR/MR
+  branchPrefix?: string;  // 브랜치 접두사 (저장소 설정, 기본: 'ai-instruction/')
+  labels?: string[];  // PR/MR 라벨 (저장소 설정)
+  reviewers?: string[];  // PR/MR 리뷰어 (저장소 설정)
 }
 
 /**
@@ -364,17 +376,30 @@ export interface MultiFilePrCreationOptions {
 export async function createPullRequestWithMultipleFiles(
   options: MultiFilePrCreationOptions
 ): Promise<PrCreationResult> {
-  const { client, repository, parsedComment, originalComment, files, llmClient, isWrapup, wrapupCommentCount } = options;
+  const {
+    client, repository, parsedComment, originalComment, files, llmClient, isWrapup, wrapupCommentCount,
+    sourcePullRequests, branchPrefix, labels, reviewers
+  } = options;
 
   try {
-    // 0. LLM 요약 생성 (optional)
+    // 0. 커밋 전 검사에서 차단된 항목이 있으면 브랜치를 만들기 전에 중단
+    const blocked = files.flatMap(file => file.secretFindings ?? []).filter(finding => finding.blocked);
+    if (blocked.length > 0) {
+      throw new Error(
+        `⛔ Commit blocked: generated files contain sensitive content.\n\n` +
+        blocked.map(finding => `• ${formatFinding(finding)}`).join('\n') +
+        `\n\n💡 Code from secret files (.env, keys, credentials) is never committed; add this rule manually instead.`
+      );
+    }
+
+    // 0-1. LLM 요약 생성 (optional)
     let llmSummary: string | null = null;
     if (llmClient) {
       llmSummary = await summarizeCommentForPR(llmClient, parsedComment);
     }
 
     // 1. 브랜치명 생성
-    const branchName = generateBranchName(parsedComment);
+    const branchName = generateBranchName(parsedComment, branchPrefix);
 
     // 2. 타겟 브랜치 결정 (baseBranch가 있으면 우선 사용, 없으면 branch 사용)
     const targetBranch = repository.baseBranch || repository.branch;
@@ -450,7 +475,8 @@ export async function createPullRequestWithMultipleFiles(
     }
 
 
-    // 4. 모든 파일을 하나의 커밋으로 생성
+    // 4. 모든 파일을 하나의 커밋으로 생성 (규칙 항목 출처 기록도 같은 커밋으로 갱신)
+    const committedFiles = await withProvenanceLedger(client, repository, files);
     const commitMessage = generateUnifiedCommitMessage(
       parsedComment,
       originalComment,
@@ -461,9 +487,10 @@ export async function createPullRequestWithMultipleFiles(
 
     const commitSuccess = await client.createOrUpdateMultipleFiles(
       repository,
-      files.map(file => ({
+      committedFiles.map(file => ({
         path: file.filePath,
-        content: file.content
+        content: file.content,
+        ...(file.deleted ? { delete: true } : {})
       })),
       commitMessage,
       branchName,
@@ -476,10 +503,12 @@ export async function createPullRequestWithMultipleFiles(
 
     // 5. PR/MR 생성
     const prTitle = isWrapup
-      ? `docs: Add AI Instructions from ${wrapupCommentCount} PR/MR conventions`
+      ? sourcePullRequests
+        ? `docs: Add AI Instructions harvested from ${sourcePullRequests.length} merged PR/MRs`
+        : `docs: Add AI Instructions from ${wrapupCommentCount} PR/MR conventions`
       : generateMultiFilePrTitle(parsedComment, files, llmSummary);
     const prBody = isWrapup
-      ? generateWrapupPrBody(repository, files, wrapupCommentCount || 0)
+      ? generateWrapupPrBody(repository, files, wrapupCommentCount || 0, sourcePullRequests)
       : generateMultiFilePrBody(parsedComment, originalComment, repository, files);
 
     const prResult = await client.createPullRequest(
@@ -487,7 +516,8 @@ export async function createPullRequestWithMultipleFiles(
       prTitle,
       prBody,
       branchName,
-      targetBranch
+      targetBranch,
+      { labels, reviewers }
     );
 
     if (!prResult.success) {
@@ -567,7 +597,12 @@ function generateMultiFilePrTitle(
     const typeMap: Record<string, string> = {
       'claude-code': 'Claude Code',
       'cursor': 'Cursor',
-      'windsurf': 'Windsurf'
+      'windsurf': 'Windsurf',
+      'copilot': 'GitHub Copilot',
+      'gemini': 'Gemini CLI',
+      'aider': 'Aider',
+      'cline': 'Cline',
+      'custom': 'Custom Target'
     };
     return typeMap[f.projectType] || f.projectType;
   });
@@ -616,17 +651,23 @@ function generateMultiFilePrBody(
   const typeMap: Record<string, string> = {
     'claude-code': 'Claude Code',
     'cursor': 'Cursor',
-    'windsurf': 'Windsurf'
+    'windsurf': 'Windsurf',
+    'copilot': 'GitHub Copilot',
+    'gemini': 'Gemini CLI',
+    'aider': 'Aider',
+    'cline': 'Cline',
+    'custom': 'Custom Target'
   };
 
   // 파일 목록 (간략)
   files.forEach((file, index) => {
     const typeName = typeMap[file.projectType] || file.projectType;
-    const status = file.isUpdate ? 'Updated' : 'New';
+    const status = file.deleted ? 'Removed' : file.isUpdate ? 'Updated' : 'New';
     sections.push(`${index + 1}. **${typeName}** (${status}): \`${file.filePath}\``);
   });
 
   sections.push('');
+  sections.push(...generateRuleStatusSections(files));
   sections.push('## Metadata');
   sections.push(`- **Category:** ${parsedComment.category}`);
   sections.push(`- **Keywords:** ${parsedComment.keywords.join(', ')}`);
@@ -657,26 +698,63 @@ function generateMultiFilePrBody(
   return sections.join('\n');
 }
 
+/**
+ * 대체된 기존 규칙, 마이그레이션 후 삭제하는 레거시 파일, 해결하지 않은 모순 (리뷰어 확인용, 없으면 빈 배열)
+ */
+function generateRuleStatusSections(files: FileGenerationResult[]): string[] {
+  const sections: string[] = [];
+
+  const removed = files.filter(file => file.deleted);
+  if (removed.length > 0) {
+    sections.push('## Removed Files', '');
+    sections.push(...removed.map(file => `- \`${file.filePath}\` is removed; its rules are migrated in this PR`));
+    sections.push('');
+  }
+
+  const superseded = files.flatMap(file => (file.supersedes ?? []).map(path => ({ path, by: file.filePath })));
+  if (superseded.length > 0) {
+    sections.push('## Superseded Rules', '');
+    sections.push(...superseded.map(({ path, by }) => `- \`${path}\` is marked deprecated, superseded by \`${by}\``));
+    sections.push('');
+  }
+
+  const conflicts = files.flatMap(file => file.conflicts ?? []);
+  if (conflicts.length > 0) {
+    sections.push('## ⚠️ Conflicts with Existing Rules', '');
+    sections.push(...conflicts.map(conflict => `- \`${conflict.filePath}\`: "${conflict.existingRule}" (${conflict.reasoning})`));
+    sections.push('');
+  }
+
+  return sections;
+}
+
 /**
  * Wrapup PR 본문 생성 (전체 PR 변환용)
  */
 function generateWrapupPrBody(
   repository: Repository,
   files: FileGenerationResult[],
-  commentCount: number
+  commentCount: number,
+  sourcePullRequests?: MergedPullRequest[]
 ): string {
   const sections: string[] = [];
 
   // Overview
   sections.push('## Overview');
   sections.push('');
-  sections.push(`This PR adds AI Instructions extracted from **${commentCount} convention comments** in PR #${repository.prNumber}.`);
+  sections.push(sourcePullRequests
+    ? `This PR adds AI Instructions consolidated from **${commentCount} conventions** raised across the last ${sourcePullRequests.length} merged PR/MRs.`
+    : `This PR adds AI Instructions extracted from **${commentCount} convention comments** in PR #${repository.prNumber}.`);
   sections.push('');
   sections.push('All comments have been analyzed and converted into structured AI Instructions for:');
   sections.push('- Claude Code (.claude/rules/)');
   sections.push('- Cursor (.cursor/rules/)');
   sections.push('- Windsurf (.windsurf/rules/)');
   sections.push('- Codex (AGENTS.md)');
+  sections.push('- GitHub Copilot (.github/copilot-instructions.md, .github/instructions/)');
+  sections.push('- Gemini CLI (GEMINI.md)');
+  sections.push('- Aider (CONVENTIONS.md)');
+  sections.push('- Cline (.clinerules/)');
   sections.push('');
 
   // File Summary
@@ -687,7 +765,12 @@ function generateWrapupPrBody(
     'claude-code': 'Claude Code',
     'cursor': 'Cursor',
     'windsurf': 'Windsurf',
-    'codex': 'Codex'
+    'codex': 'Codex',
+    'copilot': 'GitHub Copilot',
+    'gemini': 'Gemini CLI',
+    'aider': 'Aider',
+    'cline': 'Cline',
+    'custom': 'Custom Target'
   };
 
   // 프로젝트 타입별 그룹화
@@ -718,11 +801,16 @@ function generateWrapupPrBody(
   });
 
   sections.push('');
+  sections.push(...generateRuleStatusSections(files));
 
   // Metadata
   sections.push('## Metadata');
   sections.push('');
-  sections.push(`- **Source PR**: #${repository.prNumber}`);
+  if (sourcePullRequests) {
+    sections.push(`- **Source PRs**: ${sourcePullRequests.map(pr => `#${pr.number}`).join(', ')}`);
+  } else {
+    sections.push(`- **Source PR**: #${repository.prNumber}`);
+  }
   sections.push(`- **Total Conventions**: ${commentCount}`);
   sections.push(`- **Total Files**: ${files.length}`);
   sections.push('');
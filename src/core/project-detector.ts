@@ -4,13 +4,14 @@
  */
 
 import type { ApiClient } from '../background/api-client';
-import type { Repository } from '../types';
+import type { Repository, CustomTargetConfig } from '../types';
 import type {
   ProjectType,
   ProjectTypeConfig,
   ProjectTypeDetectionResult,
   CachedDetectionResult
 } from '../types/project-types';
+import { detectClineRulesLayout } from './file-matcher';
 
 /**
  * 프로젝트 타입 감지기
@@ -22,13 +23,15 @@ export class ProjectTypeDetector {
 
   /**
    * 프로젝트 타입 감지 (캐싱 적용)
+   * - customTarget: Popup에서 구성한 사용자 정의 출력 대상 (선택)
    */
   async detect(
     client: ApiClient,
-    repository: Repository
+    repository: Repository,
+    customTarget?: CustomTargetConfig
   ): Promise<ProjectTypeDetectionResult> {
     // 캐시 확인
-    const cacheKey = this.getCacheKey(repository);
+    const cacheKey = this.getCacheKey(repository, customTarget);
     const cached = this.cache.get(cacheKey);
 
     if (cached && !this.isCacheExpired(cached)) {
@@ -41,7 +44,12 @@ export class ProjectTypeDetector {
       this.detectClaudeCode(client, repository),
       this.detectCursor(client, repository),
       this.detectWindsurf(client, repository),
-      this.detectCodex(client, repository)
+      this.detectCodex(client, repository),
+      this.detectCopilot(client, repository),
+      this.detectGemini(client, repository),
+      this.detectAider(client, repository),
+      this.detectCline(client, repository),
+      this.detectCustom(customTarget)
     ];
 
     const results = await Promise.all(detectionPromises);
@@ -104,21 +112,28 @@ export class ProjectTypeDetector {
   }
 
   /**
-   * Cursor 감지 (.cursor/rules/ 디렉토리)
+   * Cursor 감지 (.cursor/rules/ 디렉토리 또는 레거시 .cursorrules 파일)
    */
   private async detectCursor(
     client: ApiClient,
     repository: Repository
   ): Promise<{ detected: boolean; type: ProjectType; config: ProjectTypeConfig }> {
     try {
-      const contents = await client.getDirectoryContents(repository, '.cursor/rules');
+      const [contents, legacyFile] = await Promise.all([
+        client.getDirectoryContents(repository, '.cursor/rules').catch(() => null),
+        client.getFileContent(repository, '.cursorrules').catch(() => null)
+      ]);
+      const hasRulesDir = contents !== null && contents.length > 0;
+      const hasLegacyFile = legacyFile !== null;
+
       return {
-        detected: contents !== null && contents.length > 0,
+        detected: hasRulesDir || hasLegacyFile,
         type: 'cursor',
         config: {
           type: 'cursor',
-          detectionPath: '.cursor/rules/',
-          enabled: true
+          detectionPath: hasRulesDir || !hasLegacyFile ? '.cursor/rules/' : '.cursorrules',
+          enabled: true,
+          ...(hasLegacyFile && { legacyPath: '.cursorrules' })
         }
       };
     } catch (error) {
@@ -198,10 +213,186 @@ export class ProjectTypeDetector {
   }
 
   /**
-   * 캐시 키 생성
+   * GitHub Copilot 감지 (.github/copilot-instructions.md 파일 또는 .github/instructions/ 디렉토리)
+   */
+  private async detectCopilot(
+    client: ApiClient,
+    repository: Repository
+  ): Promise<{ detected: boolean; type: ProjectType; config: ProjectTypeConfig }> {
+    try {
+      const fileContent = await client.getFileContent(repository, '.github/copilot-instructions.md');
+      if (fileContent !== null) {
+        return {
+          detected: true,
+          type: 'copilot',
+          config: {
+            type: 'copilot',
+            detectionPath: '.github/copilot-instructions.md',
+            enabled: true
+          }
+        };
+      }
+
+      const contents = await client.getDirectoryContents(repository, '.github/instructions');
+      return {
+        detected: contents !== null && contents.length > 0,
+        type: 'copilot',
+        config: {
+          type: 'copilot',
+          detectionPath: '.github/instructions/',
+          enabled: true
+        }
+      };
+    } catch (error) {
+      return {
+        detected: false,
+        type: 'copilot',
+        config: {
+          type: 'copilot',
+          detectionPath: '.github/copilot-instructions.md',
+          enabled: false
+        }
+      };
+    }
+  }
+
+  /**
+   * Gemini CLI 감지 (GEMINI.md 파일 또는 .gemini/ 디렉토리)
+   */
+  private async detectGemini(
+    client: ApiClient,
+    repository: Repository
+  ): Promise<{ detected: boolean; type: ProjectType; config: ProjectTypeConfig }> {
+    try {
+      const [fileContent, altContent] = await Promise.all([
+        client.getFileContent(repository, 'GEMINI.md').catch(() => null),
+        client.getDirectoryContents(repository, '.gemini')
+          .then(contents => contents !== null && contents.length > 0)
+          .catch(() => false)
+      ]);
+      const hasFile = fileContent !== null;
+
+      return {
+        detected: hasFile || altContent,
+        type: 'gemini',
+        config: {
+          type: 'gemini',
+          detectionPath: hasFile || !altContent ? 'GEMINI.md' : '.gemini/',
+          enabled: true
+        }
+      };
+    } catch (error) {
+      return {
+        detected: false,
+        type: 'gemini',
+        config: {
+          type: 'gemini',
+          detectionPath: 'GEMINI.md',
+          enabled: false
+        }
+      };
+    }
+  }
+
+  /**
+   * Aider 감지 (CONVENTIONS.md 파일 또는 .aider.conf.yml 설정 파일)
+   */
+  private async detectAider(
+    client: ApiClient,
+    repository: Repository
+  ): Promise<{ detected: boolean; type: ProjectType; config: ProjectTypeConfig }> {
+    try {
+      const [fileContent, altContent] = await Promise.all([
+        client.getFileContent(repository, 'CONVENTIONS.md').catch(() => null),
+        client.getFileContent(repository, '.aider.conf.yml')
+          .then(content => content !== null)
+          .catch(() => false)
+      ]);
+      const hasFile = fileContent !== null;
+
+      return {
+        detected: hasFile || altContent,
+        type: 'aider',
+        config: {
+          type: 'aider',
+          detectionPath: hasFile || !altContent ? 'CONVENTIONS.md' : '.aider.conf.yml',
+          enabled: true
+        }
+      };
+    } catch (error) {
+      return {
+        detected: false,
+        type: 'aider',
+        config: {
+          type: 'aider',
+          detectionPath: 'CONVENTIONS.md',
+          enabled: false
+        }
+      };
+    }
+  }
+
+  /**
+   * Cline 감지 (.clinerules/ 디렉토리 또는 레거시 .clinerules 단일 파일)
+   */
+  private async detectCline(
+    client: ApiClient,
+    repository: Repository
+  ): Promise<{ detected: boolean; type: ProjectType; config: ProjectTypeConfig }> {
+    try {
+      const layout = await detectClineRulesLayout(client, repository);
+
+      return {
+        detected: layout !== null,
+        type: 'cline',
+        config: {
+          type: 'cline',
+          detectionPath: layout === 'file' ? '.clinerules' : '.clinerules/',
+          enabled: true
+        }
+      };
+    } catch (error) {
+      return {
+        detected: false,
+        type: 'cline',
+        config: {
+          type: 'cline',
+          detectionPath: '.clinerules/',
+          enabled: false
+        }
+      };
+    }
+  }
+
+  /**
+   * 사용자 정의 대상 감지
+   * - 저장소 파일이 아니라 사용자가 Popup에서 활성화한 설정으로 판단
+   *   (대상 디렉토리가 아직 없어도 첫 규칙부터 생성)
+   */
+  private async detectCustom(
+    customTarget?: CustomTargetConfig
+  ): Promise<{ detected: boolean; type: ProjectType; config: ProjectTypeConfig }> {
+    const directory = customTarget?.directory.trim() || '.';
+
+    return {
+      detected: !!customTarget,
+      type: 'custom',
+      config: {
+        type: 'custom',
+        detectionPath: directory.endsWith('/') ? directory : `${directory}/`,
+        enabled: !!customTarget
+      }
+    };
+  }
+
+  /**
+   * 캐시 키 생성 (사용자 정의 대상 설정이 바뀌면 다시 감지)
    */
-  private getCacheKey(repository: Repository): string {
-    return `${repository.platform}:${repository.owner}/${repository.name}:${repository.branch}`;
+  private getCacheKey(repository: Repository, customTarget?: CustomTargetConfig): string {
+    const base = `${repository.platform}:${repository.owner}/${repository.name}:${repository.branch}`;
+    return customTarget
+      ? `${base}:custom:${customTarget.directory}:${customTarget.mode}:${customTarget.fileName}${customTarget.extension}`
+      : base;
   }
 
   /**
@@ -0,0 +1,154 @@
+/**
+ * Review to Instruction - Provenance Ledger
+ * 규칙 항목별 출처 기록 (.claude/rules/.provenance.json)
+ * - 규칙 파일과 같은 커밋으로 갱신 (병합된 파일에서도 항목마다 출처 유지)
+ * - 파일에서 사라진 항목의 출처는 제거
+ */
+
+import type { ApiClient } from '../background/api-client';
+import type { Comment, DiscussionThread, FileGenerationResult, ProvenanceEntry, ProvenanceLedger, Repository, RuleProvenance } from '../types';
+
+export const PROVENANCE_LEDGER_PATH = '.claude/rules/.provenance.json';
+
+/**
+ * 변환한 코멘트의 출처 정보 (스레드가 있으면 스레드 참여자 포함)
+ */
+export function buildRuleProvenance(
+  repository: Repository,
+  comment: Comment,
+  thread?: DiscussionThread
+): RuleProvenance {
+  const authors = thread
+    ? thread.comments.map(threadComment => threadComment.author)
+    : [comment.author, ...(comment.replies ?? []).map(reply => reply.author)];
+
+  return {
+    pr: repository.prNumber,
+    commentId: comment.id,
+    url: comment.url,
+    reviewer: comment.author,
+    participants: [...new Set(authors.filter(Boolean))],
+    date: new Date().toISOString().split('T')[0]
+  };
+}
+
+/**
+ * 규칙 항목 추출 (frontmatter, 코드 블록 제외한 목록 항목)
+ */
+export function extractRuleItems(content: string): string[] {
+  const items: string[] = [];
+  let inCode = false;
+
+  for (const line of content.replace(/^---\s*\n[\s\S]*?\n---\s*\n?/, '').split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('```')) {
+      inCode = !inCode;
+      continue;
+    }
+
+    const item = !inCode ? trimmed.match(/^[-*+]\s+(.+)$/)?.[1] : undefined;
+    if (item) {
+      items.push(item.trim());
+    }
+  }
+
+  return items;
+}
+
+/**
+ * 이번 변환에서 추가된 항목의 출처 (기존 내용에 없던 항목만)
+ */
+export function collectProvenance(
+  content: string,
+  existingContent: string | undefined,
+  source: RuleProvenance
+): ProvenanceEntry[] {
+  const existing = new Set(existingContent ? extractRuleItems(existingContent) : []);
+
+  return [...new Set(extractRuleItems(content))]
+    .filter(rule => !existing.has(rule))
+    .map(rule => ({ rule, ...source }));
+}
+
+/**
+ * 출처 기록 파싱 (없거나 형식이 다르면 빈 기록)
+ */
+export function parseProvenanceLedger(json: string | null): ProvenanceLedger {
+  try {
+    const parsed = json ? JSON.parse(json) : null;
+    if (parsed && parsed.version === 1 && parsed.files && typeof parsed.files === 'object') {
+      return parsed as ProvenanceLedger;
+    }
+  } catch (error) {
+    console.warn('[ProvenanceLedger] Invalid ledger, starting a new one:', error);
+  }
+  return { version: 1, files: {} };
+}
+
+/**
+ * 커밋할 파일로 출처 기록 갱신
+ * - 출처가 있는 파일과 이미 기록된 파일만 대상 (스킵된 파일 제외)
+ * - 파일에 남아 있는 항목만 유지하고, 새 항목은 이번 변환의 출처로 추가
+ */
+export function updateProvenanceLedger(ledger: ProvenanceLedger, files: FileGenerationResult[]): ProvenanceLedger {
+  const updated: Record<string, ProvenanceEntry[]> = { ...ledger.files };
+
+  for (const file of files) {
+    if (file.skipped || (!file.provenance && !updated[file.filePath])) {
+      continue;
+    }
+
+    const items = new Set(extractRuleItems(file.content));
+    const entries = (updated[file.filePath] ?? []).filter(entry => items.has(entry.rule));
+
+    for (const entry of file.provenance ?? []) {
+      if (items.has(entry.rule) && !entries.some(existing => existing.rule === entry.rule)) {
+        entries.push(entry);
+      }
+    }
+
+    if (entries.length > 0) {
+      updated[file.filePath] = entries;
+    } else {
+      delete updated[file.filePath];
+    }
+  }
+
+  // 경로 순으로 정렬 (diff 안정성)
+  const sorted = Object.fromEntries(Object.keys(updated).sort().map(path => [path, updated[path]]));
+  return { version: 1, files: sorted };
+}
+
+/**
+ * 출처 기록 파일을 커밋 목록에 추가 (저장소의 기존 기록을 읽어 갱신, 변경이 없으면 그대로)
+ */
+export async function withProvenanceLedger(
+  client: ApiClient,
+  repository: Repository,
+  files: FileGenerationResult[]
+): Promise<FileGenerationResult[]> {
+  if (!files.some(file => file.provenance && file.provenance.length > 0)) {
+    return files;
+  }
+
+  const existingFile = await client.getFileContent(repository, PROVENANCE_LEDGER_PATH).catch(() => null);
+  const existingJson = existingFile
+    ? new TextDecoder().decode(Uint8Array.from(atob(existingFile.content), c => c.charCodeAt(0)))
+    : null;
+
+  const ledger = updateProvenanceLedger(parseProvenanceLedger(existingJson), files);
+  const content = JSON.stringify(ledger, null, 2) + '\n';
+  if (content === existingJson) {
+    return files;
+  }
+
+  return [
+    ...files,
+    {
+      projectType: 'claude-code',
+      filePath: PROVENANCE_LEDGER_PATH,
+      content,
+      isUpdate: !!existingFile
+    }
+  ];
+}
@@ -0,0 +1,213 @@
+/**
+ * Review to Instruction - Repository Config
+ * 대상 저장소의 `.review-to-instruction.yml` 파싱 및 검증
+ *
+ * 예시:
+ *   projectTypes: [claude-code, cursor]
+ *   directories:
+ *     payments: [billing, invoice, stripe]
+ *   categories:
+ *     - name: billing
+ *       directory: payments
+ *       keywords: [invoice, refund]
+ *       description: Billing and payment flows
+ *   namingPattern: kebab-case
+ *   branchPrefix: rules/
+ *   labels: [documentation]
+ *   reviewers: [alice]
+ *   language: ko
+ */
+
+import type { ProjectType, RepositoryConfig, RepositoryCategory, NamingPattern } from '../types';
+import { parseYaml } from '../utils/yaml';
+
+export const REPOSITORY_CONFIG_PATH = '.review-to-instruction.yml';
+
+const PROJECT_TYPES: ProjectType[] = ['claude-code', 'cursor', 'windsurf', 'codex', 'copilot', 'gemini', 'aider', 'cline', 'custom'];
+const NAMING_PATTERNS: NamingPattern[] = ['kebab-case', 'PascalCase', 'snake_case'];
+
+/**
+ * 설정 파일 파싱 (잘못된 값은 항목별 메시지를 모아 에러)
+ */
+export function parseRepositoryConfig(source: string): RepositoryConfig {
+  const parsed = parseYaml(source);
+  if (parsed === null) {
+    return {};
+  }
+  if (!isRecord(parsed)) {
+    throw new Error(`${REPOSITORY_CONFIG_PATH}: 최상위는 매핑이어야 합니다.`);
+  }
+
+  const errors: string[] = [];
+  const config: RepositoryConfig = {};
+
+  if (parsed.projectTypes !== undefined) {
+    const types = readStringList(parsed.projectTypes, 'projectTypes', errors);
+    const unknown = types?.filter(type => !PROJECT_TYPES.includes(type as ProjectType)) ?? [];
+    if (unknown.length > 0) {
+      errors.push(`projectTypes: 지원하지 않는 타입 (${unknown.join(', ')}), 가능한 값: ${PROJECT_TYPES.join(', ')}`);
+    } else if (types) {
+      config.projectTypes = types as ProjectType[];
+    }
+  }
+
+  if (parsed.directories !== undefined) {
+    if (!isRecord(parsed.directories)) {
+      errors.push('directories: "디렉토리: [키워드, ...]" 매핑이어야 합니다.');
+    } else {
+      config.directories = {};
+      for (const [directory, keywords] of Object.entries(parsed.directories)) {
+        const list = readStringList(keywords, `directories.${directory}`, errors);
+        if (list) {
+          config.directories[normalizeDirectory(directory)] = list;
+        }
+      }
+    }
+  }
+
+  if (parsed.categories !== undefined) {
+    config.categories = readCategories(parsed.categories, errors);
+  }
+
+  if (parsed.namingPattern !== undefined) {
+    if (NAMING_PATTERNS.includes(parsed.namingPattern as NamingPattern)) {
+      config.namingPattern = parsed.namingPattern as NamingPattern;
+    } else {
+      errors.push(`namingPattern: ${NAMING_PATTERNS.join(', ')} 중 하나여야 합니다.`);
+    }
+  }
+
+  for (const key of ['branchPrefix', 'language'] as const) {
+    const value = parsed[key];
+    if (value === undefined) continue;
+    if (typeof value === 'string' && value.trim()) {
+      config[key] = value.trim();
+    } else {
+      errors.push(`${key}: 비어 있지 않은 문자열이어야 합니다.`);
+    }
+  }
+
+  for (const key of ['labels', 'reviewers'] as const) {
+    if (parsed[key] === undefined) continue;
+    const list = readStringList(parsed[key], key, errors);
+    if (list) {
+      config[key] = list;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`${REPOSITORY_CONFIG_PATH} 설정이 올바르지 않습니다:\n${errors.map(error => `- ${error}`).join('\n')}`);
+  }
+
+  return config;
+}
+
+/**
+ * 사용자 정의 카테고리 파싱 (Popup 입력, `categories:` 항목과 같은 형식의 YAML 목록)
+ */
+export function parseCategories(source: string): RepositoryCategory[] {
+  const parsed = parseYaml(source);
+  if (parsed === null) {
+    return [];
+  }
+
+  const errors: string[] = [];
+  const categories = readCategories(parsed, errors) ?? [];
+
+  if (errors.length > 0) {
+    throw new Error(`카테고리 설정이 올바르지 않습니다:\n${errors.map(error => `- ${error}`).join('\n')}`);
+  }
+
+  return categories;
+}
+
+/**
+ * 카테고리 목록 병합 (같은 이름은 뒤의 정의 우선, 예: Popup → 저장소 설정)
+ * - 모두 비어 있으면 undefined (기본 분류 체계 사용)
+ */
+export function mergeCategories(
+  ...lists: Array<RepositoryCategory[] | undefined>
+): RepositoryCategory[] | undefined {
+  const merged = new Map<string, RepositoryCategory>();
+
+  for (const category of lists.flatMap(list => list ?? [])) {
+    merged.set(category.name, category);
+  }
+
+  return merged.size > 0 ? Array.from(merged.values()) : undefined;
+}
+
+/**
+ * 언어 코드를 LLM 프롬프트용 언어 이름으로 변환 (예: 'ko' → 'Korean')
+ * - 코드가 아니면 입력값 그대로 사용 (예: 'Japanese')
+ */
+export function resolveLanguageName(language: string): string {
+  if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(language)) {
+    return language;
+  }
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 문자열 목록 읽기 (단일 문자열은 항목 1개로 취급)
+ */
+function readStringList(value: unknown, field: string, errors: string[]): string[] | undefined {
+  const list = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(list) || list.some(item => typeof item !== 'string' && typeof item !== 'number')) {
+    errors.push(`${field}: 문자열 목록이어야 합니다.`);
+    return undefined;
+  }
+  return list.map(item => String(item).trim()).filter(item => item !== '');
+}
+
+function readCategories(value: unknown, errors: string[]): RepositoryCategory[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push('categories: 카테고리 목록이어야 합니다.');
+    return undefined;
+  }
+
+  const categories: RepositoryCategory[] = [];
+
+  value.forEach((item, index) => {
+    const field = `categories[${index}]`;
+    if (!isRecord(item) || typeof item.name !== 'string' || !item.name.trim()) {
+      errors.push(`${field}: name이 필요합니다.`);
+      return;
+    }
+
+    const category: RepositoryCategory = { name: item.name.trim().toLowerCase() };
+
+    if (item.directory !== undefined && item.directory !== null) {
+      if (typeof item.directory !== 'string') {
+        errors.push(`${field}.directory: 문자열이어야 합니다.`);
+      } else {
+        category.directory = normalizeDirectory(item.directory);
+      }
+    }
+    if (item.keywords !== undefined) {
+      category.keywords = readStringList(item.keywords, `${field}.keywords`, errors);
+    }
+    if (typeof item.description === 'string' && item.description.trim()) {
+      category.description = item.description.trim();
+    }
+
+    categories.push(category);
+  });
+
+  return categories;
+}
+
+/**
+ * 하위 디렉토리 정규화 (앞뒤 '/' 제거)
+ */
+function normalizeDirectory(directory: string): string {
+  return directory.trim().replace(/^\/+|\/+$/g, '');
+}
@@ -0,0 +1,246 @@
+/**
+ * Review to Instruction - Rule Conflicts
+ * 새 규칙과 기존 규칙의 모순 검사
+ * - LLM이 있으면 의미상 가까운 기존 규칙을 consistent/refining/contradicting으로 분류
+ * - 없으면 배타적인 선택지(snake_case vs camelCase 등)와 사용/금지 표현으로 판단
+ */
+
+import type { ClaudeFile, EnhancedComment, RuleConflict, RuleRelation } from '../types';
+import type { ILLMClient } from '../background/llm/types';
+import { RULE_RELATION_SCHEMA } from '../background/llm/schemas';
+import { buildRuleRelationPrompt } from '../background/llm/prompts';
+import { upsertFrontmatter } from './rule-lifecycle';
+
+interface RuleRelationResponse {
+  relations: Array<{
+    index: number;
+    relation: RuleRelation;
+    existingRule: string;
+    reasoning: string;
+  }>;
+}
+
+// 프롬프트에 넣을 기존 규칙 파일 최대 길이
+const MAX_RULE_LENGTH = 3000;
+
+// 서로 배타적인 선택지 (같은 주제에서 다른 선택지를 요구하면 모순)
+const EXCLUSIVE_OPTIONS: Array<{ topic: string; options: Array<{ label: string; pattern: RegExp }> }> = [
+  {
+    topic: 'naming convention',
+    options: [
+      { label: 'snake_case', pattern: /\bsnake[_\s-]?case\b/i },
+      { label: 'camelCase', pattern: /\bcamel[_\s-]?case\b/i },
+      { label: 'PascalCase', pattern: /\bpascal[_\s-]?case\b/i },
+      { label: 'kebab-case', pattern: /\bkebab[_\s-]?case\b/i },
+      { label: 'SCREAMING_SNAKE_CASE', pattern: /\b(screaming[_\s-]?snake[_\s-]?case|upper[_\s-]?case)\b/i }
+    ]
+  },
+  {
+    topic: 'indentation',
+    options: [
+      { label: 'tabs', pattern: /\btabs\b/i },
+      { label: 'spaces', pattern: /\bspaces\b/i }
+    ]
+  },
+  {
+    topic: 'quote style',
+    options: [
+      { label: 'single quotes', pattern: /\bsingle[\s-]quotes?\b/i },
+      { label: 'double quotes', pattern: /\bdouble[\s-]quotes?\b/i }
+    ]
+  }
+];
+
+// 적용 범위가 전체임을 나타내는 표현
+const GLOBAL_SCOPE = /\b(everywhere|all|every|any|always|across the codebase)\b/i;
+
+// 금지/요구 표현 (금지를 먼저 확인)
+const NEGATIVE_RULE = /\b(?:never|avoid|don't|do not|must not|should not|shouldn't)\s+(?:use\s+|using\s+|add\s+)?(.+)/i;
+const POSITIVE_RULE = /\b(?:always use|always|use|prefer|require)\s+(.+)/i;
+
+// 주제어 비교에서 제외할 단어
+const FILLER_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'when', 'from', 'into', 'that', 'this', 'our', 'your', 'their',
+  'use', 'using', 'name', 'names', 'naming', 'prefer', 'always', 'never', 'avoid', 'should', 'must',
+  'all', 'every', 'everywhere', 'any', 'not', 'don', 'instead', 'case', 'style', 'convention',
+  'snake', 'snakecase', 'camel', 'camelcase', 'pascal', 'pascalcase', 'kebab', 'kebabcase',
+  'screaming', 'upper', 'uppercase', 'tabs', 'spaces', 'single', 'double', 'quote', 'quotes'
+]);
+
+/**
+ * 모순 검사에 사용할 새 규칙 텍스트 (LLM 요약/설명 우선)
+ */
+export function describeRule(comment: EnhancedComment): string {
+  const enhanced = [comment.summary, comment.detailedExplanation].filter(Boolean).join('\n');
+  return enhanced || comment.content;
+}
+
+/**
+ * LLM으로 관련 기존 규칙과의 관계 분류 (contradicting만 반환)
+ * - existingRule은 파일에서 그대로 찾을 수 있는 줄이면 그 줄로 맞춤
+ */
+export async function classifyRuleRelations(
+  client: ILLMClient,
+  newRule: string,
+  related: ClaudeFile[]
+): Promise<RuleConflict[]> {
+  if (related.length === 0) {
+    return [];
+  }
+
+  const prompt = buildRuleRelationPrompt(
+    newRule,
+    related.map(file => ({ path: file.path, content: file.content.slice(0, MAX_RULE_LENGTH) }))
+  );
+
+  const { data } = await client.generateStructured<RuleRelationResponse>(prompt, RULE_RELATION_SCHEMA, {
+    system: 'You are a code convention comparison expert.',
+    max_tokens: 1024,
+    temperature: 0
+  });
+
+  return data.relations
+    .filter(item => item.relation === 'contradicting' && item.index >= 0 && item.index < related.length)
+    .map(item => {
+      const file = related[item.index];
+      const line = findRuleLine(file.content, item.existingRule);
+      return {
+        filePath: file.path,
+        existingRule: line ?? item.existingRule.trim(),
+        reasoning: item.reasoning
+      };
+    });
+}
+
+/**
+ * 규칙 기반 모순 검사 (LLM 없을 때)
+ */
+export function detectContradictions(newRule: string, files: ClaudeFile[]): RuleConflict[] {
+  const newLines = extractRuleLines(newRule);
+  const conflicts: RuleConflict[] = [];
+
+  for (const file of files) {
+    for (const existingLine of extractRuleLines(file.content)) {
+      for (const newLine of newLines) {
+        const reasoning = compareRuleLines(newLine, existingLine);
+        if (reasoning) {
+          conflicts.push({ filePath: file.path, existingRule: existingLine, reasoning });
+          break;
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * 기존 규칙 파일에서 지정한 규칙 줄 제거
+ * @returns 제거한 내용 (하나도 찾지 못하면 null)
+ */
+export function removeRuleLines(content: string, rules: string[]): string | null {
+  const targets = new Set(rules.map(normalizeRuleLine));
+  const lines = content.split('\n');
+  const kept = lines.filter(line => !targets.has(normalizeRuleLine(line)));
+
+  return kept.length === lines.length ? null : kept.join('\n');
+}
+
+/**
+ * 규칙 파일을 지정한 경로에만 적용 (Claude Code paths frontmatter)
+ */
+export function scopeRuleToPaths(content: string, glob: string): string {
+  return upsertFrontmatter(content, { paths: [glob] });
+}
+
+/**
+ * 두 규칙 줄 비교
+ * @returns 모순 이유 (모순이 아니면 null)
+ */
+function compareRuleLines(newLine: string, existingLine: string): string | null {
+  for (const group of EXCLUSIVE_OPTIONS) {
+    const newOptions = group.options.filter(option => option.pattern.test(newLine));
+    const existingOptions = group.options.filter(option => option.pattern.test(existingLine));
+
+    if (
+      newOptions.length > 0 &&
+      existingOptions.length > 0 &&
+      !newOptions.some(option => existingOptions.includes(option)) &&
+      (GLOBAL_SCOPE.test(newLine) || GLOBAL_SCOPE.test(existingLine) || sharesSubject(newLine, existingLine))
+    ) {
+      return `Conflicting ${group.topic}: ${newOptions[0].label} vs ${existingOptions[0].label}`;
+    }
+  }
+
+  const newPolarity = rulePolarity(newLine);
+  const existingPolarity = rulePolarity(existingLine);
+  if (
+    newPolarity &&
+    existingPolarity &&
+    newPolarity.positive !== existingPolarity.positive &&
+    newPolarity.subject === existingPolarity.subject
+  ) {
+    return `"${newPolarity.subject}" is ${newPolarity.positive ? 'required' : 'forbidden'} by the new rule but ${existingPolarity.positive ? 'required' : 'forbidden'} by the existing rule`;
+  }
+
+  return null;
+}
+
+/**
+ * 사용/금지 여부와 대상 (대상은 앞의 주제어 2개)
+ */
+function rulePolarity(line: string): { positive: boolean; subject: string } | null {
+  const negative = line.match(NEGATIVE_RULE);
+  const match = negative ?? line.match(POSITIVE_RULE);
+  if (!match) {
+    return null;
+  }
+
+  const subject = subjectWords(match[1]).slice(0, 2).join(' ');
+  return subject ? { positive: !negative, subject } : null;
+}
+
+function sharesSubject(a: string, b: string): boolean {
+  const words = new Set(subjectWords(a));
+  return subjectWords(b).some(word => words.has(word));
+}
+
+function subjectWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter(word => word.length >= 3 && !FILLER_WORDS.has(word))
+    .map(word => word.replace(/s$/, ''));
+}
+
+/**
+ * 규칙 문장 추출 (frontmatter, 제목, 코드 블록 제외)
+ */
+function extractRuleLines(content: string): string[] {
+  const lines: string[] = [];
+  let inCode = false;
+
+  for (const line of content.replace(/^---\s*\n[\s\S]*?\n---\s*\n?/, '').split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('```')) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode || !trimmed || trimmed.startsWith('#') || trimmed.startsWith('File:')) {
+      continue;
+    }
+    lines.push(trimmed);
+  }
+
+  return lines;
+}
+
+/**
+ * LLM이 인용한 규칙과 같은 줄 찾기
+ */
+function findRuleLine(content: string, rule: string): string | null {
+  const target = normalizeRuleLine(rule);
+  return extractRuleLines(content).find(line => normalizeRuleLine(line) === target) ?? null;
+}
+
+function normalizeRuleLine(line: string): string {
+  return line.trim().replace(/^([-*+]|\d+\.)\s+/, '').replace(/\s+/g, ' ').toLowerCase();
+}
@@ -0,0 +1,71 @@
+/**
+ * Review to Instruction - Rule Lifecycle
+ * 규칙 파일 상태 메타데이터 (frontmatter)
+ * - status: active | deprecated
+ * - supersedes / supersededBy: 대체 관계 (규칙 파일 경로)
+ * - lastConfirmed: 리뷰 코멘트로 마지막으로 확인한 날짜
+ */
+
+import type { ClaudeFile, RuleStatus } from '../types';
+
+const FRONTMATTER_REGEX = /^---\s*\n([\s\S]*?)\n---/;
+
+/**
+ * frontmatter 필드 추가/교체 (없으면 frontmatter 생성)
+ * - 문자열은 YAML 값 그대로, 배열은 따옴표로 감싼 블록 목록으로 기록
+ */
+export function upsertFrontmatter(content: string, fields: Record<string, string | string[]>): string {
+  const lines = Object.entries(fields).map(([key, value]) =>
+    Array.isArray(value)
+      ? `${key}:\n${value.map(item => `  - "${item}"`).join('\n')}`
+      : `${key}: ${value}`
+  );
+
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) {
+    return `---\n${lines.join('\n')}\n---\n\n${content}`;
+  }
+
+  let body = match[1];
+  for (const key of Object.keys(fields)) {
+    // 기존 값 제거 (블록 목록/중첩 값 포함)
+    body = body.replace(new RegExp(`^${key}:.*(?:\\n[ \\t]+.*)*\\n?`, 'm'), '');
+  }
+  body = body.trim();
+
+  return `---\n${body ? `${body}\n` : ''}${lines.join('\n')}\n---${content.slice(match[0].length)}`;
+}
+
+/**
+ * 규칙 상태 (status가 없으면 active)
+ */
+export function getRuleStatus(content: string): RuleStatus {
+  const status = content.match(FRONTMATTER_REGEX)?.[1].match(/^status:\s*["']?(\w+)/m)?.[1];
+  return status === 'deprecated' ? 'deprecated' : 'active';
+}
+
+/**
+ * 중복/모순 검사와 병합 대상이 되는 규칙인지 (deprecated 제외)
+ */
+export function isActiveRule(file: ClaudeFile): boolean {
+  return getRuleStatus(file.content) === 'active';
+}
+
+/**
+ * 새 규칙으로 대체된 기존 규칙을 deprecated로 표시
+ */
+export function markSuperseded(content: string, supersededBy: string): string {
+  return upsertFrontmatter(content, {
+    status: 'deprecated',
+    supersededBy: `"${supersededBy}"`
+  });
+}
+
+/**
+ * 리뷰 코멘트로 다시 확인된 규칙의 lastConfirmed 갱신 (frontmatter가 있는 파일만)
+ */
+export function confirmRule(content: string, date: string): string {
+  return FRONTMATTER_REGEX.test(content)
+    ? upsertFrontmatter(content, { lastConfirmed: `"${date}"` })
+    : content;
+}
@@ -0,0 +1,162 @@
+/**
+ * Review to Instruction - Secret Scanner
+ * 커밋 전 생성 파일의 비밀 정보/민감 경로 검사
+ * - 토큰, JWT, private key, 비밀번호 할당 값은 마스킹
+ * - 민감 파일(.env, 인증서 등)의 리뷰 코드가 포함되면 커밋 차단
+ */
+
+import type { CodeContext, SecretFinding, SecretKind, ValidationWarning } from '../types';
+
+/**
+ * 비밀 정보 패턴 (LLM 전송 전 가리기와 공유, 긴 형식부터 적용)
+ */
+export const SECRET_PATTERNS: Array<{ kind: 'private-key' | 'jwt' | 'api-key'; pattern: RegExp }> = [
+  {
+    kind: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+  },
+  {
+    kind: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g
+  },
+  {
+    // Anthropic, OpenAI, GitHub, GitLab, AWS, Google, Slack 토큰 형식
+    kind: 'api-key',
+    pattern: /\b(?:sk-ant-[A-Za-z0-9_-]{20,}|sk-(?:proj-)?[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|glpat-[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|xox[abprs]-[A-Za-z0-9-]{10,})/g
+  }
+];
+
+/**
+ * 비밀번호/토큰 할당 (예: password = "hunter22", "apiKey": "abcd1234")
+ */
+const CREDENTIAL_ASSIGNMENT = /\b(password|passwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)(["']?\s*[:=]\s*)(["'])([^"'\s]{4,})\3/gi;
+
+/**
+ * 민감 파일 경로 (리뷰 코드가 이 파일이면 내용 전체가 비밀일 수 있음)
+ */
+const SENSITIVE_PATHS: RegExp[] = [
+  /(^|\/)\.env(\.[\w-]+)*$/i,
+  /(^|\/)id_(rsa|dsa|ecdsa|ed25519)$/,
+  /\.(pem|key|p12|pfx|jks|keystore)$/i,
+  /(^|\/)\.(npmrc|pypirc|netrc|htpasswd)$/,
+  /(^|\/)\.aws\/credentials$/,
+  /(^|\/)credentials(\.json)?$/i,
+  /(^|\/)secrets?\.(ya?ml|json)$/i,
+  /\.tfstate(\.backup)?$/
+];
+
+/**
+ * 예시 파일은 민감 경로에서 제외 (예: .env.example)
+ */
+const EXAMPLE_FILE = /\.(example|sample|template|dist)$/i;
+
+/**
+ * 민감 파일 경로 여부
+ */
+export function isSensitivePath(filePath: string): boolean {
+  return !EXAMPLE_FILE.test(filePath) && SENSITIVE_PATHS.some(pattern => pattern.test(filePath));
+}
+
+/**
+ * 생성 파일 검사
+ * @param filePath 생성 파일 경로
+ * @param content 생성 파일 내용
+ * @param codeContext 리뷰 대상 코드 (민감 파일 hunk 포함 여부 확인)
+ * @returns 마스킹된 내용과 발견 항목
+ */
+export function scanForSecrets(
+  filePath: string,
+  content: string,
+  codeContext?: CodeContext
+): { content: string; findings: SecretFinding[] } {
+  const findings: SecretFinding[] = [];
+
+  // 1. 민감 파일 경로 (생성 경로 자체, 또는 민감 파일의 리뷰 코드 포함)
+  if (isSensitivePath(filePath)) {
+    findings.push({ kind: 'sensitive-path', filePath, line: 1, preview: filePath, blocked: true });
+  }
+
+  if (codeContext && isSensitivePath(codeContext.filePath)) {
+    const hunkLine = codeContext.lines
+      .split('\n')
+      .map(line => line.trim())
+      .find(line => line.length >= 4 && content.includes(line));
+
+    if (hunkLine) {
+      findings.push({
+        kind: 'sensitive-path',
+        filePath,
+        line: lineOf(content, content.indexOf(hunkLine)),
+        preview: codeContext.filePath,
+        blocked: true
+      });
+    }
+  }
+
+  // 2. 비밀 정보 마스킹 (위치는 마스킹된 내용 기준)
+  let masked = content;
+
+  for (const { kind, pattern } of SECRET_PATTERNS) {
+    masked = masked.replace(pattern, (match, offset: number) => {
+      findings.push({ kind, filePath, line: lineOf(masked, offset), preview: maskValue(match), blocked: false });
+      return maskPlaceholder(kind);
+    });
+  }
+
+  masked = masked.replace(CREDENTIAL_ASSIGNMENT, (match, key: string, separator: string, quote: string, value: string, offset: number) => {
+    if (value.startsWith('[REDACTED')) {
+      return match;
+    }
+    findings.push({ kind: 'credential', filePath, line: lineOf(masked, offset), preview: `${key}${separator}${quote}${maskValue(value)}${quote}`, blocked: false });
+    return `${key}${separator}${quote}${maskPlaceholder('credential')}${quote}`;
+  });
+
+  return { content: masked, findings };
+}
+
+/**
+ * 발견 항목을 미리보기 모달 경고로 변환 (차단 항목은 error → Confirm 비활성화)
+ */
+export function toValidationWarnings(findings: SecretFinding[]): ValidationWarning[] {
+  return findings.map(finding => ({
+    type: finding.blocked ? 'error' : 'warning',
+    message: formatFinding(finding)
+  }));
+}
+
+/**
+ * 발견 항목 메시지 (파일:줄 포함)
+ */
+export function formatFinding(finding: SecretFinding): string {
+  const location = `${finding.filePath}:${finding.line}`;
+  return finding.blocked
+    ? `Blocked: code from sensitive file ${finding.preview} would be committed (${location})`
+    : `Masked ${KIND_LABELS[finding.kind]} ${finding.preview} (${location})`;
+}
+
+const KIND_LABELS: Record<SecretKind, string> = {
+  'private-key': 'private key',
+  'jwt': 'JWT',
+  'api-key': 'API key',
+  'credential': 'credential',
+  'sensitive-path': 'sensitive file'
+};
+
+function maskPlaceholder(kind: SecretKind): string {
+  return `[REDACTED_${kind.toUpperCase().replace(/-/g, '_')}]`;
+}
+
+/**
+ * 미리보기용 마스킹 (앞 4자, 뒤 2자만 표시)
+ */
+export function maskValue(value: string): string {
+  const singleLine = value.replace(/\s+/g, ' ');
+  if (singleLine.length <= 10) {
+    return `${singleLine.slice(0, 2)}•••`;
+  }
+  return `${singleLine.slice(0, 4)}•••${singleLine.slice(-2)}`;
+}
+
+function lineOf(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
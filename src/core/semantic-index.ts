@@ -0,0 +1,279 @@
+/**
+ * Review to Instruction - Semantic Index
+ * 기존 규칙 파일의 임베딩 인덱스와 최근접 검색 (의미 기반 중복 감지)
+ * - 임베딩 API가 있으면 코사인 유사도, 없으면 로컬 MinHash (Jaccard 추정)
+ * - 벡터는 파일 내용 해시 단위로 저장소에 캐싱 (내용이 바뀐 파일만 다시 임베딩)
+ */
+
+import type { ClaudeFile } from '../types';
+
+/**
+ * 중복 판단 (SimilarityCheckResult.decision과 같은 값)
+ */
+export type SimilarityDecision = 'IDENTICAL' | 'MERGE' | 'DIFFERENT';
+
+/**
+ * 판단 임계값 (merge ~ identical 사이는 MERGE, different 미만은 DIFFERENT, 나머지는 판단 보류)
+ */
+export interface SimilarityThresholds {
+  identical: number;
+  merge: number;
+  different: number;
+}
+
+/**
+ * 임베딩 제공자
+ */
+export interface EmbeddingProvider {
+  readonly id: string;                          // 캐시 구분용 (예: 'openai:text-embedding-3-small', 'local:minhash')
+  readonly thresholds: SimilarityThresholds;
+  embed(texts: string[]): Promise<number[][]>;
+  similarity(a: number[], b: number[]): number; // 0-1
+}
+
+/**
+ * 캐시된 인덱스 (저장소/브랜치 단위)
+ */
+export interface EmbeddingIndexRecord {
+  providerId: string;
+  entries: Array<{ path: string; hash: string; vector: number[] }>;
+  updatedAt: number;
+}
+
+/**
+ * 인덱스 저장소 (IndexedDB 등)
+ */
+export interface EmbeddingStore {
+  get(key: string): Promise<EmbeddingIndexRecord | null>;
+  set(key: string, record: EmbeddingIndexRecord): Promise<void>;
+}
+
+/**
+ * 최근접 검색 결과
+ */
+export interface SemanticMatch {
+  file: ClaudeFile;
+  score: number;                          // 0-1
+  decision: SimilarityDecision | null;    // null: 판단 보류 (LLM 또는 키워드 매칭으로)
+  providerId: string;
+}
+
+// 임베딩 입력 최대 길이 (긴 규칙 파일은 앞부분만 사용)
+const MAX_TEXT_LENGTH = 8000;
+
+/**
+ * 기존 규칙 파일 임베딩 인덱스
+ */
+export class SemanticIndex {
+  private constructor(
+    private provider: EmbeddingProvider,
+    private items: Array<{ file: ClaudeFile; vector: number[] }>
+  ) {}
+
+  /**
+   * 인덱스 생성 (캐시에 같은 내용의 벡터가 있으면 재사용)
+   * @param cacheKey 저장소/브랜치 키 (예: 'github:acme/web@main')
+   */
+  static async build(
+    files: ClaudeFile[],
+    provider: EmbeddingProvider,
+    store?: EmbeddingStore,
+    cacheKey?: string
+  ): Promise<SemanticIndex> {
+    // 제공자마다 벡터 공간이 다르므로 제공자별로 저장
+    const storeKey = cacheKey ? `${cacheKey}|${provider.id}` : undefined;
+    const cached = store && storeKey ? await store.get(storeKey) : null;
+    const cachedVectors = new Map(
+      cached?.providerId === provider.id
+        ? cached.entries.map(entry => [`${entry.path}#${entry.hash}`, entry.vector])
+        : []
+    );
+
+    const entries = files.map(file => ({ file, hash: hashText(file.content) }));
+    const missing = entries.filter(entry => !cachedVectors.has(`${entry.file.path}#${entry.hash}`));
+
+    if (missing.length > 0) {
+      const vectors = await provider.embed(missing.map(entry => toIndexText(entry.file.content)));
+      missing.forEach((entry, i) => cachedVectors.set(`${entry.file.path}#${entry.hash}`, vectors[i]));
+
+      if (store && storeKey) {
+        await store.set(storeKey, {
+          providerId: provider.id,
+          entries: entries.map(entry => ({
+            path: entry.file.path,
+            hash: entry.hash,
+            vector: cachedVectors.get(`${entry.file.path}#${entry.hash}`)!
+          })),
+          updatedAt: Date.now()
+        });
+      }
+    }
+
+    return new SemanticIndex(
+      provider,
+      entries.map(entry => ({ file: entry.file, vector: cachedVectors.get(`${entry.file.path}#${entry.hash}`)! }))
+    );
+  }
+
+  /**
+   * 유사도 높은 순으로 검색
+   */
+  async search(text: string, limit: number = 3): Promise<SemanticMatch[]> {
+    if (this.items.length === 0) {
+      return [];
+    }
+
+    const [query] = await this.provider.embed([toIndexText(text)]);
+
+    return this.items
+      .map(item => {
+        const score = this.provider.similarity(query, item.vector);
+        return {
+          file: item.file,
+          score,
+          decision: decideSimilarity(score, this.provider.thresholds),
+          providerId: this.provider.id
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * 가장 가까운 규칙 파일
+   */
+  async nearest(text: string): Promise<SemanticMatch | null> {
+    const [match] = await this.search(text, 1);
+    return match ?? null;
+  }
+}
+
+/**
+ * 유사도 점수로 판단 (임계값 사이는 보류)
+ */
+export function decideSimilarity(score: number, thresholds: SimilarityThresholds): SimilarityDecision | null {
+  if (score >= thresholds.identical) return 'IDENTICAL';
+  if (score >= thresholds.merge) return 'MERGE';
+  if (score < thresholds.different) return 'DIFFERENT';
+  return null;
+}
+
+/**
+ * 코사인 유사도 (음수는 0으로)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return Math.max(0, dot / Math.sqrt(normA * normB));
+}
+
+/**
+ * 임베딩 API 기반 제공자 (코사인 유사도)
+ */
+export function createApiEmbeddingProvider(
+  id: string,
+  embed: (texts: string[]) => Promise<number[][]>
+): EmbeddingProvider {
+  return {
+    id,
+    thresholds: { identical: 0.95, merge: 0.82, different: 0.6 },
+    embed,
+    similarity: cosineSimilarity
+  };
+}
+
+/**
+ * 로컬 MinHash 제공자 (임베딩 API가 없을 때, 결정적)
+ * - 단어 unigram + bigram 집합의 Jaccard 유사도를 서명 일치 비율로 추정
+ */
+export function createMinHashProvider(numHashes: number = 128): EmbeddingProvider {
+  const seeds = Array.from({ length: numHashes }, (_, i) => mix32(i + 1));
+
+  return {
+    id: `local:minhash-${numHashes}`,
+    thresholds: { identical: 0.8, merge: 0.45, different: 0.1 },
+    embed: async (texts) => texts.map(text => minHashSignature(text, seeds)),
+    similarity: (a, b) => {
+      if (a.length === 0 || a.length !== b.length) return 0;
+      let equal = 0;
+      for (let i = 0; i < a.length; i++) {
+        if (a[i] === b[i]) equal++;
+      }
+      return equal / a.length;
+    }
+  };
+}
+
+/**
+ * 인덱스용 텍스트 (frontmatter 제외, 길이 제한)
+ */
+function toIndexText(content: string): string {
+  return content.replace(/^---\s*\n[\s\S]*?\n---\s*\n?/, '').slice(0, MAX_TEXT_LENGTH);
+}
+
+// MinHash 특징에서 제외할 불용어
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'is', 'are', 'be', 'it',
+  'this', 'that', 'as', 'at', 'by', 'from', 'should', 'use', 'when', 'we', 'you'
+]);
+
+function minHashSignature(text: string, seeds: number[]): number[] {
+  const words = text.toLowerCase().match(/[a-z0-9가-힣]{2,}/g)?.filter(word => !STOP_WORDS.has(word)) ?? [];
+  const features = new Set<number>();
+
+  words.forEach((word, i) => {
+    features.add(hashString(word));
+    if (i > 0) {
+      features.add(hashString(`${words[i - 1]} ${word}`));
+    }
+  });
+
+  return seeds.map(seed => {
+    let min = 0xffffffff;
+    for (const feature of features) {
+      const value = mix32(feature ^ seed);
+      if (value < min) min = value;
+    }
+    return min;
+  });
+}
+
+/**
+ * 내용 해시 (캐시 무효화용, FNV-1a 32bit)
+ */
+function hashText(text: string): string {
+  return hashString(text).toString(16).padStart(8, '0');
+}
+
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 32bit 정수 섞기 (murmur3 finalizer)
+ */
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
@@ -5,6 +5,7 @@
 
 import type { ParsedComment, EnhancedComment, Comment, Repository } from '../types';
 import { summarizeComment } from './parser';
+import { upsertMarkdownSection } from './markdown-sections';
 
 export interface SkillOptions {
   parsedComment: ParsedComment | EnhancedComment; // EnhancedComment 허용
@@ -123,36 +124,32 @@ function createSkill(options: SkillOptions): string {
 }
 
 /**
- * 기존 skill 파일 업데이트 (simplified)
+ * 기존 skill 파일 업데이트 (섹션 upsert)
+ * - 새 케이스는 ## Additional Cases 목록에 항목 단위로 병합 (중복 항목 제외)
  */
 function updateSkill(options: SkillOptions, existingContent: string): string {
   const { parsedComment, originalComment, repository } = options;
 
-  const date = new Date().toISOString().split('T')[0];
-
-  // Add new section at the end
-  const addendum: string[] = [
-    '',
+  const sections: string[] = [
+    '## Additional Cases',
     '',
-    `## Additional Case (${date})`,
-    '',
-    summarizeComment(originalComment.content),
+    `- ${summarizeComment(originalComment.content)}`,
     ''
   ];
 
   // Add code examples if present
   if (parsedComment.codeExamples.length > 0) {
-    addendum.push('### Examples\n');
+    sections.push('### Examples\n');
     parsedComment.codeExamples.forEach(example => {
-      addendum.push('```');
-      addendum.push(example);
-      addendum.push('```\n');
+      sections.push('```');
+      sections.push(example);
+      sections.push('```\n');
     });
   }
 
-  addendum.push(`**Source:** [PR #${repository.prNumber}](${originalComment.url}) by @${originalComment.author}`);
+  sections.push(`**Source:** [PR #${repository.prNumber}](${originalComment.url}) by @${originalComment.author}`);
 
-  return existingContent.trim() + addendum.join('\n') + '\n';
+  return upsertMarkdownSection(existingContent, sections.join('\n'));
 }
 
 /**
@@ -3,10 +3,13 @@
  * AI를 활용한 지능적 파일명 생성 + 디렉토리 제안
  */
 
-import type { ParsedComment, EnhancedComment, LLMConfig, DiscussionThread } from '../types';
+import type { ParsedComment, EnhancedComment, LLMConfig, DiscussionThread, RepositoryConfig, NamingPattern } from '../types';
 import type { AnalysisResult } from './instruction-analyzer';
-import { ClaudeClient } from '../background/llm/claude-client';
-import { OpenAIClient } from '../background/llm/openai-client';
+import type { ClaudeClient } from '../background/llm/claude-client';
+import type { OpenAIClient } from '../background/llm/openai-client';
+import type { GeminiClient } from '../background/llm/gemini-client';
+import { createLLMClient as createProviderClient } from '../background/llm/enhancer';
+import { renderFileNamingPrompt } from '../background/llm/prompt-templates';
 import { DirectorySuggester } from './directory-suggester';
 import { DirectoryRules } from './directory-rules';
 
@@ -15,6 +18,8 @@ export interface FileNamingOptions {
   analysisResult: AnalysisResult | null;
   llmConfig?: LLMConfig;
   thread?: DiscussionThread;  // Thread 컨텍스트 (옵션)
+  baseDir?: string;           // 규칙 기본 디렉토리 (기본값: .claude/rules)
+  repositoryConfig?: RepositoryConfig;  // 저장소 설정 (디렉토리/카테고리/네이밍 패턴)
 }
 
 export interface FileNamingResult {
@@ -30,16 +35,27 @@ export class SmartFileNaming {
    * AI 기반 파일명 + 디렉토리 생성
    */
   async generateFileName(options: FileNamingOptions): Promise<FileNamingResult> {
-    const { parsedComment, analysisResult, llmConfig, thread } = options;
+    const { parsedComment, llmConfig, thread, baseDir, repositoryConfig } = options;
+    const namingPattern = repositoryConfig?.namingPattern;
+
+    // 저장소 설정의 네이밍 패턴이 감지된 패턴보다 우선
+    const analysisResult = namingPattern && options.analysisResult
+      ? { ...options.analysisResult, pattern: { ...options.analysisResult.pattern, namingPattern } }
+      : options.analysisResult;
 
     // 1. 디렉토리 제안 (규칙 기반 + LLM 선택적)
     const llmClient = this.createLLMClient(llmConfig);
-    const directorySuggester = new DirectorySuggester(new DirectoryRules(), llmClient);
+    const directoryRules = new DirectoryRules({
+      directories: repositoryConfig?.directories,
+      categories: llmConfig?.categories ?? repositoryConfig?.categories  // Popup + 저장소 카테고리
+    });
+    const directorySuggester = new DirectorySuggester(directoryRules, llmClient);
 
     const suggestedDir = await directorySuggester.suggestDirectory(
       parsedComment,
       analysisResult,
-      llmConfig
+      llmConfig,
+      baseDir
     );
 
 
@@ -56,7 +72,12 @@ export class SmartFileNaming {
       fileResult = this.generateWithRules(parsedComment, analysisResult);
     }
 
-    // 3. 제안된 디렉토리로 교체
+    // 3. 저장소 네이밍 패턴 강제 (LLM 응답이 패턴을 따르지 않을 수 있음)
+    if (namingPattern) {
+      fileResult = { ...fileResult, filename: this.enforceNamingPattern(fileResult.filename, namingPattern) };
+    }
+
+    // 4. 제안된 디렉토리로 교체
     return {
       ...fileResult,
       directory: suggestedDir,
@@ -67,14 +88,12 @@ export class SmartFileNaming {
   /**
    * LLM 클라이언트 생성
    */
-  private createLLMClient(llmConfig?: LLMConfig): ClaudeClient | OpenAIClient | undefined {
+  private createLLMClient(llmConfig?: LLMConfig): ClaudeClient | OpenAIClient | GeminiClient | undefined {
     if (!llmConfig) {
       return undefined;
     }
 
-    return llmConfig.provider === 'claude'
-      ? new ClaudeClient(llmConfig.claudeApiKey!)
-      : new OpenAIClient(llmConfig.openaiApiKey!);
+    return createProviderClient(llmConfig, 'light') ?? undefined;
   }
 
   /**
@@ -88,15 +107,19 @@ export class SmartFileNaming {
   ): Promise<FileNamingResult> {
 
     // LLM 클라이언트 생성
-    const client = llmConfig.provider === 'claude'
-      ? new ClaudeClient(llmConfig.claudeApiKey!)
-      : new OpenAIClient(llmConfig.openaiApiKey!);
+    const client = createProviderClient(llmConfig, 'light');
+    if (!client) {
+      throw new Error('LLM is not configured');
+    }
 
 
-    // 프롬프트 구성 (Thread가 있으면 Thread 프롬프트 사용)
-    const prompt = thread
-      ? this.buildThreadNamingPrompt(parsedComment, analysisResult, thread)
-      : this.buildAINamingPrompt(parsedComment, analysisResult);
+    // 프롬프트 구성 (사용자 정의 템플릿 우선, Thread가 있으면 Thread 프롬프트 사용)
+    const template = llmConfig.promptTemplates?.fileNaming;
+    const prompt = template
+      ? this.buildTemplateNamingPrompt(template, parsedComment, analysisResult, thread)
+      : thread
+        ? this.buildThreadNamingPrompt(parsedComment, analysisResult, thread)
+        : this.buildAINamingPrompt(parsedComment, analysisResult);
 
     // AI 호출
     const response = await client.generateFileName(prompt);
@@ -107,6 +130,33 @@ export class SmartFileNaming {
     return result;
   }
 
+  /**
+   * 사용자 정의 템플릿으로 AI 프롬프트 구성
+   */
+  private buildTemplateNamingPrompt(
+    template: string,
+    parsedComment: ParsedComment | EnhancedComment,
+    analysisResult: AnalysisResult | null,
+    thread?: DiscussionThread
+  ): string {
+    const isEnhanced = 'llmEnhanced' in parsedComment && parsedComment.llmEnhanced;
+    const enhanced = isEnhanced ? (parsedComment as EnhancedComment) : null;
+
+    return renderFileNamingPrompt(template, {
+      comment: parsedComment.content,
+      summary: enhanced?.summary || parsedComment.content.substring(0, 200),
+      category: parsedComment.category,
+      keywords: parsedComment.keywords,
+      namingPattern: analysisResult?.pattern.namingPattern || 'kebab-case',
+      existingFiles: (analysisResult?.existingFiles ?? []).map(f => f.path.split('/').pop() ?? f.path),
+      thread: thread && {
+        commentCount: thread.comments.length,
+        participants: [...new Set(thread.comments.map(c => c.author))],
+        comments: thread.comments.map(c => ({ author: c.author, content: c.content }))
+      }
+    });
+  }
+
   /**
    * AI 프롬프트 구성
    */
@@ -427,7 +477,7 @@ Respond ONLY with valid JSON, no additional text.`;
    */
   private applyNamingPattern(
     text: string,
-    pattern: 'kebab-case' | 'PascalCase' | 'snake_case'
+    pattern: NamingPattern
   ): string {
     // 기본: 소문자 + 하이픈
     text = text.toLowerCase()
@@ -448,6 +498,19 @@ Respond ONLY with valid JSON, no additional text.`;
     }
   }
 
+  /**
+   * 파일명에 네이밍 패턴 적용 (확장자 유지, camelCase/snake_case 단어 경계 보존)
+   */
+  private enforceNamingPattern(filename: string, pattern: NamingPattern): string {
+    const extensionMatch = filename.match(/\.[a-z0-9]+$/i);
+    const extension = extensionMatch ? extensionMatch[0] : '';
+    const base = filename.slice(0, filename.length - extension.length)
+      .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+      .replace(/_/g, '-');
+
+    return `${this.applyNamingPattern(base, pattern)}${extension}`;
+  }
+
   /**
    * 고유성 보장 (중복 방지)
    */
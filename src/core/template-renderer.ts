@@ -0,0 +1,166 @@
+/**
+ * Review to Instruction - Template Renderer
+ * 사용자 정의 출력 대상(Custom Target)용 Mustache 형식 템플릿 렌더러
+ *
+ * 지원 문법:
+ * - {{name}}, {{source.url}}: 값 치환 (배열은 ", "로 연결)
+ * - {{#list}}...{{/list}}: 배열 반복 또는 값이 있을 때만 렌더링 ({{.}}은 현재 항목)
+ * - {{^name}}...{{/name}}: 값이 없거나 빈 배열일 때만 렌더링
+ * - {{! comment}}: 주석 (출력 안 함)
+ */
+
+export type TemplateContext = Record<string, unknown>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_REGEX = /\{\{(\{?)\s*([#^/!]?)\s*([^}]*?)\s*\}?\}\}/g;
+
+// 섹션/주석 태그만 있는 줄은 줄 자체를 제거 (Markdown 빈 줄 누적 방지)
+const STANDALONE_TAG_REGEX = /^[ \t]*(\{\{\s*[#^/!][^}]*\}\})[ \t]*(?:\r?\n|$)/gm;
+
+/**
+ * 템플릿 파싱 (닫히지 않은 섹션이 있으면 에러)
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ name: string; children: TemplateNode[] }> = [{ name: '', children: root }];
+  const source = template.replace(STANDALONE_TAG_REGEX, '$1');
+
+  let lastIndex = 0;
+  TAG_REGEX.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = TAG_REGEX.exec(source)) !== null) {
+    const current = stack[stack.length - 1];
+    if (match.index > lastIndex) {
+      current.children.push({ type: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = TAG_REGEX.lastIndex;
+
+    const [, , sigil, name] = match;
+
+    switch (sigil) {
+      case '!':
+        break;
+      case '#':
+      case '^': {
+        const section: TemplateNode = { type: 'section', name, inverted: sigil === '^', children: [] };
+        current.children.push(section);
+        stack.push({ name, children: section.children });
+        break;
+      }
+      case '/':
+        if (stack.length === 1 || current.name !== name) {
+          throw new Error(`템플릿 섹션이 올바르게 닫히지 않았습니다: {{/${name}}}`);
+        }
+        stack.pop();
+        break;
+      default:
+        current.children.push({ type: 'variable', name });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`템플릿 섹션이 닫히지 않았습니다: {{#${stack[stack.length - 1].name}}}`);
+  }
+
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+/**
+ * 컨텍스트 스택에서 값 조회 (안쪽 스코프 우선, 점 표기법 지원)
+ */
+function lookup(name: string, scopes: unknown[]): unknown {
+  if (name === '.') {
+    return scopes[scopes.length - 1];
+  }
+
+  const [head, ...rest] = name.split('.');
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (scope && typeof scope === 'object' && head in scope) {
+      return rest.reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        (scope as Record<string, unknown>)[head]
+      );
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 섹션 렌더링 여부 판단 (빈 배열/빈 문자열은 false)
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/**
+ * 값 문자열 변환
+ */
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(stringify).join(', ');
+  }
+  return String(value);
+}
+
+/**
+ * 노드 렌더링
+ */
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable':
+        return stringify(lookup(node.name, scopes));
+      case 'section': {
+        const value = lookup(node.name, scopes);
+
+        if (node.inverted) {
+          return isTruthy(value) ? '' : renderNodes(node.children, scopes);
+        }
+        if (!isTruthy(value)) {
+          return '';
+        }
+        if (Array.isArray(value)) {
+          return value.map(item => renderNodes(node.children, [...scopes, item])).join('');
+        }
+        return renderNodes(node.children, typeof value === 'object' ? [...scopes, value] : scopes);
+      }
+    }
+  }).join('');
+}
+
+/**
+ * 템플릿 렌더링
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return renderNodes(parseTemplate(template), [context]);
+}
+
+/**
+ * 템플릿 문법 검증 (Popup 입력 검증용)
+ * - 유효하면 null, 아니면 에러 메시지 반환
+ */
+export function validateTemplate(template: string): string | null {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
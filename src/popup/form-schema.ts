@@ -6,18 +6,45 @@
  */
 
 import { FieldSchema, FormState } from '../types/form-manager';
+import { validateTemplate } from '../core/template-renderer';
+import { parseCategories } from '../core/repository-config';
+import { validateRedactionPatterns } from '../background/llm/redaction';
+import { isValidLLMEndpointUrl } from '../utils/llm-endpoint';
+import { DEFAULT_MODELS } from '../background/llm/models';
 
 /**
  * Popup 폼의 전체 필드 스키마
  *
- * 7개 필드:
+ * 30개 필드:
  * 1. github-token: GitHub Personal Access Token (ghp_로 시작)
- * 2. gitlab-token: GitLab Personal Access Token (glpat-로 시작)
- * 3. gitlab-url: GitLab 인스턴스 URL
- * 4. show-buttons: 버튼 표시 여부
- * 5. llm-provider: LLM 제공자 선택 (필수)
- * 6. claude-api-key: Claude API 키 (llmProvider=claude일 때)
- * 7. openai-api-key: OpenAI API 키 (llmProvider=openai일 때)
+ * 2. github-url: GitHub Enterprise Server URL (https만 허용)
+ * 3. gitlab-token: GitLab Personal Access Token (glpat-로 시작)
+ * 4. gitlab-url: GitLab 인스턴스 URL
+ * 5. bitbucket-username: Bitbucket 사용자명 (App Password 인증용)
+ * 6. bitbucket-app-password: Bitbucket App Password
+ * 7. gitea-url: Gitea/Forgejo 인스턴스 URL
+ * 8. gitea-token: Gitea/Forgejo Access Token
+ * 9. azure-token: Azure DevOps Personal Access Token
+ * 10. show-buttons: 버튼 표시 여부
+ * 11. llm-provider: LLM 제공자 선택 (필수)
+ * 12. claude-api-key: Claude API 키 (llmProvider=claude일 때)
+ * 13. openai-api-key: OpenAI API 키 (llmProvider=openai일 때)
+ * 14. custom-target-enabled: 사용자 정의 출력 대상 사용 여부
+ * 15. custom-target-directory: 대상 디렉토리 (저장소 루트 기준 상대 경로)
+ * 16. custom-target-extension: 파일 확장자
+ * 17. custom-target-mode: 규칙당 파일 / 단일 파일
+ * 18. custom-target-file-name: 단일 파일 모드 파일명 (mode=single-file일 때)
+ * 19. custom-target-template: Mustache 형식 템플릿
+ * 20. compatible-base-url: OpenAI 호환 엔드포인트 URL (llmProvider=openai-compatible일 때)
+ * 21. compatible-model: OpenAI 호환 엔드포인트 모델명
+ * 22. compatible-api-key: OpenAI 호환 엔드포인트 API 키 (선택)
+ * 23. gemini-api-key: Gemini API 키 (llmProvider=gemini일 때)
+ * 24-29. {claude,openai,gemini}-model / -light-model: 제공자별 분석 모델 / 경량 작업 모델
+ * 30. compatible-light-model: OpenAI 호환 엔드포인트 경량 작업 모델명 (선택)
+ * 31-33. prompt-template-{analysis,classification,file-naming}: 사용자 정의 프롬프트 템플릿 (선택)
+ * 34. custom-categories: 사용자 정의 카테고리 (YAML 목록, 선택)
+ * 35. redaction-enabled: LLM 전송 전 비밀 정보/개인정보 가리기 (기본 사용)
+ * 36. redaction-patterns: 추가로 가릴 정규식 (한 줄에 하나, 선택)
  */
 export const popupFormSchema: FieldSchema[] = [
   // 1. GitHub Token
@@ -32,7 +59,28 @@ export const popupFormSchema: FieldSchema[] = [
     }
   },
 
-  // 2. GitLab Token
+  // 2. GitHub Enterprise Server URL (선택, 저장 시 host permission 요청)
+  {
+    id: 'github-url',
+    storageKey: 'githubUrl',
+    type: 'text',
+    encrypted: false,
+    defaultValue: 'https://github.com',
+    validation: {
+      pattern: /^https:\/\/.+$/,
+      message: 'GitHub URL은 https://로 시작해야 합니다.',
+      custom: (value: string) => {
+        try {
+          new URL(value);
+          return true;
+        } catch {
+          return 'URL 형식이 올바르지 않습니다.';
+        }
+      }
+    }
+  },
+
+  // 3. GitLab Token
   {
     id: 'gitlab-token',
     storageKey: 'gitlabToken_enc',
@@ -41,7 +89,7 @@ export const popupFormSchema: FieldSchema[] = [
     // 검증 제거: 다양한 GitLab 토큰 형식 지원
   },
 
-  // 3. GitLab URL
+  // 4. GitLab URL
   {
     id: 'gitlab-url',
     storageKey: 'gitlabUrl',
@@ -62,7 +110,61 @@ export const popupFormSchema: FieldSchema[] = [
     }
   },
 
-  // 4. Show Buttons
+  // 5. Bitbucket Username (App Password는 사용자명과 함께 Basic 인증)
+  {
+    id: 'bitbucket-username',
+    storageKey: 'bitbucketUsername',
+    type: 'text',
+    encrypted: false
+  },
+
+  // 6. Bitbucket App Password
+  {
+    id: 'bitbucket-app-password',
+    storageKey: 'bitbucketAppPassword_enc',
+    type: 'password',
+    encrypted: true
+    // 검증 없음: App Password와 Access Token 모두 지원
+  },
+
+  // 7. Gitea/Forgejo URL
+  {
+    id: 'gitea-url',
+    storageKey: 'giteaUrl',
+    type: 'text',
+    encrypted: false,
+    defaultValue: 'https://codeberg.org',
+    validation: {
+      pattern: /^https?:\/\/.+$/,
+      message: 'URL은 http:// 또는 https://로 시작해야 합니다.',
+      custom: (value: string) => {
+        try {
+          new URL(value);
+          return true;
+        } catch {
+          return 'URL 형식이 올바르지 않습니다.';
+        }
+      }
+    }
+  },
+
+  // 8. Gitea/Forgejo Token
+  {
+    id: 'gitea-token',
+    storageKey: 'giteaToken_enc',
+    type: 'password',
+    encrypted: true
+  },
+
+  // 9. Azure DevOps Token
+  {
+    id: 'azure-token',
+    storageKey: 'azureToken_enc',
+    type: 'password',
+    encrypted: true
+  },
+
+  // 10. Show Buttons
   {
     id: 'show-buttons',
     storageKey: 'showButtons',
@@ -71,7 +173,7 @@ export const popupFormSchema: FieldSchema[] = [
     defaultValue: true
   },
 
-  // 5. LLM Provider (필수)
+  // 11. LLM Provider (필수)
   {
     id: 'llm-provider',
     storageKey: 'llmProvider',
@@ -80,7 +182,7 @@ export const popupFormSchema: FieldSchema[] = [
     defaultValue: 'claude'
   },
 
-  // 7. Claude API Key (llmProvider=claude일 때만 표시)
+  // 12. Claude API Key (llmProvider=claude일 때만 표시)
   {
     id: 'claude-api-key',
     storageKey: 'claudeApiKey_enc',
@@ -93,7 +195,7 @@ export const popupFormSchema: FieldSchema[] = [
     visible: (state: FormState) => state['llm-provider'] === 'claude'
   },
 
-  // 8. OpenAI API Key (llmProvider=openai일 때만 표시)
+  // 13. OpenAI API Key (llmProvider=openai일 때만 표시)
   {
     id: 'openai-api-key',
     storageKey: 'openaiApiKey_enc',
@@ -104,5 +206,262 @@ export const popupFormSchema: FieldSchema[] = [
       message: 'OpenAI API 키는 "sk-"로 시작해야 합니다.'
     },
     visible: (state: FormState) => state['llm-provider'] === 'openai'
+  },
+
+  // 14. Custom Target 사용 여부
+  {
+    id: 'custom-target-enabled',
+    storageKey: 'customTargetEnabled',
+    type: 'checkbox',
+    encrypted: false,
+    defaultValue: false
+  },
+
+  // 15. Custom Target 디렉토리 (사용 시에만 표시)
+  {
+    id: 'custom-target-directory',
+    storageKey: 'customTargetDirectory',
+    type: 'text',
+    encrypted: false,
+    validation: {
+      pattern: /^(?!\/)(?!.*\.\.)[^\\:*?"<>|]+$/,
+      message: '저장소 루트 기준 상대 경로를 입력해야 합니다. (/로 시작하거나 ..를 포함할 수 없음)'
+    },
+    visible: (state: FormState) => state['custom-target-enabled'] === true
+  },
+
+  // 16. Custom Target 파일 확장자
+  {
+    id: 'custom-target-extension',
+    storageKey: 'customTargetExtension',
+    type: 'text',
+    encrypted: false,
+    defaultValue: '.md',
+    validation: {
+      pattern: /^\.?[A-Za-z0-9][A-Za-z0-9._-]*$/,
+      message: '확장자 형식이 올바르지 않습니다. (예: .md)'
+    },
+    visible: (state: FormState) => state['custom-target-enabled'] === true
+  },
+
+  // 17. Custom Target 모드
+  {
+    id: 'custom-target-mode',
+    storageKey: 'customTargetMode',
+    type: 'select',
+    encrypted: false,
+    defaultValue: 'per-rule',
+    visible: (state: FormState) => state['custom-target-enabled'] === true
+  },
+
+  // 18. Custom Target 파일명 (single-file 모드일 때만 표시)
+  {
+    id: 'custom-target-file-name',
+    storageKey: 'customTargetFileName',
+    type: 'text',
+    encrypted: false,
+    validation: {
+      pattern: /^[A-Za-z0-9._-]+$/,
+      message: '파일명에는 영문, 숫자, ., _, -만 사용할 수 있습니다.'
+    },
+    visible: (state: FormState) =>
+      state['custom-target-enabled'] === true && state['custom-target-mode'] === 'single-file'
+  },
+
+  // 19. Custom Target 템플릿 (비워두면 기본 템플릿)
+  {
+    id: 'custom-target-template',
+    storageKey: 'customTargetTemplate',
+    type: 'text',
+    encrypted: false,
+    validation: {
+      custom: (value: string) => validateTemplate(value ?? '') ?? true
+    },
+    visible: (state: FormState) => state['custom-target-enabled'] === true
+  },
+
+  // 20. OpenAI 호환 엔드포인트 URL (저장 시 host permission 요청)
+  {
+    id: 'compatible-base-url',
+    storageKey: 'compatibleBaseUrl',
+    type: 'text',
+    encrypted: false,
+    validation: {
+      pattern: /^https?:\/\/.+$/,
+      message: '엔드포인트 URL은 http:// 또는 https://로 시작해야 합니다.',
+      custom: (value: string) => !value || isValidLLMEndpointUrl(value) || 'URL 형식이 올바르지 않습니다.'
+    },
+    visible: (state: FormState) => state['llm-provider'] === 'openai-compatible'
+  },
+
+  // 21. OpenAI 호환 엔드포인트 모델명
+  {
+    id: 'compatible-model',
+    storageKey: 'compatibleModel',
+    type: 'text',
+    encrypted: false,
+    visible: (state: FormState) => state['llm-provider'] === 'openai-compatible'
+  },
+
+  // 22. OpenAI 호환 엔드포인트 API 키 (선택, 인증 없는 Ollama 등은 비워둠)
+  {
+    id: 'compatible-api-key',
+    storageKey: 'compatibleApiKey_enc',
+    type: 'password',
+    encrypted: true,
+    visible: (state: FormState) => state['llm-provider'] === 'openai-compatible'
+  },
+
+  // 23. Gemini API Key (llmProvider=gemini일 때만 표시)
+  {
+    id: 'gemini-api-key',
+    storageKey: 'geminiApiKey_enc',
+    type: 'password',
+    encrypted: true,
+    validation: {
+      pattern: /^AIza[0-9A-Za-z_-]{35}$/,
+      message: 'Gemini API 키는 "AIza"로 시작해야 합니다.'
+    },
+    visible: (state: FormState) => state['llm-provider'] === 'gemini'
+  },
+
+  // 24. Claude 분석 모델
+  {
+    id: 'claude-model',
+    storageKey: 'claudeModel',
+    type: 'select',
+    encrypted: false,
+    defaultValue: DEFAULT_MODELS['claude'].analysis,
+    visible: (state: FormState) => state['llm-provider'] === 'claude'
+  },
+
+  // 25. Claude 경량 작업 모델 (파일명, 분류, PR 제목)
+  {
+    id: 'claude-light-model',
+    storageKey: 'claudeLightModel',
+    type: 'select',
+    encrypted: false,
+    defaultValue: DEFAULT_MODELS['claude'].light,
+    visible: (state: FormState) => state['llm-provider'] === 'claude'
+  },
+
+  // 26. OpenAI 분석 모델
+  {
+    id: 'openai-model',
+    storageKey: 'openaiModel',
+    type: 'select',
+    encrypted: false,
+    defaultValue: DEFAULT_MODELS['openai'].analysis,
+    visible: (state: FormState) => state['llm-provider'] === 'openai'
+  },
+
+  // 27. OpenAI 경량 작업 모델 (파일명, 분류, PR 제목)
+  {
+    id: 'openai-light-model',
+    storageKey: 'openaiLightModel',
+    type: 'select',
+    encrypted: false,
+    defaultValue: DEFAULT_MODELS['openai'].light,
+    visible: (state: FormState) => state['llm-provider'] === 'openai'
+  },
+
+  // 28. Gemini 분석 모델
+  {
+    id: 'gemini-model',
+    storageKey: 'geminiModel',
+    type: 'select',
+    encrypted: false,
+    defaultValue: DEFAULT_MODELS['gemini'].analysis,
+    visible: (state: FormState) => state['llm-provider'] === 'gemini'
+  },
+
+  // 29. Gemini 경량 작업 모델 (파일명, 분류, PR 제목)
+  {
+    id: 'gemini-light-model',
+    storageKey: 'geminiLightModel',
+    type: 'select',
+    encrypted: false,
+    defaultValue: DEFAULT_MODELS['gemini'].light,
+    visible: (state: FormState) => state['llm-provider'] === 'gemini'
+  },
+
+  // 30. OpenAI 호환 엔드포인트 경량 작업 모델명 (비워두면 compatible-model 사용)
+  {
+    id: 'compatible-light-model',
+    storageKey: 'compatibleLightModel',
+    type: 'text',
+    encrypted: false,
+    visible: (state: FormState) => state['llm-provider'] === 'openai-compatible'
+  },
+
+  // 31. 코멘트 분석 프롬프트 템플릿 (비워두면 기본 프롬프트)
+  {
+    id: 'prompt-template-analysis',
+    storageKey: 'promptTemplateAnalysis',
+    type: 'text',
+    encrypted: false,
+    validation: {
+      custom: (value: string) => validateTemplate(value ?? '') ?? true
+    }
+  },
+
+  // 32. instruction/skill 분류 프롬프트 템플릿
+  {
+    id: 'prompt-template-classification',
+    storageKey: 'promptTemplateClassification',
+    type: 'text',
+    encrypted: false,
+    validation: {
+      custom: (value: string) => validateTemplate(value ?? '') ?? true
+    }
+  },
+
+  // 33. 파일명 생성 프롬프트 템플릿
+  {
+    id: 'prompt-template-file-naming',
+    storageKey: 'promptTemplateFileNaming',
+    type: 'text',
+    encrypted: false,
+    validation: {
+      custom: (value: string) => validateTemplate(value ?? '') ?? true
+    }
+  },
+
+  // 34. 사용자 정의 카테고리 (name, keywords, directory, description)
+  {
+    id: 'custom-categories',
+    storageKey: 'customCategories',
+    type: 'text',
+    encrypted: false,
+    validation: {
+      custom: (value: string) => {
+        try {
+          parseCategories(value ?? '');
+          return true;
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+      }
+    }
+  },
+
+  // 35. 비밀 정보 가리기 사용 여부
+  {
+    id: 'redaction-enabled',
+    storageKey: 'redactionEnabled',
+    type: 'checkbox',
+    encrypted: false,
+    defaultValue: true
+  },
+
+  // 36. 사용자 정의 가리기 패턴 (한 줄에 정규식 하나)
+  {
+    id: 'redaction-patterns',
+    storageKey: 'redactionPatterns',
+    type: 'text',
+    encrypted: false,
+    validation: {
+      custom: (value: string) => validateRedactionPatterns(value ?? '') ?? true
+    }
   }
 ];
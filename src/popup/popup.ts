@@ -15,7 +15,12 @@
 import { CryptoService } from '../background/services/crypto-service';
 import { FormManager } from '../utils/form-manager';
 import { popupFormSchema } from './form-schema';
-import { calculateCost, formatCost } from '../utils/token-pricing';
+import { calculateTotalCost, formatCost } from '../utils/token-pricing';
+import { isGitHubEnterpriseUrl, getGitHubEnterprisePermissionOrigins } from '../utils/github-enterprise';
+import { isValidLLMEndpointUrl, getLLMEndpointPermissionOrigins } from '../utils/llm-endpoint';
+import { isSelfHostedGiteaUrl, getGiteaPermissionOrigins } from '../utils/gitea-host';
+import type { Platform, Repository } from '../types';
+import type { HarvestJobSummary, HarvestStatus } from '../core/history-harvest';
 
 // CryptoService 인스턴스
 const crypto = new CryptoService();
@@ -27,6 +32,9 @@ const formManager = new FormManager(popupFormSchema, crypto);
 const saveButton = document.getElementById('save') as HTMLButtonElement;
 const testGithubButton = document.getElementById('test-github') as HTMLButtonElement;
 const testGitlabButton = document.getElementById('test-gitlab') as HTMLButtonElement;
+const testBitbucketButton = document.getElementById('test-bitbucket') as HTMLButtonElement;
+const testGiteaButton = document.getElementById('test-gitea') as HTMLButtonElement;
+const testAzureButton = document.getElementById('test-azure') as HTMLButtonElement;
 const saveStatus = document.getElementById('save-status') as HTMLDivElement;
 
 // LLM 설정 DOM 요소 (가시성 제어용)
@@ -43,6 +51,30 @@ const refreshCacheStatsButton = document.getElementById('refresh-cache-stats') a
 const clearCacheButton = document.getElementById('clear-cache') as HTMLButtonElement;
 const cacheStatus = document.getElementById('cache-status') as HTMLDivElement;
 
+// 히스토리 수집 DOM 요소
+const harvestPlatformSelect = document.getElementById('harvest-platform') as HTMLSelectElement;
+const harvestRepositoryInput = document.getElementById('harvest-repository') as HTMLInputElement;
+const harvestLimitInput = document.getElementById('harvest-limit') as HTMLInputElement;
+const harvestStats = document.getElementById('harvest-stats') as HTMLDivElement;
+const harvestStateSpan = document.getElementById('harvest-state') as HTMLSpanElement;
+const harvestProgressSpan = document.getElementById('harvest-progress') as HTMLSpanElement;
+const harvestConventionsSpan = document.getElementById('harvest-conventions') as HTMLSpanElement;
+const harvestCostSpan = document.getElementById('harvest-cost') as HTMLSpanElement;
+const harvestPrepareButton = document.getElementById('harvest-prepare') as HTMLButtonElement;
+const harvestStartButton = document.getElementById('harvest-start') as HTMLButtonElement;
+const harvestCancelButton = document.getElementById('harvest-cancel') as HTMLButtonElement;
+const harvestStatus = document.getElementById('harvest-status') as HTMLDivElement;
+
+// 히스토리 수집 상태 표시 문구
+const HARVEST_STATUS_LABELS: Record<HarvestStatus, string> = {
+  collecting: '⏳ Collecting review comments',
+  estimated: '💰 Estimated, waiting to start',
+  converting: '⚙️ Converting conventions',
+  completed: '✅ Completed',
+  failed: '❌ Failed',
+  cancelled: '⏹️ Cancelled'
+};
+
 // 설정 로드 (FormManager 사용)
 async function loadConfig() {
   try {
@@ -57,9 +89,20 @@ async function loadConfig() {
 // 설정 저장 (FormManager 사용)
 async function saveConfig() {
   try {
+    // 사용자 제스처가 유지되는 동안 가장 먼저 권한 요청
+    const hasGitHubHostAccess = await requestGitHubEnterprisePermission();
+    const hasGiteaHostAccess = await requestGiteaPermission();
+    const hasLLMEndpointAccess = await requestLLMEndpointPermission();
+
     const result = await formManager.save();
 
-    if (result.isValid) {
+    if (result.isValid && !hasGitHubHostAccess) {
+      showStatus(saveStatus, '⚠️ Settings saved, but access to the GitHub Enterprise host was denied. Buttons will not appear on its PR pages.', 'info');
+    } else if (result.isValid && !hasGiteaHostAccess) {
+      showStatus(saveStatus, '⚠️ Settings saved, but access to the Gitea/Forgejo host was denied. Buttons will not appear on its PR pages.', 'info');
+    } else if (result.isValid && !hasLLMEndpointAccess) {
+      showStatus(saveStatus, '⚠️ Settings saved, but access to the LLM endpoint was denied. LLM analysis will fail until access is granted.', 'info');
+    } else if (result.isValid) {
       showStatus(saveStatus, '✅ Settings saved and encrypted successfully.', 'success');
     } else {
       // 검증 오류 표시
@@ -73,9 +116,68 @@ async function saveConfig() {
   }
 }
 
+/**
+ * GitHub Enterprise Server 호스트 권한 요청
+ * chrome.permissions.request는 사용자 제스처 안에서만 동작하므로 클릭 핸들러에서 await 전에 호출
+ * @returns 권한이 허용되었거나 github.com이라 필요 없으면 true
+ */
+async function requestGitHubEnterprisePermission(): Promise<boolean> {
+  const githubUrl = formManager.getValue('github-url');
+  if (!isGitHubEnterpriseUrl(githubUrl)) {
+    return true;
+  }
+
+  try {
+    return await chrome.permissions.request({
+      origins: getGitHubEnterprisePermissionOrigins(githubUrl)
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Self-hosted Gitea/Forgejo 호스트 권한 요청 (PR 페이지, /api/v1)
+ * @returns 권한이 허용되었거나 codeberg.org라 필요 없으면 true
+ */
+async function requestGiteaPermission(): Promise<boolean> {
+  const giteaUrl = formManager.getValue('gitea-url');
+  if (!isSelfHostedGiteaUrl(giteaUrl)) {
+    return true;
+  }
+
+  try {
+    return await chrome.permissions.request({
+      origins: getGiteaPermissionOrigins(giteaUrl)
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * OpenAI 호환 LLM 엔드포인트 호스트 권한 요청
+ * @returns 권한이 허용되었거나 OpenAI 호환 제공자가 아니라 필요 없으면 true
+ */
+async function requestLLMEndpointPermission(): Promise<boolean> {
+  const baseUrl = formManager.getValue('compatible-base-url');
+  if (formManager.getValue('llm-provider') !== 'openai-compatible' || !isValidLLMEndpointUrl(baseUrl)) {
+    return true;
+  }
+
+  try {
+    return await chrome.permissions.request({
+      origins: getLLMEndpointPermissionOrigins(baseUrl)
+    });
+  } catch {
+    return false;
+  }
+}
+
 // GitHub API 테스트
 async function testGithubApi() {
   const token = formManager.getValue('github-token');
+  const githubUrl = formManager.getValue('github-url');
   const statusElement = document.getElementById('github-status')!;
 
   if (!token || token.trim() === '') {
@@ -83,6 +185,12 @@ async function testGithubApi() {
     return;
   }
 
+  // GHES는 host 권한이 있어야 background에서 API 호출 가능
+  if (!await requestGitHubEnterprisePermission()) {
+    showStatus(statusElement, 'Host access to GitHub Enterprise was denied.', 'error');
+    return;
+  }
+
   // 버튼 로딩 상태
   testGithubButton.disabled = true;
   testGithubButton.classList.add('loading');
@@ -93,7 +201,8 @@ async function testGithubApi() {
       type: 'TEST_API',
       payload: {
         platform: 'github',
-        token
+        token,
+        githubUrl
       }
     });
 
@@ -151,6 +260,130 @@ async function testGitlabApi() {
   }
 }
 
+// Bitbucket API 테스트
+async function testBitbucketApi() {
+  const token = formManager.getValue('bitbucket-app-password');
+  const bitbucketUsername = formManager.getValue('bitbucket-username');
+  const statusElement = document.getElementById('bitbucket-status')!;
+
+  if (!token || token.trim() === '') {
+    showStatus(statusElement, 'Please enter your app password.', 'error');
+    return;
+  }
+
+  // 버튼 로딩 상태
+  testBitbucketButton.disabled = true;
+  testBitbucketButton.classList.add('loading');
+  const originalText = testBitbucketButton.textContent;
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'TEST_API',
+      payload: {
+        platform: 'bitbucket',
+        token,
+        bitbucketUsername
+      }
+    });
+
+    if (response.success) {
+      showStatus(statusElement, `Connection successful! (User: ${response.data.user})`, 'success');
+    } else {
+      showStatus(statusElement, `Connection failed: ${response.error}`, 'error');
+    }
+  } catch (error) {
+    showStatus(statusElement, `Error: ${error}`, 'error');
+  } finally {
+    testBitbucketButton.disabled = false;
+    testBitbucketButton.classList.remove('loading');
+    testBitbucketButton.textContent = originalText || 'Test Connection';
+  }
+}
+
+// Gitea/Forgejo API 테스트
+async function testGiteaApi() {
+  const token = formManager.getValue('gitea-token');
+  const giteaUrl = formManager.getValue('gitea-url');
+  const statusElement = document.getElementById('gitea-status')!;
+
+  if (!token || token.trim() === '') {
+    showStatus(statusElement, 'Please enter your token.', 'error');
+    return;
+  }
+
+  // self-hosted Gitea는 host 권한이 있어야 background에서 API 호출 가능
+  if (!await requestGiteaPermission()) {
+    showStatus(statusElement, 'Host access to Gitea/Forgejo was denied.', 'error');
+    return;
+  }
+
+  // 버튼 로딩 상태
+  testGiteaButton.disabled = true;
+  testGiteaButton.classList.add('loading');
+  const originalText = testGiteaButton.textContent;
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'TEST_API',
+      payload: {
+        platform: 'gitea',
+        token,
+        giteaUrl
+      }
+    });
+
+    if (response.success) {
+      showStatus(statusElement, `Connection successful! (User: ${response.data.user})`, 'success');
+    } else {
+      showStatus(statusElement, `Connection failed: ${response.error}`, 'error');
+    }
+  } catch (error) {
+    showStatus(statusElement, `Error: ${error}`, 'error');
+  } finally {
+    testGiteaButton.disabled = false;
+    testGiteaButton.classList.remove('loading');
+    testGiteaButton.textContent = originalText || 'Test Connection';
+  }
+}
+
+// Azure DevOps API 테스트
+async function testAzureApi() {
+  const token = formManager.getValue('azure-token');
+  const statusElement = document.getElementById('azure-status')!;
+
+  if (!token || token.trim() === '') {
+    showStatus(statusElement, 'Please enter your token.', 'error');
+    return;
+  }
+
+  // 버튼 로딩 상태
+  testAzureButton.disabled = true;
+  testAzureButton.classList.add('loading');
+  const originalText = testAzureButton.textContent;
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'TEST_API',
+      payload: {
+        platform: 'azure',
+        token
+      }
+    });
+
+    if (response.success) {
+      showStatus(statusElement, `Connection successful! (User: ${response.data.user})`, 'success');
+    } else {
+      showStatus(statusElement, `Connection failed: ${response.error}`, 'error');
+    }
+  } catch (error) {
+    showStatus(statusElement, `Error: ${error}`, 'error');
+  } finally {
+    testAzureButton.disabled = false;
+    testAzureButton.classList.remove('loading');
+    testAzureButton.textContent = originalText || 'Test Connection';
+  }
+}
+
 // 상태 메시지 표시
 function showStatus(element: HTMLElement, message: string, type: 'success' | 'error' | 'info') {
   element.textContent = message;
@@ -196,12 +429,9 @@ async function loadCacheStats() {
       // 캐시 크기
       cacheSizeSpan.textContent = formatBytes(stats.cacheSize);
 
-      // 누적 비용 계산 및 표시
-      if (stats.totalTokensUsed) {
-        const cost = calculateCost(
-          stats.totalTokensUsed,
-          stats.llmProvider || 'claude'
-        );
+      // 누적 비용 계산 및 표시 (모델별 가격 적용)
+      if (stats.tokenUsageByModel && Object.keys(stats.tokenUsageByModel).length > 0) {
+        const cost = calculateTotalCost(stats.tokenUsageByModel);
         totalCostSpan.textContent = formatCost(cost);
       } else {
         totalCostSpan.textContent = 'No data';
@@ -248,6 +478,136 @@ async function clearCache() {
   }
 }
 
+// 히스토리 수집 작업 표시 (진행 중에는 새 작업 시작 불가, 실패한 작업은 Start로 재시도)
+let currentHarvestJob: HarvestJobSummary | null = null;
+function renderHarvestJob(job: HarvestJobSummary | null) {
+  currentHarvestJob = job;
+  const isRunning = job?.status === 'collecting' || job?.status === 'converting';
+  harvestPrepareButton.disabled = isRunning;
+  harvestStartButton.disabled = job?.status !== 'estimated' && job?.status !== 'failed';
+  harvestStartButton.textContent = job?.status === 'failed' ? 'Retry' : 'Start Harvest';
+  harvestCancelButton.disabled = !job || job.status === 'completed' || job.status === 'cancelled';
+
+  if (!job) {
+    harvestStats.style.display = 'none';
+    return;
+  }
+
+  harvestStats.style.display = '';
+  const repository = `${job.repository.owner}/${job.repository.name}`;
+  harvestStateSpan.textContent = `${HARVEST_STATUS_LABELS[job.status]} (${repository})`;
+  harvestStateSpan.title = job.error ?? '';
+
+  const { phase, done, total } = job.progress;
+  harvestProgressSpan.textContent = `${phase === 'collecting' ? 'PR/MRs' : 'Conventions'} ${done}/${total}`;
+
+  harvestConventionsSpan.textContent = job.estimate
+    ? `${job.estimate.commentCount} comments → ${job.estimate.clusterCount} conventions`
+    : '-';
+  harvestCostSpan.textContent = job.estimate
+    ? `${formatCost(job.estimate)} (${(job.estimate.inputTokens + job.estimate.outputTokens).toLocaleString()} tokens)`
+    : '-';
+
+  if (job.status === 'completed' && job.prUrl) {
+    harvestStatus.innerHTML = '';
+    const link = document.createElement('a');
+    link.href = job.prUrl;
+    link.target = '_blank';
+    link.textContent = `🎉 Rules PR created: ${job.prUrl}`;
+    harvestStatus.appendChild(link);
+    harvestStatus.className = 'status success';
+  } else if (job.status === 'failed' && job.error) {
+    harvestStatus.textContent = `Harvest failed: ${job.error}`;
+    harvestStatus.className = 'status error';
+  } else if (isRunning) {
+    harvestStatus.textContent = '';
+    harvestStatus.className = 'status';
+  }
+}
+
+// 히스토리 수집 작업 조회 (중단된 작업은 Background에서 재개)
+async function loadHarvestStatus() {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'HARVEST_STATUS' });
+    if (response.success) {
+      renderHarvestJob(response.data);
+    }
+  } catch (error) {
+    showStatus(harvestStatus, `에러: ${error}`, 'error');
+  }
+}
+
+// 입력한 저장소 (마지막 경로가 저장소 이름, 나머지는 owner)
+function getHarvestRepository(): Repository | null {
+  const segments = harvestRepositoryInput.value.trim().replace(/^\/+|\/+$/g, '').split('/').filter(Boolean);
+  if (segments.length < 2) {
+    return null;
+  }
+
+  return {
+    owner: segments.slice(0, -1).join('/'),
+    name: segments[segments.length - 1],
+    platform: harvestPlatformSelect.value as Platform,
+    branch: '',
+    prNumber: 0
+  };
+}
+
+// 머지된 PR/MR 수집 및 비용 추정 시작
+async function prepareHarvest() {
+  const repository = getHarvestRepository();
+  if (!repository) {
+    showStatus(harvestStatus, 'Enter the repository as owner/name.', 'error');
+    return;
+  }
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'HARVEST_PREPARE',
+      payload: { repository, limit: Number(harvestLimitInput.value) }
+    });
+
+    if (response.success) {
+      renderHarvestJob(response.data);
+    } else {
+      showStatus(harvestStatus, response.error, 'error');
+    }
+  } catch (error) {
+    showStatus(harvestStatus, `에러: ${error}`, 'error');
+  }
+}
+
+// 추정 비용 확인 후 변환 시작 (추정 전에 실패한 작업은 수집부터 재시도)
+async function startHarvest() {
+  const cost = harvestCostSpan.textContent;
+  if (currentHarvestJob?.estimate && !confirm(`Start converting the harvested conventions?\n\nEstimated LLM cost: ${cost}\nA single rules PR/MR will be created when it finishes.`)) {
+    return;
+  }
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'HARVEST_START' });
+    if (response.success) {
+      renderHarvestJob(response.data);
+    } else {
+      showStatus(harvestStatus, response.error, 'error');
+    }
+  } catch (error) {
+    showStatus(harvestStatus, `에러: ${error}`, 'error');
+  }
+}
+
+// 히스토리 수집 취소
+async function cancelHarvest() {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'HARVEST_CANCEL' });
+    if (response.success) {
+      renderHarvestJob(response.data);
+    }
+  } catch (error) {
+    showStatus(harvestStatus, `에러: ${error}`, 'error');
+  }
+}
+
 // 바이트를 사람이 읽기 쉬운 형식으로 변환
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
@@ -508,8 +868,13 @@ async function resetMasterPassword(): Promise<void> {
       'masterPasswordHash',
       'githubToken_enc',
       'gitlabToken_enc',
+      'bitbucketAppPassword_enc',
+      'giteaToken_enc',
+      'azureToken_enc',
       'claudeApiKey_enc',
-      'openaiApiKey_enc'
+      'openaiApiKey_enc',
+      'geminiApiKey_enc',
+      'compatibleApiKey_enc'
     ]);
 
     // 현재 모달 닫고 설정 모달 열기
@@ -612,8 +977,19 @@ function setupAccordion() {
 function setupInlineValidation() {
   const githubTokenInput = document.getElementById('github-token') as HTMLInputElement;
   const gitlabTokenInput = document.getElementById('gitlab-token') as HTMLInputElement;
+  const bitbucketPasswordInput = document.getElementById('bitbucket-app-password') as HTMLInputElement;
+  const giteaTokenInput = document.getElementById('gitea-token') as HTMLInputElement;
+  const azureTokenInput = document.getElementById('azure-token') as HTMLInputElement;
   const claudeKeyInput = document.getElementById('claude-api-key') as HTMLInputElement;
   const openaiKeyInput = document.getElementById('openai-api-key') as HTMLInputElement;
+  const geminiKeyInput = document.getElementById('gemini-api-key') as HTMLInputElement;
+  const compatibleUrlInput = document.getElementById('compatible-base-url') as HTMLInputElement;
+  const customTargetCheckbox = document.getElementById('custom-target-enabled') as HTMLInputElement;
+  const promptTemplateInputs = ['prompt-template-analysis', 'prompt-template-classification', 'prompt-template-file-naming']
+    .map(id => document.getElementById(id) as HTMLTextAreaElement | null)
+    .filter((input): input is HTMLTextAreaElement => !!input);
+  const customCategoriesInput = document.getElementById('custom-categories') as HTMLTextAreaElement | null;
+  const redactionPatternsInput = document.getElementById('redaction-patterns') as HTMLTextAreaElement | null;
 
   // GitHub Token 검증 (ghp_, gho_, ghs_, ghu_ 등으로 시작)
   if (githubTokenInput) {
@@ -653,6 +1029,70 @@ function setupInlineValidation() {
     });
   }
 
+  // Bitbucket App Password (형식이 다양하므로 입력 여부만 확인)
+  if (bitbucketPasswordInput) {
+    bitbucketPasswordInput.addEventListener('input', (e) => {
+      const value = (e.target as HTMLInputElement).value.trim();
+      updateSectionStatus('bitbucket', value ? 'configured' : 'optional');
+    });
+  }
+
+  // Gitea Token 검증 (40자리 hex)
+  if (giteaTokenInput) {
+    giteaTokenInput.addEventListener('input', (e) => {
+      const value = (e.target as HTMLInputElement).value.trim();
+      if (!value) {
+        giteaTokenInput.classList.remove('valid', 'invalid');
+        updateSectionStatus('gitea', 'optional');
+      } else if (/^[a-f0-9]{40}$/.test(value)) {
+        giteaTokenInput.classList.remove('invalid');
+        giteaTokenInput.classList.add('valid');
+        updateSectionStatus('gitea', 'configured');
+      } else {
+        giteaTokenInput.classList.remove('valid');
+        giteaTokenInput.classList.add('invalid');
+        updateSectionStatus('gitea', 'optional');
+      }
+    });
+  }
+
+  // Azure DevOps PAT (길이가 발급 시기마다 달라 입력 여부만 확인)
+  if (azureTokenInput) {
+    azureTokenInput.addEventListener('input', (e) => {
+      const value = (e.target as HTMLInputElement).value.trim();
+      updateSectionStatus('azure', value ? 'configured' : 'optional');
+    });
+  }
+
+  // Custom Target (사용 여부만 표시)
+  if (customTargetCheckbox) {
+    customTargetCheckbox.addEventListener('change', () => {
+      updateSectionStatus('custom-target', customTargetCheckbox.checked ? 'configured' : 'optional');
+    });
+  }
+
+  // Custom Categories (입력되어 있으면 Configured)
+  if (customCategoriesInput) {
+    customCategoriesInput.addEventListener('input', () => {
+      updateSectionStatus('categories', customCategoriesInput.value.trim() ? 'configured' : 'optional');
+    });
+  }
+
+  // Privacy (사용자 정의 패턴이 있으면 Configured)
+  if (redactionPatternsInput) {
+    redactionPatternsInput.addEventListener('input', () => {
+      updateSectionStatus('privacy', redactionPatternsInput.value.trim() ? 'configured' : 'optional');
+    });
+  }
+
+  // Prompt Templates (하나라도 입력되어 있으면 Configured)
+  promptTemplateInputs.forEach(input => {
+    input.addEventListener('input', () => {
+      const configured = promptTemplateInputs.some(templateInput => templateInput.value.trim());
+      updateSectionStatus('prompt-templates', configured ? 'configured' : 'optional');
+    });
+  });
+
   // Claude API Key 검증 (sk-ant- 로 시작)
   if (claudeKeyInput) {
     claudeKeyInput.addEventListener('input', (e) => {
@@ -686,6 +1126,40 @@ function setupInlineValidation() {
       }
     });
   }
+
+  // Gemini API Key 검증 (AIza 로 시작)
+  if (geminiKeyInput) {
+    geminiKeyInput.addEventListener('input', (e) => {
+      const value = (e.target as HTMLInputElement).value.trim();
+      if (!value) {
+        geminiKeyInput.classList.remove('valid', 'invalid');
+      } else if (/^AIza[0-9A-Za-z_-]{35}$/.test(value)) {
+        geminiKeyInput.classList.remove('invalid');
+        geminiKeyInput.classList.add('valid');
+        updateSectionStatus('llm', 'configured');
+      } else {
+        geminiKeyInput.classList.remove('valid');
+        geminiKeyInput.classList.add('invalid');
+      }
+    });
+  }
+
+  // OpenAI 호환 엔드포인트 URL 검증 (API 키는 선택이므로 URL만 확인)
+  if (compatibleUrlInput) {
+    compatibleUrlInput.addEventListener('input', (e) => {
+      const value = (e.target as HTMLInputElement).value.trim();
+      if (!value) {
+        compatibleUrlInput.classList.remove('valid', 'invalid');
+      } else if (isValidLLMEndpointUrl(value)) {
+        compatibleUrlInput.classList.remove('invalid');
+        compatibleUrlInput.classList.add('valid');
+        updateSectionStatus('llm', 'configured');
+      } else {
+        compatibleUrlInput.classList.remove('valid');
+        compatibleUrlInput.classList.add('invalid');
+      }
+    });
+  }
 }
 
 // 상태 배지 업데이트
@@ -738,6 +1212,9 @@ function toggleExpandAll() {
 saveButton.addEventListener('click', saveConfig);
 testGithubButton.addEventListener('click', testGithubApi);
 testGitlabButton.addEventListener('click', testGitlabApi);
+testBitbucketButton.addEventListener('click', testBitbucketApi);
+testGiteaButton.addEventListener('click', testGiteaApi);
+testAzureButton.addEventListener('click', testAzureApi);
 
 // LLM 설정 이벤트 리스너
 llmProviderSelect.addEventListener('change', updateLLMUI);
@@ -746,6 +1223,17 @@ llmProviderSelect.addEventListener('change', updateLLMUI);
 refreshCacheStatsButton.addEventListener('click', loadCacheStats);
 clearCacheButton.addEventListener('click', clearCache);
 
+// 히스토리 수집 이벤트 리스너 (진행 상황은 Background에서 전달)
+harvestPrepareButton.addEventListener('click', prepareHarvest);
+harvestStartButton.addEventListener('click', startHarvest);
+harvestCancelButton.addEventListener('click', cancelHarvest);
+chrome.runtime.onMessage.addListener((message) => {
+  if (message?.type === 'HARVEST_PROGRESS') {
+    renderHarvestJob(message.payload);
+  }
+});
+loadHarvestStatus();
+
 // Quick links 이벤트 리스너
 const quickSetupBtn = document.getElementById('quick-setup-btn');
 const expandAllBtn = document.getElementById('expand-all-btn');
@@ -2,8 +2,10 @@
  * Review to Instruction - 공통 타입 정의
  */
 
-// GitHub/GitLab 플랫폼 타입
-export type Platform = 'github' | 'gitlab';
+import type { RepositoryCategory } from './repository-config';
+
+// GitHub/GitLab/Bitbucket/Gitea(Forgejo)/Azure DevOps 플랫폼 타입
+export type Platform = 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'azure';
 
 // 리뷰 코멘트의 코드 컨텍스트 (diff hunk)
 export interface CodeContext {
@@ -67,6 +69,17 @@ export interface EnhancedComment extends ParsedComment {
   additionalKeywords?: string[];           // LLM이 추출한 추가 키워드
   suggestedCategory?: string;              // LLM이 제안한 카테고리
   reasoning?: ReasoningInfo;               // 추론 정보 (Phase 1)
+  redactions?: RedactionEntry[];           // LLM 전송 전 가린 항목 (미리보기 표시용)
+}
+
+// LLM 전송 전 가린 비밀 정보/개인정보 종류
+export type RedactionKind = 'api-key' | 'jwt' | 'private-key' | 'email' | 'ip' | 'custom';
+
+// 가린 항목 (원래 값은 마스킹된 일부만 보관)
+export interface RedactionEntry {
+  kind: RedactionKind;
+  placeholder: string;   // 예: [REDACTED_EMAIL_1]
+  preview: string;       // 예: jane•••om
 }
 
 // 추론 정보 (Phase 1: 투명성 강화)
@@ -79,7 +92,7 @@ export interface ReasoningInfo {
 
 // 레포지토리 정보
 export interface Repository {
-  owner: string;
+  owner: string;                // Azure DevOps는 '{organization}/{project}'
   name: string;
   platform: Platform;
   branch: string;               // 현재 PR/MR의 head 브랜치 (작업 브랜치)
@@ -105,20 +118,56 @@ export interface MatchResult {
 }
 
 // LLM 제공자 타입
-export type LLMProvider = 'claude' | 'openai';
+export type LLMProvider = 'claude' | 'openai' | 'gemini' | 'openai-compatible';
 
 // LLM 설정
 export interface LLMConfig {
-  provider: LLMProvider;      // 'claude' or 'openai' (required)
+  provider: LLMProvider;      // 'claude', 'openai', 'gemini' or 'openai-compatible' (required)
   claudeApiKey?: string;
   openaiApiKey?: string;
+  geminiApiKey?: string;
+  compatibleBaseUrl?: string; // OpenAI 호환 엔드포인트 (예: http://localhost:11434/v1)
+  compatibleModel?: string;   // OpenAI 호환 엔드포인트 모델명 (예: llama3.1)
+  compatibleApiKey?: string;  // OpenAI 호환 엔드포인트 API 키 (선택)
+  // 제공자별 모델 선택 (비어 있으면 기본 모델, Light: 파일명/분류 등 경량 작업용)
+  claudeModel?: string;
+  claudeLightModel?: string;
+  openaiModel?: string;
+  openaiLightModel?: string;
+  geminiModel?: string;
+  geminiLightModel?: string;
+  compatibleLightModel?: string;
+  promptTemplates?: PromptTemplates;  // 사용자 정의 프롬프트 (저장소 override 병합 후)
+  outputLanguage?: string;            // 생성 규칙 언어 (저장소 설정, 기본 English)
+  categories?: RepositoryCategory[];  // 사용자/저장소 정의 카테고리 (Popup + 저장소 설정 병합)
+  redaction?: RedactionConfig;        // LLM 전송 전 비밀 정보 가리기
+}
+
+// 비밀 정보 가리기 설정
+export interface RedactionConfig {
+  enabled: boolean;
+  patterns: string[];     // 사용자 정의 정규식 (기본 감지기에 추가)
+}
+
+// 사용자 정의 프롬프트 템플릿 (비어 있으면 기본 프롬프트 사용)
+export interface PromptTemplates {
+  analysis?: string;        // 코멘트 분석
+  classification?: string;  // Claude Code instruction/skill 분류
+  fileNaming?: string;      // 파일명 생성
+  version: string;          // 템플릿 버전 (LLM 캐시 키에 포함)
 }
 
 // API 설정
 export interface ApiConfig {
   githubToken?: string;
+  githubUrl?: string;          // GitHub Enterprise Server URL (선택)
   gitlabToken?: string;
   gitlabUrl?: string;          // Self-hosted GitLab URL (선택)
+  bitbucketUsername?: string;  // Bitbucket 사용자명 (App Password 인증용)
+  bitbucketAppPassword?: string;
+  giteaToken?: string;
+  giteaUrl?: string;           // Gitea/Forgejo 인스턴스 URL
+  azureToken?: string;         // Azure DevOps Personal Access Token
   showButtons?: boolean;
   llm?: LLMConfig;             // LLM 설정 추가
 }
@@ -152,7 +201,10 @@ export interface PRReviewData {
 }
 
 // 프로젝트 타입 관련 (Feature 1)
-export type { ProjectType, ProjectTypeConfig, ProjectTypeDetectionResult, CachedDetectionResult } from './project-types';
+export type { ProjectType, ProjectTypeConfig, CustomTargetConfig, ProjectTypeDetectionResult, CachedDetectionResult } from './project-types';
+
+// 저장소 설정 파일 관련
+export type { NamingPattern, RepositoryCategory, RepositoryConfig } from './repository-config';
 
 // FormManager 타입 관련
 export type { FormState, ValidationRule, FieldSchema } from './form-manager';
@@ -169,6 +221,71 @@ export interface FileGenerationResult {
   merged?: boolean;           // MERGE 케이스: 기존 파일에 병합됨
   similarityScore?: number;   // 유사도 점수 (0-100)
   reasoning?: string;         // LLM 판단 이유
+
+  secretFindings?: SecretFinding[];  // 커밋 전 검사 결과 (마스킹/차단 항목)
+  conflicts?: RuleConflict[];        // 해결하지 않고 커밋되는 기존 규칙과의 모순
+  supersedes?: string[];             // 이 규칙으로 대체되어 같은 PR에서 deprecated로 표시하는 기존 규칙 파일
+  provenance?: ProvenanceEntry[];    // 이번 변환에서 추가한 규칙 항목의 출처 (출처 기록 갱신용)
+  deleted?: boolean;                 // 같은 커밋에서 삭제하는 파일 (마이그레이션한 레거시 파일, content는 빈 문자열)
+}
+
+// 규칙 출처 (변환한 리뷰 코멘트)
+export interface RuleProvenance {
+  pr: number;
+  commentId: string;
+  url: string;
+  reviewer: string;         // 코멘트 작성자
+  participants: string[];   // 스레드 참여자 (작성자 포함)
+  date: string;             // YYYY-MM-DD
+}
+
+// 출처 기록 항목 (규칙 항목 단위)
+export interface ProvenanceEntry extends RuleProvenance {
+  rule: string;             // 규칙 항목 내용 (목록 기호 제외)
+}
+
+// 출처 기록 파일 (.claude/rules/.provenance.json)
+export interface ProvenanceLedger {
+  version: 1;
+  files: Record<string, ProvenanceEntry[]>;  // 규칙 파일 경로 → 항목별 출처
+}
+
+// 규칙 파일 상태 (frontmatter status)
+export type RuleStatus = 'active' | 'deprecated';
+
+// 새 규칙과 기존 규칙의 관계 (모순 검사)
+export type RuleRelation = 'consistent' | 'refining' | 'contradicting';
+
+// 새 규칙과 모순되는 기존 규칙
+export interface RuleConflict {
+  filePath: string;       // 기존 규칙 파일
+  existingRule: string;   // 모순되는 기존 규칙 문장 (파일의 한 줄)
+  reasoning: string;
+  narrowScope?: string;   // 범위 축소 시 새 규칙에 적용할 glob (리뷰 코드 경로 기준)
+}
+
+// 모순 해결 방법 (중단은 변환하지 않음)
+// - supersede: 새 규칙을 별도 파일로 만들고 기존 규칙 파일은 같은 PR에서 deprecated로 표시
+// - replace: 기존 파일에서 모순되는 규칙을 지우고 새 규칙을 추가
+// - scope-narrow: 새 규칙을 별도 파일로 만들고 narrowScope 경로에만 적용 (paths frontmatter)
+export type ConflictResolution = 'supersede' | 'replace' | 'scope-narrow';
+
+// 커밋 전 검사에서 발견한 비밀 정보 종류
+export type SecretKind = 'api-key' | 'jwt' | 'private-key' | 'credential' | 'sensitive-path';
+
+// 커밋 전 검사 발견 항목
+export interface SecretFinding {
+  kind: SecretKind;
+  filePath: string;     // 생성 파일 경로
+  line: number;         // 1부터 시작
+  preview: string;      // 마스킹된 값 또는 민감 파일 경로
+  blocked: boolean;     // true면 커밋 차단 (마스킹으로 해결할 수 없음)
+}
+
+// 미리보기 모달 검증 메시지 (error가 있으면 Confirm 비활성화)
+export interface ValidationWarning {
+  type: 'warning' | 'error';
+  message: string;
 }
 
 // 메시지 타입 (Content Script ↔ Background)
@@ -188,7 +305,12 @@ export type MessageType =
   | 'GET_PR_INFO'          // PR head/base 브랜치 조회
   | 'GET_PR_REVIEW_DATA'  // PR 리뷰 코멘트 데이터 조회 (API 기반)
   | 'SET_MASTER_PASSWORD'  // 마스터 비밀번호 설정
-  | 'CHECK_TOKEN_STATUS';  // API Token 유효성 확인 (복호화 가능 여부)
+  | 'CHECK_TOKEN_STATUS'   // API Token 유효성 확인 (복호화 가능 여부)
+  | 'HARVEST_PREPARE'      // 히스토리 수집: 머지된 PR/MR 수집 및 비용 추정
+  | 'HARVEST_START'        // 히스토리 수집: 추정 확인 후 변환/PR 생성
+  | 'HARVEST_STATUS'       // 히스토리 수집: 현재 작업 조회 (중단된 작업 재개)
+  | 'HARVEST_CANCEL'       // 히스토리 수집: 작업 취소
+  | 'HARVEST_PROGRESS';    // 히스토리 수집 진행 상황 (Background → Popup)
 
 export interface Message {
   type: MessageType;
@@ -4,13 +4,23 @@
  */
 
 // 지원하는 AI 코딩 도구 타입
-export type ProjectType = 'claude-code' | 'cursor' | 'windsurf' | 'codex';
+export type ProjectType = 'claude-code' | 'cursor' | 'windsurf' | 'codex' | 'copilot' | 'gemini' | 'aider' | 'cline' | 'custom';
 
 // 각 타입별 설정
 export interface ProjectTypeConfig {
   type: ProjectType;
   detectionPath: string;  // 감지할 경로 (예: '.claude/', '.cursorrules')
   enabled: boolean;       // 해당 타입 지원 활성화 여부
+  legacyPath?: string;    // 마이그레이션 대상 레거시 파일 (예: Cursor '.cursorrules')
+}
+
+// 사용자 정의 출력 대상 설정 (Popup에서 구성)
+export interface CustomTargetConfig {
+  directory: string;                   // 대상 디렉토리 (예: '.ai/rules', 루트는 '.')
+  extension: string;                   // 파일 확장자 (예: '.md')
+  mode: 'per-rule' | 'single-file';    // 규칙당 파일 1개 / 단일 파일에 섹션 upsert
+  fileName: string;                    // single-file 모드 파일명 (확장자 제외)
+  template: string;                    // Mustache 형식 템플릿
 }
 
 // 감지 결과
@@ -0,0 +1,29 @@
+/**
+ * Review to Instruction - Repository Config Definitions
+ * 대상 저장소에 커밋된 `.review-to-instruction.yml` 설정
+ */
+
+import type { ProjectType } from './project-types';
+
+// 규칙 파일명 네이밍 패턴
+export type NamingPattern = 'kebab-case' | 'PascalCase' | 'snake_case';
+
+// 저장소 정의 카테고리
+export interface RepositoryCategory {
+  name: string;
+  directory?: string;     // 규칙 하위 디렉토리 ('' 이면 기본 디렉토리)
+  keywords?: string[];    // 이 디렉토리로 분류할 키워드
+  description?: string;
+}
+
+// 저장소 설정 (선언된 항목만 기본값 대신 사용)
+export interface RepositoryConfig {
+  projectTypes?: ProjectType[];             // 생성할 프로젝트 타입 (자동 감지 대신 사용)
+  directories?: Record<string, string[]>;   // 규칙 하위 디렉토리 → 키워드 (DirectoryRules 기본 규칙 대체)
+  categories?: RepositoryCategory[];        // 카테고리 → 하위 디렉토리 (DirectoryRules 기본 매핑 대체)
+  namingPattern?: NamingPattern;
+  branchPrefix?: string;                    // PR 브랜치 접두사 (기본: 'ai-instruction/')
+  labels?: string[];                        // PR/MR 라벨
+  reviewers?: string[];                     // PR/MR 리뷰어 사용자명
+  language?: string;                        // 생성 규칙 언어 (예: 'en', 'ko', 'Japanese')
+}
@@ -0,0 +1,35 @@
+/**
+ * Self-hosted Gitea/Forgejo 호스트 유틸리티
+ * popup(권한 요청)과 background(content script 등록)에서 공통으로 사용
+ */
+
+/**
+ * codeberg.org가 아닌 self-hosted Gitea/Forgejo URL인지 확인
+ */
+export function isSelfHostedGiteaUrl(giteaUrl?: string): giteaUrl is string {
+  if (!giteaUrl) return false;
+
+  try {
+    return new URL(giteaUrl).hostname !== 'codeberg.org';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gitea PR 페이지 매칭 패턴 (content script 등록용)
+ */
+export function getGiteaPRPattern(giteaUrl: string): string {
+  return `${new URL(giteaUrl).origin}/*/pulls/*`;
+}
+
+/**
+ * Gitea 호스트에 필요한 optional host permission origin 목록
+ * - PR 페이지 (content script 주입)
+ * - REST API (/api/v1, 하위 경로에 설치된 인스턴스는 그 경로 기준)
+ */
+export function getGiteaPermissionOrigins(giteaUrl: string): string[] {
+  const url = new URL(giteaUrl);
+  const basePath = url.pathname.replace(/\/$/, '');
+  return [getGiteaPRPattern(giteaUrl), `${url.origin}${basePath}/api/v1/*`];
+}
@@ -0,0 +1,35 @@
+/**
+ * GitHub Enterprise Server 호스트 유틸리티
+ * popup(권한 요청)과 background(content script 등록)에서 공통으로 사용
+ */
+
+/**
+ * github.com이 아닌 GitHub Enterprise Server URL인지 확인
+ */
+export function isGitHubEnterpriseUrl(githubUrl?: string): githubUrl is string {
+  if (!githubUrl) return false;
+
+  try {
+    const hostname = new URL(githubUrl).hostname;
+    return hostname !== 'github.com' && hostname !== 'api.github.com';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GHES PR 페이지 매칭 패턴 (content script 등록용)
+ */
+export function getGitHubEnterprisePRPattern(githubUrl: string): string {
+  return `${new URL(githubUrl).origin}/*/pull/*`;
+}
+
+/**
+ * GHES 호스트에 필요한 optional host permission origin 목록
+ * - PR 페이지 (content script 주입)
+ * - REST API (/api/v3)
+ */
+export function getGitHubEnterprisePermissionOrigins(githubUrl: string): string[] {
+  const origin = new URL(githubUrl).origin;
+  return [getGitHubEnterprisePRPattern(githubUrl), `${origin}/api/v3/*`];
+}
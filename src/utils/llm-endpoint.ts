@@ -0,0 +1,35 @@
+/**
+ * OpenAI 호환 LLM 엔드포인트 유틸리티 (Ollama, vLLM, LM Studio 등)
+ * popup(권한 요청)과 background(API 호출)에서 공통으로 사용
+ */
+
+/**
+ * http(s) URL인지 확인
+ */
+export function isValidLLMEndpointUrl(baseUrl?: string): baseUrl is string {
+  if (!baseUrl) return false;
+
+  try {
+    const { protocol } = new URL(baseUrl);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Chat Completions API URL
+ * - http://localhost:11434/v1 → http://localhost:11434/v1/chat/completions
+ * - 이미 /chat/completions로 끝나면 그대로 사용
+ */
+export function getChatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/chat/completions') ? trimmed : `${trimmed}/chat/completions`;
+}
+
+/**
+ * 엔드포인트 호스트에 필요한 optional host permission origin 목록
+ */
+export function getLLMEndpointPermissionOrigins(baseUrl: string): string[] {
+  return [`${new URL(baseUrl).origin}/*`];
+}
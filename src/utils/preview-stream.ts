@@ -0,0 +1,128 @@
+/**
+ * Instruction 미리보기 스트리밍 (Background ↔ Content Script, chrome.runtime.Port)
+ * - Content script가 포트를 열고 PREVIEW_INSTRUCTION 메시지를 보내면
+ *   background가 LLM 응답을 받는 동안 partial, 끝나면 complete를 보냄
+ */
+
+import type { MessageResponse } from '../types';
+import type { LLMAnalysisResult } from '../background/llm/types';
+
+/**
+ * 미리보기 스트리밍 포트 이름
+ */
+export const PREVIEW_STREAM_PORT = 'preview-instruction-stream';
+
+/**
+ * Background → Content script 메시지
+ */
+export type PreviewStreamMessage =
+  | { type: 'partial'; data: Partial<LLMAnalysisResult> }
+  | { type: 'complete'; response: MessageResponse };
+
+/**
+ * 미리보기 요청 (스트리밍)
+ * - partial 메시지마다 onPartial 호출, complete 응답으로 resolve
+ */
+export function requestPreviewStream(
+  payload: unknown,
+  onPartial: (data: Partial<LLMAnalysisResult>) => void
+): Promise<MessageResponse> {
+  return new Promise((resolve, reject) => {
+    const port = chrome.runtime.connect({ name: PREVIEW_STREAM_PORT });
+    let completed = false;
+
+    port.onMessage.addListener((message: PreviewStreamMessage) => {
+      if (message.type === 'partial') {
+        onPartial(message.data);
+        return;
+      }
+
+      completed = true;
+      port.disconnect();
+      resolve(message.response);
+    });
+
+    port.onDisconnect.addListener(() => {
+      if (!completed) {
+        reject(new Error(chrome.runtime.lastError?.message || 'Preview stream disconnected (message port closed)'));
+      }
+    });
+
+    port.postMessage({ type: 'PREVIEW_INSTRUCTION', payload });
+  });
+}
+
+/**
+ * 스트리밍 중인(잘린) JSON 파싱
+ * - 열린 문자열/배열/객체를 닫아 보고, 실패하면 마지막 구분자까지 잘라 다시 시도
+ * @returns 파싱된 값 (객체 시작 전이면 undefined)
+ */
+export function parsePartialJSON(text: string): unknown {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return undefined;
+  }
+
+  const source = text.slice(start);
+  let end = source.length;
+
+  while (end > 0) {
+    try {
+      return JSON.parse(closeJSON(source.slice(0, end)));
+    } catch {
+      // 마지막 ',' 앞 또는 '{' / '[' 뒤까지 잘라서 재시도
+      const cut = Math.max(
+        source.lastIndexOf(',', end - 1),
+        source.lastIndexOf('{', end - 2),
+        source.lastIndexOf('[', end - 2)
+      );
+      if (cut === -1) {
+        return undefined;
+      }
+      end = source[cut] === ',' ? cut : cut + 1;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 열린 문자열과 괄호를 닫은 JSON 텍스트 생성
+ */
+function closeJSON(text: string): string {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+    }
+  }
+
+  let closed = text;
+  if (inString) {
+    // 잘린 이스케이프 문자(\)는 버리고 문자열 닫기
+    closed = (escaped ? closed.slice(0, -1) : closed) + '"';
+  }
+  closed = closed.replace(/[\s,:]+$/, '');
+
+  return closed + closers.reverse().join('');
+}
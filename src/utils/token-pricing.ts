@@ -3,6 +3,8 @@
  * 마지막 업데이트: 2026-01-28
  */
 
+import { DEFAULT_MODELS } from '../background/llm/models';
+
 export interface TokenPricing {
   inputPricePerMillion: number;   // USD per 1M tokens
   outputPricePerMillion: number;  // USD per 1M tokens
@@ -10,28 +12,60 @@ export interface TokenPricing {
 
 const USD_TO_KRW = 1350; // 환율 (주기적으로 업데이트 필요)
 
-// Claude Sonnet 4.5 가격
-const CLAUDE_SONNET_45_PRICING: TokenPricing = {
-  inputPricePerMillion: 3.0,
-  outputPricePerMillion: 15.0
+/**
+ * 모델별 가격표 (키는 모델 ID 접두사, 날짜 접미사가 붙은 ID도 매칭)
+ */
+export const MODEL_PRICING: Record<string, TokenPricing> = {
+  // Anthropic Claude
+  'claude-opus-4-1': { inputPricePerMillion: 15.0, outputPricePerMillion: 75.0 },
+  'claude-sonnet-4-5': { inputPricePerMillion: 3.0, outputPricePerMillion: 15.0 },
+  'claude-haiku-4-5': { inputPricePerMillion: 1.0, outputPricePerMillion: 5.0 },
+  // OpenAI
+  'gpt-4-turbo': { inputPricePerMillion: 10.0, outputPricePerMillion: 30.0 },
+  'gpt-4.1': { inputPricePerMillion: 2.0, outputPricePerMillion: 8.0 },
+  'gpt-4.1-mini': { inputPricePerMillion: 0.4, outputPricePerMillion: 1.6 },
+  'gpt-4o': { inputPricePerMillion: 2.5, outputPricePerMillion: 10.0 },
+  'gpt-4o-mini': { inputPricePerMillion: 0.15, outputPricePerMillion: 0.6 },
+  // Google Gemini
+  'gemini-2.5-pro': { inputPricePerMillion: 1.25, outputPricePerMillion: 10.0 },
+  'gemini-2.5-flash': { inputPricePerMillion: 0.3, outputPricePerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPricePerMillion: 0.1, outputPricePerMillion: 0.4 },
+  // 임베딩 (입력 토큰만 과금)
+  'text-embedding-3-small': { inputPricePerMillion: 0.02, outputPricePerMillion: 0 }
 };
 
-// OpenAI GPT-4 Turbo 가격
-const OPENAI_GPT4_TURBO_PRICING: TokenPricing = {
-  inputPricePerMillion: 10.0,
-  outputPricePerMillion: 30.0
+// 가격표에 없는 모델 (자체 호스팅 OpenAI 호환 엔드포인트 등, API 비용 없음)
+const UNKNOWN_MODEL_PRICING: TokenPricing = {
+  inputPricePerMillion: 0,
+  outputPricePerMillion: 0
 };
 
+/**
+ * 모델 가격 조회
+ * - 가장 긴 접두사가 일치하는 항목 사용 (gpt-4o-mini가 gpt-4o보다 우선)
+ * - 제공자 이름('claude', 'openai', 'gemini')이면 해당 제공자의 기본 분석 모델 가격
+ */
+export function getModelPricing(model: string): TokenPricing {
+  const modelId = model in DEFAULT_MODELS
+    ? DEFAULT_MODELS[model as keyof typeof DEFAULT_MODELS].analysis
+    : model;
+
+  const key = Object.keys(MODEL_PRICING)
+    .filter(prefix => modelId === prefix || modelId.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return key ? MODEL_PRICING[key] : UNKNOWN_MODEL_PRICING;
+}
+
 /**
  * 토큰 사용량을 비용으로 변환
+ * @param model 모델 ID (또는 제공자 이름)
  */
 export function calculateCost(
   tokenUsage: { inputTokens: number; outputTokens: number },
-  provider: 'claude' | 'openai'
+  model: string
 ): { usd: number; krw: number } {
-  const pricing = provider === 'claude'
-    ? CLAUDE_SONNET_45_PRICING
-    : OPENAI_GPT4_TURBO_PRICING;
+  const pricing = getModelPricing(model);
 
   const inputCost = (tokenUsage.inputTokens / 1_000_000) * pricing.inputPricePerMillion;
   const outputCost = (tokenUsage.outputTokens / 1_000_000) * pricing.outputPricePerMillion;
@@ -44,6 +78,26 @@ export function calculateCost(
   };
 }
 
+/**
+ * 모델별 누적 토큰 사용량의 총 비용
+ */
+export function calculateTotalCost(
+  usageByModel: Record<string, { inputTokens: number; outputTokens: number }>
+): { usd: number; krw: number } {
+  let totalUsd = 0;
+
+  for (const [model, usage] of Object.entries(usageByModel)) {
+    const pricing = getModelPricing(model);
+    totalUsd += (usage.inputTokens / 1_000_000) * pricing.inputPricePerMillion
+      + (usage.outputTokens / 1_000_000) * pricing.outputPricePerMillion;
+  }
+
+  return {
+    usd: Math.round(totalUsd * 1000) / 1000,
+    krw: Math.round(totalUsd * USD_TO_KRW)
+  };
+}
+
 /**
  * 비용을 사용자 친화적인 문자열로 포맷
  */
@@ -0,0 +1,353 @@
+/**
+ * 저장소 설정 파일용 YAML 파서 (부분집합)
+ *
+ * 지원 문법:
+ * - 들여쓰기 기반 매핑/시퀀스 중첩 (`- key: value` 형태의 매핑 항목 포함)
+ * - 블록 스칼라 `|`, `>` (chomping 지시자 `-`, `+`)
+ * - 따옴표 문자열, 인라인 `[a, b]` / `{a: 1}`, `#` 주석
+ * - true/false, null/~, 숫자
+ *
+ * 앵커/별칭, 태그, 여러 줄에 걸친 plain/따옴표 스칼라는 지원하지 않음
+ */
+
+interface YamlLine {
+  indent: number;
+  text: string;     // 들여쓰기를 제외한 내용
+  lineNo: number;   // 1부터 시작 (에러 메시지용)
+}
+
+const KEY_REGEX = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-[{][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*))?$/;
+const BLOCK_SCALAR_REGEX = /^([|>])([+-]?)$/;
+
+/**
+ * YAML 텍스트 파싱
+ * - 빈 문서는 null 반환, 지원하지 않는 문법이면 줄 번호와 함께 에러
+ */
+export function parseYaml(source: string): unknown {
+  const lines = source
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((raw, index) => ({
+      indent: raw.length - raw.trimStart().length,
+      text: raw.trim(),
+      lineNo: index + 1
+    }));
+
+  const parser = new YamlParser(lines);
+  return parser.parseDocument();
+}
+
+class YamlParser {
+  private index = 0;
+
+  constructor(private lines: YamlLine[]) {}
+
+  parseDocument(): unknown {
+    this.skipBlank();
+    if (this.current()?.text === '---') {
+      this.index++;
+    }
+
+    const value = this.parseNode(0);
+
+    this.skipBlank();
+    const rest = this.current();
+    if (rest && rest.text !== '...') {
+      throw new Error(`YAML 파싱 실패 (${rest.lineNo}번째 줄): 들여쓰기가 올바르지 않습니다.`);
+    }
+
+    return value;
+  }
+
+  /**
+   * 현재 줄 (빈 줄/주석은 skipBlank로 건너뛴 뒤 사용)
+   */
+  private current(): YamlLine | undefined {
+    return this.lines[this.index];
+  }
+
+  private skipBlank(): void {
+    while (this.index < this.lines.length) {
+      const { text } = this.lines[this.index];
+      if (text !== '' && !text.startsWith('#')) {
+        return;
+      }
+      this.index++;
+    }
+  }
+
+  /**
+   * minIndent 이상 들여쓴 노드 파싱 (없으면 null)
+   */
+  private parseNode(minIndent: number): unknown {
+    this.skipBlank();
+    const line = this.current();
+    if (!line || line.indent < minIndent) {
+      return null;
+    }
+
+    if (isSequenceItem(line.text)) {
+      return this.parseSequence(line.indent);
+    }
+    if (KEY_REGEX.test(line.text)) {
+      return this.parseMapping(line.indent);
+    }
+
+    this.index++;
+    return parseScalar(stripComment(line.text), line.lineNo);
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (this.skipBlank(); this.current()?.indent === indent; this.skipBlank()) {
+      const line = this.current()!;
+      const match = line.text.match(KEY_REGEX);
+      if (!match || isSequenceItem(line.text)) {
+        throw new Error(`YAML 파싱 실패 (${line.lineNo}번째 줄): "key: value" 형식이 아닙니다.`);
+      }
+
+      const key = parseKey(match[1], line.lineNo);
+      const rest = stripComment(match[2] ?? '');
+      this.index++;
+      result[key] = this.parseValue(rest, indent, line.lineNo, true);
+    }
+
+    return result;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+
+    for (this.skipBlank(); this.current()?.indent === indent && isSequenceItem(this.current()!.text); this.skipBlank()) {
+      const line = this.current()!;
+      const itemText = line.text.slice(1).trimStart();
+
+      // `- key: value` → 항목 내용을 매핑의 첫 줄로 보고 들여쓰기 재계산
+      if (KEY_REGEX.test(itemText) && !isSequenceItem(itemText)) {
+        const itemIndent = indent + (line.text.length - itemText.length);
+        this.lines[this.index] = { ...line, indent: itemIndent, text: itemText };
+        result.push(this.parseMapping(itemIndent));
+        continue;
+      }
+
+      this.index++;
+      result.push(this.parseValue(stripComment(itemText), indent, line.lineNo, false));
+    }
+
+    return result;
+  }
+
+  /**
+   * 키/항목 뒤의 값 파싱 (블록 스칼라, 하위 노드, 인라인 스칼라)
+   * @param isMappingValue 매핑 값이면 같은 들여쓰기의 시퀀스도 하위 노드로 허용
+   */
+  private parseValue(rest: string, parentIndent: number, lineNo: number, isMappingValue: boolean): unknown {
+    const blockMatch = rest.match(BLOCK_SCALAR_REGEX);
+    if (blockMatch) {
+      return this.parseBlockScalar(parentIndent, blockMatch[1] === '>', blockMatch[2]);
+    }
+
+    if (rest !== '') {
+      return parseScalar(rest, lineNo);
+    }
+
+    // 값이 다음 줄부터 시작 (매핑 키 아래 시퀀스는 같은 들여쓰기도 허용)
+    this.skipBlank();
+    const next = this.current();
+    if (isMappingValue && next && next.indent === parentIndent && isSequenceItem(next.text)) {
+      return this.parseSequence(parentIndent);
+    }
+    return this.parseNode(parentIndent + 1);
+  }
+
+  private parseBlockScalar(parentIndent: number, folded: boolean, chomping: string): string {
+    const start = this.index;
+    let end = start;
+    let blockIndent = -1;
+
+    while (end < this.lines.length) {
+      const line = this.lines[end];
+      if (line.text !== '') {
+        if (line.indent <= parentIndent) break;
+        if (blockIndent === -1) blockIndent = line.indent;
+      }
+      end++;
+    }
+
+    // 원문 들여쓰기를 유지하기 위해 블록 들여쓰기만 제거
+    const contentLines = this.lines.slice(start, end).map(line =>
+      line.text === '' ? '' : ' '.repeat(line.indent - blockIndent) + line.text
+    );
+    this.index = end;
+
+    let trailing = 0;
+    while (contentLines.length > 0 && contentLines[contentLines.length - 1] === '') {
+      contentLines.pop();
+      trailing++;
+    }
+
+    const body = folded ? foldLines(contentLines) : contentLines.join('\n');
+    if (body === '') {
+      return '';
+    }
+
+    switch (chomping) {
+      case '-':
+        return body;
+      case '+':
+        return body + '\n'.repeat(trailing + 1);
+      default:
+        return body + '\n';
+    }
+  }
+}
+
+/**
+ * 시퀀스 항목 여부 (`-` 단독 또는 `- ` 시작)
+ */
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * folded 스칼라 (`>`): 줄바꿈은 공백으로, 빈 줄은 줄바꿈으로
+ * - 더 들여쓴 줄은 원문 줄바꿈 유지
+ */
+function foldLines(lines: string[]): string {
+  return lines.reduce((result, line, index) => {
+    const previous = lines[index - 1];
+    if (index === 0) return line;
+    if (line === '') return result + '\n';
+    if (previous === '') return result + line;
+    if (line.startsWith(' ') || previous.startsWith(' ')) return result + '\n' + line;
+    return result + ' ' + line;
+  }, '');
+}
+
+/**
+ * 값/항목 시작 위치의 따옴표인지 확인 (`don't`의 작은따옴표는 문자열 시작이 아님)
+ */
+function opensQuote(text: string, index: number): boolean {
+  return index === 0 || /[\s[{,:]/.test(text[index - 1]);
+}
+
+/**
+ * 따옴표 밖의 ` #` 주석 제거
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if ((char === '"' || char === '\'') && opensQuote(text, i)) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+
+  return text.trimEnd();
+}
+
+function parseKey(raw: string, lineNo: number): string {
+  const value = parseScalar(raw, lineNo);
+  return String(value);
+}
+
+/**
+ * 인라인 스칼라 파싱 (따옴표 문자열, [a, b], {a: 1}, bool/null/숫자)
+ */
+function parseScalar(text: string, lineNo: number): unknown {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      throw new Error(`YAML 파싱 실패 (${lineNo}번째 줄): 따옴표 문자열이 올바르지 않습니다.`);
+    }
+  }
+
+  if (text.startsWith('\'')) {
+    if (text.length < 2 || !text.endsWith('\'')) {
+      throw new Error(`YAML 파싱 실패 (${lineNo}번째 줄): 따옴표 문자열이 닫히지 않았습니다.`);
+    }
+    return text.slice(1, -1).replace(/''/g, '\'');
+  }
+
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw new Error(`YAML 파싱 실패 (${lineNo}번째 줄): 인라인 목록이 닫히지 않았습니다.`);
+    }
+    return splitFlowItems(text.slice(1, -1)).map(item => parseScalar(item, lineNo));
+  }
+
+  if (text.startsWith('{')) {
+    if (!text.endsWith('}')) {
+      throw new Error(`YAML 파싱 실패 (${lineNo}번째 줄): 인라인 매핑이 닫히지 않았습니다.`);
+    }
+    const result: Record<string, unknown> = {};
+    for (const item of splitFlowItems(text.slice(1, -1))) {
+      const match = item.match(KEY_REGEX);
+      if (!match) {
+        throw new Error(`YAML 파싱 실패 (${lineNo}번째 줄): 인라인 매핑 항목 "${item}"이 올바르지 않습니다.`);
+      }
+      result[parseKey(match[1], lineNo)] = parseScalar(match[2] ?? '', lineNo);
+    }
+    return result;
+  }
+
+  if (text === '' || text === '~' || text === 'null') {
+    return null;
+  }
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+
+  return text;
+}
+
+/**
+ * 인라인 목록/매핑 항목 분리 (따옴표, 중첩 괄호 안의 쉼표는 무시)
+ */
+function splitFlowItems(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if ((char === '"' || char === '\'') && opensQuote(text, i)) {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  const last = text.slice(start).trim();
+  if (last !== '') {
+    items.push(last);
+  }
+
+  return items.filter(item => item !== '');
+}
@@ -0,0 +1,162 @@
+/**
+ * Gitea/Forgejo API Mock Handlers (MSW)
+ */
+
+import { http, HttpResponse } from 'msw';
+
+export const GITEA_API = 'https://forgejo.example.com/api/v1';
+
+export const giteaHandlers = [
+  // 1. User 정보 조회
+  http.get(`${GITEA_API}/user`, () => {
+    return HttpResponse.json({
+      id: 1,
+      login: 'test-user',
+      full_name: 'Test User',
+      email: 'test@example.com'
+    });
+  }),
+
+  // 2. Directory 조회 (.claude/rules)
+  http.get(`${GITEA_API}/repos/:owner/:repo/contents/.claude/rules`, () => {
+    return HttpResponse.json([
+      {
+        name: 'naming.md',
+        path: '.claude/rules/naming.md',
+        type: 'file',
+        sha: 'naming-sha'
+      },
+      {
+        name: 'legacy',
+        path: '.claude/rules/legacy',
+        type: 'dir',
+        sha: 'legacy-sha'
+      }
+    ]);
+  }),
+
+  // 3. 파일 조회 (기존 파일만 존재)
+  http.get(`${GITEA_API}/repos/:owner/:repo/contents/:path*`, ({ params }) => {
+    const path = (params.path as string[]).join('/');
+    if (path !== '.claude/rules/naming.md') {
+      return HttpResponse.json({ message: 'GetContentsOrList' }, { status: 404 });
+    }
+
+    return HttpResponse.json({
+      name: 'naming.md',
+      path,
+      type: 'file',
+      sha: 'naming-sha',
+      encoding: 'base64',
+      content: btoa('# Naming\n')
+    });
+  }),
+
+  // 4. 다중 파일 커밋 (ChangeFiles API)
+  http.post(`${GITEA_API}/repos/:owner/:repo/contents`, async ({ request }) => {
+    const body = await request.json() as any;
+    return HttpResponse.json({
+      files: body.files.map((f: any) => ({ path: f.path })),
+      commit: { sha: 'commit-sha-gitea', message: body.message }
+    }, { status: 201 });
+  }),
+
+  // 5. Branch 생성
+  http.post(`${GITEA_API}/repos/:owner/:repo/branches`, async ({ request }) => {
+    const body = await request.json() as any;
+    return HttpResponse.json({
+      name: body.new_branch_name,
+      commit: { id: 'branch-sha-gitea' }
+    }, { status: 201 });
+  }),
+
+  // 6. PR 목록 / 생성
+  http.get(`${GITEA_API}/repos/:owner/:repo/pulls`, ({ params }) => {
+    return HttpResponse.json([
+      {
+        number: 3,
+        html_url: `https://forgejo.example.com/${params.owner}/${params.repo}/pulls/3`,
+        head: { ref: 'feature/other' },
+        base: { ref: 'main' }
+      },
+      {
+        number: 4,
+        html_url: `https://forgejo.example.com/${params.owner}/${params.repo}/pulls/4`,
+        head: { ref: 'ai-instruction/add-naming-convention-1' },
+        base: { ref: 'main' }
+      }
+    ]);
+  }),
+
+  http.post(`${GITEA_API}/repos/:owner/:repo/pulls`, async ({ request, params }) => {
+    const body = await request.json() as any;
+    return HttpResponse.json({
+      number: 5,
+      html_url: `https://forgejo.example.com/${params.owner}/${params.repo}/pulls/5`,
+      title: body.title,
+      head: { ref: body.head },
+      base: { ref: body.base }
+    }, { status: 201 });
+  }),
+
+  // 7. PR 리뷰 목록 / 리뷰 코멘트
+  http.get(`${GITEA_API}/repos/:owner/:repo/pulls/:index/reviews`, () => {
+    return HttpResponse.json([
+      { id: 10, state: 'COMMENT', comments_count: 2 },
+      { id: 11, state: 'APPROVED', comments_count: 0 },
+      { id: 12, state: 'COMMENT', comments_count: 1 }
+    ]);
+  }),
+
+  http.get(`${GITEA_API}/repos/:owner/:repo/pulls/:index/reviews/:reviewId/comments`, ({ params }) => {
+    if (params.reviewId === '10') {
+      return HttpResponse.json([
+        {
+          id: 100,
+          body: 'Always use camelCase for function names',
+          user: { login: 'reviewer' },
+          path: 'src/utils.ts',
+          position: 12,
+          original_position: 12,
+          diff_hunk: '@@ -10,3 +10,3 @@\n-function get_user() {}\n+function getUser() {}',
+          created_at: '2026-02-01T10:00:00Z'
+        },
+        {
+          id: 101,
+          body: 'Also avoid abbreviations',
+          user: { login: 'reviewer' },
+          path: 'src/api.ts',
+          position: 3,
+          original_position: 3,
+          diff_hunk: '@@ -1,3 +1,3 @@',
+          created_at: '2026-02-01T10:05:00Z'
+        }
+      ]);
+    }
+
+    return HttpResponse.json([
+      {
+        id: 102,
+        body: 'Agreed, will fix',
+        user: { login: 'author' },
+        path: 'src/utils.ts',
+        position: 12,
+        original_position: 12,
+        diff_hunk: '@@ -10,3 +10,3 @@',
+        created_at: '2026-02-01T11:00:00Z'
+      }
+    ]);
+  }),
+
+  // 8. 일반 PR 코멘트
+  http.get(`${GITEA_API}/repos/:owner/:repo/issues/:index/comments`, () => {
+    return HttpResponse.json([
+      {
+        id: 200,
+        body: 'Thanks for the PR!',
+        user: { login: 'maintainer' },
+        created_at: '2026-02-01T09:00:00Z'
+      }
+    ]);
+  })
+];
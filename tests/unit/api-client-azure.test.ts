@@ -0,0 +1,184 @@
+/**
+ * ApiClient Azure DevOps 단위 테스트
+ * fetch를 모킹하여 Azure DevOps REST API 응답 → 공통 타입 변환 검증
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ApiClient } from '../../src/background/api-client';
+import type { Repository } from '../../src/types';
+
+const repository: Repository = {
+  owner: 'contoso/Web Platform',
+  name: 'frontend',
+  platform: 'azure',
+  branch: 'feature/login',
+  baseBranch: 'main',
+  prNumber: 42
+};
+
+const REPO_API = 'https://dev.azure.com/contoso/Web%20Platform/_apis/git/repositories/frontend';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+describe('ApiClient (Azure DevOps)', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('PAT를 빈 사용자명 Basic 인증 헤더로 사용해야 함', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ displayName: 'Alice', emailAddress: 'alice@contoso.com' }));
+    const client = new ApiClient({ token: 'pat-123', platform: 'azure' });
+
+    const result = await client.testConnection();
+
+    expect(result).toEqual({ success: true, user: 'Alice' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://app.vssps.visualstudio.com/_apis/profile/profiles/me?api-version=7.1');
+    expect(init.headers.Authorization).toBe(`Basic ${btoa(':pat-123')}`);
+  });
+
+  it('PR threads를 인라인 스레드와 일반 코멘트로 변환해야 함', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      value: [
+        {
+          id: 7,
+          threadContext: { filePath: '/src/auth.ts', rightFileStart: { line: 12, offset: 1 } },
+          comments: [
+            { id: 1, parentCommentId: 0, content: 'Prefer early returns', author: { displayName: 'Alice' }, publishedDate: '2026-01-01T00:00:00Z', commentType: 'text' },
+            { id: 2, parentCommentId: 1, content: 'Agreed', author: { uniqueName: 'bob@contoso.com' }, publishedDate: '2026-01-01T01:00:00Z', commentType: 'text' }
+          ]
+        },
+        {
+          id: 8,
+          comments: [
+            { id: 1, parentCommentId: 0, content: 'Looks good overall', author: { displayName: 'Carol' }, publishedDate: '2026-01-01T02:00:00Z', commentType: 'text' }
+          ]
+        },
+        {
+          id: 9,
+          comments: [
+            { id: 1, content: 'Alice voted 10', author: { displayName: 'Alice' }, commentType: 'system' }
+          ]
+        },
+        {
+          id: 10,
+          isDeleted: true,
+          threadContext: { filePath: '/src/old.ts' },
+          comments: [{ id: 1, content: 'removed', author: { displayName: 'Dave' }, commentType: 'text' }]
+        }
+      ],
+      count: 4
+    }));
+
+    const client = new ApiClient({ token: 't', platform: 'azure' });
+    const data = await client.getReviewData(repository);
+
+    expect(fetchMock.mock.calls[0][0]).toBe(`${REPO_API}/pullRequests/42/threads?api-version=7.1`);
+    expect(data.totalCommentCount).toBe(3);
+
+    expect(data.threads).toHaveLength(1);
+    expect(data.threads[0].id).toBe('7');
+    expect(data.threads[0].path).toBe('src/auth.ts');
+    expect(data.threads[0].line).toBe(12);
+    expect(data.threads[0].comments.map(c => c.author)).toEqual(['Alice', 'bob@contoso.com']);
+    expect(data.threads[0].comments[1].inReplyToId).toBe(1);
+
+    expect(data.generalComments).toHaveLength(1);
+    expect(data.generalComments[0].body).toBe('Looks good overall');
+  });
+
+  it('여러 파일을 pushes API 한 번의 요청으로 커밋해야 함', async () => {
+    fetchMock
+      // 1. 브랜치 ref 조회 (prefix 매칭 결과 중 정확히 일치하는 ref 사용)
+      .mockResolvedValueOnce(jsonResponse({
+        value: [
+          { name: 'refs/heads/ai-instruction/branch-old', objectId: 'other-sha' },
+          { name: 'refs/heads/ai-instruction/branch', objectId: 'head-sha' }
+        ]
+      }))
+      // 2. 파일 존재 여부 확인 (첫 번째는 존재, 두 번째는 404)
+      .mockResolvedValueOnce(jsonResponse({ path: '/.claude/rules/a.md', objectId: 'blob-sha', content: 'old' }))
+      .mockResolvedValueOnce(jsonResponse({ message: 'TF401174: The item could not be found' }, 404))
+      // 3. push
+      .mockResolvedValueOnce(jsonResponse({ pushId: 1 }, 201));
+
+    const client = new ApiClient({ token: 't', platform: 'azure' });
+    await client.createOrUpdateMultipleFiles(
+      repository,
+      [
+        { path: '.claude/rules/a.md', content: 'A' },
+        { path: '.cursor/rules/a.md', content: 'B' }
+      ],
+      'Add rules',
+      'ai-instruction/branch',
+      'main'
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      `${REPO_API}/refs?filter=heads%2Fai-instruction%2Fbranch&api-version=7.1`
+    );
+
+    const [pushUrl, pushInit] = fetchMock.mock.calls[3];
+    expect(pushUrl).toBe(`${REPO_API}/pushes?api-version=7.1`);
+    expect(pushInit.method).toBe('POST');
+    expect(JSON.parse(pushInit.body)).toEqual({
+      refUpdates: [{ name: 'refs/heads/ai-instruction/branch', oldObjectId: 'head-sha' }],
+      commits: [{
+        comment: 'Add rules',
+        changes: [
+          { changeType: 'edit', item: { path: '/.claude/rules/a.md' }, newContent: { content: 'A', contentType: 'rawtext' } },
+          { changeType: 'add', item: { path: '/.cursor/rules/a.md' }, newContent: { content: 'B', contentType: 'rawtext' } }
+        ]
+      }]
+    });
+  });
+
+  it('refs API가 success=false를 반환하면 브랜치 생성 실패로 처리해야 함', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ value: [{ name: 'refs/heads/main', objectId: 'main-sha' }] }))
+      .mockResolvedValueOnce(jsonResponse({ value: [{ success: false, updateStatus: 'failedToCreate' }] }));
+
+    const client = new ApiClient({ token: 't', platform: 'azure' });
+    const created = await client.createBranch(repository, 'ai-instruction/new', 'main');
+
+    expect(created).toBe(false);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual([{
+      name: 'refs/heads/ai-instruction/new',
+      oldObjectId: '0000000000000000000000000000000000000000',
+      newObjectId: 'main-sha'
+    }]);
+  });
+
+  it('PR 생성 후 웹 URL을 반환해야 함', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      pullRequestId: 43,
+      url: `${REPO_API}/pullRequests/43`,
+      repository: { webUrl: 'https://dev.azure.com/contoso/Web%20Platform/_git/frontend' }
+    }, 201));
+
+    const client = new ApiClient({ token: 't', platform: 'azure' });
+    const result = await client.createPullRequest(repository, 'Title', 'Body', 'ai-instruction/new', 'main');
+
+    expect(result).toEqual({
+      success: true,
+      url: 'https://dev.azure.com/contoso/Web%20Platform/_git/frontend/pullrequest/43'
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      sourceRefName: 'refs/heads/ai-instruction/new',
+      targetRefName: 'refs/heads/main'
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * ApiClient Bitbucket 단위 테스트
+ * fetch를 모킹하여 Bitbucket Cloud API 응답 → 공통 타입 변환 검증
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ApiClient } from '../../src/background/api-client';
+import type { Repository } from '../../src/types';
+
+const repository: Repository = {
+  owner: 'my-workspace',
+  name: 'my-repo',
+  platform: 'bitbucket',
+  branch: 'feature/login',
+  baseBranch: 'main',
+  prNumber: 7
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+describe('ApiClient (Bitbucket)', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('사용자명이 있으면 App Password Basic 인증 헤더를 사용해야 함', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ username: 'alice', display_name: 'Alice' }));
+    const client = new ApiClient({ token: 'app-pass', platform: 'bitbucket', bitbucketUsername: 'alice' });
+
+    const result = await client.testConnection();
+
+    expect(result).toEqual({ success: true, user: 'alice' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.bitbucket.org/2.0/user');
+    expect(init.headers.Authorization).toBe(`Basic ${btoa('alice:app-pass')}`);
+  });
+
+  it('사용자명이 없으면 Bearer 인증 헤더를 사용해야 함', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ username: 'bot' }));
+    const client = new ApiClient({ token: 'access-token', platform: 'bitbucket' });
+
+    await client.testConnection();
+
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer access-token');
+  });
+
+  it('인라인 코멘트를 parent 체인 루트 기준 스레드로 그룹화해야 함', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({
+        values: [
+          {
+            id: 1,
+            content: { raw: 'Use early returns here' },
+            user: { nickname: 'alice' },
+            inline: { path: 'src/auth.ts', to: 42, from: null },
+            created_on: '2026-01-01T00:00:00Z'
+          },
+          {
+            id: 2,
+            content: { raw: 'Agreed' },
+            user: { nickname: 'bob' },
+            parent: { id: 1 },
+            created_on: '2026-01-01T01:00:00Z'
+          }
+        ],
+        next: 'https://api.bitbucket.org/2.0/page2'
+      }))
+      .mockResolvedValueOnce(jsonResponse({
+        values: [
+          {
+            id: 3,
+            content: { raw: 'Reply to reply' },
+            user: { display_name: 'Carol' },
+            parent: { id: 2 },
+            created_on: '2026-01-01T02:00:00Z'
+          },
+          {
+            id: 4,
+            content: { raw: 'Overall looks good' },
+            user: { nickname: 'dave' },
+            created_on: '2026-01-01T03:00:00Z'
+          },
+          {
+            id: 5,
+            content: { raw: 'removed' },
+            user: { nickname: 'eve' },
+            deleted: true,
+            created_on: '2026-01-01T04:00:00Z'
+          }
+        ]
+      }));
+
+    const client = new ApiClient({ token: 't', platform: 'bitbucket' });
+    const data = await client.getReviewData(repository);
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.bitbucket.org/2.0/repositories/my-workspace/my-repo/pullrequests/7/comments?pagelen=100'
+    );
+    expect(fetchMock.mock.calls[1][0]).toBe('https://api.bitbucket.org/2.0/page2');
+
+    expect(data.totalCommentCount).toBe(4);
+    expect(data.threads).toHaveLength(1);
+    expect(data.threads[0].id).toBe('1');
+    expect(data.threads[0].path).toBe('src/auth.ts');
+    expect(data.threads[0].line).toBe(42);
+    expect(data.threads[0].comments.map(c => c.author)).toEqual(['alice', 'bob', 'Carol']);
+    expect(data.threads[0].comments[2].path).toBe('src/auth.ts');
+
+    expect(data.generalComments).toHaveLength(1);
+    expect(data.generalComments[0].body).toBe('Overall looks good');
+  });
+
+  it('파일 내용을 Base64로 인코딩하여 반환해야 함', async () => {
+    fetchMock.mockResolvedValue(new Response('# 규칙\n', { status: 200 }));
+    const client = new ApiClient({ token: 't', platform: 'bitbucket' });
+
+    const file = await client.getFileContent(repository, '.claude/rules/auth.md');
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.bitbucket.org/2.0/repositories/my-workspace/my-repo/src/feature%2Flogin/.claude/rules/auth.md'
+    );
+    const decoded = new TextDecoder().decode(
+      Uint8Array.from(atob(file!.content), c => c.charCodeAt(0))
+    );
+    expect(decoded).toBe('# 규칙\n');
+  });
+
+  it('큰 파일도 call stack 초과 없이 Base64로 인코딩해야 함', async () => {
+    const raw = '- 규칙 항목\n'.repeat(50_000);
+    fetchMock.mockResolvedValue(new Response(raw, { status: 200 }));
+    const client = new ApiClient({ token: 't', platform: 'bitbucket' });
+
+    const file = await client.getFileContent(repository, '.claude/rules/large.md');
+
+    const decoded = new TextDecoder().decode(
+      Uint8Array.from(atob(file!.content), c => c.charCodeAt(0))
+    );
+    expect(decoded).toBe(raw);
+  });
+
+  it('여러 파일을 form-data 한 번의 요청으로 커밋하고 삭제할 파일은 files 필드로 보내야 함', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 201 }));
+    const client = new ApiClient({ token: 't', platform: 'bitbucket' });
+
+    await client.createOrUpdateMultipleFiles(
+      repository,
+      [
+        { path: '.claude/rules/a.md', content: 'A' },
+        { path: '.cursor/rules/a.md', content: 'B' },
+        { path: '.cursorrules', content: '', delete: true }
+      ],
+      'Add rules',
+      'ai-instruction/branch'
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.bitbucket.org/2.0/repositories/my-workspace/my-repo/src');
+    expect(init.method).toBe('POST');
+    expect(init.headers['Content-Type']).toBeUndefined();
+
+    const form = init.body as FormData;
+    expect(form.get('message')).toBe('Add rules');
+    expect(form.get('branch')).toBe('ai-instruction/branch');
+    expect(form.get('.claude/rules/a.md')).toBe('A');
+    expect(form.get('.cursor/rules/a.md')).toBe('B');
+    expect(form.getAll('files')).toEqual(['.cursorrules']);
+    expect(form.has('.cursorrules')).toBe(false);
+  });
+});
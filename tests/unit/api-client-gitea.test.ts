@@ -0,0 +1,206 @@
+/**
+ * ApiClient Gitea/Forgejo 단위 테스트
+ * MSW로 Gitea 형식의 API 응답을 모킹하여 검증
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { ApiClient } from '../../src/background/api-client';
+import { giteaHandlers, GITEA_API } from '../mocks/gitea-handlers';
+import type { Repository } from '../../src/types';
+
+const server = setupServer(...giteaHandlers);
+
+const repository: Repository = {
+  owner: 'team',
+  name: 'service',
+  platform: 'gitea',
+  branch: 'ai-instruction/add-naming-convention-1',
+  baseBranch: 'main',
+  prNumber: 4
+};
+
+function createClient(): ApiClient {
+  return new ApiClient({
+    token: 'gitea-token',
+    platform: 'gitea',
+    giteaUrl: 'https://forgejo.example.com/'
+  });
+}
+
+describe('ApiClient (Gitea)', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('token 인증 헤더로 사용자 정보를 조회해야 함', async () => {
+    let authHeader: string | null = null;
+    server.use(
+      http.get(`${GITEA_API}/user`, ({ request }) => {
+        authHeader = request.headers.get('Authorization');
+        return HttpResponse.json({ login: 'test-user' });
+      })
+    );
+
+    const result = await createClient().testConnection();
+
+    expect(result).toEqual({ success: true, user: 'test-user' });
+    expect(authHeader).toBe('token gitea-token');
+  });
+
+  it('디렉토리 내용을 DirectoryItem으로 변환해야 함', async () => {
+    const items = await createClient().getDirectoryContents(repository, '.claude/rules');
+
+    expect(items).toEqual([
+      { name: 'naming.md', path: '.claude/rules/naming.md', type: 'file' },
+      { name: 'legacy', path: '.claude/rules/legacy', type: 'dir' }
+    ]);
+  });
+
+  it('다중 파일 커밋 시 기존 파일은 sha와 함께 update로 보내야 함', async () => {
+    let commitBody: any = null;
+    server.use(
+      http.post(`${GITEA_API}/repos/:owner/:repo/contents`, async ({ request }) => {
+        commitBody = await request.json();
+        return HttpResponse.json({}, { status: 201 });
+      })
+    );
+
+    await createClient().createOrUpdateMultipleFiles(
+      repository,
+      [
+        { path: '.claude/rules/naming.md', content: '# Naming\n\nupdated' },
+        { path: '.claude/rules/errors.md', content: '# Errors' }
+      ],
+      'Add conventions',
+      repository.branch,
+      'main'
+    );
+
+    expect(commitBody.branch).toBe(repository.branch);
+    expect(commitBody.message).toBe('Add conventions');
+    expect(commitBody.files).toEqual([
+      { operation: 'update', path: '.claude/rules/naming.md', content: btoa('# Naming\n\nupdated'), sha: 'naming-sha' },
+      { operation: 'create', path: '.claude/rules/errors.md', content: btoa('# Errors') }
+    ]);
+  });
+
+  it('다중 파일 커밋 시 삭제할 파일은 sha와 함께 delete로 보내고 없는 파일은 건너뛰어야 함', async () => {
+    let commitBody: any = null;
+    server.use(
+      http.post(`${GITEA_API}/repos/:owner/:repo/contents`, async ({ request }) => {
+        commitBody = await request.json();
+        return HttpResponse.json({}, { status: 201 });
+      })
+    );
+
+    await createClient().createOrUpdateMultipleFiles(
+      repository,
+      [
+        { path: '.claude/rules/naming.md', content: '', delete: true },
+        { path: '.claude/rules/errors.md', content: '', delete: true }
+      ],
+      'Remove legacy rules',
+      repository.branch,
+      'main'
+    );
+
+    expect(commitBody.files).toEqual([
+      { operation: 'delete', path: '.claude/rules/naming.md', sha: 'naming-sha' }
+    ]);
+  });
+
+  it('브랜치 생성 후 PR을 생성해야 함', async () => {
+    const client = createClient();
+
+    const branchCreated = await client.createBranch(repository, 'ai-instruction/new', 'main');
+    const pr = await client.createPullRequest(repository, 'Title', 'Body', 'ai-instruction/new', 'main');
+
+    expect(branchCreated).toBe(true);
+    expect(pr).toEqual({ success: true, url: 'https://forgejo.example.com/team/service/pulls/5' });
+  });
+
+  it('PR 생성 후 라벨 ID와 리뷰어를 추가해야 함', async () => {
+    let labelBody: unknown = null;
+    let reviewerBody: unknown = null;
+    server.use(
+      http.get(`${GITEA_API}/repos/team/service/labels`, () =>
+        HttpResponse.json([{ id: 1, name: 'documentation' }, { id: 2, name: 'bug' }])
+      ),
+      http.post(`${GITEA_API}/repos/team/service/issues/5/labels`, async ({ request }) => {
+        labelBody = await request.json();
+        return HttpResponse.json([]);
+      }),
+      http.post(`${GITEA_API}/repos/team/service/pulls/5/requested_reviewers`, async ({ request }) => {
+        reviewerBody = await request.json();
+        return HttpResponse.json([]);
+      })
+    );
+
+    const pr = await createClient().createPullRequest(repository, 'Title', 'Body', 'ai-instruction/new', 'main', {
+      labels: ['documentation'],
+      reviewers: ['alice']
+    });
+
+    expect(pr.success).toBe(true);
+    expect(labelBody).toEqual({ labels: [1] });
+    expect(reviewerBody).toEqual({ reviewers: ['alice'] });
+  });
+
+  it('열린 PR 목록에서 head 브랜치가 일치하는 PR을 찾아야 함', async () => {
+    const pr = await createClient().findPullRequestByBranch(repository, 'ai-instruction/add-naming-convention-1');
+
+    expect(pr).toEqual({ url: 'https://forgejo.example.com/team/service/pulls/4', number: 4 });
+  });
+
+  it('머지된 PR만 최신순으로 limit개까지 조회하고 남은 페이지는 요청하지 않아야 함', async () => {
+    const pages: string[] = [];
+    server.use(
+      http.get(`${GITEA_API}/repos/:owner/:repo/pulls`, ({ request }) => {
+        const page = new URL(request.url).searchParams.get('page') ?? '1';
+        pages.push(page);
+        const base = { ref: 'main' };
+        return page === '1'
+          ? HttpResponse.json(
+            [
+              { number: 9, title: 'Add retries', html_url: 'https://forgejo.example.com/team/service/pulls/9', base, merged: true, merged_at: '2026-02-03T00:00:00Z' },
+              { number: 8, title: 'Closed draft', html_url: 'https://forgejo.example.com/team/service/pulls/8', base, merged: false, merged_at: null }
+            ],
+            { headers: { link: `<${GITEA_API}/repos/team/service/pulls?state=closed&page=2>; rel="next"` } }
+          )
+          : HttpResponse.json(
+            [
+              { number: 7, title: 'Rename hooks', html_url: 'https://forgejo.example.com/team/service/pulls/7', base, merged: true, merged_at: '2026-02-02T00:00:00Z' },
+              { number: 6, title: 'Fix typo', html_url: 'https://forgejo.example.com/team/service/pulls/6', base, merged: true, merged_at: '2026-02-01T00:00:00Z' }
+            ],
+            { headers: { link: `<${GITEA_API}/repos/team/service/pulls?state=closed&page=3>; rel="next"` } }
+          );
+      })
+    );
+
+    const pulls = await createClient().listMergedPullRequests(repository, 2);
+
+    expect(pulls).toEqual([
+      { number: 9, title: 'Add retries', url: 'https://forgejo.example.com/team/service/pulls/9', baseBranch: 'main', mergedAt: '2026-02-03T00:00:00Z' },
+      { number: 7, title: 'Rename hooks', url: 'https://forgejo.example.com/team/service/pulls/7', baseBranch: 'main', mergedAt: '2026-02-02T00:00:00Z' }
+    ]);
+    expect(pages).toEqual(['1', '2']);
+  });
+
+  it('리뷰 코멘트를 파일/라인 기준 대화로 묶어야 함', async () => {
+    const data = await createClient().getReviewData(repository);
+
+    expect(data.totalCommentCount).toBe(4);
+    expect(data.threads).toHaveLength(2);
+
+    const utilsThread = data.threads.find(t => t.path === 'src/utils.ts')!;
+    expect(utilsThread.comments.map(c => c.id)).toEqual([100, 102]);
+    expect(utilsThread.line).toBe(12);
+    expect(utilsThread.diffHunk).toContain('getUser');
+
+    expect(data.generalComments).toEqual([
+      { id: 200, body: 'Thanks for the PR!', author: 'maintainer', createdAt: '2026-02-01T09:00:00Z' }
+    ]);
+  });
+});
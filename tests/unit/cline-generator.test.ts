@@ -0,0 +1,109 @@
+/**
+ * ClineGenerator 단위 테스트
+ * .clinerules/ 디렉토리 파일 생성 및 레거시 단일 파일 upsert 검증
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ClineGenerator } from '../../src/core/generators/cline-generator';
+import { detectClineRulesLayout } from '../../src/core/file-matcher';
+import type { ApiClient } from '../../src/background/api-client';
+import type { ParsedComment, Comment, Repository } from '../../src/types';
+
+const comment: Comment = {
+  id: 'test-id',
+  author: 'reviewer1',
+  content: 'Always validate request bodies with zod schemas',
+  htmlContent: '',
+  url: 'https://github.com/test/repo/pull/42#comment-1',
+  createdAt: '2026-02-13T00:00:00Z',
+  platform: 'github'
+};
+
+const repository: Repository = {
+  owner: 'test',
+  name: 'repo',
+  branch: 'feature-branch',
+  baseBranch: 'main',
+  prNumber: 42,
+  platform: 'github'
+};
+
+const parsedComment: ParsedComment = {
+  content: 'Always validate request bodies with zod schemas',
+  keywords: ['validation', 'zod'],
+  category: 'conventions',
+  codeExamples: [],
+  suggestedFileName: 'request-validation'
+};
+
+describe('ClineGenerator', () => {
+  const generator = new ClineGenerator();
+
+  it('SmartFileNaming 제안 경로에 규칙 파일을 생성해야 함', async () => {
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: comment,
+      repository,
+      suggestedPath: '.clinerules/api/validation.md'
+    });
+
+    expect(result.filePath).toBe('.clinerules/api/validation.md');
+    expect(result.isUpdate).toBe(false);
+    expect(result.content).toMatch(/^# Validation Conventions\n/);
+  });
+
+  it('기존 규칙 파일이 매칭되면 그 경로를 유지해야 함', async () => {
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: comment,
+      repository,
+      existingContent: '# Validation\n\n- Validate bodies',
+      suggestedPath: '.clinerules/api/validation-rules.md',
+      matchedPath: '.clinerules/validation.md'
+    });
+
+    expect(result.filePath).toBe('.clinerules/validation.md');
+    expect(result.content).toMatch(/^# Validation\n\n- Validate bodies\n- Always validate request bodies with zod schemas\n/);
+    expect(result.content.match(/^# /gm)).toHaveLength(1);
+  });
+
+  it('레거시 .clinerules 파일에는 섹션을 upsert해야 함', async () => {
+    const existingContent = '# Project Rules\n\n## Logging Conventions\n\n- Use the shared logger';
+
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: comment,
+      repository,
+      existingContent,
+      matchedPath: '.clinerules'
+    });
+
+    expect(result.filePath).toBe('.clinerules');
+    expect(result.content.startsWith(existingContent)).toBe(true);
+    expect(result.content).toContain('## Validation Conventions');
+  });
+});
+
+describe('detectClineRulesLayout', () => {
+  const createClient = (items: any[], fileContent: any = null) => ({
+    getDirectoryContents: vi.fn().mockResolvedValue(items),
+    getFileContent: vi.fn().mockResolvedValue(fileContent)
+  }) as unknown as ApiClient;
+
+  it('디렉토리와 레거시 단일 파일을 구분해야 함', async () => {
+    await expect(detectClineRulesLayout(
+      createClient([{ name: 'api.md', path: '.clinerules/api.md', type: 'file' }]),
+      repository
+    )).resolves.toBe('dir');
+
+    await expect(detectClineRulesLayout(
+      createClient([{ name: '.clinerules', path: '.clinerules', type: 'file' }]),
+      repository
+    )).resolves.toBe('file');
+
+    // 파일 경로에 빈 목록을 반환하는 플랫폼은 파일 내용으로 확인
+    await expect(detectClineRulesLayout(createClient([], { content: 'IyBSdWxlcw==', sha: 'a' }), repository))
+      .resolves.toBe('file');
+    await expect(detectClineRulesLayout(createClient([]), repository)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * CodexGenerator / WindsurfGenerator 단위 테스트
+ * 기존 파일 업데이트 시 섹션 upsert 검증 (중복 섹션 누적 방지)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CodexGenerator } from '../../src/core/generators/codex-generator';
+import { WindsurfGenerator } from '../../src/core/generators/windsurf-generator';
+import type { ParsedComment, Comment, Repository } from '../../src/types';
+
+const comment: Comment = {
+  id: 'test-id',
+  author: 'reviewer1',
+  content: 'Always validate request bodies with zod schemas',
+  htmlContent: '',
+  url: 'https://github.com/test/repo/pull/42#comment-1',
+  createdAt: '2026-02-13T00:00:00Z',
+  platform: 'github'
+};
+
+const repository: Repository = {
+  owner: 'test',
+  name: 'repo',
+  branch: 'feature-branch',
+  baseBranch: 'main',
+  prNumber: 42,
+  platform: 'github'
+};
+
+const parsedComment: ParsedComment = {
+  content: 'Always validate request bodies with zod schemas',
+  keywords: ['validation', 'zod'],
+  category: 'conventions',
+  codeExamples: [],
+  suggestedFileName: 'request-validation'
+};
+
+describe('CodexGenerator', () => {
+  const generator = new CodexGenerator();
+
+  it('반복 변환 시 AGENTS.md에 같은 섹션을 중복 추가하지 않아야 함', async () => {
+    const first = await generator.generate({ parsedComment, originalComment: comment, repository });
+    const second = await generator.generate({
+      parsedComment,
+      originalComment: comment,
+      repository,
+      existingContent: first.content
+    });
+
+    expect(second.isUpdate).toBe(true);
+    expect(second.content.match(/## Validation Conventions/g)).toHaveLength(1);
+    expect(second.content.trim()).toBe(first.content.trim());
+  });
+
+  it('키워드가 겹치는 기존 섹션에 규칙을 병합하고 다른 섹션 순서는 유지해야 함', async () => {
+    const existingContent = [
+      '# Project Guidelines',
+      '',
+      '---',
+      '',
+      '## Zod Validation',
+      '',
+      '- Validate query params',
+      '',
+      '*Keywords: validation*',
+      '',
+      '---',
+      '',
+      '## Logging',
+      '',
+      '- Use the shared logger'
+    ].join('\n');
+
+    const result = await generator.generate({
+      parsedComment: { ...parsedComment, content: '- Reject unknown keys' },
+      originalComment: { ...comment, content: '- Reject unknown keys' },
+      repository,
+      existingContent
+    });
+
+    expect(result.content).not.toContain('## Validation Conventions');
+    expect(result.content).toContain('- Validate query params\n- Reject unknown keys');
+    expect(result.content).toContain('*Keywords: validation, zod*');
+    expect(result.content.indexOf('## Zod Validation')).toBeLessThan(result.content.indexOf('## Logging'));
+  });
+});
+
+describe('WindsurfGenerator', () => {
+  it('기존 규칙 파일은 경로를 유지하고 본문 목록에 병합해야 함', async () => {
+    const existingContent = '# Validation\n\n- Validate bodies\n\n---\n**Source:** [PR #1](https://example.com/1) by @alice\n**Keywords:** validation';
+
+    const result = await new WindsurfGenerator().generate({
+      parsedComment,
+      originalComment: comment,
+      repository,
+      existingContent,
+      matchedPath: '.windsurf/rules/validation.md'
+    });
+
+    expect(result.filePath).toBe('.windsurf/rules/validation.md');
+    expect(result.content).not.toContain('## Update');
+    expect(result.content).toContain('- Validate bodies\n- Always validate request bodies with zod schemas');
+    expect(result.content).toContain('**Keywords:** validation, zod');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * CopilotGenerator 단위 테스트
+ * copilot-instructions.md / 경로별 .instructions.md 생성 및 applyTo glob 검증
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CopilotGenerator } from '../../src/core/generators/copilot-generator';
+import { deriveFileGlob } from '../../src/core/generators/base-generator';
+import type { ParsedComment, Comment, Repository } from '../../src/types';
+
+const createComment = (overrides?: Partial<Comment>): Comment => ({
+  id: 'test-id',
+  author: 'reviewer1',
+  content: 'Always validate request bodies with zod schemas',
+  htmlContent: '',
+  url: 'https://github.com/test/repo/pull/42#comment-1',
+  createdAt: '2026-02-13T00:00:00Z',
+  platform: 'github',
+  ...overrides
+});
+
+const repository: Repository = {
+  owner: 'test',
+  name: 'repo',
+  branch: 'feature-branch',
+  baseBranch: 'main',
+  prNumber: 42,
+  platform: 'github'
+};
+
+const parsedComment: ParsedComment = {
+  content: 'Always validate request bodies with zod schemas',
+  keywords: ['validation', 'zod'],
+  category: 'conventions',
+  codeExamples: [],
+  suggestedFileName: 'request-validation'
+};
+
+describe('deriveFileGlob', () => {
+  it('디렉토리와 확장자 기준 glob을 생성해야 함', () => {
+    expect(deriveFileGlob('src/api/users.ts')).toBe('src/api/**/*.ts');
+    expect(deriveFileGlob('/src/api/users.ts')).toBe('src/api/**/*.ts');
+  });
+
+  it('루트 파일과 확장자 없는 파일을 처리해야 함', () => {
+    expect(deriveFileGlob('README.md')).toBe('**/*.md');
+    expect(deriveFileGlob('docker/Dockerfile')).toBe('docker/**');
+    expect(deriveFileGlob('.eslintrc')).toBe('**');
+  });
+});
+
+describe('CopilotGenerator', () => {
+  const generator = new CopilotGenerator();
+
+  it('인라인 리뷰는 applyTo frontmatter가 있는 경로별 지침 파일을 생성해야 함', async () => {
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: createComment({
+        codeContext: { filePath: 'src/api/users.ts', lines: 'const body = req.body;' }
+      }),
+      repository
+    });
+
+    expect(result.filePath).toBe('.github/instructions/request-validation.instructions.md');
+    expect(result.isUpdate).toBe(false);
+    expect(result.content).toMatch(/^---\napplyTo: "src\/api\/\*\*\/\*\.ts"\n---\n/);
+    expect(result.content).toContain('# Validation Conventions');
+  });
+
+  it('기존 경로별 지침 파일의 applyTo에 새 glob을 추가해야 함', async () => {
+    const existingContent = '---\napplyTo: "src/api/**/*.ts"\n---\n\n# Request Validation\n\n- Validate bodies';
+
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: createComment({
+        codeContext: { filePath: 'src/jobs/sync.ts', lines: '' }
+      }),
+      repository,
+      existingContent
+    });
+
+    expect(result.isUpdate).toBe(true);
+    expect(result.content).toMatch(/^---\napplyTo: "src\/api\/\*\*\/\*\.ts,src\/jobs\/\*\*\/\*\.ts"\n---/);
+    expect(result.content).toContain('# Request Validation\n\n- Validate bodies\n- Always validate request bodies with zod schemas');
+  });
+
+  it('일반 코멘트는 copilot-instructions.md에 섹션을 추가해야 함', async () => {
+    const existingContent = '# Copilot Instructions\n\n## Existing Rule\n\n- Keep it';
+
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: createComment(),
+      repository,
+      existingContent
+    });
+
+    expect(result.filePath).toBe('.github/copilot-instructions.md');
+    expect(result.isUpdate).toBe(true);
+    expect(result.content.startsWith(existingContent)).toBe(true);
+    expect(result.content).toContain('## Validation Conventions');
+    expect(result.content).not.toContain('applyTo');
+  });
+});
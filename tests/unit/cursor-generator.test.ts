@@ -0,0 +1,125 @@
+/**
+ * CursorGenerator 단위 테스트
+ * MDC frontmatter (description, globs, alwaysApply) 및 .cursorrules 마이그레이션 검증
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CursorGenerator } from '../../src/core/generators/cursor-generator';
+import type { ParsedComment, Comment, Repository } from '../../src/types';
+
+const createComment = (overrides?: Partial<Comment>): Comment => ({
+  id: 'test-id',
+  author: 'reviewer1',
+  content: 'Always validate request bodies with zod schemas',
+  htmlContent: '',
+  url: 'https://github.com/test/repo/pull/42#comment-1',
+  createdAt: '2026-02-13T00:00:00Z',
+  platform: 'github',
+  ...overrides
+});
+
+const repository: Repository = {
+  owner: 'test',
+  name: 'repo',
+  branch: 'feature-branch',
+  baseBranch: 'main',
+  prNumber: 42,
+  platform: 'github'
+};
+
+const parsedComment: ParsedComment = {
+  content: 'Always validate request bodies with zod schemas',
+  keywords: ['validation', 'zod'],
+  category: 'conventions',
+  codeExamples: [],
+  suggestedFileName: 'request-validation'
+};
+
+describe('CursorGenerator', () => {
+  const generator = new CursorGenerator();
+
+  it('인라인 리뷰는 리뷰된 파일 경로에서 globs를 추론해야 함', async () => {
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: createComment({
+        codeContext: { filePath: 'src/api/users.ts', lines: 'const body = req.body;' }
+      }),
+      repository
+    });
+
+    expect(result.filePath).toBe('.cursor/rules/request-validation.mdc');
+    expect(result.content).toMatch(
+      /^---\ndescription: "Validation Conventions"\nglobs: src\/api\/\*\*\/\*\.ts\nalwaysApply: false\n---\n/
+    );
+  });
+
+  it('파일 경로가 없는 코멘트는 alwaysApply로 생성해야 함', async () => {
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: createComment(),
+      repository
+    });
+
+    expect(result.content).toContain('globs: \nalwaysApply: true');
+  });
+
+  it('기존 MDC 규칙 업데이트 시 globs를 확장하고 기존 경로를 유지해야 함', async () => {
+    const existingContent = '---\ndescription: Validation rules\nglobs: src/api/**/*.ts\nalwaysApply: false\n---\n\n# Validation\n\n- Validate bodies';
+
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: createComment({
+        codeContext: { filePath: 'src/jobs/sync.ts', lines: '' }
+      }),
+      repository,
+      existingContent,
+      matchedPath: '.cursor/rules/validation.mdc'
+    });
+
+    expect(result.filePath).toBe('.cursor/rules/validation.mdc');
+    expect(result.isUpdate).toBe(true);
+    expect(result.content).toMatch(
+      /^---\ndescription: "Validation rules"\nglobs: src\/api\/\*\*\/\*\.ts,src\/jobs\/\*\*\/\*\.ts\nalwaysApply: false\n---\n\n# Validation/
+    );
+    expect(result.content).toContain('# Validation\n\n- Validate bodies\n- Always validate request bodies with zod schemas');
+    expect(result.content.match(/^# /gm)).toHaveLength(1);
+  });
+
+  it('레거시 frontmatter는 MDC frontmatter로 교체해야 함', async () => {
+    const existingContent = '---\ntitle: "Validation"\ncategory: "conventions"\n---\n\n# Validation\n\n- Validate bodies';
+
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: createComment(),
+      repository,
+      existingContent
+    });
+
+    expect(result.content).not.toContain('category:');
+    expect(result.content).toMatch(/^---\ndescription: "Validation Conventions"\nglobs: \nalwaysApply: true\n---\n\n# Validation/);
+  });
+
+  it('description에 콜론, #, 따옴표가 있어도 이스케이프하고 다시 읽어야 함', async () => {
+    const description = '"Strict" mode: no #any casts';
+    const existingContent = `---\ndescription: ${JSON.stringify(description)}\nglobs: src/api/**/*.ts\nalwaysApply: false\n---\n\n# Validation\n\n- Validate bodies`;
+
+    const result = await generator.generate({
+      parsedComment,
+      originalComment: createComment(),
+      repository,
+      existingContent
+    });
+
+    expect(result.content).toContain('description: "\\"Strict\\" mode: no #any casts"\n');
+  });
+
+  it('.cursorrules 내용을 항상 적용되는 MDC 규칙으로 마이그레이션해야 함', () => {
+    const result = generator.migrateLegacyRules('Use tabs.\nPrefer const.\n');
+
+    expect(result.filePath).toBe('.cursor/rules/cursorrules.mdc');
+    expect(result.isUpdate).toBe(false);
+    expect(result.content).toBe(
+      '---\ndescription: "Project rules migrated from .cursorrules"\nglobs: \nalwaysApply: true\n---\n\nUse tabs.\nPrefer const.\n'
+    );
+  });
+});
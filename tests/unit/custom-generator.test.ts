@@ -0,0 +1,114 @@
+/**
+ * CustomGenerator 단위 테스트
+ * 사용자 정의 출력 대상(디렉토리, 확장자, 모드, 템플릿) 파일 생성 검증
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CustomGenerator } from '../../src/core/generators/custom-generator';
+import type { EnhancedComment, Comment, Repository, CustomTargetConfig } from '../../src/types';
+
+const comment: Comment = {
+  id: 'test-id',
+  author: 'reviewer1',
+  content: 'Always validate request bodies with zod schemas',
+  htmlContent: '',
+  url: 'https://github.com/test/repo/pull/42#comment-1',
+  createdAt: '2026-02-13T00:00:00Z',
+  platform: 'github',
+  codeContext: {
+    filePath: 'src/api/users.ts',
+    lines: 'const body = req.body;'
+  }
+};
+
+const repository: Repository = {
+  owner: 'test',
+  name: 'repo',
+  branch: 'feature-branch',
+  baseBranch: 'main',
+  prNumber: 42,
+  platform: 'github'
+};
+
+const enhancedComment: EnhancedComment = {
+  content: 'Always validate request bodies with zod schemas',
+  keywords: ['validation', 'zod'],
+  category: 'conventions',
+  codeExamples: ['schema.parse(body)'],
+  suggestedFileName: 'request-validation',
+  llmEnhanced: true,
+  summary: 'Validate all request bodies.',
+  detailedExplanation: '- Use zod schemas\n- Reject unknown keys',
+  codeExplanations: [{ code: 'schema.parse(body)', explanation: 'Throws on invalid input', isGoodExample: true }]
+};
+
+function createConfig(overrides: Partial<CustomTargetConfig> = {}): CustomTargetConfig {
+  return {
+    directory: '.ai/rules',
+    extension: '.txt',
+    mode: 'per-rule',
+    fileName: '',
+    template: '## {{title}}\n{{#rules}}\n* {{.}}\n{{/rules}}\n{{#codeExplanations}}\n[{{label}}] {{code}}\n{{/codeExplanations}}\napplies to {{glob}} (PR #{{source.pr}} by @{{source.author}})',
+    ...overrides
+  };
+}
+
+describe('CustomGenerator', () => {
+  it('per-rule 모드는 제안 파일명과 설정된 확장자로 템플릿을 렌더링해야 함', async () => {
+    const generator = new CustomGenerator(createConfig());
+    const result = await generator.generate({
+      parsedComment: enhancedComment,
+      originalComment: comment,
+      repository
+    });
+
+    expect(result.filePath).toBe('.ai/rules/request-validation.txt');
+    expect(result.isUpdate).toBe(false);
+    expect(result.content).toBe([
+      '## Validation Conventions',
+      '* Use zod schemas',
+      '* Reject unknown keys',
+      '[Correct] schema.parse(body)',
+      'applies to src/api/**/*.ts (PR #42 by @reviewer1)',
+      ''
+    ].join('\n'));
+  });
+
+  it('single-file 모드는 고정 파일의 같은 제목 섹션에 병합해야 함', async () => {
+    const generator = new CustomGenerator(createConfig({
+      directory: '.',
+      extension: 'md',
+      mode: 'single-file',
+      fileName: 'AI_RULES',
+      template: '## {{title}}\n\n{{#rules}}\n- {{.}}\n{{/rules}}'
+    }));
+
+    const result = await generator.generate({
+      parsedComment: enhancedComment,
+      originalComment: comment,
+      repository,
+      existingContent: '# AI Rules\n\n## Validation Conventions\n\n- Validate query params\n\n## Logging\n\n- Use the shared logger\n',
+      matchedPath: 'AI_RULES.md'
+    });
+
+    expect(generator.getFilePath(enhancedComment)).toBe('AI_RULES.md');
+    expect(result.filePath).toBe('AI_RULES.md');
+    expect(result.isUpdate).toBe(true);
+    expect(result.content).toBe(
+      '# AI Rules\n\n## Validation Conventions\n\n- Validate query params\n- Use zod schemas\n- Reject unknown keys\n\n## Logging\n\n- Use the shared logger\n'
+    );
+  });
+
+  it('템플릿이 비어 있으면 기본 템플릿을 사용해야 함', async () => {
+    const generator = new CustomGenerator(createConfig({ template: '  ' }));
+    const result = await generator.generate({
+      parsedComment: enhancedComment,
+      originalComment: comment,
+      repository
+    });
+
+    expect(result.content).toMatch(/^## Validation Conventions\n\nValidate all request bodies\.\n\n- Use zod schemas\n/);
+    expect(result.content).toContain('**Source:** [PR #42](https://github.com/test/repo/pull/42#comment-1) by @reviewer1');
+    expect(result.content).toContain('**Keywords:** validation, zod');
+  });
+});
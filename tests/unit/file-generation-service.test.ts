@@ -0,0 +1,131 @@
+/**
+ * FileGenerationService 단위 테스트
+ * 의미 기반 중복 판단(MERGE)의 경로 우선순위, 미리보기 모순/임베딩 인덱스 재사용 검증
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { FileGenerationServiceImpl } from '../../src/background/services/file-generation-service';
+import { InstructionAnalyzer, type AnalysisResult } from '../../src/core/instruction-analyzer';
+import { SmartFileNaming } from '../../src/core/smart-file-naming';
+import { ClaudeClient } from '../../src/background/llm/claude-client';
+import { SemanticIndex, type EmbeddingIndexRecord, type EmbeddingStore } from '../../src/core/semantic-index';
+import type { ApiClient } from '../../src/background/api-client';
+import type { ClaudeFile, Comment, EnhancedComment, LLMConfig, Repository } from '../../src/types';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const repository: Repository = {
+  owner: 'acme',
+  name: 'web',
+  platform: 'github',
+  branch: 'feature/errors',
+  baseBranch: 'main',
+  prNumber: 7
+};
+
+const llmConfig: LLMConfig = { provider: 'claude', claudeApiKey: 'test-key' };
+
+const existingRule: ClaudeFile = {
+  path: '.claude/rules/error-handling.md',
+  title: 'Error Handling',
+  keywords: ['error', 'handling'],
+  category: 'error-handling',
+  content: '---\ncategory: error-handling\nkeywords: error, handling, async\n---\n\n# Error Handling\n\n- Wrap async route handlers in try/catch and return a typed error response',
+  frontmatter: { category: 'error-handling' }
+};
+
+const enhancedComment: EnhancedComment = {
+  content: 'Wrap async route handlers in try/catch and return a typed error response with the request id',
+  keywords: ['error', 'handling', 'async'],
+  category: 'error-handling',
+  codeExamples: [],
+  suggestedFileName: 'async-error-responses',
+  llmEnhanced: false
+};
+
+const originalComment: Comment = {
+  id: 'c1',
+  author: 'alice',
+  content: enhancedComment.content,
+  htmlContent: enhancedComment.content,
+  url: 'https://github.com/acme/web/pull/7#discussion_r1',
+  createdAt: '2026-10-01T00:00:00Z',
+  platform: 'github'
+};
+
+function memoryStore(): EmbeddingStore {
+  const records = new Map<string, EmbeddingIndexRecord>();
+  return {
+    get: async key => records.get(key) ?? null,
+    set: async (key, record) => { records.set(key, record); }
+  };
+}
+
+// 규칙 디렉토리 외에는 아무 파일도 없는 저장소
+const client = {
+  getDirectoryContents: async () => null,
+  getFileContent: async () => null
+} as unknown as ApiClient;
+
+// 규칙 분석 결과와 AI 제안 경로 고정 (임베딩 모델이 없는 Claude는 로컬 MinHash로 검색)
+function stubRepositoryAnalysis(): void {
+  const analysis: AnalysisResult = {
+    pattern: { directories: ['.claude/rules'], namingPattern: 'kebab-case' } as AnalysisResult['pattern'],
+    existingFiles: [existingRule],
+    suggestedLocation: '.claude/rules',
+    confidence: 80
+  };
+  vi.spyOn(InstructionAnalyzer.prototype, 'analyzeProject').mockResolvedValue(analysis);
+  vi.spyOn(SmartFileNaming.prototype, 'generateFileName').mockResolvedValue({
+    filename: 'async-error-responses.md',
+    directory: '.claude/rules',
+    fullPath: '.claude/rules/async-error-responses.md',
+    confidence: 90
+  });
+  vi.spyOn(ClaudeClient.prototype, 'generateText').mockResolvedValue('instruction');
+}
+
+describe('FileGenerationServiceImpl', () => {
+  it('가장 가까운 규칙과 병합(MERGE)하면 AI 제안 경로가 아니라 그 규칙 파일을 갱신해야 함', async () => {
+    stubRepositoryAnalysis();
+    vi.spyOn(ClaudeClient.prototype, 'generateStructured').mockResolvedValue({ data: { relations: [] } } as never);
+
+    const service = new FileGenerationServiceImpl(memoryStore());
+    const [file] = await service.generateForAllTypes(client, repository, enhancedComment, originalComment, llmConfig);
+
+    expect(file.merged).toBe(true);
+    expect(file.isUpdate).toBe(true);
+    expect(file.filePath).toBe('.claude/rules/error-handling.md');
+    expect(file.content.match(/^# Error Handling$/gm)).toHaveLength(1);
+  });
+
+  it('미리보기에서 확인한 모순과 임베딩 인덱스를 변환 시 다시 만들지 않고 재사용해야 함', async () => {
+    stubRepositoryAnalysis();
+    const classify = vi.spyOn(ClaudeClient.prototype, 'generateStructured').mockResolvedValue({
+      data: {
+        relations: [{
+          index: 0,
+          relation: 'contradicting',
+          existingRule: 'Wrap async route handlers in try/catch and return a typed error response',
+          reasoning: 'The new rule requires the request id'
+        }]
+      }
+    } as never);
+    const build = vi.spyOn(SemanticIndex, 'build');
+
+    const service = new FileGenerationServiceImpl(memoryStore());
+    const previewConflicts = await service.checkConflicts(client, repository, enhancedComment, originalComment, llmConfig);
+    const [file] = await service.generateForAllTypes(
+      client, repository, enhancedComment, originalComment, llmConfig,
+      undefined, undefined, undefined, undefined, previewConflicts
+    );
+
+    expect(previewConflicts).toHaveLength(1);
+    expect(classify).toHaveBeenCalledTimes(1);
+    expect(build).toHaveBeenCalledTimes(1);
+    expect(file.conflicts).toEqual(previewConflicts);
+    expect(file.supersedes).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * GeminiGenerator / AiderGenerator 단위 테스트
+ * 단일 파일 생성 및 섹션 upsert 검증
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GeminiGenerator } from '../../src/core/generators/gemini-generator';
+import { AiderGenerator } from '../../src/core/generators/aider-generator';
+import type { ParsedComment, Comment, Repository } from '../../src/types';
+
+const comment: Comment = {
+  id: 'test-id',
+  author: 'reviewer1',
+  content: 'Always validate request bodies with zod schemas',
+  htmlContent: '',
+  url: 'https://github.com/test/repo/pull/42#comment-1',
+  createdAt: '2026-02-13T00:00:00Z',
+  platform: 'github'
+};
+
+const repository: Repository = {
+  owner: 'test',
+  name: 'repo',
+  branch: 'feature-branch',
+  baseBranch: 'main',
+  prNumber: 42,
+  platform: 'github'
+};
+
+const parsedComment: ParsedComment = {
+  content: 'Always validate request bodies with zod schemas',
+  keywords: ['validation', 'zod'],
+  category: 'conventions',
+  codeExamples: [],
+  suggestedFileName: 'request-validation'
+};
+
+describe('GeminiGenerator', () => {
+  const generator = new GeminiGenerator();
+
+  it('GEMINI.md 새 파일을 생성해야 함', async () => {
+    const result = await generator.generate({ parsedComment, originalComment: comment, repository });
+
+    expect(result.filePath).toBe('GEMINI.md');
+    expect(result.isUpdate).toBe(false);
+    expect(result.content).toMatch(/^# Project Context\n/);
+    expect(result.content).toContain('## Validation Conventions');
+  });
+
+  it('반복 변환 시 같은 섹션을 중복 추가하지 않아야 함', async () => {
+    const first = await generator.generate({ parsedComment, originalComment: comment, repository });
+    const second = await generator.generate({
+      parsedComment,
+      originalComment: comment,
+      repository,
+      existingContent: first.content
+    });
+
+    expect(second.isUpdate).toBe(true);
+    expect(second.content.match(/## Validation Conventions/g)).toHaveLength(1);
+    expect(second.content.trim()).toBe(first.content.trim());
+  });
+});
+
+describe('AiderGenerator', () => {
+  it('기존 CONVENTIONS.md의 다른 섹션은 유지하고 새 섹션을 추가해야 함', async () => {
+    const existingContent = '# Coding Conventions\n\n## Logging Conventions\n\n- Use the shared logger';
+
+    const result = await new AiderGenerator().generate({
+      parsedComment,
+      originalComment: comment,
+      repository,
+      existingContent
+    });
+
+    expect(result.filePath).toBe('CONVENTIONS.md');
+    expect(result.content.startsWith(existingContent)).toBe(true);
+    expect(result.content).toContain('## Validation Conventions');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * GeminiClient 단위 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { GeminiClient } from '../../src/background/llm/gemini-client';
+import { createLLMClient } from '../../src/background/llm/enhancer';
+
+/**
+ * generateContent 응답 모킹
+ */
+function mockGenerateContent(text: string, usageMetadata?: Record<string, number>) {
+  const fetchMock = vi.fn().mockResolvedValue(
+    new Response(JSON.stringify({
+      candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+      usageMetadata
+    }), { status: 200 })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('GeminiClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('generateContent API에 API 키 헤더와 system instruction을 보내야 함', async () => {
+    const fetchMock = mockGenerateContent('ok');
+
+    const client = new GeminiClient('AIza-test');
+    const text = await client.generateText('hello', { system: 'Be brief.', max_tokens: 100 });
+
+    expect(text).toBe('ok');
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent'
+    );
+
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect(init.headers).toHaveProperty('x-goog-api-key', 'AIza-test');
+
+    const body = JSON.parse(init.body as string);
+    expect(body.systemInstruction.parts[0].text).toBe('Be brief.');
+    expect(body.contents[0].parts[0].text).toBe('hello');
+    expect(body.generationConfig.maxOutputTokens).toBe(100);
+  });
+
+  it('분석 결과와 usageMetadata를 TokenUsage로 변환해야 함', async () => {
+    const fetchMock = mockGenerateContent(
+      JSON.stringify({
+        summary: 'Use const',
+        detailedExplanation: 'Prefer const over let.',
+        codeExplanations: [],
+        additionalKeywords: ['const'],
+        suggestedCategory: 'style',
+        reasoning: { detectedIntent: [], keyPhrases: [], codeReferences: [], confidenceScore: 80 }
+      }),
+      { promptTokenCount: 120, candidatesTokenCount: 30, thoughtsTokenCount: 10, totalTokenCount: 160 }
+    );
+
+    const client = new GeminiClient('AIza-test');
+    const response = await client.analyzeComment('Use const instead of let', []);
+
+    expect(response.success).toBe(true);
+    expect(response.data?.summary).toBe('Use const');
+    expect(response.tokenUsage).toEqual({ inputTokens: 120, outputTokens: 40, totalTokens: 160, model: 'gemini-2.5-flash' });
+
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+    expect(body.generationConfig.responseMimeType).toBe('application/json');
+    expect(body.generationConfig.responseJsonSchema.required).toContain('summary');
+  });
+
+  it('gemini 설정이면 GeminiClient를 생성해야 함', () => {
+    expect(createLLMClient({ provider: 'gemini', geminiApiKey: 'AIza-test' })).toBeInstanceOf(GeminiClient);
+    expect(createLLMClient({ provider: 'gemini' })).toBeNull();
+  });
+});
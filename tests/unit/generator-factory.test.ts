@@ -9,6 +9,11 @@ import { ClaudeCodeGenerator } from '../../src/core/generators/claude-code-gener
 import { CursorGenerator } from '../../src/core/generators/cursor-generator';
 import { WindsurfGenerator } from '../../src/core/generators/windsurf-generator';
 import { CodexGenerator } from '../../src/core/generators/codex-generator';
+import { CopilotGenerator } from '../../src/core/generators/copilot-generator';
+import { GeminiGenerator } from '../../src/core/generators/gemini-generator';
+import { AiderGenerator } from '../../src/core/generators/aider-generator';
+import { ClineGenerator } from '../../src/core/generators/cline-generator';
+import { CustomGenerator } from '../../src/core/generators/custom-generator';
 import type { ProjectType } from '../../src/types';
 
 describe('GeneratorFactory', () => {
@@ -41,6 +46,42 @@ describe('GeneratorFactory', () => {
       expect(generators.get('codex')).toBeInstanceOf(CodexGenerator);
     });
 
+    it('copilot 타입에 대해 CopilotGenerator를 생성해야 함', () => {
+      const generators = GeneratorFactory.createGenerators(['copilot']);
+
+      expect(generators.size).toBe(1);
+      expect(generators.get('copilot')).toBeInstanceOf(CopilotGenerator);
+    });
+
+    it('gemini/aider 타입에 대해 각각의 Generator를 생성해야 함', () => {
+      const generators = GeneratorFactory.createGenerators(['gemini', 'aider']);
+
+      expect(generators.size).toBe(2);
+      expect(generators.get('gemini')).toBeInstanceOf(GeminiGenerator);
+      expect(generators.get('aider')).toBeInstanceOf(AiderGenerator);
+    });
+
+    it('cline 타입에 대해 ClineGenerator를 생성해야 함', () => {
+      const generators = GeneratorFactory.createGenerators(['cline']);
+
+      expect(generators.size).toBe(1);
+      expect(generators.get('cline')).toBeInstanceOf(ClineGenerator);
+    });
+
+    it('custom 타입은 사용자 정의 대상 설정이 있을 때만 CustomGenerator를 생성해야 함', () => {
+      expect(GeneratorFactory.createGenerators(['custom']).size).toBe(0);
+
+      const generators = GeneratorFactory.createGenerators(['custom'], {
+        directory: '.ai/rules',
+        extension: '.md',
+        mode: 'per-rule',
+        fileName: '',
+        template: ''
+      });
+
+      expect(generators.get('custom')).toBeInstanceOf(CustomGenerator);
+    });
+
     it('여러 프로젝트 타입을 동시에 생성해야 함', () => {
       const generators = GeneratorFactory.createGenerators([
         'claude-code', 'cursor', 'windsurf', 'codex'
@@ -0,0 +1,83 @@
+/**
+ * Self-hosted Gitea/Forgejo 호스트 설정 (권한 origin, content script 등록) 단위 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { isSelfHostedGiteaUrl, getGiteaPRPattern, getGiteaPermissionOrigins } from '../../src/utils/gitea-host';
+import { ContentScriptRegistry } from '../../src/background/services/content-script-registry';
+
+describe('Gitea 호스트 유틸리티', () => {
+  it('codeberg.org가 아닌 유효한 URL만 self-hosted로 판단해야 함', () => {
+    expect(isSelfHostedGiteaUrl('https://git.example.com')).toBe(true);
+    expect(isSelfHostedGiteaUrl('https://codeberg.org')).toBe(false);
+    expect(isSelfHostedGiteaUrl('')).toBe(false);
+    expect(isSelfHostedGiteaUrl(undefined)).toBe(false);
+    expect(isSelfHostedGiteaUrl('not a url')).toBe(false);
+  });
+
+  it('PR 페이지와 API 경로에 대한 권한 origin을 반환해야 함', () => {
+    expect(getGiteaPRPattern('https://git.example.com/some/path')).toBe('https://git.example.com/*/pulls/*');
+    expect(getGiteaPermissionOrigins('https://git.example.com:3000')).toEqual([
+      'https://git.example.com:3000/*/pulls/*',
+      'https://git.example.com:3000/api/v1/*'
+    ]);
+    expect(getGiteaPermissionOrigins('https://example.com/forgejo/')).toEqual([
+      'https://example.com/*/pulls/*',
+      'https://example.com/forgejo/api/v1/*'
+    ]);
+  });
+});
+
+describe('ContentScriptRegistry (Gitea)', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubChrome(options: { giteaUrl?: string; granted: boolean; registered: boolean }) {
+    const scripting = {
+      getRegisteredContentScripts: vi.fn().mockResolvedValue(options.registered ? [{ id: 'rti-gitea' }] : []),
+      registerContentScripts: vi.fn().mockResolvedValue(undefined),
+      updateContentScripts: vi.fn().mockResolvedValue(undefined),
+      unregisterContentScripts: vi.fn().mockResolvedValue(undefined)
+    };
+    const permissions = { contains: vi.fn().mockResolvedValue(options.granted) };
+
+    vi.stubGlobal('chrome', {
+      storage: { local: { get: vi.fn().mockResolvedValue({ giteaUrl: options.giteaUrl }) } },
+      scripting,
+      permissions,
+      runtime: { getManifest: () => ({ content_scripts: [{ js: ['assets/main.js'] }] }) }
+    });
+
+    return { scripting, permissions };
+  }
+
+  it('권한이 허용된 self-hosted 호스트에는 content script를 등록해야 함', async () => {
+    const { scripting, permissions } = stubChrome({ giteaUrl: 'https://git.example.com', granted: true, registered: false });
+
+    await new ContentScriptRegistry().syncGitea();
+
+    expect(permissions.contains).toHaveBeenCalledWith({
+      origins: ['https://git.example.com/*/pulls/*', 'https://git.example.com/api/v1/*']
+    });
+    expect(scripting.registerContentScripts).toHaveBeenCalledWith([{
+      id: 'rti-gitea',
+      matches: ['https://git.example.com/*/pulls/*'],
+      js: ['assets/main.js'],
+      css: undefined,
+      runAt: 'document_end'
+    }]);
+  });
+
+  it('권한이 없거나 codeberg.org로 바뀌면 등록을 해제해야 함', async () => {
+    const denied = stubChrome({ giteaUrl: 'https://git.example.com', granted: false, registered: true });
+    await new ContentScriptRegistry().syncGitea();
+    expect(denied.scripting.unregisterContentScripts).toHaveBeenCalledWith({ ids: ['rti-gitea'] });
+    expect(denied.scripting.registerContentScripts).not.toHaveBeenCalled();
+
+    const codeberg = stubChrome({ giteaUrl: 'https://codeberg.org', granted: true, registered: true });
+    await new ContentScriptRegistry().syncGitea();
+    expect(codeberg.permissions.contains).not.toHaveBeenCalled();
+    expect(codeberg.scripting.unregisterContentScripts).toHaveBeenCalledWith({ ids: ['rti-gitea'] });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * GitHub Enterprise Server 호스트 설정 단위 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ApiClient, getGitHubApiBaseUrl } from '../../src/background/api-client';
+import {
+  isGitHubEnterpriseUrl,
+  getGitHubEnterprisePRPattern,
+  getGitHubEnterprisePermissionOrigins
+} from '../../src/utils/github-enterprise';
+
+describe('getGitHubApiBaseUrl', () => {
+  it('URL이 없거나 github.com이면 api.github.com을 사용해야 함', () => {
+    expect(getGitHubApiBaseUrl()).toBe('https://api.github.com');
+    expect(getGitHubApiBaseUrl('https://github.com')).toBe('https://api.github.com');
+    expect(getGitHubApiBaseUrl('https://github.com/')).toBe('https://api.github.com');
+  });
+
+  it('GHES URL에는 /api/v3를 붙여야 함', () => {
+    expect(getGitHubApiBaseUrl('https://github.example.com')).toBe('https://github.example.com/api/v3');
+    expect(getGitHubApiBaseUrl('https://github.example.com/')).toBe('https://github.example.com/api/v3');
+  });
+
+  it('이미 /api/v3가 포함된 URL은 그대로 사용해야 함', () => {
+    expect(getGitHubApiBaseUrl('https://github.example.com/api/v3/')).toBe('https://github.example.com/api/v3');
+  });
+});
+
+describe('GitHub Enterprise 호스트 유틸리티', () => {
+  it('github.com이 아닌 유효한 URL만 GHES로 판단해야 함', () => {
+    expect(isGitHubEnterpriseUrl('https://github.example.com')).toBe(true);
+    expect(isGitHubEnterpriseUrl('https://github.com')).toBe(false);
+    expect(isGitHubEnterpriseUrl('')).toBe(false);
+    expect(isGitHubEnterpriseUrl(undefined)).toBe(false);
+    expect(isGitHubEnterpriseUrl('not a url')).toBe(false);
+  });
+
+  it('PR 페이지와 API 경로에 대한 권한 origin을 반환해야 함', () => {
+    expect(getGitHubEnterprisePRPattern('https://github.example.com/some/path')).toBe(
+      'https://github.example.com/*/pull/*'
+    );
+    expect(getGitHubEnterprisePermissionOrigins('https://github.example.com:8443')).toEqual([
+      'https://github.example.com:8443/*/pull/*',
+      'https://github.example.com:8443/api/v3/*'
+    ]);
+  });
+});
+
+describe('ApiClient (GitHub Enterprise)', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('githubUrl이 설정되면 GHES REST API로 요청해야 함', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ login: 'octocat' }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new ApiClient({ token: 'ghp_test', platform: 'github', githubUrl: 'https://github.example.com' });
+    const result = await client.testConnection();
+
+    expect(result).toEqual({ success: true, user: 'octocat' });
+    expect(fetchMock.mock.calls[0][0]).toBe('https://github.example.com/api/v3/user');
+  });
+});
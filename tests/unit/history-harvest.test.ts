@@ -0,0 +1,175 @@
+/**
+ * 히스토리 수집 (컨벤션 코멘트 수집, 묶기, 비용 추정, 작업 재개) 단위 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  collectConventionComments,
+  clusterComments,
+  mergeClusterComments,
+  estimateHarvestCost,
+  type HarvestedComment,
+  type HarvestJob
+} from '../../src/core/history-harvest';
+import { ConventionFilter } from '../../src/core/convention-filter';
+import { HistoryHarvestService, type HarvestJobStore } from '../../src/background/services/history-harvest-service';
+import { ApiClient, type MergedPullRequest } from '../../src/background/api-client';
+import type { ConversionOrchestrator } from '../../src/background/services/conversion-orchestrator';
+import type { Comment, PRReviewData, Repository } from '../../src/types';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const repository: Repository = { owner: 'acme', name: 'web', platform: 'github', branch: '', prNumber: 0 };
+
+function pr(number: number): MergedPullRequest {
+  return { number, title: `PR ${number}`, url: `https://github.com/acme/web/pull/${number}`, baseBranch: 'main', mergedAt: '2026-10-01T00:00:00Z' };
+}
+
+function harvested(prNumber: number, id: string, content: string): HarvestedComment {
+  const comment: Comment = {
+    id, author: `reviewer-${id}`, content, htmlContent: content, url: pr(prNumber).url, createdAt: '2026-10-01T00:00:00Z', platform: 'github'
+  };
+  return { pr: prNumber, comment };
+}
+
+function reviewData(): PRReviewData {
+  return {
+    threads: [{
+      id: 't1',
+      path: 'src/api/users.ts',
+      line: 12,
+      diffHunk: '@@ -10,3 +10,4 @@\n+const res = await fetch(url);',
+      comments: [
+        { id: 1, body: 'Always wrap fetch calls in try/catch and return a typed error response', author: 'alice', createdAt: '2026-10-01T00:00:00Z' },
+        { id: 2, body: 'Agreed, we do this in the billing module too', author: 'bob', createdAt: '2026-10-01T01:00:00Z' }
+      ]
+    }],
+    generalComments: [
+      { id: 3, body: 'LGTM, thanks!', author: 'carol', createdAt: '2026-10-01T02:00:00Z' }
+    ],
+    totalCommentCount: 3
+  };
+}
+
+function memoryStore(): HarvestJobStore & { job: HarvestJob | null } {
+  const store = {
+    job: null as HarvestJob | null,
+    load: async () => (store.job ? structuredClone(store.job) : null),
+    save: async (job: HarvestJob) => { store.job = structuredClone(job); }
+  };
+  return store;
+}
+
+describe('컨벤션 코멘트 수집/묶기', () => {
+  it('스레드는 첫 코멘트 기준으로 거르고 답글과 코드 컨텍스트를 유지해야 함', () => {
+    const comments = collectConventionComments(reviewData(), pr(7), 'github', new ConventionFilter());
+
+    expect(comments).toHaveLength(1);
+    expect(comments[0].pr).toBe(7);
+    expect(comments[0].comment.url).toBe('https://github.com/acme/web/pull/7');
+    expect(comments[0].comment.replies?.[0].author).toBe('bob');
+    expect(comments[0].comment.codeContext?.filePath).toBe('src/api/users.ts');
+  });
+
+  it('여러 PR의 비슷한 코멘트는 하나로 묶고 다른 PR의 코멘트는 답글로 합쳐야 함', async () => {
+    const comments = [
+      harvested(7, '1', 'Always wrap fetch calls in try/catch and return a typed error response'),
+      harvested(9, '2', 'Name React components in PascalCase and keep one component per file'),
+      harvested(12, '3', 'Please wrap fetch calls in try/catch and return a typed error response')
+    ];
+
+    const clusters = await clusterComments(comments);
+    expect(clusters).toEqual([[0, 2], [1]]);
+
+    const merged = mergeClusterComments(clusters[0].map(index => comments[index]));
+    expect(merged.id).toBe('1');
+    expect(merged.replies).toEqual([
+      expect.objectContaining({ author: 'reviewer-3', content: '[PR #12] Please wrap fetch calls in try/catch and return a typed error response' })
+    ]);
+  });
+
+  it('묶음 수와 모델 가격으로 비용을 추정해야 함', () => {
+    const comments = [harvested(7, '1', 'x'.repeat(400)), harvested(9, '2', 'y'.repeat(400))];
+
+    const estimate = estimateHarvestCost(comments, [[0, 1]], { analysis: 'claude-sonnet-4-5', light: 'claude-haiku-4-5' });
+
+    expect(estimate).toMatchObject({ commentCount: 2, clusterCount: 1, inputTokens: 1200 + 200 + 2500, outputTokens: 800 + 300 });
+    expect(estimate.usd).toBeCloseTo((1400 * 3 + 800 * 15 + 2500 * 1 + 300 * 5) / 1_000_000, 3);
+  });
+});
+
+describe('HistoryHarvestService', () => {
+  function createOrchestrator() {
+    const container = {
+      configService: { loadConfig: vi.fn().mockResolvedValue({ token: 'ghp_test', llmConfig: { provider: 'claude' } }) },
+      commentService: {
+        validateAndEnhance: vi.fn(async (comment: Comment) => ({
+          enhancedComment: { content: comment.content, keywords: ['errors'], category: 'error-handling', codeExamples: [], suggestedFileName: 'errors', llmEnhanced: true },
+          tokenUsage: { inputTokens: 100, outputTokens: 50, totalTokens: 150 }
+        }))
+      },
+      fileGenerationService: {
+        generateForAllTypes: vi.fn(async () => [
+          { projectType: 'claude-code', filePath: '.claude/rules/errors.md', content: '# Errors', isUpdate: false }
+        ])
+      },
+      prService: { createMultiFileWrapup: vi.fn().mockResolvedValue({ prUrl: 'https://github.com/acme/web/pull/99' }) }
+    };
+    const orchestrator = {
+      container,
+      applyRepositorySettings: vi.fn(async (_client: unknown, _repository: unknown, llmConfig: unknown) => ({ llmConfig, repositoryConfig: null }))
+    } as unknown as ConversionOrchestrator;
+
+    return { orchestrator, container };
+  }
+
+  it('수집 후 비용을 추정하고 시작을 확인하기 전에는 LLM을 호출하지 않아야 함', async () => {
+    vi.spyOn(ApiClient.prototype, 'listMergedPullRequests').mockResolvedValue([pr(7), pr(9)]);
+    const getReviewData = vi.spyOn(ApiClient.prototype, 'getReviewData').mockResolvedValue(reviewData());
+    const { orchestrator, container } = createOrchestrator();
+    const store = memoryStore();
+    const service = new HistoryHarvestService(orchestrator, store);
+
+    await service.prepare(repository, 2);
+    await service.whenIdle();
+
+    expect(getReviewData.mock.calls.map(([repo]) => repo.prNumber)).toEqual([7, 9]);
+    expect(store.job?.status).toBe('estimated');
+    expect(store.job?.repository.baseBranch).toBe('main');
+    expect(store.job?.estimate).toMatchObject({ commentCount: 2, clusterCount: 1 });
+    expect(container.commentService.validateAndEnhance).not.toHaveBeenCalled();
+  });
+
+  it('재시작 후 남은 묶음부터 이어서 변환하고 하나의 PR을 만들어야 함', async () => {
+    const { orchestrator, container } = createOrchestrator();
+    const store = memoryStore();
+    const comments = [
+      harvested(7, '1', 'Always wrap fetch calls in try/catch'),
+      harvested(9, '2', 'Name React components in PascalCase')
+    ];
+    store.job = {
+      id: 'harvest-1', repository: { ...repository, branch: 'main', baseBranch: 'main' }, limit: 2, status: 'converting',
+      pullRequests: [pr(7), pr(9)], collectedPrs: [7, 9], comments, clusters: [[0], [1]],
+      estimate: { commentCount: 2, clusterCount: 2, inputTokens: 1, outputTokens: 1, usd: 0, krw: 0 },
+      nextCluster: 1,
+      results: [{
+        enhancedComment: { content: 'done', keywords: [], category: 'conventions', codeExamples: [], suggestedFileName: 'done', llmEnhanced: true },
+        comment: comments[0].comment,
+        files: []
+      }],
+      tokenUsage: { inputTokens: 100, outputTokens: 50 }, createdAt: 1, updatedAt: 1
+    };
+    const service = new HistoryHarvestService(orchestrator, store);
+
+    await service.resume();
+    await service.whenIdle();
+
+    expect(container.commentService.validateAndEnhance).toHaveBeenCalledTimes(1);
+    expect(container.fileGenerationService.generateForAllTypes.mock.calls[0][1]).toMatchObject({ prNumber: 9 });
+    expect(container.prService.createMultiFileWrapup.mock.calls[0][2]).toHaveLength(2);
+    expect(container.prService.createMultiFileWrapup.mock.calls[0][5]).toEqual([pr(7), pr(9)]);
+    expect(store.job).toMatchObject({ status: 'completed', prUrl: 'https://github.com/acme/web/pull/99', tokenUsage: { inputTokens: 200, outputTokens: 100 } });
+  });
+});
@@ -55,6 +55,18 @@ describe('generateInstruction', () => {
       expect(result).toContain('keywords:');
     });
 
+    it('frontmatter에 상태 메타데이터와 대체하는 규칙이 있어야 함', () => {
+      const result = generateInstruction({
+        parsedComment: createParsedComment(),
+        originalComment: createComment('Use snake_case for DB columns'),
+        repository: createRepository(),
+        supersedes: ['.claude/rules/naming.md']
+      });
+      const today = new Date().toISOString().split('T')[0];
+
+      expect(result).toContain(`status: active\nlastConfirmed: "${today}"\nsupersedes:\n  - ".claude/rules/naming.md"\n---`);
+    });
+
     it('본문에 메타데이터 footer가 없어야 함', () => {
       const result = generateInstruction({
         parsedComment: createParsedComment(),
@@ -216,7 +228,7 @@ describe('generateInstruction', () => {
   });
 
   describe('기존 instruction 업데이트', () => {
-    it('기존 내용 뒤에 Update 섹션을 추가해야 함', () => {
+    it('기존 Rules 목록에 새 규칙을 병합해야 함', () => {
       const existingContent = '# Naming\n\n## Rules\n\n- Use PascalCase\n';
 
       const result = generateInstruction({
@@ -227,7 +239,8 @@ describe('generateInstruction', () => {
       });
 
       expect(result).toContain('# Naming');
-      expect(result).toContain('## Update');
+      expect(result).toContain('## Rules\n\n- Use PascalCase\n- Also use kebab-case for files');
+      expect(result.match(/## Rules/g)).toHaveLength(1);
     });
 
     it('업데이트에도 리뷰 맥락이 제거되어야 함', () => {
@@ -245,6 +258,21 @@ describe('generateInstruction', () => {
       expect(result).toContain('camelCase');
     });
 
+    it('업데이트하면 lastConfirmed를 갱신해야 함', () => {
+      const existingContent = '---\ncategory: naming\nstatus: active\nlastConfirmed: "2024-01-01"\n---\n\n# Naming\n\n## Rules\n\n- Use PascalCase\n';
+
+      const result = generateInstruction({
+        parsedComment: createParsedComment(),
+        originalComment: createComment('Also use kebab-case for files'),
+        repository: createRepository(),
+        existingContent
+      });
+
+      expect(result).toContain(`lastConfirmed: "${new Date().toISOString().split('T')[0]}"`);
+      expect(result).not.toContain('2024-01-01');
+      expect(result).toContain('status: active');
+    });
+
     it('업데이트에 Source footer가 없어야 함', () => {
       const existingContent = '# Naming\n\n## Rules\n\n- Use PascalCase\n';
 
@@ -0,0 +1,93 @@
+/**
+ * LLM 모델 선택 단위 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { resolveModel, DEFAULT_MODELS } from '../../src/background/llm/models';
+import { llmCache } from '../../src/background/llm/cache';
+import { createLLMClient } from '../../src/background/llm/enhancer';
+import { OpenAIClient } from '../../src/background/llm/openai-client';
+
+describe('resolveModel', () => {
+  it('선택하지 않았으면 제공자 기본 모델을 사용해야 함', () => {
+    expect(resolveModel({ provider: 'claude' })).toBe(DEFAULT_MODELS.claude.analysis);
+    expect(resolveModel({ provider: 'openai' }, 'light')).toBe(DEFAULT_MODELS.openai.light);
+  });
+
+  it('분석 모델과 경량 작업 모델을 따로 선택해야 함', () => {
+    const config = {
+      provider: 'gemini' as const,
+      geminiModel: 'gemini-2.5-pro',
+      geminiLightModel: 'gemini-2.5-flash'
+    };
+
+    expect(resolveModel(config, 'analysis')).toBe('gemini-2.5-pro');
+    expect(resolveModel(config, 'light')).toBe('gemini-2.5-flash');
+  });
+
+  it('OpenAI 호환 엔드포인트는 경량 모델이 없으면 분석 모델을 사용해야 함', () => {
+    const config = { provider: 'openai-compatible' as const, compatibleModel: 'llama3.1:8b' };
+
+    expect(resolveModel(config, 'light')).toBe('llama3.1:8b');
+    expect(resolveModel({ ...config, compatibleLightModel: 'llama3.2:3b' }, 'light')).toBe('llama3.2:3b');
+  });
+});
+
+describe('캐시 키 모델', () => {
+  it('같은 제공자라도 모델이 바뀌면 캐시 키도 바뀌어야 함', async () => {
+    const analysis = await llmCache.generateCacheKey('content', [], 'claude', DEFAULT_MODELS.claude.analysis);
+    const light = await llmCache.generateCacheKey('content', [], 'claude', DEFAULT_MODELS.claude.light);
+
+    expect(analysis).not.toBe(light);
+  });
+});
+
+describe('모델별 토큰 사용량', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // chrome.storage.local 메모리 구현
+  function stubStorage(): Record<string, any> {
+    const data: Record<string, any> = {};
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          get: async (key: string) => (key in data ? { [key]: data[key] } : {}),
+          set: async (items: Record<string, unknown>) => { Object.assign(data, items); }
+        }
+      }
+    });
+    return data;
+  }
+
+  it('경량 작업 호출도 경량 모델의 사용량에 기록해야 함', async () => {
+    const storage = stubStorage();
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => new Response(JSON.stringify({
+      content: [{ type: 'text', text: 'instruction' }],
+      usage: { input_tokens: 120, output_tokens: 3 }
+    }), { status: 200 })));
+
+    const config = { provider: 'claude' as const, claudeApiKey: 'key' };
+    await createLLMClient(config, 'light')!.generateText('Classify this comment');
+    await createLLMClient(config, 'light')!.generateFileName('Name this rule');
+
+    expect(storage.llm_token_usage).toEqual({
+      [DEFAULT_MODELS.claude.light]: { inputTokens: 240, outputTokens: 6 }
+    });
+  });
+
+  it('임베딩 호출은 임베딩 모델의 사용량에 기록해야 함', async () => {
+    const storage = stubStorage();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      data: [{ index: 0, embedding: [0.1, 0.2] }],
+      usage: { prompt_tokens: 42, total_tokens: 42 }
+    }), { status: 200 })));
+
+    await new OpenAIClient('key', DEFAULT_MODELS.openai.analysis).embedTexts(['Use early returns']);
+
+    expect(storage.llm_token_usage).toEqual({
+      'text-embedding-3-small': { inputTokens: 42, outputTokens: 0 }
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * LLM 구조화 출력 (스키마 검증, tool use / json_schema, repair 재요청) 단위 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  validateSchema,
+  buildRepairPrompt,
+  buildAnalysisResultSchema,
+  SIMILARITY_CHECK_SCHEMA,
+  DIRECTORY_SELECTION_SCHEMA
+} from '../../src/background/llm/schemas';
+import { buildAnalysisPrompt, getAllowedCategories } from '../../src/background/llm/prompts';
+import { ClaudeClient } from '../../src/background/llm/claude-client';
+import { OpenAIClient } from '../../src/background/llm/openai-client';
+
+/**
+ * 호출마다 다른 응답을 돌려주는 fetch 모킹
+ */
+function mockFetchSequence(bodies: unknown[]) {
+  let call = 0;
+  const fetchMock = vi.fn().mockImplementation(async () => {
+    const body = bodies[Math.min(call++, bodies.length - 1)];
+    return new Response(JSON.stringify(body), { status: 200 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+/**
+ * Chat Completions 응답
+ */
+function completion(content: string, promptTokens: number, completionTokens: number) {
+  return {
+    choices: [{ message: { content } }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+  };
+}
+
+describe('validateSchema', () => {
+  it('유효한 값이면 오류가 없어야 함', () => {
+    expect(validateSchema({ similarity: 85, decision: 'MERGE', reasoning: 'same topic' }, SIMILARITY_CHECK_SCHEMA.schema)).toEqual([]);
+    expect(validateSchema({ selected: 2, reasoning: 'api' }, DIRECTORY_SELECTION_SCHEMA.schema)).toEqual([]);
+  });
+
+  it('누락, 타입, enum, 범위 오류를 경로와 함께 보고해야 함', () => {
+    const errors = validateSchema({ similarity: '85', decision: 'MAYBE' }, SIMILARITY_CHECK_SCHEMA.schema);
+
+    expect(errors).toContain('$.reasoning: is required');
+    expect(errors).toContain('$.similarity: expected number');
+    expect(errors).toContain('$.decision: must be one of IDENTICAL, MERGE, DIFFERENT');
+    expect(validateSchema({ selected: 1.5, reasoning: '' }, DIRECTORY_SELECTION_SCHEMA.schema)).toEqual(['$.selected: expected integer']);
+    expect(validateSchema({ selected: 3, reasoning: '' }, DIRECTORY_SELECTION_SCHEMA.schema)).toEqual(['$.selected: must be <= 2']);
+    expect(validateSchema('not json', DIRECTORY_SELECTION_SCHEMA.schema)).toEqual(['$: expected object']);
+  });
+
+  it('suggestedCategory를 기본 + 사용자 정의 카테고리로 제한해야 함', () => {
+    const categories = [{ name: 'billing', keywords: ['invoice'], description: 'Payment flows' }];
+    const allowed = getAllowedCategories(categories);
+    const schema = buildAnalysisResultSchema(allowed).schema.properties!.suggestedCategory;
+
+    expect(allowed).toContain('naming');
+    expect(allowed).toContain('billing');
+    expect(validateSchema('billing', schema)).toEqual([]);
+    expect(validateSchema('observability', schema)).toHaveLength(1);
+
+    const prompt = buildAnalysisPrompt('Round invoices', [], undefined, undefined, undefined, 'English', categories);
+    expect(prompt).toContain('- billing: Payment flows (keywords: invoice)');
+  });
+
+  it('repair 프롬프트에 이전 응답과 오류를 포함해야 함', () => {
+    const prompt = buildRepairPrompt('Pick one.', { selected: 'a' }, ['$.selected: expected integer']);
+
+    expect(prompt.startsWith('Pick one.')).toBe(true);
+    expect(prompt).toContain('"selected": "a"');
+    expect(prompt).toContain('- $.selected: expected integer');
+  });
+});
+
+describe('generateStructured', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('Claude는 스키마를 도구로 강제 호출하고 tool_use 입력을 반환해야 함', async () => {
+    const fetchMock = mockFetchSequence([{
+      content: [{ type: 'tool_use', name: 'select_directory', input: { selected: 1, reasoning: 'api' } }],
+      usage: { input_tokens: 50, output_tokens: 10 }
+    }]);
+
+    const client = new ClaudeClient('sk-ant-test');
+    const result = await client.generateStructured(
+      'Pick one.',
+      DIRECTORY_SELECTION_SCHEMA
+    );
+
+    expect(result).toEqual({
+      data: { selected: 1, reasoning: 'api' },
+      tokenUsage: { inputTokens: 50, outputTokens: 10, totalTokens: 60 }
+    });
+
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+    expect(body.tools[0].name).toBe('select_directory');
+    expect(body.tools[0].input_schema).toEqual(DIRECTORY_SELECTION_SCHEMA.schema);
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'select_directory' });
+  });
+
+  it('검증 실패 시 오류를 담아 재요청하고 토큰 사용량을 합산해야 함', async () => {
+    const fetchMock = mockFetchSequence([
+      completion('{"similarity": "high"}', 100, 5),
+      completion('{"similarity": 90, "decision": "IDENTICAL", "reasoning": "same rule"}', 150, 20)
+    ]);
+
+    const client = new OpenAIClient('sk-test', 'gpt-4o-mini');
+    const result = await client.generateStructured('Compare.', SIMILARITY_CHECK_SCHEMA);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.data).toEqual({ similarity: 90, decision: 'IDENTICAL', reasoning: 'same rule' });
+    expect(result.tokenUsage).toEqual({ inputTokens: 250, outputTokens: 25, totalTokens: 275 });
+
+    const firstBody = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+    expect(firstBody.response_format.type).toBe('json_schema');
+    expect(firstBody.response_format.json_schema).toMatchObject({ name: 'record_similarity', strict: true });
+
+    const repairBody = JSON.parse((fetchMock.mock.calls[1][1] as RequestInit).body as string);
+    expect(repairBody.messages[1].content).toContain('$.similarity: expected number');
+  });
+
+  it('재요청 후에도 유효하지 않으면 에러를 던져야 함', async () => {
+    const fetchMock = mockFetchSequence([completion('not json at all', 10, 5)]);
+
+    const client = new OpenAIClient('sk-test', 'gpt-4o-mini');
+
+    await expect(client.generateStructured('Pick one.', DIRECTORY_SELECTION_SCHEMA))
+      .rejects.toThrow('Response did not match select_directory schema');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('json_schema를 지원하지 않는 OpenAI 모델은 JSON 모드로 요청해야 함', async () => {
+    const fetchMock = mockFetchSequence([completion('{"selected": 0, "reasoning": "rules"}', 10, 5)]);
+
+    const client = new OpenAIClient('sk-test', 'gpt-4-turbo-preview');
+    await client.generateStructured('Pick one.', DIRECTORY_SELECTION_SCHEMA);
+
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+    expect(body.response_format).toEqual({ type: 'json_object' });
+  });
+});
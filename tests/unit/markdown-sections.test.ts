@@ -0,0 +1,142 @@
+/**
+ * Markdown Section Upsert 단위 테스트
+ * 같은 제목의 섹션 갱신 / 새 섹션 추가 / 키워드 기반 매칭 / 목록·메타데이터 병합 검증
+ */
+
+import { describe, it, expect } from 'vitest';
+import { upsertMarkdownSection, parseMarkdownSections } from '../../src/core/markdown-sections';
+
+const existing = [
+  '# Project Context',
+  '',
+  '## Naming Conventions',
+  '',
+  '- Use PascalCase for components',
+  '',
+  '**Source:** [PR #1](https://example.com/1) by @alice',
+  '',
+  '## Error Handling',
+  '',
+  '- Wrap async handlers'
+].join('\n');
+
+describe('upsertMarkdownSection', () => {
+  it('같은 제목의 섹션이 없으면 파일 끝에 추가해야 함', () => {
+    const result = upsertMarkdownSection(existing, '## Testing Conventions\n\n- Use vitest');
+
+    expect(result.endsWith('- Wrap async handlers\n\n## Testing Conventions\n\n- Use vitest\n')).toBe(true);
+  });
+
+  it('같은 제목의 섹션에 새 블록만 병합하고 다음 섹션은 유지해야 함', () => {
+    const result = upsertMarkdownSection(
+      existing,
+      '## naming conventions\n\n- Use PascalCase for components\n\n**Source:** [PR #2](https://example.com/2) by @bob'
+    );
+
+    expect(result.match(/## Naming Conventions/gi)).toHaveLength(1);
+    expect(result.match(/Use PascalCase/g)).toHaveLength(1);
+    expect(result).toContain(
+      '**Source:** [PR #1](https://example.com/1) by @alice\n\n**Source:** [PR #2](https://example.com/2) by @bob\n\n## Error Handling'
+    );
+  });
+
+  it('같은 섹션을 반복 upsert해도 내용이 늘어나지 않아야 함', () => {
+    const section = '## Error Handling\n\n- Wrap async handlers\n\n```ts\ntry {\n\n  await run();\n} catch {}\n```';
+    const once = upsertMarkdownSection(existing, section);
+    const twice = upsertMarkdownSection(once, section);
+
+    expect(twice).toBe(once);
+    expect(once).toContain('```ts\ntry {\n\n  await run();\n} catch {}\n```');
+  });
+
+  it('코드 블록 안의 제목은 섹션 경계로 보지 않아야 함', () => {
+    const content = '## Scripts\n\n```sh\n## Error Handling\necho hi\n```';
+    const result = upsertMarkdownSection(content, '## Error Handling\n\n- Log errors');
+
+    expect(result).toBe('## Scripts\n\n```sh\n## Error Handling\necho hi\n```\n\n## Error Handling\n\n- Log errors\n');
+  });
+
+  it('제목이 달라도 키워드가 겹치는 같은 레벨 섹션에 병합해야 함', () => {
+    const result = upsertMarkdownSection(existing, '## Component Conventions\n\n- Use arrow functions for components', {
+      keywords: ['naming', 'component'],
+      category: 'conventions'
+    });
+
+    expect(result).not.toContain('## Component Conventions');
+    expect(result).toContain('- Use PascalCase for components\n- Use arrow functions for components');
+  });
+
+  it('키워드 하나만 겹치고 나머지 제목이 다른 섹션에는 병합하지 않고 새 섹션으로 추가해야 함', () => {
+    const content = '## Error Boundaries\n\n- Wrap route components in an error boundary';
+    const result = upsertMarkdownSection(content, '## Error Logging\n\n- Log errors with the request id', {
+      keywords: ['error', 'logging'],
+      category: 'conventions'
+    });
+
+    expect(result).toBe(
+      '## Error Boundaries\n\n- Wrap route components in an error boundary\n\n## Error Logging\n\n- Log errors with the request id\n'
+    );
+  });
+
+  it('더 구체적인 목록 항목은 제자리에서 교체하고 새 항목은 기존 기호로 추가해야 함', () => {
+    const content = '## Imports\n\n* Sort imports alphabetically\n* Avoid default exports';
+    const result = upsertMarkdownSection(
+      content,
+      '## Imports\n\n- Sort imports alphabetically within each group\n- Use path aliases'
+    );
+
+    expect(result).toBe(
+      '## Imports\n\n* Sort imports alphabetically within each group\n* Avoid default exports\n* Use path aliases\n'
+    );
+  });
+
+  it('키워드 메타데이터는 합치고 footer는 새 예시 뒤로 유지해야 함', () => {
+    const content = '# Validation\n\n- Validate bodies\n\n---\n**Source:** [PR #1](https://example.com/1) by @alice\n**Keywords:** validation';
+    const result = upsertMarkdownSection(
+      content,
+      '# Validation\n\n- Validate bodies\n\n## Examples\n\n```ts\nschema.parse(body);\n```\n\n---\n**Source:** [PR #2](https://example.com/2) by @bob\n**Keywords:** validation, zod'
+    );
+
+    expect(result).toBe([
+      '# Validation',
+      '',
+      '- Validate bodies',
+      '',
+      '---',
+      '**Source:** [PR #1](https://example.com/1) by @alice',
+      '**Keywords:** validation, zod',
+      '',
+      '**Source:** [PR #2](https://example.com/2) by @bob',
+      '',
+      '## Examples',
+      '',
+      '```ts',
+      'schema.parse(body);',
+      '```',
+      ''
+    ].join('\n'));
+  });
+
+  it('매칭이 없으면 유일한 최상위 섹션에 병합하거나 구분선과 함께 추가해야 함', () => {
+    const single = '# Request Rules\n\n- Validate bodies';
+    expect(upsertMarkdownSection(single, '# Logging Conventions\n\n- Use the logger', { fallbackToSoleSection: true }))
+      .toBe('# Request Rules\n\n- Validate bodies\n- Use the logger\n');
+
+    expect(upsertMarkdownSection(existing, '## Testing\n\n- Use vitest', { separator: true }))
+      .toMatch(/- Wrap async handlers\n\n---\n\n## Testing\n\n- Use vitest\n$/);
+  });
+});
+
+describe('parseMarkdownSections', () => {
+  it('제목을 레벨에 따라 트리로 파싱해야 함', () => {
+    const root = parseMarkdownSections(existing);
+
+    expect(root.children).toHaveLength(1);
+    expect(root.children[0].title).toBe('Project Context');
+    expect(root.children[0].children.map(section => section.title)).toEqual(['Naming Conventions', 'Error Handling']);
+    expect(root.children[0].children[0].blocks).toEqual([
+      '- Use PascalCase for components',
+      '**Source:** [PR #1](https://example.com/1) by @alice'
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * OpenAI 호환 LLM 엔드포인트 (Ollama, vLLM 등) 단위 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { OpenAICompatibleClient } from '../../src/background/llm/openai-compatible-client';
+import { createLLMClient, isLLMConfigured } from '../../src/background/llm/enhancer';
+import {
+  isValidLLMEndpointUrl,
+  getChatCompletionsUrl,
+  getLLMEndpointPermissionOrigins
+} from '../../src/utils/llm-endpoint';
+
+describe('OpenAI 호환 엔드포인트 유틸리티', () => {
+  it('http(s) URL만 유효한 엔드포인트로 판단해야 함', () => {
+    expect(isValidLLMEndpointUrl('http://localhost:11434/v1')).toBe(true);
+    expect(isValidLLMEndpointUrl('https://vllm.internal.example.com/v1')).toBe(true);
+    expect(isValidLLMEndpointUrl('ftp://example.com')).toBe(false);
+    expect(isValidLLMEndpointUrl('not a url')).toBe(false);
+    expect(isValidLLMEndpointUrl(undefined)).toBe(false);
+  });
+
+  it('base URL에 /chat/completions를 한 번만 붙여야 함', () => {
+    expect(getChatCompletionsUrl('http://localhost:11434/v1')).toBe('http://localhost:11434/v1/chat/completions');
+    expect(getChatCompletionsUrl('http://localhost:11434/v1/')).toBe('http://localhost:11434/v1/chat/completions');
+    expect(getChatCompletionsUrl('http://gpu-box:8000/v1/chat/completions')).toBe('http://gpu-box:8000/v1/chat/completions');
+  });
+
+  it('포트를 포함한 origin 권한을 반환해야 함', () => {
+    expect(getLLMEndpointPermissionOrigins('http://localhost:11434/v1')).toEqual(['http://localhost:11434/*']);
+  });
+});
+
+describe('OpenAICompatibleClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const mockCompletion = () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: 'ok' } }] }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+
+  it('설정한 엔드포인트와 모델로 요청해야 함', async () => {
+    const fetchMock = mockCompletion();
+
+    const client = new OpenAICompatibleClient('http://localhost:11434/v1', 'llama3.1:8b');
+    const text = await client.generateText('hello');
+
+    expect(text).toBe('ok');
+    expect(client.provider).toBe('openai-compatible');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect(JSON.parse(init.body as string).model).toBe('llama3.1:8b');
+    expect(init.headers).not.toHaveProperty('Authorization');
+  });
+
+  it('API 키가 있으면 Bearer 헤더를 보내야 함', async () => {
+    const fetchMock = mockCompletion();
+
+    const client = new OpenAICompatibleClient('https://vllm.example.com/v1', 'qwen2.5-coder', 'secret');
+    await client.generateText('hello');
+
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect(init.headers).toHaveProperty('Authorization', 'Bearer secret');
+  });
+});
+
+describe('createLLMClient (openai-compatible)', () => {
+  it('API 키 없이 URL과 모델만으로 클라이언트를 생성해야 함', () => {
+    const config = {
+      provider: 'openai-compatible' as const,
+      compatibleBaseUrl: 'http://localhost:11434/v1',
+      compatibleModel: 'llama3.1:8b'
+    };
+
+    expect(isLLMConfigured(config)).toBe(true);
+    expect(createLLMClient(config)).toBeInstanceOf(OpenAICompatibleClient);
+  });
+
+  it('모델명이 없으면 클라이언트를 생성하지 않아야 함', () => {
+    const config = {
+      provider: 'openai-compatible' as const,
+      compatibleBaseUrl: 'http://localhost:11434/v1'
+    };
+
+    expect(isLLMConfigured(config)).toBe(false);
+    expect(createLLMClient(config)).toBeNull();
+  });
+});
@@ -32,6 +32,15 @@ describe('parseComment', () => {
     expect(result.category).toBe('error-handling');
   });
 
+  it('사용자 정의 카테고리의 키워드로 분류해야 함', () => {
+    const categories = [{ name: 'billing', keywords: ['invoice', 'refund'] }];
+    const result = parseComment('You should always round invoice totals before issuing a refund', categories);
+
+    expect(result.category).toBe('billing');
+    expect(result.suggestedFileName).toBe('billing');
+    expect(parseComment('You should always round invoice totals before issuing a refund').category).not.toBe('billing');
+  });
+
   it('카테고리를 올바르게 분류해야 함 - security', () => {
     const result = parseComment('You must sanitize user input to prevent XSS and SQL injection vulnerabilities');
 
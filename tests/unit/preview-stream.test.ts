@@ -0,0 +1,104 @@
+/**
+ * 미리보기 스트리밍 (부분 JSON 파싱, SSE 스트리밍 클라이언트) 단위 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { parsePartialJSON } from '../../src/utils/preview-stream';
+import { ClaudeClient } from '../../src/background/llm/claude-client';
+import { OpenAIClient } from '../../src/background/llm/openai-client';
+import { DIRECTORY_SELECTION_SCHEMA } from '../../src/background/llm/schemas';
+
+/**
+ * SSE 응답 모킹 (data 줄을 여러 청크로 나눠 전송)
+ */
+function mockEventStream(events: unknown[]) {
+  const payload = events.map(event => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`).join('');
+  const encoder = new TextEncoder();
+  const middle = Math.floor(payload.length / 2);
+
+  const fetchMock = vi.fn().mockImplementation(async () => new Response(
+    new ReadableStream({
+      start(controller) {
+        // 줄 중간에서 잘린 청크도 처리해야 함
+        controller.enqueue(encoder.encode(payload.slice(0, middle)));
+        controller.enqueue(encoder.encode(payload.slice(middle)));
+        controller.close();
+      }
+    }),
+    { status: 200, headers: { 'Content-Type': 'text/event-stream' } }
+  ));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('parsePartialJSON', () => {
+  it('열린 문자열과 괄호를 닫아 파싱해야 함', () => {
+    expect(parsePartialJSON('{"summary": "Use con')).toEqual({ summary: 'Use con' });
+    expect(parsePartialJSON('```json\n{"summary": "Use const", "codeExplanations": [{"code": "const a')).toEqual({
+      summary: 'Use const',
+      codeExplanations: [{ code: 'const a' }]
+    });
+  });
+
+  it('값이 없는 키는 버리고 마지막 완전한 속성까지 반환해야 함', () => {
+    expect(parsePartialJSON('{"summary": "Use const", "detailed')).toEqual({ summary: 'Use const' });
+    expect(parsePartialJSON('{"summary": "Use const", "reasoning": ')).toEqual({ summary: 'Use const' });
+    expect(parsePartialJSON('{"reasoning": {"keyPhrases": ["const"], "confidenceScore": tr')).toEqual({
+      reasoning: { keyPhrases: ['const'] }
+    });
+  });
+
+  it('객체 시작 전이면 undefined를 반환해야 함', () => {
+    expect(parsePartialJSON('')).toBeUndefined();
+    expect(parsePartialJSON('Sure, here')).toBeUndefined();
+  });
+});
+
+describe('LLM 스트리밍', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('OpenAI 구조화 출력을 스트리밍하고 usage 청크에서 토큰 사용량을 읽어야 함', async () => {
+    const fetchMock = mockEventStream([
+      { choices: [{ delta: { content: '{"selected": 1,' } }] },
+      { choices: [{ delta: { content: ' "reasoning": "api"}' } }] },
+      { choices: [], usage: { prompt_tokens: 40, completion_tokens: 12, total_tokens: 52 } },
+      '[DONE]'
+    ]);
+
+    const partials: string[] = [];
+    const client = new OpenAIClient('sk-test', 'gpt-4o-mini');
+    const result = await client.generateStructured('Pick one.', DIRECTORY_SELECTION_SCHEMA, {
+      onPartial: (text) => partials.push(text)
+    });
+
+    expect(partials).toEqual(['{"selected": 1,', '{"selected": 1, "reasoning": "api"}']);
+    expect(result).toEqual({
+      data: { selected: 1, reasoning: 'api' },
+      tokenUsage: { inputTokens: 40, outputTokens: 12, totalTokens: 52 }
+    });
+
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+    expect(body.stream).toBe(true);
+    expect(body.stream_options).toEqual({ include_usage: true });
+  });
+
+  it('Claude 텍스트 생성을 스트리밍해야 함', async () => {
+    mockEventStream([
+      { type: 'message_start', message: { usage: { input_tokens: 20 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ', world' } },
+      { type: 'message_delta', usage: { output_tokens: 4 } },
+      { type: 'message_stop' }
+    ]);
+
+    const partials: string[] = [];
+    const client = new ClaudeClient('sk-ant-test');
+    const text = await client.generateText('hi', { onPartial: (accumulated) => partials.push(accumulated) });
+
+    expect(text).toBe('Hello, world');
+    expect(partials).toEqual(['Hello', 'Hello, world']);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * 사용자 정의 프롬프트 템플릿 (렌더링, 저장소 override, 캐시 키 버전) 단위 테스트
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  renderAnalysisPrompt,
+  renderClassificationPrompt,
+  loadPromptTemplates,
+  parseRepoPromptTemplates,
+  mergePromptTemplates,
+  REPO_PROMPTS_PATH
+} from '../../src/background/llm/prompt-templates';
+import { PromptTemplateServiceImpl } from '../../src/background/services/prompt-template-service';
+import { llmCache } from '../../src/background/llm/cache';
+import type { ApiClient } from '../../src/background/api-client';
+import type { Repository } from '../../src/types';
+
+const repository: Repository = { owner: 'acme', name: 'web', platform: 'github', branch: 'main', prNumber: 1 };
+
+describe('프롬프트 템플릿 렌더링', () => {
+  it('코멘트, 답글, 코드 컨텍스트 변수를 치환하고 출력 형식을 덧붙여야 함', () => {
+    const prompt = renderAnalysisPrompt(
+      'Rule as imperative bullets.\n{{comment}}\n{{#codeContext}}File: {{filePath}}:{{startLine}}{{/codeContext}}\n{{#replies}}- {{author}}: {{content}}\n{{/replies}}',
+      {
+        comment: 'Use const',
+        replies: [{ author: 'bob', content: 'Agreed', createdAt: '2026-01-01' }],
+        codeContext: { filePath: 'src/a.ts', lines: 'let a = 1;', startLine: 3, endLine: 3 },
+        codeExamples: [],
+        existingKeywords: []
+      }
+    );
+
+    expect(prompt).toContain('Use const\nFile: src/a.ts:3\n- bob: Agreed');
+    expect(prompt).toContain('**Output Format (JSON):**');
+  });
+
+  it('분류 템플릿 뒤에 한 단어 응답 형식을 덧붙여야 함', () => {
+    const prompt = renderClassificationPrompt('{{comment}} ({{keywords}})', 'Run tests first', ['testing', 'ci']);
+
+    expect(prompt.startsWith('Run tests first (testing, ci)')).toBe(true);
+    expect(prompt).toContain('"instruction"');
+    expect(prompt).toContain('"skill"');
+  });
+
+  it('템플릿이 모두 비어 있으면 undefined를 반환해야 함', () => {
+    expect(loadPromptTemplates({ promptTemplateAnalysis: '  ', promptTemplateVersion: 3 })).toBeUndefined();
+    expect(loadPromptTemplates({ promptTemplateFileNaming: '{{summary}}', promptTemplateVersion: 3 })).toEqual({
+      fileNaming: '{{summary}}',
+      version: '3'
+    });
+  });
+});
+
+describe('저장소 프롬프트 override', () => {
+  it('prompts.yaml을 파싱하고 템플릿 문법 오류는 거부해야 함', () => {
+    expect(parseRepoPromptTemplates('analysis: |\n  {{comment}}\nunknown: ignored\n')).toEqual({
+      analysis: '{{comment}}\n'
+    });
+    expect(() => parseRepoPromptTemplates('classification: "{{#comment}}"')).toThrow(REPO_PROMPTS_PATH);
+  });
+
+  it('override를 병합하고 버전에 리비전을 포함해야 함', () => {
+    const merged = mergePromptTemplates(
+      { analysis: 'base', classification: 'base', version: '2' },
+      { analysis: 'repo' },
+      'abc123'
+    );
+
+    expect(merged).toEqual({ analysis: 'repo', classification: 'base', version: '2+repo:abc123' });
+    expect(mergePromptTemplates(undefined, {}, 'abc123')).toBeUndefined();
+  });
+
+  it('저장소 파일이 있으면 LLM 설정에 적용하고 없으면 그대로 반환해야 함', async () => {
+    const getFileContent = vi.fn()
+      .mockResolvedValueOnce({ path: REPO_PROMPTS_PATH, content: btoa('fileNaming: "{{summary}}"'), sha: 'deadbeefcafe1234' })
+      .mockResolvedValueOnce(null);
+    const client = { getFileContent } as unknown as ApiClient;
+    const service = new PromptTemplateServiceImpl();
+
+    const applied = await service.applyRepositoryOverrides(client, repository, { provider: 'claude' });
+    expect(getFileContent).toHaveBeenCalledWith(repository, REPO_PROMPTS_PATH);
+    expect(applied.promptTemplates).toEqual({ fileNaming: '{{summary}}', version: '0+repo:deadbeefcafe' });
+
+    const unchanged = await service.applyRepositoryOverrides(client, repository, { provider: 'claude' });
+    expect(unchanged).toEqual({ provider: 'claude' });
+  });
+});
+
+describe('캐시 키 프롬프트 버전', () => {
+  it('프롬프트 버전이 바뀌면 캐시 키도 바뀌어야 함', async () => {
+    const base = await llmCache.generateCacheKey('content', [], 'claude', 'claude-sonnet-4-5');
+    const v1 = await llmCache.generateCacheKey('content', [], 'claude', 'claude-sonnet-4-5', '1');
+    const v2 = await llmCache.generateCacheKey('content', [], 'claude', 'claude-sonnet-4-5', '2');
+
+    expect(new Set([base, v1, v2]).size).toBe(3);
+    expect(await llmCache.generateCacheKey('content', [], 'claude', 'claude-sonnet-4-5', undefined)).toBe(base);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * 규칙 항목별 출처 기록 (새 항목 수집, 기록 갱신/정리, 커밋 목록 추가) 단위 테스트
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PROVENANCE_LEDGER_PATH,
+  collectProvenance,
+  updateProvenanceLedger,
+  withProvenanceLedger
+} from '../../src/core/provenance-ledger';
+import type { ApiClient } from '../../src/background/api-client';
+import type { FileGenerationResult, ProvenanceLedger, Repository, RuleProvenance } from '../../src/types';
+
+const repository: Repository = {
+  owner: 'acme',
+  name: 'web',
+  platform: 'github',
+  prNumber: 42,
+  branch: 'main',
+  baseBranch: 'main'
+};
+
+const source: RuleProvenance = {
+  pr: 42,
+  commentId: 'c-1',
+  url: 'https://github.com/acme/web/pull/42#discussion_r1',
+  reviewer: 'alice',
+  participants: ['alice', 'bob'],
+  date: '2026-10-19'
+};
+
+const existing = '---\nstatus: active\n---\n# Naming\n\n- Use camelCase for variables\n\n```ts\n- not a rule\n```\n';
+const updated = existing.replace('- Use camelCase for variables', '- Use camelCase for variables\n- Prefix hooks with use');
+
+function ruleFile(content: string, provenance?: FileGenerationResult['provenance']): FileGenerationResult {
+  return { projectType: 'claude-code', filePath: '.claude/rules/naming.md', content, isUpdate: true, ...(provenance ? { provenance } : {}) };
+}
+
+describe('collectProvenance', () => {
+  it('기존 내용에 없던 목록 항목만 이번 출처로 기록해야 함', () => {
+    expect(collectProvenance(updated, existing, source)).toEqual([{ rule: 'Prefix hooks with use', ...source }]);
+    expect(collectProvenance(existing, undefined, source).map(entry => entry.rule)).toEqual(['Use camelCase for variables']);
+  });
+});
+
+describe('updateProvenanceLedger', () => {
+  it('파일에서 사라진 항목은 제거하고 기존 항목의 출처는 유지해야 함', () => {
+    const previous = { ...source, pr: 7, commentId: 'c-0' };
+    const ledger: ProvenanceLedger = {
+      version: 1,
+      files: {
+        '.claude/rules/naming.md': [
+          { rule: 'Use camelCase for variables', ...previous },
+          { rule: 'Use snake_case for variables', ...previous }
+        ]
+      }
+    };
+
+    const result = updateProvenanceLedger(ledger, [ruleFile(updated, collectProvenance(updated, existing, source))]);
+
+    expect(result.files['.claude/rules/naming.md']).toEqual([
+      { rule: 'Use camelCase for variables', ...previous },
+      { rule: 'Prefix hooks with use', ...source }
+    ]);
+  });
+});
+
+describe('withProvenanceLedger', () => {
+  it('저장소의 기존 기록을 읽어 갱신한 기록 파일을 커밋 목록에 추가해야 함', async () => {
+    const ledger: ProvenanceLedger = { version: 1, files: { '.claude/rules/testing.md': [{ rule: 'Mock the network', ...source }] } };
+    const getFileContent = vi.fn().mockResolvedValue({ content: btoa(JSON.stringify(ledger)), sha: 'abc' });
+    const client = { getFileContent } as unknown as ApiClient;
+    const files = [ruleFile(updated, collectProvenance(updated, existing, source))];
+
+    const result = await withProvenanceLedger(client, repository, files);
+
+    expect(getFileContent).toHaveBeenCalledWith(repository, PROVENANCE_LEDGER_PATH);
+    expect(result).toHaveLength(2);
+    expect(result[1]).toMatchObject({ filePath: PROVENANCE_LEDGER_PATH, isUpdate: true });
+    expect(Object.keys(JSON.parse(result[1].content).files)).toEqual(['.claude/rules/naming.md', '.claude/rules/testing.md']);
+  });
+
+  it('출처가 있는 파일이 없으면 그대로 반환해야 함', async () => {
+    const getFileContent = vi.fn();
+    const files = [ruleFile(existing)];
+
+    expect(await withProvenanceLedger({ getFileContent } as unknown as ApiClient, repository, files)).toBe(files);
+    expect(getFileContent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * 저장소 설정 (.review-to-instruction.yml) 단위 테스트
+ * 파싱/검증, DirectoryRules 적용, 설정 파일 로드
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseRepositoryConfig,
+  parseCategories,
+  mergeCategories,
+  resolveLanguageName,
+  REPOSITORY_CONFIG_PATH
+} from '../../src/core/repository-config';
+import { DirectoryRules } from '../../src/core/directory-rules';
+import { RepositoryConfigServiceImpl } from '../../src/background/services/repository-config-service';
+import type { ApiClient } from '../../src/background/api-client';
+import type { Repository } from '../../src/types';
+
+const repository: Repository = { owner: 'acme', name: 'web', platform: 'github', branch: 'main', prNumber: 1 };
+
+describe('parseRepositoryConfig', () => {
+  it('선언된 항목을 파싱하고 알 수 없는 키는 무시해야 함', () => {
+    const config = parseRepositoryConfig(`projectTypes: [claude-code, cursor]
+directories:
+  /payments/: [Billing, invoice]
+categories:
+  - name: Billing
+    directory: payments
+    keywords: [refund]
+    description: Billing flows
+  - name: general
+namingPattern: snake_case
+branchPrefix: rules/
+labels: documentation
+reviewers: [alice, bob]
+language: ko
+unknown: ignored
+`);
+
+    expect(config).toEqual({
+      projectTypes: ['claude-code', 'cursor'],
+      directories: { payments: ['Billing', 'invoice'] },
+      categories: [
+        { name: 'billing', directory: 'payments', keywords: ['refund'], description: 'Billing flows' },
+        { name: 'general' }
+      ],
+      namingPattern: 'snake_case',
+      branchPrefix: 'rules/',
+      labels: ['documentation'],
+      reviewers: ['alice', 'bob'],
+      language: 'ko'
+    });
+  });
+
+  it('잘못된 값은 항목별 메시지와 함께 에러를 던져야 함', () => {
+    const parse = () => parseRepositoryConfig('projectTypes: [vim]\nnamingPattern: camelCase\ncategories:\n  - directory: x\n');
+
+    expect(parse).toThrow(REPOSITORY_CONFIG_PATH);
+    expect(parse).toThrow('projectTypes');
+    expect(parse).toThrow('namingPattern');
+    expect(parse).toThrow('categories[0]');
+  });
+
+  it('Popup 카테고리 목록을 파싱하고 저장소 정의와 병합해야 함', () => {
+    const popup = parseCategories('- name: Billing\n  keywords: [invoice]\n- name: observability\n');
+
+    expect(popup).toEqual([{ name: 'billing', keywords: ['invoice'] }, { name: 'observability' }]);
+    expect(mergeCategories(popup, [{ name: 'billing', directory: 'payments' }])).toEqual([
+      { name: 'billing', directory: 'payments' },
+      { name: 'observability' }
+    ]);
+    expect(mergeCategories(undefined, [])).toBeUndefined();
+    expect(() => parseCategories('billing: true')).toThrow('categories');
+  });
+
+  it('언어 코드를 언어 이름으로 변환해야 함', () => {
+    expect(resolveLanguageName('ko')).toBe('Korean');
+    expect(resolveLanguageName('Japanese')).toBe('Japanese');
+  });
+});
+
+describe('DirectoryRules (저장소 설정)', () => {
+  it('선언된 디렉토리는 기본 키워드 규칙을 대체하고 카테고리는 기본 매핑에 추가되어야 함', () => {
+    const rules = new DirectoryRules({
+      directories: { payments: ['billing'] },
+      categories: [
+        { name: 'billing', directory: 'payments', keywords: ['Refund'] },
+        { name: 'testing', keywords: ['e2e'] },
+        { name: 'observability' }
+      ]
+    });
+
+    expect(rules.matchKeywordsToDirectory(['refund'])?.directory).toBe('payments');
+    expect(rules.matchKeywordsToDirectory(['graphql'])).toBeNull();
+    expect(rules.getCategoryDirectory('billing')).toBe('payments');
+    expect(rules.getCategoryDirectory('testing')).toBe('testing');
+    expect(rules.getCategoryDirectory('observability')).toBeNull();
+    expect(rules.getCategoryDirectory('api')).toBe('api');
+  });
+
+  it('인스턴스별 규칙 추가가 다른 인스턴스에 영향을 주지 않아야 함', () => {
+    const custom = new DirectoryRules();
+    custom.addCategoryMapping('billing', 'payments');
+
+    expect(custom.getCategoryDirectory('billing')).toBe('payments');
+    expect(new DirectoryRules().getCategoryDirectory('billing')).toBeNull();
+  });
+});
+
+describe('RepositoryConfigServiceImpl', () => {
+  it('설정 파일이 있으면 파싱하고 없으면 null을 반환해야 함', async () => {
+    const getFileContent = vi.fn()
+      .mockResolvedValueOnce({ path: REPOSITORY_CONFIG_PATH, content: btoa('branchPrefix: rules/') })
+      .mockResolvedValueOnce(null);
+    const client = { getFileContent } as unknown as ApiClient;
+    const service = new RepositoryConfigServiceImpl();
+
+    await expect(service.load(client, repository)).resolves.toEqual({ branchPrefix: 'rules/' });
+    expect(getFileContent).toHaveBeenCalledWith(repository, REPOSITORY_CONFIG_PATH);
+    await expect(service.load(client, repository)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * 새 규칙과 기존 규칙의 모순 검사 (규칙 기반 판단, LLM 분류, 교체/범위 축소) 단위 테스트
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  detectContradictions,
+  classifyRuleRelations,
+  removeRuleLines,
+  scopeRuleToPaths
+} from '../../src/core/rule-conflicts';
+import type { ILLMClient } from '../../src/background/llm/types';
+import type { ClaudeFile } from '../../src/types';
+
+function rule(path: string, content: string): ClaudeFile {
+  return { path, title: path, keywords: [], category: 'conventions', content, frontmatter: {} };
+}
+
+const naming = rule('.claude/rules/naming.md', '---\ncategory: naming\n---\n# Naming\n\n- Use camelCase everywhere\n- Name hooks with a use prefix');
+const components = rule('.claude/rules/components.md', '# Components\n\n- Name React components in PascalCase\n- Use default exports for pages');
+
+describe('detectContradictions', () => {
+  it('전체 범위 규칙과 다른 명명 규칙을 모순으로 판단해야 함', () => {
+    const conflicts = detectContradictions('Use snake_case for DB columns', [naming, components]);
+
+    expect(conflicts).toEqual([{
+      filePath: '.claude/rules/naming.md',
+      existingRule: '- Use camelCase everywhere',
+      reasoning: 'Conflicting naming convention: snake_case vs camelCase'
+    }]);
+  });
+
+  it('대상이 다른 명명 규칙은 모순이 아니고 같은 대상의 사용/금지는 모순이어야 함', () => {
+    expect(detectContradictions('Name custom hooks in camelCase', [components])).toEqual([]);
+
+    const [conflict] = detectContradictions('Never use default exports', [naming, components]);
+    expect(conflict.filePath).toBe('.claude/rules/components.md');
+    expect(conflict.existingRule).toBe('- Use default exports for pages');
+  });
+});
+
+describe('classifyRuleRelations', () => {
+  it('contradicting만 반환하고 인용한 규칙을 파일의 줄로 맞춰야 함', async () => {
+    const generateStructured = vi.fn().mockResolvedValue({
+      data: {
+        relations: [
+          { index: 0, relation: 'contradicting', existingRule: 'Use camelCase everywhere', reasoning: 'DB columns need snake_case' },
+          { index: 1, relation: 'consistent', existingRule: '- Name React components in PascalCase', reasoning: 'Different subject' },
+          { index: 5, relation: 'contradicting', existingRule: '?', reasoning: 'Out of range' }
+        ]
+      },
+      tokenUsage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 }
+    });
+    const client = { generateStructured } as unknown as ILLMClient;
+
+    const conflicts = await classifyRuleRelations(client, 'Use snake_case for DB columns', [naming, components]);
+
+    expect(conflicts).toEqual([{
+      filePath: '.claude/rules/naming.md',
+      existingRule: '- Use camelCase everywhere',
+      reasoning: 'DB columns need snake_case'
+    }]);
+    expect(generateStructured.mock.calls[0][0]).toContain('[1] .claude/rules/components.md');
+  });
+});
+
+describe('모순 해결', () => {
+  it('교체는 모순되는 줄만 지우고 찾지 못하면 null을 반환해야 함', () => {
+    const replaced = removeRuleLines(naming.content, ['- Use camelCase everywhere']);
+
+    expect(replaced).not.toContain('camelCase');
+    expect(replaced).toContain('- Name hooks with a use prefix');
+    expect(removeRuleLines(naming.content, ['- Use tabs'])).toBeNull();
+  });
+
+  it('범위 축소는 frontmatter에 paths를 추가해야 함', () => {
+    expect(scopeRuleToPaths('---\ncategory: naming\n---\n\n# DB Columns\n', 'db/migrations/**/*.sql'))
+      .toBe('---\ncategory: naming\npaths:\n  - "db/migrations/**/*.sql"\n---\n\n# DB Columns\n');
+    expect(scopeRuleToPaths('# DB Columns\n', 'db/**')).toBe('---\npaths:\n  - "db/**"\n---\n\n# DB Columns\n');
+  });
+});
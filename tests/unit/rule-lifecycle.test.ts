@@ -0,0 +1,31 @@
+/**
+ * 규칙 상태 메타데이터 (frontmatter 갱신, deprecated 표시) 단위 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { upsertFrontmatter, getRuleStatus, markSuperseded, confirmRule } from '../../src/core/rule-lifecycle';
+
+const rule = '---\ncategory: naming\nstatus: active\nsupersedes:\n  - ".claude/rules/old.md"\n---\n\n# Naming\n';
+
+describe('rule lifecycle', () => {
+  it('대체된 규칙은 deprecated와 supersededBy를 기록해야 함', () => {
+    const deprecated = markSuperseded(rule, '.claude/rules/naming-revised.md');
+
+    expect(deprecated).toBe(
+      '---\ncategory: naming\nsupersedes:\n  - ".claude/rules/old.md"\nstatus: deprecated\nsupersededBy: ".claude/rules/naming-revised.md"\n---\n\n# Naming\n'
+    );
+    expect(getRuleStatus(deprecated)).toBe('deprecated');
+    expect(getRuleStatus('# No frontmatter')).toBe('active');
+  });
+
+  it('목록 필드를 교체하고 frontmatter가 없으면 만들어야 함', () => {
+    expect(upsertFrontmatter(rule, { supersedes: ['a.md', 'b.md'] }))
+      .toContain('status: active\nsupersedes:\n  - "a.md"\n  - "b.md"\n---');
+    expect(upsertFrontmatter('# Naming\n', { status: 'active' })).toBe('---\nstatus: active\n---\n\n# Naming\n');
+  });
+
+  it('lastConfirmed는 frontmatter가 있는 파일에만 갱신해야 함', () => {
+    expect(confirmRule(rule, '2026-10-19')).toContain('lastConfirmed: "2026-10-19"\n---');
+    expect(confirmRule('# Naming\n', '2026-10-19')).toBe('# Naming\n');
+  });
+});
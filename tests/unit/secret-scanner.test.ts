@@ -0,0 +1,71 @@
+/**
+ * 커밋 전 비밀 정보 검사 (마스킹, 민감 파일 차단, 미리보기 경고) 단위 테스트
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { scanForSecrets, isSensitivePath, toValidationWarnings } from '../../src/core/secret-scanner';
+import { createPullRequestWithMultipleFiles } from '../../src/core/pr-creator';
+import type { ApiClient } from '../../src/background/api-client';
+import type { Comment, ParsedComment, Repository } from '../../src/types';
+
+const repository: Repository = { owner: 'acme', name: 'web', platform: 'github', branch: 'feature', prNumber: 7 };
+
+describe('scanForSecrets', () => {
+  it('토큰, JWT, 비밀번호 할당 값을 마스킹하고 줄 번호를 기록해야 함', () => {
+    const content = [
+      '# Use the config client',
+      '',
+      '```',
+      `const client = new Octokit({ auth: 'ghp_${'x'.repeat(36)}' });`,
+      'const db = { password: "hunter22", user: "app" };',
+      '```'
+    ].join('\n');
+
+    const { content: masked, findings } = scanForSecrets('.claude/rules/config.md', content);
+
+    expect(masked).toContain(`auth: '[REDACTED_API_KEY]'`);
+    expect(masked).toContain('password: "[REDACTED_CREDENTIAL]"');
+    expect(findings.map(f => [f.kind, f.line, f.blocked])).toEqual([
+      ['api-key', 4, false],
+      ['credential', 5, false]
+    ]);
+    expect(scanForSecrets('AGENTS.md', '- Prefer const over let').findings).toEqual([]);
+  });
+
+  it('민감 파일의 리뷰 코드가 포함되면 차단 항목으로 기록해야 함', () => {
+    const codeContext = { filePath: 'config/.env.production', lines: 'DATABASE_URL=postgres://app:pw@db/prod', startLine: 3, endLine: 3 };
+    const content = '## Reviewed Code\n\n```\nDATABASE_URL=postgres://app:pw@db/prod\n```\n';
+
+    const { findings } = scanForSecrets('.claude/rules/env.md', content, codeContext);
+
+    expect(findings).toEqual([
+      { kind: 'sensitive-path', filePath: '.claude/rules/env.md', line: 4, preview: 'config/.env.production', blocked: true }
+    ]);
+    expect(toValidationWarnings(findings)[0].type).toBe('error');
+    expect(isSensitivePath('.env.example')).toBe(false);
+    expect(isSensitivePath('deploy/certs/server.pem')).toBe(true);
+  });
+
+  it('차단 항목이 있으면 브랜치를 만들지 않고 실패해야 함', async () => {
+    const createBranch = vi.fn();
+    const client = { createBranch } as unknown as ApiClient;
+
+    const result = await createPullRequestWithMultipleFiles({
+      client,
+      repository,
+      parsedComment: { category: 'security', keywords: ['env'] } as ParsedComment,
+      originalComment: { id: '1', author: 'bob', content: 'Do not log env', url: '' } as Comment,
+      files: [{
+        projectType: 'claude-code',
+        filePath: '.claude/rules/env.md',
+        content: '...',
+        isUpdate: false,
+        secretFindings: [{ kind: 'sensitive-path', filePath: '.claude/rules/env.md', line: 4, preview: '.env', blocked: true }]
+      }]
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('sensitive file .env');
+    expect(createBranch).not.toHaveBeenCalled();
+  });
+});
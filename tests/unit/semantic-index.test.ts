@@ -0,0 +1,110 @@
+/**
+ * 의미 기반 중복 감지 (MinHash, 임베딩 인덱스 캐시, 최근접 판단) 단위 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  SemanticIndex,
+  createMinHashProvider,
+  createApiEmbeddingProvider,
+  decideSimilarity,
+  type EmbeddingIndexRecord,
+  type EmbeddingStore
+} from '../../src/core/semantic-index';
+import { OpenAIClient } from '../../src/background/llm/openai-client';
+import { Redactor } from '../../src/background/llm/redaction';
+import type { ClaudeFile } from '../../src/types';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function rule(path: string, content: string): ClaudeFile {
+  return { path, title: path, keywords: [], category: 'conventions', content, frontmatter: {} };
+}
+
+function memoryStore(): EmbeddingStore & { records: Map<string, EmbeddingIndexRecord> } {
+  const records = new Map<string, EmbeddingIndexRecord>();
+  return {
+    records,
+    get: async key => records.get(key) ?? null,
+    set: async (key, record) => { records.set(key, record); }
+  };
+}
+
+const files = [
+  rule('.claude/rules/error-handling.md', '---\ncategory: error-handling\n---\n# Error Handling\n\n- Wrap async route handlers in try/catch and return a typed error response\n- Log the original error with the request id'),
+  rule('.claude/rules/naming.md', '# Naming\n\n- Name React components in PascalCase\n- Prefix boolean props with is or has')
+];
+
+describe('SemanticIndex (로컬 MinHash)', () => {
+  it('가장 가까운 규칙을 찾고 같은 내용이면 IDENTICAL로 판단해야 함', async () => {
+    const index = await SemanticIndex.build(files, createMinHashProvider());
+
+    const same = await index.nearest(files[0].content);
+    expect(same?.file.path).toBe('.claude/rules/error-handling.md');
+    expect(same?.score).toBe(1);
+    expect(same?.decision).toBe('IDENTICAL');
+
+    const related = await index.search('Async route handlers must catch errors and return a typed error response', 2);
+    expect(related[0].file.path).toBe('.claude/rules/error-handling.md');
+    expect(related[0].score).toBeGreaterThan(related[1].score);
+
+    const unrelated = await index.nearest('Pin Docker base images to a digest in CI pipelines');
+    expect(unrelated?.decision).toBe('DIFFERENT');
+  });
+
+  it('서명은 결정적이어야 함', async () => {
+    const provider = createMinHashProvider();
+    const [a] = await provider.embed(['Prefer const over let']);
+    const [b] = await createMinHashProvider().embed(['Prefer const over let']);
+
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(128);
+  });
+});
+
+describe('임베딩 인덱스 캐시', () => {
+  it('내용이 같은 파일은 캐시된 벡터를 재사용하고 바뀐 파일만 임베딩해야 함', async () => {
+    const embed = vi.fn(async (texts: string[]) => texts.map(text => [text.length, 1]));
+    const provider = createApiEmbeddingProvider('test:model', embed);
+    const store = memoryStore();
+
+    await SemanticIndex.build(files, provider, store, 'github:acme/web@main');
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(store.records.get('github:acme/web@main|test:model')?.entries).toHaveLength(2);
+
+    const changed = [files[0], rule(files[1].path, files[1].content + '\n- Use camelCase for hooks')];
+    await SemanticIndex.build(changed, provider, store, 'github:acme/web@main');
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(embed.mock.calls[1][0]).toHaveLength(1);
+  });
+
+  it('임계값 사이 점수는 판단을 보류해야 함', () => {
+    const thresholds = { identical: 0.95, merge: 0.82, different: 0.6 };
+
+    expect(decideSimilarity(0.97, thresholds)).toBe('IDENTICAL');
+    expect(decideSimilarity(0.85, thresholds)).toBe('MERGE');
+    expect(decideSimilarity(0.7, thresholds)).toBeNull();
+    expect(decideSimilarity(0.3, thresholds)).toBe('DIFFERENT');
+  });
+});
+
+describe('OpenAI 임베딩 API', () => {
+  it('가린 입력으로 요청하고 index 순서대로 벡터를 반환해야 함', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }]
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new OpenAIClient('sk-test', 'gpt-4o-mini');
+    client.setRedactor(new Redactor());
+
+    const vectors = await client.embedTexts(['Ask ops@acme.io', 'Use const']);
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.openai.com/v1/embeddings');
+    expect(body).toEqual({ model: 'text-embedding-3-small', input: ['Ask [REDACTED_EMAIL_1]', 'Use const'] });
+    expect(vectors).toEqual([[1, 0], [0, 1]]);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Template Renderer 단위 테스트
+ * Custom Target용 Mustache 형식 템플릿 렌더링 검증
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, validateTemplate } from '../../src/core/template-renderer';
+
+describe('renderTemplate', () => {
+  it('변수와 점 표기법 경로를 치환해야 함', () => {
+    const result = renderTemplate('{{title}} - PR #{{source.pr}} by {{source.author}}{{missing}}', {
+      title: 'Naming',
+      source: { pr: 42, author: 'reviewer1' }
+    });
+
+    expect(result).toBe('Naming - PR #42 by reviewer1');
+  });
+
+  it('배열 섹션을 반복하고 단독 태그 줄은 제거해야 함', () => {
+    const template = '## Rules\n{{#rules}}\n- {{.}}\n{{/rules}}\nKeywords: {{keywords}}';
+    const result = renderTemplate(template, {
+      rules: ['Use camelCase', 'Avoid abbreviations'],
+      keywords: ['naming', 'style']
+    });
+
+    expect(result).toBe('## Rules\n- Use camelCase\n- Avoid abbreviations\nKeywords: naming, style');
+  });
+
+  it('객체 배열 항목의 필드와 역 섹션을 렌더링해야 함', () => {
+    const template = '{{#examples}}[{{label}}] {{code}}\n{{/examples}}{{^examples}}No examples{{/examples}}';
+
+    expect(renderTemplate(template, {
+      examples: [{ label: 'Correct', code: 'a()' }, { label: 'Incorrect', code: 'b()' }]
+    })).toBe('[Correct] a()\n[Incorrect] b()\n');
+    expect(renderTemplate(template, { examples: [] })).toBe('No examples');
+  });
+
+  it('닫히지 않은 섹션은 검증 에러를 반환해야 함', () => {
+    expect(validateTemplate('{{#rules}}- {{.}}')).toContain('{{#rules}}');
+    expect(validateTemplate('{{#rules}}{{/keywords}}')).toContain('{{/keywords}}');
+    expect(validateTemplate('{{! comment }}{{title}}')).toBeNull();
+    expect(() => renderTemplate('{{/rules}}', {})).toThrow();
+  });
+});
@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { calculateCost, formatCost } from '../../src/utils/token-pricing';
+import { calculateCost, calculateTotalCost, formatCost, getModelPricing } from '../../src/utils/token-pricing';
 
 describe('calculateCost', () => {
   it('Claude 토큰 비용을 올바르게 계산해야 함', () => {
@@ -66,6 +66,55 @@ describe('calculateCost', () => {
     expect(cost.usd).toBeGreaterThan(0);
     expect(cost.krw).toBeGreaterThan(0);
   });
+
+  it('Gemini 토큰 비용을 올바르게 계산해야 함', () => {
+    const cost = calculateCost(
+      { inputTokens: 1_000_000, outputTokens: 1_000_000 },
+      'gemini'
+    );
+
+    // Gemini 2.5 Flash: input $0.30/1M, output $2.50/1M
+    expect(cost.usd).toBeCloseTo(2.8, 3);
+  });
+
+  it('자체 호스팅 OpenAI 호환 엔드포인트는 비용이 0이어야 함', () => {
+    const cost = calculateCost(
+      { inputTokens: 100_000, outputTokens: 50_000 },
+      'openai-compatible'
+    );
+
+    expect(cost).toEqual({ usd: 0, krw: 0 });
+  });
+});
+
+describe('getModelPricing', () => {
+  it('날짜 접미사가 붙은 모델 ID도 가격표와 매칭해야 함', () => {
+    expect(getModelPricing('claude-haiku-4-5-20251001')).toEqual({ inputPricePerMillion: 1.0, outputPricePerMillion: 5.0 });
+    expect(getModelPricing('gpt-4-turbo-preview')).toEqual({ inputPricePerMillion: 10.0, outputPricePerMillion: 30.0 });
+  });
+
+  it('더 긴 접두사가 일치하는 모델 가격을 우선해야 함', () => {
+    expect(getModelPricing('gpt-4o-mini').inputPricePerMillion).toBe(0.15);
+    expect(getModelPricing('gpt-4o-2024-08-06').inputPricePerMillion).toBe(2.5);
+    expect(getModelPricing('gemini-2.5-flash-lite').inputPricePerMillion).toBe(0.1);
+  });
+
+  it('가격표에 없는 모델은 비용 0으로 처리해야 함', () => {
+    expect(getModelPricing('llama3.1:8b')).toEqual({ inputPricePerMillion: 0, outputPricePerMillion: 0 });
+  });
+});
+
+describe('calculateTotalCost', () => {
+  it('모델별 가격을 적용해 누적 비용을 합산해야 함', () => {
+    const cost = calculateTotalCost({
+      'claude-sonnet-4-5-20250929': { inputTokens: 1_000_000, outputTokens: 0 },
+      'claude-haiku-4-5-20251001': { inputTokens: 1_000_000, outputTokens: 0 }
+    });
+
+    // $3 + $1 = $4
+    expect(cost.usd).toBe(4);
+    expect(cost.krw).toBe(5400);
+  });
 });
 
 describe('formatCost', () => {
@@ -0,0 +1,78 @@
+/**
+ * YAML 파서 (부분집합) 단위 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseYaml } from '../../src/utils/yaml';
+
+describe('parseYaml', () => {
+  it('중첩 매핑, 시퀀스, 스칼라 타입을 파싱해야 함', () => {
+    const source = `# repo config
+language: en
+enabled: true
+maxLength: 80
+ratio: 0.5
+empty: ~
+paths:
+  rules: .claude/rules  # trailing comment
+  skills: ".claude/skills"
+labels:
+- review
+- 'docs: rules'
+reviewers: [alice, "bob"]
+`;
+
+    expect(parseYaml(source)).toEqual({
+      language: 'en',
+      enabled: true,
+      maxLength: 80,
+      ratio: 0.5,
+      empty: null,
+      paths: { rules: '.claude/rules', skills: '.claude/skills' },
+      labels: ['review', 'docs: rules'],
+      reviewers: ['alice', 'bob']
+    });
+  });
+
+  it('매핑 항목 시퀀스를 파싱해야 함', () => {
+    const source = `categories:
+  - name: api
+    keywords: [endpoint, rest]
+    directory: api
+  - name: db
+    description: Database access
+`;
+
+    expect(parseYaml(source)).toEqual({
+      categories: [
+        { name: 'api', keywords: ['endpoint', 'rest'], directory: 'api' },
+        { name: 'db', description: 'Database access' }
+      ]
+    });
+  });
+
+  it('literal/folded 블록 스칼라를 파싱해야 함', () => {
+    const source = `analysis: |
+  Review comment:
+    {{comment}}
+
+  # not a comment
+summary: >-
+  one
+  two
+
+  three
+`;
+
+    expect(parseYaml(source)).toEqual({
+      analysis: 'Review comment:\n  {{comment}}\n\n# not a comment\n',
+      summary: 'one two\nthree'
+    });
+  });
+
+  it('빈 문서는 null, 잘못된 들여쓰기는 줄 번호와 함께 에러를 던져야 함', () => {
+    expect(parseYaml('# only comments\n')).toBeNull();
+    expect(() => parseYaml('a: 1\n  b: 2\n')).toThrow('2번째 줄');
+    expect(() => parseYaml('a: "unterminated\n')).toThrow('1번째 줄');
+  });
+});